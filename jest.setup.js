@@ -0,0 +1,8 @@
+const os = require('os');
+const path = require('path');
+
+// Required settings have no defaults; tests never reach a database
+process.env.POSTGRES_PASSWORD = process.env.POSTGRES_PASSWORD || 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+process.env.AUDIO_TEMP_DIR = process.env.AUDIO_TEMP_DIR || path.join(os.tmpdir(), 'audiobook-test');
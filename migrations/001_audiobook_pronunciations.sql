@@ -0,0 +1,14 @@
+-- Per-project pronunciation lexicon
+CREATE TABLE IF NOT EXISTS prose.audiobook_pronunciations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL,
+  word TEXT NOT NULL,
+  respelling TEXT,
+  ipa TEXT,
+  case_sensitive BOOLEAN NOT NULL DEFAULT FALSE,
+  whole_word BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT audiobook_pronunciations_word_unique UNIQUE (project_id, word),
+  CONSTRAINT audiobook_pronunciations_has_pronunciation CHECK (respelling IS NOT NULL OR ipa IS NOT NULL)
+);
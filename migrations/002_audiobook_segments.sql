@@ -0,0 +1,52 @@
+-- Persisted segments so generation survives crashes and can be resumed.
+-- Segment ids are built from client chapter ids, so they are only unique within a project.
+CREATE TABLE IF NOT EXISTS prose.audiobook_segments (
+  project_id UUID NOT NULL,
+  id TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  chapter_id TEXT NOT NULL,
+  sequence_number INTEGER NOT NULL,
+  paragraph_number INTEGER NOT NULL DEFAULT 1,
+  segment_type TEXT NOT NULL,
+  character_name TEXT,
+  attribution_confidence NUMERIC(3, 2),
+  text_content TEXT NOT NULL,
+  emotion_detected TEXT,
+  emotion_intensity NUMERIC(3, 2),
+  emotion_locked BOOLEAN NOT NULL DEFAULT FALSE,
+  performance JSONB,
+  normalization_changes JSONB,
+  -- The voice assignment the segment was rendered for, so reassigning a voice re-renders it
+  voice_fingerprint TEXT,
+  -- The voice that spoke the segment, for per-voice speaking-rate profiles
+  voice_id TEXT,
+  audio_url TEXT,
+  audio_format TEXT,
+  -- Measured from the decoded audio
+  duration_seconds NUMERIC(10, 3),
+  sample_rate INTEGER,
+  channels SMALLINT,
+  channel_layout TEXT,
+  silence_before_seconds NUMERIC(6, 3),
+  silence_after_seconds NUMERIC(6, 3),
+  -- Word timings, and where the speech starts in the assembled chapter
+  alignment JSONB,
+  speech_offset_seconds NUMERIC(10, 3),
+  provider TEXT,
+  cost_dollars NUMERIC(10, 4),
+  status TEXT NOT NULL DEFAULT 'pending',
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audiobook_segments_project_order
+  ON prose.audiobook_segments (project_id, position);
+
+CREATE INDEX IF NOT EXISTS idx_audiobook_segments_project_status
+  ON prose.audiobook_segments (project_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_audiobook_segments_voice
+  ON prose.audiobook_segments (voice_id)
+  WHERE status = 'complete';
@@ -0,0 +1,43 @@
+-- Content-addressed cache of synthesized audio, shared across projects
+CREATE TABLE IF NOT EXISTS prose.audiobook_synthesis_cache (
+  cache_key TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  voice_id TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  audio_format TEXT NOT NULL,
+  byte_size BIGINT NOT NULL,
+  -- Measured from the decoded audio
+  duration_seconds NUMERIC(10, 3) NOT NULL,
+  sample_rate INTEGER,
+  channels SMALLINT,
+  channel_layout TEXT,
+  cost_dollars NUMERIC(10, 4) NOT NULL,
+  pauses_rendered BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Provider word timings, so cache hits keep them
+  word_timings JSONB,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audiobook_synthesis_cache_last_used
+  ON prose.audiobook_synthesis_cache (last_used_at);
+
+-- Which projects have used each entry, for per-project purge
+CREATE TABLE IF NOT EXISTS prose.audiobook_synthesis_cache_projects (
+  project_id UUID NOT NULL,
+  cache_key TEXT NOT NULL REFERENCES prose.audiobook_synthesis_cache (cache_key) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (project_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audiobook_synthesis_cache_projects_key
+  ON prose.audiobook_synthesis_cache_projects (cache_key);
+
+CREATE TABLE IF NOT EXISTS prose.audiobook_synthesis_cache_stats (
+  project_id UUID PRIMARY KEY,
+  hits INTEGER NOT NULL DEFAULT 0,
+  misses INTEGER NOT NULL DEFAULT 0,
+  dollars_saved NUMERIC(12, 4) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,12 @@
+-- Assembled audio per chapter; stale chapters are re-assembled after their segments change
+CREATE TABLE IF NOT EXISTS prose.audiobook_chapter_audio (
+  project_id UUID NOT NULL,
+  chapter_id TEXT NOT NULL,
+  title TEXT, -- the manuscript's chapter title, for chapter markers
+  audio_url TEXT,
+  duration_seconds NUMERIC(10, 3),
+  segment_count INTEGER,
+  stale BOOLEAN NOT NULL DEFAULT TRUE,
+  assembled_at TIMESTAMPTZ,
+  PRIMARY KEY (project_id, chapter_id)
+);
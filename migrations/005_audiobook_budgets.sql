@@ -0,0 +1,20 @@
+-- Spend per generation run and month, for run caps and tenant monthly caps
+CREATE TABLE IF NOT EXISTS prose.audiobook_run_spend (
+  run_id TEXT NOT NULL,
+  month DATE NOT NULL,
+  project_id UUID NOT NULL,
+  tenant_id TEXT,
+  cost_dollars NUMERIC(12, 4) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (run_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audiobook_run_spend_tenant_month
+  ON prose.audiobook_run_spend (tenant_id, month);
+
+-- Per-tenant monthly caps; tenants without a row use TENANT_MONTHLY_CAP_DOLLARS
+CREATE TABLE IF NOT EXISTS prose.audiobook_tenant_budgets (
+  tenant_id TEXT PRIMARY KEY,
+  monthly_cap_dollars NUMERIC(12, 2),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
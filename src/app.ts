@@ -2,15 +2,19 @@
  * Express Application Configuration
  */
 
-import express, { Application, Request, Response } from 'express';
+import express, { Application, NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
+import { Pool } from 'pg';
 import { logger } from './utils/logger';
 import { config } from './config';
 import { usageTrackingMiddleware } from './middleware/usage-tracking';
+import { createApiRoutes } from './routes';
+import JobQueue from './services/JobQueue';
+import TTSOrchestrator from './services/TTSOrchestrator';
 
-export function createApp(): Application {
+export function createApp(db: Pool, jobQueue: JobQueue, orchestrator: TTSOrchestrator): Application {
   const app = express();
 
   // Security middleware
@@ -32,18 +36,19 @@ export function createApp(): Application {
   // Usage tracking middleware (after body parsing)
   app.use(usageTrackingMiddleware);
 
-  // Health check endpoint
+  // Health check endpoint; open circuits degrade generation but not the service
   app.get('/audiobook/health', (_req: Request, res: Response) => {
     res.status(200).json({
       status: 'healthy',
       service: config.server.serviceName,
       timestamp: new Date().toISOString(),
-      version: '1.0.0'
+      version: '1.0.0',
+      provider_circuits: orchestrator.getCircuitStatus()
     });
   });
 
-  // API routes would be added here
-  // app.use('/audiobook/api', apiRoutes);
+  // API routes
+  app.use('/audiobook/api', createApiRoutes(db, jobQueue, orchestrator));
 
   // 404 handler
   app.use((req: Request, res: Response) => {
@@ -54,7 +59,7 @@ export function createApp(): Application {
   });
 
   // Error handler
-  app.use((err: Error, req: Request, res: Response, _next: Function) => {
+  app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
     logger.error('Unhandled error', { error: err, path: req.path });
     res.status(500).json({
       error: 'Internal Server Error',
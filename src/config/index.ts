@@ -20,11 +20,27 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return value ? parseInt(value, 10) : defaultValue;
 }
 
+function getEnvFloat(key: string, defaultValue: number): number {
+  const value = process.env[key];
+  return value ? parseFloat(value) : defaultValue;
+}
+
 function getEnvBoolean(key: string, defaultValue: boolean): boolean {
   const value = process.env[key];
   return value ? value.toLowerCase() === 'true' : defaultValue;
 }
 
+/**
+ * Per-provider rate limits; 0 disables a limit
+ */
+function getRateLimits(prefix: string, concurrency: number) {
+  return {
+    requestsPerSecond: getEnvFloat(`${prefix}_RATE_LIMIT_RPS`, 0),
+    concurrency: getEnvNumber(`${prefix}_RATE_LIMIT_CONCURRENCY`, concurrency),
+    charactersPerMinute: getEnvNumber(`${prefix}_RATE_LIMIT_CHARS_PER_MINUTE`, 0)
+  };
+}
+
 export const config = {
   server: {
     env: getEnv('NODE_ENV', 'production'),
@@ -47,22 +63,57 @@ export const config = {
   },
 
   tts: {
+    // Providers to load from the registry, in preference order
+    providers: getEnv('TTS_PROVIDERS', 'elevenlabs,playht,xtts'),
+    // Times a request still rate limited after the client's retries is tried again on the same provider
+    rateLimitRetries: getEnvNumber('TTS_RATE_LIMIT_RETRIES', 5),
+    // Limits for providers without rate limits of their own, e.g. ones registered outside this package
+    defaultRateLimit: getRateLimits('TTS', 2),
     elevenlabs: {
       apiKey: getEnv('ELEVENLABS_API_KEY', ''),
       modelId: getEnv('ELEVENLABS_MODEL_ID', 'eleven_multilingual_v2'),
       baseUrl: getEnv('ELEVENLABS_BASE_URL', 'https://api.elevenlabs.io/v1'),
-      costPer1K: getEnvNumber('ELEVENLABS_COST_PER_1K', 0.30)
+      costPer1K: getEnvNumber('ELEVENLABS_COST_PER_1K', 0.30),
+      maxCharsPerRequest: getEnvNumber('ELEVENLABS_MAX_CHARS', 2500),
+      rateLimit: getRateLimits('ELEVENLABS', 5)
     },
     xtts: {
       baseUrl: getEnv('XTTS_BASE_URL', 'http://nexus-xtts:8000'),
       enabled: getEnvBoolean('XTTS_ENABLED', true),
-      costPer1K: getEnvNumber('XTTS_COST_PER_1K', 0.00)
+      costPer1K: getEnvNumber('XTTS_COST_PER_1K', 0.00),
+      maxCharsPerRequest: getEnvNumber('XTTS_MAX_CHARS', 250),
+      rateLimit: getRateLimits('XTTS', 2)
+    },
+    local: {
+      // espeak-ng | piper | tone | silence
+      engine: getEnv('LOCAL_TTS_ENGINE', 'tone'),
+      binary: getEnv('LOCAL_TTS_BINARY', ''),
+      piperModelDir: getEnv('PIPER_MODEL_DIR', '/app/models/piper'),
+      voices: getEnv('LOCAL_TTS_VOICES', 'en-us,en-gb'),
+      wordsPerMinute: getEnvNumber('LOCAL_TTS_WORDS_PER_MINUTE', 150),
+      timeoutMs: getEnvNumber('LOCAL_TTS_TIMEOUT_MS', 60000),
+      maxCharsPerRequest: getEnvNumber('LOCAL_TTS_MAX_CHARS', 1000),
+      rateLimit: getRateLimits('LOCAL_TTS', 2)
+    },
+    openai: {
+      apiKey: getEnv('OPENAI_TTS_API_KEY', ''),
+      baseUrl: getEnv('OPENAI_TTS_BASE_URL', 'https://api.openai.com/v1'),
+      model: getEnv('OPENAI_TTS_MODEL', 'tts-1'),
+      // id[:gender[:accent]], comma separated
+      voices: getEnv('OPENAI_TTS_VOICES', 'alloy:neutral,echo:male,fable:male:british,onyx:male,nova:female,shimmer:female'),
+      responseFormat: getEnv('OPENAI_TTS_RESPONSE_FORMAT', 'mp3'),
+      qualityTier: getEnv('OPENAI_TTS_QUALITY_TIER', 'high'),
+      costPer1K: getEnvFloat('OPENAI_TTS_COST_PER_1K', 0.015),
+      maxCharsPerRequest: getEnvNumber('OPENAI_TTS_MAX_CHARS', 4096),
+      rateLimit: getRateLimits('OPENAI_TTS', 5)
     },
     playht: {
       apiKey: getEnv('PLAYHT_API_KEY', ''),
       userId: getEnv('PLAYHT_USER_ID', ''),
       baseUrl: getEnv('PLAYHT_BASE_URL', 'https://api.play.ht/api/v2'),
-      costPer1K: getEnvNumber('PLAYHT_COST_PER_1K', 0.20)
+      costPer1K: getEnvNumber('PLAYHT_COST_PER_1K', 0.20),
+      maxCharsPerRequest: getEnvNumber('PLAYHT_MAX_CHARS', 2000),
+      rateLimit: getRateLimits('PLAYHT', 5)
     }
   },
 
@@ -72,14 +123,91 @@ export const config = {
     normalizationLUFS: getEnvNumber('AUDIO_NORMALIZATION_LUFS', -23),
     sampleRate: getEnvNumber('AUDIO_SAMPLE_RATE', 44100),
     bitrate: getEnv('AUDIO_BITRATE', '128k'),
+    paragraphPauseSeconds: getEnvFloat('AUDIO_PARAGRAPH_PAUSE_SECONDS', 0.75),
     format: getEnv('AUDIO_FORMAT', 'mp3')
   },
 
+  attribution: {
+    minConfidence: getEnvFloat('ATTRIBUTION_MIN_CONFIDENCE', 0.5)
+  },
+
+  voices: {
+    fallbacksPerProvider: getEnvNumber('VOICE_FALLBACKS_PER_PROVIDER', 2)
+  },
+
+  routing: {
+    defaultPolicy: getEnv('ROUTING_POLICY', 'fallback_chain'),
+    // Optional per-quality overrides of the default policy
+    qualityPolicies: {
+      standard: getEnv('ROUTING_POLICY_STANDARD', ''),
+      high: getEnv('ROUTING_POLICY_HIGH', ''),
+      premium: getEnv('ROUTING_POLICY_PREMIUM', '')
+    },
+    fallbackChain: getEnv('ROUTING_FALLBACK_CHAIN', 'elevenlabs,playht'),
+    healthTtlMs: getEnvNumber('ROUTING_HEALTH_TTL_MS', 60000)
+  },
+
+  budget: {
+    // Fractions of the cap at which a run warns
+    warnThresholds: getEnv('BUDGET_WARN_THRESHOLDS', '0.5,0.8,0.95'),
+    // stop | downgrade
+    onExceeded: getEnv('BUDGET_ON_EXCEEDED', 'stop'),
+    // 0 means tenants have no monthly cap unless one is set through the API
+    tenantMonthlyCapDollars: getEnvFloat('TENANT_MONTHLY_CAP_DOLLARS', 0)
+  },
+
+  estimate: {
+    // Speaking rate for voices without enough rendered audio to measure their own
+    defaultWordsPerMinute: getEnvNumber('ESTIMATE_WORDS_PER_MINUTE', 150),
+    // Rendered words a voice needs before its measured rate is trusted
+    minProfileWords: getEnvNumber('ESTIMATE_MIN_PROFILE_WORDS', 500)
+  },
+
+  epub: {
+    // sentence | paragraph: what media overlays highlight as it is narrated
+    overlayGranularity: getEnv('EPUB_OVERLAY_GRANULARITY', 'sentence')
+  },
+
+  circuitBreaker: {
+    enabled: getEnvBoolean('CIRCUIT_BREAKER_ENABLED', true),
+    failureThreshold: getEnvNumber('CIRCUIT_BREAKER_FAILURE_THRESHOLD', 5),
+    // Error rate over the last windowSize requests, once minRequests have been seen
+    errorRate: getEnvFloat('CIRCUIT_BREAKER_ERROR_RATE', 0.5),
+    windowSize: getEnvNumber('CIRCUIT_BREAKER_WINDOW_SIZE', 20),
+    minRequests: getEnvNumber('CIRCUIT_BREAKER_MIN_REQUESTS', 10),
+    openMs: getEnvNumber('CIRCUIT_BREAKER_OPEN_MS', 30000)
+  },
+
+  cache: {
+    enabled: getEnvBoolean('SYNTHESIS_CACHE_ENABLED', true),
+    dir: getEnv('SYNTHESIS_CACHE_DIR', '/app/cache'),
+    maxBytes: getEnvNumber('SYNTHESIS_CACHE_MAX_MB', 10240) * 1024 * 1024,
+    maxAgeDays: getEnvNumber('SYNTHESIS_CACHE_MAX_AGE_DAYS', 90),
+    evictIntervalMs: getEnvNumber('SYNTHESIS_CACHE_EVICT_INTERVAL_MS', 300000)
+  },
+
+  normalization: {
+    enabled: getEnvBoolean('NORMALIZATION_ENABLED', true),
+    locale: getEnv('NORMALIZATION_LOCALE', 'en-US')
+  },
+
   concurrency: {
     maxConcurrentGenerations: getEnvNumber('MAX_CONCURRENT_GENERATIONS', 10),
     batchSize: getEnvNumber('BATCH_SIZE', 10)
   },
 
+  jobs: {
+    keyPrefix: getEnv('JOB_KEY_PREFIX', 'audiobook:jobs'),
+    leaseMs: getEnvNumber('JOB_LEASE_MS', 60000),
+    heartbeatMs: getEnvNumber('JOB_HEARTBEAT_MS', 15000),
+    pollIntervalMs: getEnvNumber('JOB_POLL_INTERVAL_MS', 2000),
+    maxAttempts: getEnvNumber('JOB_MAX_ATTEMPTS', 3),
+    backoffBaseMs: getEnvNumber('JOB_BACKOFF_BASE_MS', 30000),
+    backoffMaxMs: getEnvNumber('JOB_BACKOFF_MAX_MS', 900000),
+    // How long succeeded, failed and cancelled jobs are kept (7 days)
+    retentionSeconds: getEnvNumber('JOB_RETENTION_SECONDS', 604800)
+  },
+
   logging: {
     level: getEnv('LOG_LEVEL', 'info'),
     format: getEnv('LOG_FORMAT', 'json')
@@ -94,7 +222,9 @@ export const config = {
 
   auth: {
     jwtSecret: getEnv('JWT_SECRET'),
-    jwtExpiry: getEnv('JWT_EXPIRY', '24h')
+    jwtExpiry: getEnv('JWT_EXPIRY', '24h'),
+    // Bearer of admin-only endpoints such as tenant budgets; unset disables them
+    adminToken: getEnv('ADMIN_API_TOKEN', '')
   },
 
   rateLimit: {
@@ -5,12 +5,18 @@
 import { createServer } from 'http';
 import { WebSocketServer } from 'ws';
 import { Pool } from 'pg';
+import Redis from 'ioredis';
 import { createApp } from './app';
 import { config } from './config';
 import { logger } from './utils/logger';
 import { flushPendingReports } from './middleware/usage-tracking';
+import JobQueue from './services/JobQueue';
+import GenerationWorker from './services/GenerationWorker';
+import TTSOrchestrator from './services/TTSOrchestrator';
 
 let dbPool: Pool | null = null;
+let redisClient: Redis | null = null;
+let worker: GenerationWorker | null = null;
 
 /**
  * Initialize PostgreSQL connection
@@ -43,6 +49,30 @@ async function initializeDatabase(): Promise<Pool> {
   return pool;
 }
 
+/**
+ * Initialize Redis connection for the job queue
+ */
+async function initializeRedis(): Promise<Redis> {
+  logger.info('Initializing Redis connection...');
+
+  const redis = new Redis({
+    host: config.redis.host,
+    port: config.redis.port,
+    password: config.redis.password || undefined,
+    db: config.redis.db
+  });
+
+  try {
+    await redis.ping();
+    logger.info('✓ Redis connection established');
+  } catch (error) {
+    logger.error('✗ Redis connection failed', { error });
+    throw error;
+  }
+
+  return redis;
+}
+
 /**
  * Start HTTP and WebSocket servers
  */
@@ -91,10 +121,21 @@ async function shutdown(signal: string): Promise<void> {
   logger.info(`${signal} signal received. Starting graceful shutdown...`);
 
   try {
+    // Hand running jobs back to the queue for other instances
+    if (worker) {
+      await worker.stop();
+      logger.info('✓ Generation worker stopped');
+    }
+
     // Flush pending usage reports
     await flushPendingReports();
     logger.info('✓ Usage reports flushed');
 
+    if (redisClient) {
+      await redisClient.quit();
+      logger.info('✓ Redis connection closed');
+    }
+
     if (dbPool) {
       await dbPool.end();
       logger.info('✓ PostgreSQL pool closed');
@@ -116,12 +157,23 @@ async function main(): Promise<void> {
     // Initialize database
     dbPool = await initializeDatabase();
 
+    // Initialize job queue
+    redisClient = await initializeRedis();
+    const jobQueue = new JobQueue(redisClient);
+
+    // API and worker share one orchestrator so the health endpoint sees the worker's circuits
+    const orchestrator = new TTSOrchestrator(dbPool);
+
     // Create Express app
-    const app = createApp();
+    const app = createApp(dbPool, jobQueue, orchestrator);
 
     // Start servers
     await startServers(app);
 
+    // Start processing generation jobs
+    worker = new GenerationWorker(jobQueue, orchestrator);
+    worker.start();
+
     // Register shutdown handlers
     process.on('SIGTERM', () => shutdown('SIGTERM'));
     process.on('SIGINT', () => shutdown('SIGINT'));
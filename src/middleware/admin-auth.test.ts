@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import { requireAdmin } from './admin-auth';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+function call(token?: string) {
+  const req = { method: 'PUT', originalUrl: '/tenants/acme/budget', header: () => token } as unknown as Request;
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() } as unknown as Response;
+  const next = jest.fn();
+
+  requireAdmin(req, res, next);
+  return { res, next };
+}
+
+describe('requireAdmin', () => {
+  const configured = config.auth.adminToken;
+
+  beforeEach(() => jest.spyOn(logger, 'warn').mockImplementation(() => logger));
+  afterEach(() => {
+    config.auth.adminToken = configured;
+    jest.restoreAllMocks();
+  });
+
+  it('lets the configured token through', () => {
+    config.auth.adminToken = 'secret';
+
+    expect(call('secret').next).toHaveBeenCalled();
+  });
+
+  it.each([undefined, '', 'secre', 'secret2'])('rejects token %p', token => {
+    config.auth.adminToken = 'secret';
+    const { res, next } = call(token);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('stays closed without a configured token', () => {
+    config.auth.adminToken = '';
+
+    expect(call('').next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Admin Auth Middleware
+ * Guards endpoints only operators may call, such as setting tenant budgets
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { sendError } from '../routes/responses';
+
+/**
+ * Let the request through only with the configured admin token in
+ * `X-Admin-Token`. Without ADMIN_API_TOKEN set, admin endpoints are closed.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const token = req.header('x-admin-token');
+
+  if (!config.auth.adminToken || !token || !sameToken(token, config.auth.adminToken)) {
+    logger.warn('Rejected admin request', { method: req.method, path: req.originalUrl });
+    sendError(res, 403, 'FORBIDDEN', 'Admin token required');
+    return;
+  }
+  next();
+}
+
+/**
+ * Compare digests, so neither the comparison time nor a length mismatch leaks the token
+ */
+function sameToken(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { requireUuidParams } from './validate-params';
+
+function call(params: Record<string, string>) {
+  const req = { params } as unknown as Request;
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() } as unknown as Response;
+  const next = jest.fn();
+
+  requireUuidParams('projectId', 'entryId')(req, res, next);
+  return { res, next };
+}
+
+describe('requireUuidParams', () => {
+  const uuid = '3f1c2a9e-8b4d-4e6f-9a1b-2c3d4e5f6a7b';
+
+  it('lets UUID params through', () => {
+    expect(call({ projectId: uuid, entryId: uuid }).next).toHaveBeenCalled();
+  });
+
+  it.each(['p1', '../x', `${uuid}x`])('refuses id %p with a 400', id => {
+    const { res, next } = call({ projectId: uuid, entryId: id });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.objectContaining({ code: 'INVALID_REQUEST', details: { fieldErrors: { entryId: ['Invalid uuid'] } } })
+    }));
+  });
+});
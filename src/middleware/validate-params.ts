@@ -0,0 +1,27 @@
+/**
+ * Route Param Validation Middleware
+ * Ids in the path go into UUID columns, so malformed ones are refused up front
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import { sendError } from '../routes/responses';
+
+const uuidSchema = z.string().uuid();
+
+/**
+ * Answer 400 INVALID_REQUEST unless each named route param is a UUID
+ */
+export function requireUuidParams(...names: string[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const invalid = names.filter(name => !uuidSchema.safeParse(req.params[name]).success);
+
+    if (invalid.length > 0) {
+      sendError(res, 400, 'INVALID_REQUEST', 'Request validation failed', {
+        fieldErrors: Object.fromEntries(invalid.map(name => [name, ['Invalid uuid']]))
+      });
+      return;
+    }
+    next();
+  };
+}
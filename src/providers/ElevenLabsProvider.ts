@@ -4,18 +4,46 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
+import FormData from 'form-data';
 import axiosRetry from 'axios-retry';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { wrapProviderError } from '../utils/providerError';
+import { rateLimiterFor } from '../utils/rateLimiter';
+import { probeAudio } from '../utils/audioProbe';
+import { timedWordsFromCharacters } from '../utils/alignment';
+import { spokenLength } from '../utils/textRewrite';
 import {
   Voice,
   VoiceSettings,
   EmotionContext,
+  PerformanceDirectives,
   GeneratedAudio,
   TTSGenerationParams,
-  ClonedVoice
+  ClonedVoice,
+  CloneVoiceParams,
+  ProviderCapabilities,
+  ProviderCostModel,
+  SpeechProvider
 } from '../types';
 
+interface TimestampedSpeech {
+  audio_base64: string;
+  alignment: {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+  } | null;
+}
+
+const PHONEME_MODELS = ['eleven_monolingual_v1', 'eleven_turbo_v2', 'eleven_flash_v2'];
+
+// Languages of eleven_multilingual_v2
+const LANGUAGES = [
+  'en', 'ja', 'zh', 'de', 'hi', 'fr', 'ko', 'pt', 'it', 'es', 'id', 'nl', 'tr', 'fil', 'pl',
+  'sv', 'bg', 'ro', 'ar', 'cs', 'el', 'fi', 'hr', 'ms', 'sk', 'da', 'ta', 'uk', 'ru'
+];
+
 export interface ElevenLabsVoice {
   voice_id: string;
   name: string;
@@ -25,18 +53,21 @@ export interface ElevenLabsVoice {
   preview_url?: string;
 }
 
-export class ElevenLabsProvider {
+export class ElevenLabsProvider implements SpeechProvider {
+  readonly name = 'elevenlabs' as const;
   private client: AxiosInstance;
   private apiKey: string;
   private modelId: string;
   private baseUrl: string;
   private costPer1K: number;
+  private maxCharsPerRequest: number;
 
   constructor() {
     this.apiKey = config.tts.elevenlabs.apiKey;
     this.modelId = config.tts.elevenlabs.modelId;
     this.baseUrl = config.tts.elevenlabs.baseUrl;
     this.costPer1K = config.tts.elevenlabs.costPer1K;
+    this.maxCharsPerRequest = config.tts.elevenlabs.maxCharsPerRequest;
 
     this.client = axios.create({
       baseURL: this.baseUrl,
@@ -47,29 +78,38 @@ export class ElevenLabsProvider {
       timeout: 60000 // 60 seconds
     });
 
-    // Retry on network errors and 5xx responses
+    // Quota headers first, so the retry delay sees any pause they set
+    const limiter = rateLimiterFor('elevenlabs');
+    limiter.attach(this.client);
+
+    // Retry on network errors, 429 after the provider's requested wait, and 5xx responses
     axiosRetry(this.client, {
       retries: 3,
-      retryDelay: axiosRetry.exponentialDelay,
+      retryDelay: (retryCount, error) => limiter.retryDelay(retryCount, error),
       retryCondition: (error) => {
         return axiosRetry.isNetworkOrIdempotentRequestError(error) ||
+               error.response?.status === 429 ||
                (error.response?.status ?? 0) >= 500;
       }
     });
   }
 
   /**
-   * Generate speech from text using ElevenLabs API
+   * Usable once an API key is configured
+   */
+  isEnabled(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  /**
+   * Generate speech from text using ElevenLabs API.
+   * The with-timestamps endpoint returns character timings with the audio at no extra cost.
    */
-  async generateSpeech(params: TTSGenerationParams): Promise<GeneratedAudio> {
-    const { text, voice_id, settings, emotion } = params;
+  async generateSpeech(params: TTSGenerationParams, signal?: AbortSignal): Promise<GeneratedAudio> {
+    const { text, voice_id, emotion, performance } = params;
 
     try {
-      // Apply emotion modulation to voice settings
-      const adjustedSettings = this.applyEmotionModulation(
-        settings || this.getDefaultSettings(),
-        emotion
-      );
+      const pausesRendered = this.canRenderPauses(performance);
 
       logger.info('Generating speech with ElevenLabs', {
         voice_id,
@@ -77,28 +117,20 @@ export class ElevenLabsProvider {
         emotion: emotion?.type
       });
 
-      const response = await this.client.post(
-        `/text-to-speech/${voice_id}`,
-        {
-          text,
-          model_id: params.model || this.modelId,
-          voice_settings: adjustedSettings
-        },
-        {
-          responseType: 'arraybuffer',
-          headers: {
-            'Accept': 'audio/mpeg'
-          }
-        }
+      const response = await this.client.post<TimestampedSpeech>(
+        `/text-to-speech/${voice_id}/with-timestamps`,
+        this.buildRequestBody(params),
+        { signal }
       );
 
-      const audioBuffer = Buffer.from(response.data);
-      const duration = await this.estimateDuration(text);
-      const cost = this.calculateCost(text.length);
+      const { audio_base64, alignment } = response.data;
+      const audioBuffer = Buffer.from(audio_base64, 'base64');
+      const properties = await probeAudio(audioBuffer, 'mp3');
+      const cost = this.calculateCost(spokenLength(text));
 
       logger.info('Speech generated successfully', {
         voice_id,
-        duration,
+        duration: properties.duration,
         cost,
         size_kb: (audioBuffer.length / 1024).toFixed(2)
       });
@@ -106,14 +138,20 @@ export class ElevenLabsProvider {
       return {
         audio_data: audioBuffer,
         format: 'mp3',
-        duration,
+        ...properties,
         provider: 'elevenlabs',
-        cost
+        cost,
+        pauses_rendered: pausesRendered,
+        word_timings: alignment ? timedWordsFromCharacters(
+          alignment.characters,
+          alignment.character_start_times_seconds,
+          alignment.character_end_times_seconds
+        ) : undefined
       };
 
     } catch (error) {
       logger.error('ElevenLabs speech generation failed', { error, voice_id });
-      throw new Error(`ElevenLabs generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw wrapProviderError('ElevenLabs generation failed', error);
     }
   }
 
@@ -149,18 +187,15 @@ export class ElevenLabsProvider {
   /**
    * Clone a voice from audio samples
    */
-  async cloneVoice(
-    name: string,
-    audioSamples: Buffer[],
-    description?: string
-  ): Promise<ClonedVoice> {
+  async cloneVoice(params: CloneVoiceParams): Promise<ClonedVoice> {
+    const { name, samples: audioSamples, description } = params;
+
     try {
       logger.info('Cloning voice with ElevenLabs', {
         name,
         sample_count: audioSamples.length
       });
 
-      const FormData = require('form-data');
       const formData = new FormData();
 
       formData.append('name', name);
@@ -196,6 +231,35 @@ export class ElevenLabsProvider {
     }
   }
 
+  /**
+   * The exact request generateSpeech sends, used as synthesis cache key material
+   */
+  describeSynthesis(params: TTSGenerationParams): Record<string, unknown> {
+    return {
+      provider: 'elevenlabs',
+      voice_id: params.voice_id,
+      ...this.buildRequestBody(params)
+    };
+  }
+
+  /**
+   * Request body with emotion modulation and performance directions applied
+   */
+  private buildRequestBody(params: TTSGenerationParams): Record<string, unknown> {
+    const { text, settings, emotion, performance } = params;
+
+    const adjustedSettings = this.applyPerformance(
+      this.applyEmotionModulation(settings || this.getDefaultSettings(), emotion),
+      performance
+    );
+
+    return {
+      text: this.renderPerformanceText(text, performance, this.canRenderPauses(performance)),
+      model_id: params.model || this.modelId,
+      voice_settings: adjustedSettings
+    };
+  }
+
   /**
    * Apply emotion modulation to voice settings
    */
@@ -248,6 +312,76 @@ export class ElevenLabsProvider {
     return modulated;
   }
 
+  /**
+   * Apply delivery style and speaking rate from performance markup
+   */
+  private applyPerformance(
+    baseSettings: VoiceSettings,
+    performance?: PerformanceDirectives
+  ): VoiceSettings {
+    if (!performance) return baseSettings;
+
+    const adjusted = { ...baseSettings };
+
+    switch (performance.delivery) {
+      case 'whisper':
+        adjusted.stability = Math.min(0.95, baseSettings.stability + 0.2);
+        adjusted.style = Math.max(0, (baseSettings.style ?? 0.5) - 0.3);
+        adjusted.use_speaker_boost = false;
+        break;
+      case 'shout':
+        adjusted.stability = Math.max(0.25, baseSettings.stability - 0.2);
+        adjusted.style = Math.min(1.0, (baseSettings.style ?? 0.5) + 0.3);
+        adjusted.use_speaker_boost = true;
+        break;
+      default:
+        break;
+    }
+
+    // Settings cover the whole request, so emphasis livens the segment rather than single words
+    if (performance.emphasis?.length) {
+      adjusted.stability = Math.max(0.25, adjusted.stability - 0.1);
+      adjusted.style = Math.min(1.0, (adjusted.style ?? 0.5) + 0.15);
+    }
+
+    if (performance.rate !== undefined) {
+      // ElevenLabs accepts speed between 0.7 and 1.2
+      adjusted.speed = Math.max(0.7, Math.min(1.2, performance.rate));
+    }
+
+    return adjusted;
+  }
+
+  /**
+   * Break tags are limited to 3 seconds; longer pauses are left to assembly
+   */
+  private canRenderPauses(performance?: PerformanceDirectives): boolean {
+    const before = performance?.pause_before_seconds ?? 0;
+    const after = performance?.pause_after_seconds ?? 0;
+    return before <= 3 && after <= 3;
+  }
+
+  /**
+   * Render pauses as break tags; the spoken words are left as written
+   */
+  private renderPerformanceText(
+    text: string,
+    performance: PerformanceDirectives | undefined,
+    renderPauses: boolean
+  ): string {
+    if (!performance) return text;
+
+    let rendered = text;
+    if (renderPauses && performance.pause_before_seconds) {
+      rendered = `<break time="${performance.pause_before_seconds}s" /> ${rendered}`;
+    }
+    if (renderPauses && performance.pause_after_seconds) {
+      rendered = `${rendered} <break time="${performance.pause_after_seconds}s" />`;
+    }
+
+    return rendered;
+  }
+
   /**
    * Get default voice settings
    */
@@ -307,21 +441,41 @@ export class ElevenLabsProvider {
   }
 
   /**
-   * Estimate audio duration from text length
-   * Average speaking rate: 150 words per minute
+   * Calculate cost based on character count
    */
-  private async estimateDuration(text: string): Promise<number> {
-    const wordCount = text.split(/\s+/).length;
-    const wordsPerMinute = 150;
-    const durationMinutes = wordCount / wordsPerMinute;
-    return Math.ceil(durationMinutes * 60); // Convert to seconds
+  private calculateCost(characterCount: number): number {
+    return (characterCount / 1000) * this.costPer1K;
   }
 
   /**
-   * Calculate cost based on character count
+   * Phoneme tags are only honoured by the English v1, Turbo v2 and Flash v2 models
    */
-  private calculateCost(characterCount: number): number {
-    return (characterCount / 1000) * this.costPer1K;
+  supportsPhonemeTags(model?: string): boolean {
+    return PHONEME_MODELS.includes(model || this.modelId);
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: true,
+      timestamps: true,
+      emphasis: 'segment',
+      voice_cloning: true,
+      max_chars_per_request: this.maxCharsPerRequest,
+      languages: LANGUAGES,
+      output_formats: ['mp3'],
+      quality_tier: 'premium'
+    };
+  }
+
+  getCostModel(): ProviderCostModel {
+    return { per_1k_characters: this.costPer1K };
+  }
+
+  /**
+   * Maximum characters accepted in a single ElevenLabs request
+   */
+  getMaxCharsPerRequest(): number {
+    return this.maxCharsPerRequest;
   }
 
   /**
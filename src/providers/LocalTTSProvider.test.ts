@@ -0,0 +1,194 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import LocalTTSProvider from './LocalTTSProvider';
+import { encodeWav, wavInfo } from '../utils/wav';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { ProviderError } from '../utils/providerError';
+import { TTSGenerationParams } from '../types';
+
+describe('LocalTTSProvider with the tone engine', () => {
+  const provider = new LocalTTSProvider();
+  const wordSeconds = 60 / config.tts.local.wordsPerMinute;
+
+  it('renders WAV timed like speech, for free', async () => {
+    const audio = await provider.generateSpeech({ text: 'The train was late again today.', voice_id: 'en-gb' });
+
+    expect(wavInfo(audio.audio_data)).not.toBeNull();
+    expect(audio).toMatchObject({ format: 'wav', provider: 'local', cost: 0 });
+    expect(audio.duration).toBeCloseTo(6 * wordSeconds, 2);
+  });
+
+  it('renders the same text and voice identically', async () => {
+    const params = { text: 'Exactly the same.', voice_id: 'en-us' };
+    const [first, second] = [await provider.generateSpeech(params), await provider.generateSpeech(params)];
+
+    expect(first.audio_data.equals(second.audio_data)).toBe(true);
+  });
+});
+
+describe('LocalTTSProvider with the silence engine', () => {
+  const local = { ...config.tts.local };
+
+  beforeEach(() => { config.tts.local.engine = 'silence'; });
+  afterEach(() => { Object.assign(config.tts.local, local); });
+
+  it('renders silence timed like speech at the markup rate', async () => {
+    const provider = new LocalTTSProvider();
+    const audio = await provider.generateSpeech({
+      text: 'Four words of silence.',
+      voice_id: 'en-us',
+      performance: { rate: 2 }
+    } as TTSGenerationParams);
+
+    expect(wavInfo(audio.audio_data)).not.toBeNull();
+    expect(audio.audio_data.subarray(44).every(byte => byte === 0)).toBe(true);
+    expect(audio.duration).toBeCloseTo((4 * 60) / (config.tts.local.wordsPerMinute * 2), 2);
+  });
+});
+
+type Run = (args: string[], input?: string, signal?: AbortSignal) => Promise<Buffer>;
+
+describe('LocalTTSProvider with the piper engine', () => {
+  const local = { ...config.tts.local };
+  let modelDir: string;
+  let run: jest.SpyInstance<ReturnType<Run>, Parameters<Run>>;
+
+  beforeEach(async () => {
+    modelDir = await fs.mkdtemp(path.join(os.tmpdir(), 'piper-models-'));
+    await fs.writeFile(path.join(modelDir, 'en_GB-alan-low.onnx'), '');
+    Object.assign(config.tts.local, { engine: 'piper', binary: 'piper', piperModelDir: modelDir });
+
+    // Piper writes its WAV to the file named by --output_file
+    run = jest.spyOn(LocalTTSProvider.prototype as unknown as { run: Run }, 'run').mockImplementation(async args => {
+      await fs.writeFile(args[args.indexOf('--output_file') + 1], encodeWav(new Int16Array(22050), 22050));
+      return Buffer.alloc(0);
+    });
+  });
+
+  afterEach(async () => {
+    Object.assign(config.tts.local, local);
+    jest.restoreAllMocks();
+    await fs.rm(modelDir, { recursive: true, force: true });
+  });
+
+  it('refuses voices that are not installed models without running piper', async () => {
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+    const provider = new LocalTTSProvider();
+
+    for (const voice_id of ['../../etc/passwd', `${modelDir}/en_GB-alan-low`, 'en_US-amy-low']) {
+      await expect(provider.generateSpeech({ text: 'Hello.', voice_id })).rejects.toThrow('Unknown Piper voice');
+    }
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('passes the model, output file and length scale, and removes the output file', async () => {
+    const provider = new LocalTTSProvider();
+
+    const audio = await provider.generateSpeech({
+      text: 'Hello there.',
+      voice_id: 'en_GB-alan-low',
+      performance: { rate: 1.25 }
+    } as TTSGenerationParams);
+
+    const [args, input] = run.mock.calls[0];
+    const outputFile = args[args.indexOf('--output_file') + 1];
+    expect(args).toEqual([
+      '--model', path.join(modelDir, 'en_GB-alan-low.onnx'),
+      '--output_file', outputFile,
+      '--length_scale', '0.8'
+    ]);
+    expect(input).toBe('Hello there.');
+    expect(audio.duration).toBeCloseTo(1, 3);
+    await expect(fs.access(outputFile)).rejects.toThrow();
+  });
+
+  it('lists the installed models as voices', async () => {
+    await fs.writeFile(path.join(modelDir, 'en_GB-alan-low.onnx.json'), '{}');
+
+    expect((await new LocalTTSProvider().listVoices()).map(voice => voice.id)).toEqual(['en_GB-alan-low']);
+  });
+});
+
+describe('LocalTTSProvider with the espeak-ng engine', () => {
+  const local = { ...config.tts.local };
+  const speech = encodeWav(new Int16Array(22050), 22050);
+
+  beforeEach(() => {
+    Object.assign(config.tts.local, { engine: 'espeak-ng', binary: '' });
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    Object.assign(config.tts.local, local);
+    jest.restoreAllMocks();
+  });
+
+  it.each([[1, '175'], [0.8, '140'], [1.5, '263']])('maps rate %p to -s %s words per minute', async (rate, wpm) => {
+    const run = jest.spyOn(LocalTTSProvider.prototype as unknown as { run: Run }, 'run').mockResolvedValue(speech);
+
+    const audio = await new LocalTTSProvider().generateSpeech({
+      text: 'Read this aloud.',
+      voice_id: 'en-gb',
+      performance: { rate }
+    } as TTSGenerationParams);
+
+    expect(run).toHaveBeenCalledWith(['--stdin', '--stdout', '-v', 'en-gb', '-s', wpm], 'Read this aloud.', undefined);
+    expect(audio).toMatchObject({ format: 'wav', provider: 'local', cost: 0 });
+  });
+
+  it('wraps engine failures as provider errors and reports the engine unhealthy', async () => {
+    jest.spyOn(LocalTTSProvider.prototype as unknown as { run: Run }, 'run')
+      .mockRejectedValue(new Error('espeak-ng exited with code 1: unknown voice'));
+    const provider = new LocalTTSProvider();
+
+    const failure = provider.generateSpeech({ text: 'Hello.', voice_id: 'xx' });
+
+    await expect(failure).rejects.toBeInstanceOf(ProviderError);
+    await expect(failure).rejects.toThrow('Local generation failed: espeak-ng exited with code 1: unknown voice');
+    expect(await provider.healthCheck()).toBe(false);
+  });
+
+  describe('running the binary', () => {
+    let binDir: string;
+
+    // An engine that never finishes on its own
+    beforeEach(async () => {
+      binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-tts-bin-'));
+      const binary = path.join(binDir, 'slow-engine');
+      await fs.writeFile(binary, '#!/bin/sh\nexec sleep 30\n', { mode: 0o755 });
+      config.tts.local.binary = binary;
+    });
+
+    afterEach(async () => {
+      await fs.rm(binDir, { recursive: true, force: true });
+    });
+
+    it('kills the engine when the signal aborts', async () => {
+      const controller = new AbortController();
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(new LocalTTSProvider().generateSpeech({ text: 'Hello.', voice_id: 'en-us' }, controller.signal))
+        .rejects.toThrow('aborted');
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it('does not start the engine for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      await fs.rm(config.tts.local.binary);
+
+      await expect(new LocalTTSProvider().generateSpeech({ text: 'Hello.', voice_id: 'en-us' }, controller.signal))
+        .rejects.toThrow('slow-engine aborted');
+    });
+
+    it('kills the engine once it runs past the timeout', async () => {
+      config.tts.local.timeoutMs = 50;
+
+      await expect(new LocalTTSProvider().generateSpeech({ text: 'Hello.', voice_id: 'en-us' }))
+        .rejects.toThrow('timed out after 50ms');
+    });
+  });
+});
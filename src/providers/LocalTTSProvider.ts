@@ -0,0 +1,311 @@
+/**
+ * Local TTS Provider
+ * Offline synthesis for air-gapped and CI environments, through espeak-ng or
+ * Piper run as a subprocess, or deterministic tone/silence placeholder audio
+ */
+
+import { spawn } from 'child_process';
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { wrapProviderError } from '../utils/providerError';
+import { encodeWav } from '../utils/wav';
+import { probeAudio } from '../utils/audioProbe';
+import {
+  Voice,
+  GeneratedAudio,
+  TTSGenerationParams,
+  ClonedVoice,
+  ProviderCapabilities,
+  ProviderCostModel,
+  SpeechProvider
+} from '../types';
+
+export type LocalEngine = 'espeak-ng' | 'piper' | 'tone' | 'silence';
+
+const ENGINES: LocalEngine[] = ['espeak-ng', 'piper', 'tone', 'silence'];
+
+// Placeholder audio is small and only needs to be decodable
+const PLACEHOLDER_SAMPLE_RATE = 22050;
+const ESPEAK_BASE_WPM = 175;
+
+export class LocalTTSProvider implements SpeechProvider {
+  readonly name = 'local' as const;
+  private engine: LocalEngine;
+  private binary: string;
+  private piperModelDir: string;
+  private voices: string[];
+  private wordsPerMinute: number;
+  private timeoutMs: number;
+  private maxCharsPerRequest: number;
+
+  constructor() {
+    const engine = config.tts.local.engine as LocalEngine;
+    if (!ENGINES.includes(engine)) {
+      throw new Error(`Unknown local TTS engine: ${engine}`);
+    }
+
+    this.engine = engine;
+    this.binary = config.tts.local.binary || engine;
+    this.piperModelDir = config.tts.local.piperModelDir;
+    this.voices = config.tts.local.voices.split(',').map(v => v.trim()).filter(Boolean);
+    this.wordsPerMinute = config.tts.local.wordsPerMinute;
+    this.timeoutMs = config.tts.local.timeoutMs;
+    this.maxCharsPerRequest = config.tts.local.maxCharsPerRequest;
+  }
+
+  /**
+   * Always available once loaded; nothing to configure remotely
+   */
+  isEnabled(): boolean {
+    return true;
+  }
+
+  /**
+   * Render speech with the configured engine
+   */
+  async generateSpeech(params: TTSGenerationParams, signal?: AbortSignal): Promise<GeneratedAudio> {
+    const { text, voice_id } = params;
+
+    try {
+      logger.info('Generating speech locally', {
+        engine: this.engine,
+        voice_id,
+        text_length: text.length
+      });
+
+      const audioBuffer = await this.render(params, signal);
+      const properties = await probeAudio(audioBuffer, 'wav');
+
+      return {
+        audio_data: audioBuffer,
+        format: 'wav',
+        ...properties,
+        provider: 'local',
+        cost: 0
+      };
+
+    } catch (error) {
+      logger.error('Local speech generation failed', { error, engine: this.engine, voice_id });
+      throw wrapProviderError('Local generation failed', error);
+    }
+  }
+
+  /**
+   * The engine and inputs that determine the output, used as synthesis cache key material
+   */
+  describeSynthesis(params: TTSGenerationParams): Record<string, unknown> {
+    return {
+      provider: 'local',
+      engine: this.engine,
+      voice_id: params.voice_id,
+      text: params.text,
+      rate: params.performance?.rate ?? 1.0
+    };
+  }
+
+  /**
+   * Configured voices, or the Piper models installed in PIPER_MODEL_DIR
+   */
+  async listVoices(): Promise<Voice[]> {
+    const voiceIds = this.engine === 'piper' ? await this.piperVoiceIds() : this.voices;
+
+    return voiceIds.map(id => ({
+      id,
+      name: id,
+      provider: 'local',
+      gender: 'neutral',
+      age_range: '20-35',
+      accent: this.accentFor(id),
+      descriptors: ['synthetic']
+    }));
+  }
+
+  async cloneVoice(): Promise<ClonedVoice> {
+    throw new Error('Local TTS voice cloning is not supported');
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: false,
+      timestamps: false,
+      emphasis: 'none',
+      voice_cloning: false,
+      max_chars_per_request: this.maxCharsPerRequest,
+      languages: ['en'],
+      output_formats: ['wav'],
+      quality_tier: 'standard'
+    };
+  }
+
+  getCostModel(): ProviderCostModel {
+    return { per_1k_characters: 0 };
+  }
+
+  /**
+   * Local engines have no phoneme markup; lexicon entries are sent as respellings
+   */
+  supportsPhonemeTags(): boolean {
+    return false;
+  }
+
+  getMaxCharsPerRequest(): number {
+    return this.maxCharsPerRequest;
+  }
+
+  /**
+   * Placeholder modes are always healthy; engines must run `--version`
+   */
+  async healthCheck(): Promise<boolean> {
+    if (this.engine === 'tone' || this.engine === 'silence') {
+      return true;
+    }
+
+    try {
+      await this.run(['--version']);
+      return true;
+    } catch (error) {
+      logger.error('Local TTS health check failed', { error, engine: this.engine });
+      return false;
+    }
+  }
+
+  private async render(params: TTSGenerationParams, signal?: AbortSignal): Promise<Buffer> {
+    const rate = params.performance?.rate ?? 1.0;
+
+    switch (this.engine) {
+      case 'espeak-ng':
+        return this.run(
+          ['--stdin', '--stdout', '-v', params.voice_id, '-s', String(Math.round(ESPEAK_BASE_WPM * rate))],
+          params.text,
+          signal
+        );
+      case 'piper':
+        return this.renderPiper(params.text, params.voice_id, rate, signal);
+      case 'tone':
+      case 'silence':
+        return this.renderPlaceholder(params.text, params.voice_id, rate);
+    }
+  }
+
+  /**
+   * Models installed in PIPER_MODEL_DIR, by file name without `.onnx`
+   */
+  private async piperVoiceIds(): Promise<string[]> {
+    const files = await fs.readdir(this.piperModelDir).catch(() => [] as string[]);
+    return files.filter(file => file.endsWith('.onnx')).map(file => file.replace(/\.onnx$/, ''));
+  }
+
+  /**
+   * Piper writes WAV to a file; stdout output is headerless PCM.
+   * The voice must be an installed model, so it cannot name a path outside the model directory.
+   */
+  private async renderPiper(text: string, voiceId: string, rate: number, signal?: AbortSignal): Promise<Buffer> {
+    if (!(await this.piperVoiceIds()).includes(voiceId)) {
+      throw new Error(`Unknown Piper voice: ${voiceId}`);
+    }
+
+    const outputPath = path.join(os.tmpdir(), `piper_${randomUUID()}.wav`);
+
+    try {
+      await this.run(
+        [
+          '--model', path.join(this.piperModelDir, `${voiceId}.onnx`),
+          '--output_file', outputPath,
+          '--length_scale', String(1 / rate)
+        ],
+        text,
+        signal
+      );
+      return await fs.readFile(outputPath);
+    } finally {
+      await fs.rm(outputPath, { force: true });
+    }
+  }
+
+  /**
+   * Deterministic audio timed like speech: one tone burst per word, pitched by
+   * voice so speakers can be told apart, or plain silence
+   */
+  private renderPlaceholder(text: string, voiceId: string, rate: number): Buffer {
+    const words = text.split(/\s+/).filter(Boolean);
+    const wordSeconds = 60 / (this.wordsPerMinute * rate);
+    const wordSamples = Math.round(wordSeconds * PLACEHOLDER_SAMPLE_RATE);
+    const samples = new Int16Array(Math.max(words.length, 1) * wordSamples);
+
+    if (this.engine === 'tone') {
+      const frequency = 180 + (createHash('sha256').update(voiceId).digest().readUInt16BE(0) % 200);
+      const toneSamples = Math.round(wordSamples * 0.7);
+
+      for (let w = 0; w < words.length; w++) {
+        for (let i = 0; i < toneSamples; i++) {
+          const t = i / PLACEHOLDER_SAMPLE_RATE;
+          samples[w * wordSamples + i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * 6000);
+        }
+      }
+    }
+
+    return encodeWav(samples, PLACEHOLDER_SAMPLE_RATE);
+  }
+
+  /**
+   * Run the engine binary, feeding text on stdin, and collect stdout.
+   * Aborting the signal kills the engine.
+   */
+  private run(args: string[], input?: string, signal?: AbortSignal): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(`${this.binary} aborted`));
+        return;
+      }
+
+      const child = spawn(this.binary, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`${this.binary} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        child.kill('SIGKILL');
+        reject(new Error(`${this.binary} aborted`));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+      child.on('error', error => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        if (code === 0) {
+          resolve(Buffer.concat(stdout));
+        } else {
+          reject(new Error(`${this.binary} exited with code ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+        }
+      });
+
+      // The engine may exit before reading all input; its exit code reports why
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(input ?? '');
+    });
+  }
+
+  private accentFor(voiceId: string): string {
+    if (/en[-_]gb/i.test(voiceId)) return 'british';
+    if (/en[-_]us/i.test(voiceId)) return 'american';
+    return 'neutral';
+  }
+}
+
+export default LocalTTSProvider;
@@ -0,0 +1,132 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { encodeWav } from '../utils/wav';
+import { isRateLimited, statusOf } from '../utils/providerError';
+import type { Logger } from 'winston';
+import type OpenAICompatibleProvider from './OpenAICompatibleProvider';
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: Record<string, unknown> | null;
+}
+
+/**
+ * A local stand-in for an OpenAI-style speech server. The status it answers
+ * /audio/speech with can be changed per test.
+ */
+function startMockServer(): Promise<{ server: http.Server; received: ReceivedRequest[]; speechStatus: { code: number } }> {
+  const received: ReceivedRequest[] = [];
+  const speechStatus = { code: 200 };
+  const speech = encodeWav(new Int16Array(24000), 24000); // one second of silence
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      received.push({
+        method: req.method!,
+        url: req.url!,
+        authorization: req.headers.authorization,
+        body: raw ? JSON.parse(raw) : null
+      });
+
+      if (req.url === '/v1/models') {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"data":[]}');
+      } else if (req.url === '/v1/audio/speech' && speechStatus.code === 200) {
+        res.writeHead(200, { 'Content-Type': 'audio/wav' }).end(speech);
+      } else {
+        res.writeHead(speechStatus.code, { 'Retry-After': '0' }).end('{"error":{"message":"nope"}}');
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve({ server, received, speechStatus })));
+}
+
+describe('OpenAICompatibleProvider against a mock server', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+  let provider: OpenAICompatibleProvider;
+  let logger: Logger;
+
+  beforeAll(async () => {
+    mock = await startMockServer();
+    const { port } = mock.server.address() as AddressInfo;
+
+    // Config is read on import, so the provider is loaded once the server has a port
+    process.env.OPENAI_TTS_BASE_URL = `http://127.0.0.1:${port}/v1`;
+    process.env.OPENAI_TTS_API_KEY = 'test-key';
+    process.env.OPENAI_TTS_RESPONSE_FORMAT = 'wav';
+    process.env.OPENAI_TTS_COST_PER_1K = '0.015';
+    process.env.OPENAI_TTS_VOICES = 'alloy,fable:male:british';
+    const { default: Provider } = await import('./OpenAICompatibleProvider');
+    ({ logger } = await import('../utils/logger'));
+    provider = new Provider();
+  });
+
+  afterAll(done => {
+    mock.server.close(done);
+  });
+
+  beforeEach(() => {
+    mock.received.length = 0;
+    mock.speechStatus.code = 200;
+    // Failed requests are logged with the whole axios error; the assertions cover them
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends the speech request and measures the audio it gets back', async () => {
+    const audio = await provider.generateSpeech({
+      text: 'Hello there.',
+      voice_id: 'alloy',
+      performance: { rate: 9 }
+    });
+
+    expect(mock.received).toEqual([{
+      method: 'POST',
+      url: '/v1/audio/speech',
+      authorization: 'Bearer test-key',
+      body: { model: 'tts-1', input: 'Hello there.', voice: 'alloy', response_format: 'wav', speed: 4 }
+    }]);
+    expect(audio).toMatchObject({ format: 'wav', provider: 'openai', duration: 1, sample_rate: 24000 });
+    expect(audio.cost).toBeCloseTo((12 / 1000) * 0.015);
+  });
+
+  it('lists the configured voices', async () => {
+    expect((await provider.listVoices()).map(voice => [voice.id, voice.gender, voice.accent])).toEqual([
+      ['alloy', 'neutral', 'american'],
+      ['fable', 'male', 'british']
+    ]);
+  });
+
+  it('checks health against the models endpoint', async () => {
+    expect(await provider.healthCheck()).toBe(true);
+    expect(mock.received.map(request => request.url)).toEqual(['/v1/models']);
+  });
+
+  it('keeps the HTTP status of a failed request', async () => {
+    mock.speechStatus.code = 401;
+
+    const error = await provider.generateSpeech({ text: 'Hi.', voice_id: 'alloy' }).catch(caught => caught);
+
+    expect(error.message).toMatch(/^OpenAI-compatible generation failed:/);
+    expect(statusOf(error)).toBe(401);
+    expect(isRateLimited(error)).toBe(false);
+    expect(mock.received).toHaveLength(1);
+    expect(logger.error).toHaveBeenCalledWith('OpenAI-compatible speech generation failed', expect.anything());
+  });
+
+  it('retries a 429 and reports it as a rate limit when it persists', async () => {
+    mock.speechStatus.code = 429;
+
+    const error = await provider.generateSpeech({ text: 'Hi.', voice_id: 'alloy' }).catch(caught => caught);
+
+    expect(isRateLimited(error)).toBe(true);
+    expect(mock.received).toHaveLength(4);
+  }, 20000);
+});
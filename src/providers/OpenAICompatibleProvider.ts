@@ -0,0 +1,228 @@
+/**
+ * OpenAI-Compatible TTS Provider
+ * Any server implementing POST /audio/speech: OpenAI itself or self-hosted compatible servers
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import axiosRetry from 'axios-retry';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { wrapProviderError } from '../utils/providerError';
+import { rateLimiterFor } from '../utils/rateLimiter';
+import { probeAudio } from '../utils/audioProbe';
+import {
+  Voice,
+  GeneratedAudio,
+  TTSGenerationParams,
+  ClonedVoice,
+  ProviderCapabilities,
+  ProviderCostModel,
+  SpeechProvider,
+  AudioQuality
+} from '../types';
+
+type ResponseFormat = 'mp3' | 'wav';
+
+const RESPONSE_FORMATS: ResponseFormat[] = ['mp3', 'wav'];
+
+// The API accepts speeds from 0.25 to 4.0
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 4.0;
+
+export class OpenAICompatibleProvider implements SpeechProvider {
+  readonly name = 'openai' as const;
+  private client: AxiosInstance;
+  private baseUrl: string;
+  private model: string;
+  private voices: Voice[];
+  private responseFormat: ResponseFormat;
+  private qualityTier: AudioQuality;
+  private costPer1K: number;
+  private maxCharsPerRequest: number;
+
+  constructor() {
+    const responseFormat = config.tts.openai.responseFormat as ResponseFormat;
+    if (!RESPONSE_FORMATS.includes(responseFormat)) {
+      throw new Error(`Unsupported OpenAI TTS response format: ${responseFormat}`);
+    }
+
+    this.baseUrl = config.tts.openai.baseUrl;
+    this.model = config.tts.openai.model;
+    this.voices = this.parseVoices(config.tts.openai.voices);
+    this.responseFormat = responseFormat;
+    this.qualityTier = config.tts.openai.qualityTier as AudioQuality;
+    this.costPer1K = config.tts.openai.costPer1K;
+    this.maxCharsPerRequest = config.tts.openai.maxCharsPerRequest;
+
+    this.client = axios.create({
+      baseURL: this.baseUrl,
+      headers: {
+        // Self-hosted servers often run without a key
+        ...(config.tts.openai.apiKey ? { 'Authorization': `Bearer ${config.tts.openai.apiKey}` } : {}),
+        'Content-Type': 'application/json'
+      },
+      timeout: 60000
+    });
+
+    // Quota headers first, so the retry delay sees any pause they set
+    const limiter = rateLimiterFor('openai');
+    limiter.attach(this.client);
+
+    // Retry on network errors, 429 after the provider's requested wait, and 5xx responses
+    axiosRetry(this.client, {
+      retries: 3,
+      retryDelay: (retryCount, error) => limiter.retryDelay(retryCount, error),
+      retryCondition: (error) => {
+        return axiosRetry.isNetworkOrIdempotentRequestError(error) ||
+               error.response?.status === 429 ||
+               (error.response?.status ?? 0) >= 500;
+      }
+    });
+  }
+
+  /**
+   * Usable once a base URL is configured; the API key is optional
+   */
+  isEnabled(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  /**
+   * Generate speech through the /audio/speech endpoint
+   */
+  async generateSpeech(params: TTSGenerationParams, signal?: AbortSignal): Promise<GeneratedAudio> {
+    const { text, voice_id } = params;
+
+    try {
+      logger.info('Generating speech with OpenAI-compatible API', {
+        base_url: this.baseUrl,
+        voice_id,
+        text_length: text.length
+      });
+
+      const response = await this.client.post('/audio/speech', this.buildRequestBody(params), {
+        responseType: 'arraybuffer',
+        signal
+      });
+
+      const audioBuffer = Buffer.from(response.data);
+      const properties = await probeAudio(audioBuffer, this.responseFormat);
+      const cost = this.calculateCost(text.length);
+
+      logger.info('OpenAI-compatible speech generated successfully', {
+        voice_id,
+        duration: properties.duration,
+        cost,
+        size_kb: (audioBuffer.length / 1024).toFixed(2)
+      });
+
+      return {
+        audio_data: audioBuffer,
+        format: this.responseFormat,
+        ...properties,
+        provider: 'openai',
+        cost
+      };
+
+    } catch (error) {
+      logger.error('OpenAI-compatible speech generation failed', { error, voice_id });
+      throw wrapProviderError('OpenAI-compatible generation failed', error);
+    }
+  }
+
+  /**
+   * The exact request generateSpeech sends, used as synthesis cache key material
+   */
+  describeSynthesis(params: TTSGenerationParams): Record<string, unknown> {
+    return { provider: 'openai', base_url: this.baseUrl, ...this.buildRequestBody(params) };
+  }
+
+  private buildRequestBody(params: TTSGenerationParams): Record<string, unknown> {
+    const speed = params.performance?.rate ?? params.settings?.speed ?? 1.0;
+
+    return {
+      model: params.model || this.model,
+      input: params.text,
+      voice: params.voice_id,
+      response_format: this.responseFormat,
+      speed: Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed))
+    };
+  }
+
+  /**
+   * Voices come from OPENAI_TTS_VOICES; the API has no voice listing endpoint
+   */
+  async listVoices(): Promise<Voice[]> {
+    return this.voices;
+  }
+
+  async cloneVoice(): Promise<ClonedVoice> {
+    throw new Error('OpenAI-compatible voice cloning is not supported');
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: false,
+      timestamps: false,
+      emphasis: 'none',
+      voice_cloning: false,
+      max_chars_per_request: this.maxCharsPerRequest,
+      languages: ['en'],
+      output_formats: [this.responseFormat],
+      quality_tier: this.qualityTier
+    };
+  }
+
+  getCostModel(): ProviderCostModel {
+    return { per_1k_characters: this.costPer1K };
+  }
+
+  /**
+   * The speech API takes plain text; lexicon entries are sent as respellings
+   */
+  supportsPhonemeTags(): boolean {
+    return false;
+  }
+
+  getMaxCharsPerRequest(): number {
+    return this.maxCharsPerRequest;
+  }
+
+  /**
+   * Health check against the models endpoint
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await this.client.get('/models');
+      return response.status === 200;
+    } catch (error) {
+      logger.error('OpenAI-compatible health check failed', { error, base_url: this.baseUrl });
+      return false;
+    }
+  }
+
+  /**
+   * Parse `id[:gender[:accent]]` entries
+   */
+  private parseVoices(spec: string): Voice[] {
+    return spec.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const [id, gender = 'neutral', accent = 'american'] = entry.split(':').map(part => part.trim());
+
+      return {
+        id,
+        name: id,
+        provider: 'openai',
+        gender: gender === 'male' || gender === 'female' ? gender : 'neutral',
+        age_range: '20-35',
+        accent,
+        descriptors: []
+      };
+    });
+  }
+
+  private calculateCost(characterCount: number): number {
+    return (characterCount / 1000) * this.costPer1K;
+  }
+}
+
+export default OpenAICompatibleProvider;
@@ -7,12 +7,26 @@ import axios, { AxiosInstance } from 'axios';
 import axiosRetry from 'axios-retry';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { wrapProviderError } from '../utils/providerError';
+import { rateLimiterFor } from '../utils/rateLimiter';
+import { probeAudio } from '../utils/audioProbe';
 import {
   Voice,
   GeneratedAudio,
-  TTSGenerationParams
+  PerformanceDirectives,
+  TTSGenerationParams,
+  ClonedVoice,
+  ProviderCapabilities,
+  ProviderCostModel,
+  SpeechProvider
 } from '../types';
 
+// Languages with PlayHT 2.0 voices
+const LANGUAGES = [
+  'en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'pl', 'ru', 'ja', 'ko', 'zh', 'ar',
+  'hi', 'tr', 'sv', 'da', 'no', 'fi', 'el', 'he', 'cs', 'hu', 'ro', 'uk'
+];
+
 export interface PlayHTVoice {
   id: string;
   name: string;
@@ -29,18 +43,21 @@ export interface PlayHTVoice {
   sample?: string;
 }
 
-export class PlayHTProvider {
+export class PlayHTProvider implements SpeechProvider {
+  readonly name = 'playht' as const;
   private client: AxiosInstance;
   private apiKey: string;
   private userId: string;
   private baseUrl: string;
   private costPer1K: number;
+  private maxCharsPerRequest: number;
 
   constructor() {
     this.apiKey = config.tts.playht.apiKey;
     this.userId = config.tts.playht.userId;
     this.baseUrl = config.tts.playht.baseUrl;
     this.costPer1K = config.tts.playht.costPer1K;
+    this.maxCharsPerRequest = config.tts.playht.maxCharsPerRequest;
 
     this.client = axios.create({
       baseURL: this.baseUrl,
@@ -52,22 +69,34 @@ export class PlayHTProvider {
       timeout: 60000
     });
 
-    // Retry configuration
+    // Quota headers first, so the retry delay sees any pause they set
+    const limiter = rateLimiterFor('playht');
+    limiter.attach(this.client);
+
+    // Retry on network errors, 429 after the provider's requested wait, and 5xx responses
     axiosRetry(this.client, {
       retries: 3,
-      retryDelay: axiosRetry.exponentialDelay,
+      retryDelay: (retryCount, error) => limiter.retryDelay(retryCount, error),
       retryCondition: (error) => {
         return axiosRetry.isNetworkOrIdempotentRequestError(error) ||
+               error.response?.status === 429 ||
                (error.response?.status ?? 0) >= 500;
       }
     });
   }
 
+  /**
+   * Usable once API credentials are configured
+   */
+  isEnabled(): boolean {
+    return Boolean(this.apiKey && this.userId);
+  }
+
   /**
    * Generate speech from text
    */
-  async generateSpeech(params: TTSGenerationParams): Promise<GeneratedAudio> {
-    const { text, voice_id, settings } = params;
+  async generateSpeech(params: TTSGenerationParams, signal?: AbortSignal): Promise<GeneratedAudio> {
+    const { text, voice_id } = params;
 
     try {
       logger.info('Generating speech with PlayHT', {
@@ -76,32 +105,26 @@ export class PlayHTProvider {
       });
 
       // PlayHT uses a two-step process: request generation, then poll for completion
-      const generationResponse = await this.client.post('/tts', {
-        text,
-        voice: voice_id,
-        quality: settings?.use_speaker_boost ? 'premium' : 'standard',
-        output_format: 'mp3',
-        speed: 1.0,
-        sample_rate: config.audio.sampleRate
-      });
+      const generationResponse = await this.client.post('/tts', this.buildRequestBody(params), { signal });
 
       const transcriptionId = generationResponse.data.id;
 
       // Poll for completion
-      const audioUrl = await this.pollForCompletion(transcriptionId);
+      const audioUrl = await this.pollForCompletion(transcriptionId, signal);
 
       // Download the audio
       const audioResponse = await axios.get(audioUrl, {
-        responseType: 'arraybuffer'
+        responseType: 'arraybuffer',
+        signal
       });
 
       const audioBuffer = Buffer.from(audioResponse.data);
-      const duration = await this.estimateDuration(text);
+      const properties = await probeAudio(audioBuffer, 'mp3');
       const cost = this.calculateCost(text.length);
 
       logger.info('PlayHT speech generated successfully', {
         voice_id,
-        duration,
+        duration: properties.duration,
         cost,
         size_kb: (audioBuffer.length / 1024).toFixed(2)
       });
@@ -109,17 +132,38 @@ export class PlayHTProvider {
       return {
         audio_data: audioBuffer,
         format: 'mp3',
-        duration,
+        ...properties,
         provider: 'playht',
         cost
       };
 
     } catch (error) {
       logger.error('PlayHT speech generation failed', { error, voice_id });
-      throw new Error(`PlayHT generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw wrapProviderError('PlayHT generation failed', error);
     }
   }
 
+  /**
+   * The exact request generateSpeech sends, used as synthesis cache key material
+   */
+  describeSynthesis(params: TTSGenerationParams): Record<string, unknown> {
+    return { provider: 'playht', ...this.buildRequestBody(params) };
+  }
+
+  private buildRequestBody(params: TTSGenerationParams): Record<string, unknown> {
+    const { text, voice_id, settings, performance } = params;
+
+    return {
+      text,
+      voice: voice_id,
+      quality: settings?.use_speaker_boost ? 'premium' : 'standard',
+      output_format: 'mp3',
+      speed: performance?.rate ?? 1.0,
+      style_guidance: this.getStyleGuidance(performance),
+      sample_rate: config.audio.sampleRate
+    };
+  }
+
   /**
    * List all available voices
    */
@@ -152,12 +196,16 @@ export class PlayHTProvider {
   /**
    * Poll for TTS generation completion
    */
-  private async pollForCompletion(transcriptionId: string, maxAttempts: number = 30): Promise<string> {
+  private async pollForCompletion(
+    transcriptionId: string,
+    signal?: AbortSignal,
+    maxAttempts: number = 30
+  ): Promise<string> {
     let attempts = 0;
 
     while (attempts < maxAttempts) {
       try {
-        const response = await this.client.get(`/tts/${transcriptionId}`);
+        const response = await this.client.get(`/tts/${transcriptionId}`, { signal });
         const status = response.data.status;
 
         if (status === 'complete') {
@@ -179,6 +227,20 @@ export class PlayHTProvider {
     throw new Error('PlayHT generation timed out');
   }
 
+  /**
+   * Map delivery style to PlayHT style guidance (higher is more expressive)
+   */
+  private getStyleGuidance(performance?: PerformanceDirectives): number | undefined {
+    switch (performance?.delivery) {
+      case 'whisper':
+        return 5;
+      case 'shout':
+        return 25;
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Parse gender from PlayHT format
    */
@@ -218,16 +280,6 @@ export class PlayHTProvider {
     return descriptors;
   }
 
-  /**
-   * Estimate audio duration
-   */
-  private async estimateDuration(text: string): Promise<number> {
-    const wordCount = text.split(/\s+/).length;
-    const wordsPerMinute = 150;
-    const durationMinutes = wordCount / wordsPerMinute;
-    return Math.ceil(durationMinutes * 60);
-  }
-
   /**
    * Calculate cost based on character count
    */
@@ -242,6 +294,44 @@ export class PlayHTProvider {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * PlayHT has no phoneme markup; lexicon entries are sent as respellings
+   */
+  supportsPhonemeTags(): boolean {
+    return false;
+  }
+
+  /**
+   * Voice cloning is not supported through this integration
+   */
+  async cloneVoice(): Promise<ClonedVoice> {
+    throw new Error('PlayHT voice cloning is not supported');
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: false,
+      timestamps: false,
+      emphasis: 'none',
+      voice_cloning: false,
+      max_chars_per_request: this.maxCharsPerRequest,
+      languages: LANGUAGES,
+      output_formats: ['mp3'],
+      quality_tier: 'high'
+    };
+  }
+
+  getCostModel(): ProviderCostModel {
+    return { per_1k_characters: this.costPer1K };
+  }
+
+  /**
+   * Maximum characters accepted in a single PlayHT request
+   */
+  getMaxCharsPerRequest(): number {
+    return this.maxCharsPerRequest;
+  }
+
   /**
    * Health check for PlayHT service
    */
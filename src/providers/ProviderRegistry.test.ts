@@ -0,0 +1,38 @@
+import ProviderRegistry, { isRegisteredProvider, registerProvider, registeredProviders } from './ProviderRegistry';
+import { SpeechProvider, TTSProvider } from '../types';
+
+// A provider from outside this package would add its name to TTSProviderNames
+const acme = 'acme' as TTSProvider;
+
+function fakeProvider(name: TTSProvider, enabled = true): SpeechProvider {
+  return { name, isEnabled: () => enabled } as unknown as SpeechProvider;
+}
+
+describe('ProviderRegistry', () => {
+  beforeAll(() => registerProvider(acme, () => fakeProvider(acme, false)));
+
+  it('loads the named providers in order', () => {
+    const registry = new ProviderRegistry([' acme', 'local ']);
+
+    expect(registry.all().map(provider => provider.name)).toEqual(['acme', 'local']);
+    expect(registry.has('local')).toBe(true);
+    expect(registry.has('elevenlabs')).toBe(false);
+  });
+
+  it('lists only enabled providers as taking requests', () => {
+    const registry = new ProviderRegistry(['acme', 'local']);
+
+    expect(registry.enabled().map(provider => provider.name)).toEqual(['local']);
+  });
+
+  it('rejects names nothing registered', () => {
+    expect(() => new ProviderRegistry(['local', 'nope'])).toThrow('Unknown TTS provider: nope');
+    expect(() => new ProviderRegistry(['local']).get('elevenlabs')).toThrow('TTS provider not loaded: elevenlabs');
+  });
+
+  it('accepts the names of built-in and registered providers', () => {
+    expect(registeredProviders()).toEqual(['elevenlabs', 'playht', 'xtts', 'local', 'openai', 'acme']);
+    expect(isRegisteredProvider('acme')).toBe(true);
+    expect(isRegisteredProvider('nope')).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Provider Registry
+ * Builds the TTS providers named in config. New providers register a factory
+ * here and need no changes to the orchestrator.
+ */
+
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import ElevenLabsProvider from './ElevenLabsProvider';
+import PlayHTProvider from './PlayHTProvider';
+import XTTSProvider from './XTTSProvider';
+import LocalTTSProvider from './LocalTTSProvider';
+import OpenAICompatibleProvider from './OpenAICompatibleProvider';
+import { SpeechProvider, TTSProvider } from '../types';
+
+export type ProviderFactory = () => SpeechProvider;
+
+const factories = new Map<TTSProvider, ProviderFactory>([
+  ['elevenlabs', () => new ElevenLabsProvider()],
+  ['playht', () => new PlayHTProvider()],
+  ['xtts', () => new XTTSProvider()],
+  ['local', () => new LocalTTSProvider()],
+  ['openai', () => new OpenAICompatibleProvider()]
+]);
+
+/**
+ * Make a provider available to registries created afterwards
+ */
+export function registerProvider(name: TTSProvider, factory: ProviderFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * Names of every registered provider, loaded or not
+ */
+export function registeredProviders(): TTSProvider[] {
+  return [...factories.keys()];
+}
+
+export function isRegisteredProvider(name: string): name is TTSProvider {
+  return factories.has(name as TTSProvider);
+}
+
+export class ProviderRegistry {
+  private providers: Map<TTSProvider, SpeechProvider> = new Map();
+
+  /**
+   * Load the named providers, in order (default: TTS_PROVIDERS)
+   */
+  constructor(names: string[] = config.tts.providers.split(',')) {
+    for (const name of names.map(n => n.trim()).filter(Boolean)) {
+      const factory = factories.get(name as TTSProvider);
+      if (!factory) {
+        throw new Error(`Unknown TTS provider: ${name}`);
+      }
+      this.providers.set(name as TTSProvider, factory());
+    }
+
+    logger.info('TTS providers loaded', {
+      providers: [...this.providers.keys()],
+      enabled: this.enabled().map(provider => provider.name)
+    });
+  }
+
+  /**
+   * A loaded provider by name
+   */
+  get(name: TTSProvider): SpeechProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`TTS provider not loaded: ${name}`);
+    }
+    return provider;
+  }
+
+  has(name: TTSProvider): boolean {
+    return this.providers.has(name);
+  }
+
+  /**
+   * Every loaded provider, in configured order
+   */
+  all(): SpeechProvider[] {
+    return [...this.providers.values()];
+  }
+
+  /**
+   * Loaded providers that are configured to take requests
+   */
+  enabled(): SpeechProvider[] {
+    return this.all().filter(provider => provider.isEnabled());
+  }
+}
+
+export default ProviderRegistry;
@@ -4,30 +4,46 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
+import FormData from 'form-data';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { wrapProviderError } from '../utils/providerError';
+import { rateLimiterFor } from '../utils/rateLimiter';
+import { probeAudio } from '../utils/audioProbe';
 import {
+  Voice,
   GeneratedAudio,
   TTSGenerationParams,
-  ClonedVoice
+  ClonedVoice,
+  CloneVoiceParams,
+  ProviderCapabilities,
+  ProviderCostModel,
+  SpeechProvider
 } from '../types';
 
+const LANGUAGES = [
+  'en', 'es', 'fr', 'de', 'it', 'pt', 'pl', 'tr', 'ru', 'nl', 'cs', 'ar', 'zh', 'ja', 'hu', 'ko', 'hi'
+];
+
 export interface XTTSVoiceProfile {
   embedding: string; // Base64 encoded speaker embedding
   language: string;
   quality_score: number;
 }
 
-export class XTTSProvider {
+export class XTTSProvider implements SpeechProvider {
+  readonly name = 'xtts' as const;
   private client: AxiosInstance;
   private baseUrl: string;
   private enabled: boolean;
   private costPer1K: number;
+  private maxCharsPerRequest: number;
 
   constructor() {
     this.baseUrl = config.tts.xtts.baseUrl;
     this.enabled = config.tts.xtts.enabled;
     this.costPer1K = config.tts.xtts.costPer1K;
+    this.maxCharsPerRequest = config.tts.xtts.maxCharsPerRequest;
 
     this.client = axios.create({
       baseURL: this.baseUrl,
@@ -36,6 +52,8 @@ export class XTTSProvider {
         'Content-Type': 'application/json'
       }
     });
+
+    rateLimiterFor('xtts').attach(this.client);
   }
 
   /**
@@ -46,17 +64,20 @@ export class XTTSProvider {
   }
 
   /**
-   * Clone a voice from audio sample (minimum 6 seconds)
+   * Clone a voice from audio sample (minimum 6 seconds).
+   * XTTS takes a single reference clip, so only the first sample is used.
    */
-  async cloneVoice(
-    audioSample: Buffer,
-    voiceName: string,
-    language: string = 'en'
-  ): Promise<ClonedVoice> {
+  async cloneVoice(params: CloneVoiceParams): Promise<ClonedVoice> {
     if (!this.enabled) {
       throw new Error('XTTS provider is not enabled');
     }
 
+    const { name: voiceName, samples, language = 'en' } = params;
+    const audioSample = samples[0];
+    if (!audioSample) {
+      throw new Error('XTTS voice cloning needs an audio sample');
+    }
+
     try {
       logger.info('Cloning voice with XTTS-v2', {
         voice_name: voiceName,
@@ -64,7 +85,6 @@ export class XTTSProvider {
         sample_size_kb: (audioSample.length / 1024).toFixed(2)
       });
 
-      const FormData = require('form-data');
       const formData = new FormData();
 
       formData.append('audio', audioSample, {
@@ -101,12 +121,13 @@ export class XTTSProvider {
   /**
    * Generate speech using cloned voice
    */
-  async generateSpeech(params: TTSGenerationParams): Promise<GeneratedAudio> {
+  async generateSpeech(params: TTSGenerationParams, signal?: AbortSignal): Promise<GeneratedAudio> {
     if (!this.enabled) {
       throw new Error('XTTS provider is not enabled');
     }
 
-    const { text, voice_id } = params;
+    // XTTS takes plain text only; markup pauses are inserted as silence at assembly time
+    const { text } = params;
 
     try {
       logger.info('Generating speech with XTTS', {
@@ -115,22 +136,19 @@ export class XTTSProvider {
 
       const response = await this.client.post(
         '/tts',
+        this.buildRequestBody(params),
         {
-          text,
-          speaker_wav: voice_id, // This is the embedding from cloneVoice
-          language: 'en'
-        },
-        {
-          responseType: 'arraybuffer'
+          responseType: 'arraybuffer',
+          signal
         }
       );
 
       const audioBuffer = Buffer.from(response.data);
-      const duration = await this.estimateDuration(text);
+      const properties = await probeAudio(audioBuffer, 'wav');
       const cost = this.calculateCost(text.length);
 
       logger.info('XTTS speech generated successfully', {
-        duration,
+        duration: properties.duration,
         cost,
         size_kb: (audioBuffer.length / 1024).toFixed(2)
       });
@@ -138,17 +156,39 @@ export class XTTSProvider {
       return {
         audio_data: audioBuffer,
         format: 'wav',
-        duration,
+        ...properties,
         provider: 'xtts',
         cost
       };
 
     } catch (error) {
       logger.error('XTTS speech generation failed', { error });
-      throw new Error(`XTTS generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw wrapProviderError('XTTS generation failed', error);
     }
   }
 
+  /**
+   * The exact request generateSpeech sends, used as synthesis cache key material
+   */
+  describeSynthesis(params: TTSGenerationParams): Record<string, unknown> {
+    return { provider: 'xtts', ...this.buildRequestBody(params) };
+  }
+
+  private buildRequestBody(params: TTSGenerationParams): Record<string, unknown> {
+    return {
+      text: params.text,
+      speaker_wav: params.voice_id, // This is the embedding from cloneVoice
+      language: 'en'
+    };
+  }
+
+  /**
+   * XTTS has no voice library; its voices are the speaker embeddings returned by cloneVoice
+   */
+  async listVoices(): Promise<Voice[]> {
+    return [];
+  }
+
   /**
    * Cross-language voice cloning
    * Clone voice characteristics to a different language
@@ -188,20 +228,41 @@ export class XTTSProvider {
   }
 
   /**
-   * Estimate audio duration from text length
+   * Calculate cost (XTTS is self-hosted, so cost is $0)
    */
-  private async estimateDuration(text: string): Promise<number> {
-    const wordCount = text.split(/\s+/).length;
-    const wordsPerMinute = 150;
-    const durationMinutes = wordCount / wordsPerMinute;
-    return Math.ceil(durationMinutes * 60);
+  private calculateCost(characterCount: number): number {
+    return (characterCount / 1000) * this.costPer1K; // $0 for self-hosted
   }
 
   /**
-   * Calculate cost (XTTS is self-hosted, so cost is $0)
+   * XTTS has no phoneme markup; lexicon entries are sent as respellings
    */
-  private calculateCost(characterCount: number): number {
-    return (characterCount / 1000) * this.costPer1K; // $0 for self-hosted
+  supportsPhonemeTags(): boolean {
+    return false;
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      ssml: false,
+      timestamps: false,
+      emphasis: 'none',
+      voice_cloning: true,
+      max_chars_per_request: this.maxCharsPerRequest,
+      languages: LANGUAGES,
+      output_formats: ['wav'],
+      quality_tier: 'standard'
+    };
+  }
+
+  getCostModel(): ProviderCostModel {
+    return { per_1k_characters: this.costPer1K };
+  }
+
+  /**
+   * Maximum characters accepted in a single XTTS request
+   */
+  getMaxCharsPerRequest(): number {
+    return this.maxCharsPerRequest;
   }
 
   /**
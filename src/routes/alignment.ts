@@ -0,0 +1,26 @@
+/**
+ * Alignment Routes
+ * Mounted at /projects/:projectId/alignment
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import SegmentStore from '../services/SegmentStore';
+import { asyncHandler, sendData } from './responses';
+
+const querySchema = z.object({
+  chapter_id: z.string().min(1).optional()
+});
+
+export function createAlignmentRoutes(segments: SegmentStore): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    const { chapter_id } = querySchema.parse(req.query);
+    sendData(res, { chapters: await segments.loadAlignment(req.params.projectId, chapter_id) });
+  }));
+
+  return router;
+}
+
+export default createAlignmentRoutes;
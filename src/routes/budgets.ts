@@ -0,0 +1,31 @@
+/**
+ * Tenant Budget Routes
+ * Mounted at /tenants/:tenantId/budget
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import BudgetService from '../services/BudgetService';
+import { requireAdmin } from '../middleware/admin-auth';
+import { asyncHandler, sendData } from './responses';
+
+const budgetSchema = z.object({
+  monthly_cap_dollars: z.number().nonnegative().nullable()
+});
+
+export function createBudgetRoutes(budgets: BudgetService): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    sendData(res, await budgets.getTenantBudget(req.params.tenantId));
+  }));
+
+  router.put('/', requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const body = budgetSchema.parse(req.body);
+    sendData(res, await budgets.setTenantCap(req.params.tenantId, body.monthly_cap_dollars));
+  }));
+
+  return router;
+}
+
+export default createBudgetRoutes;
@@ -0,0 +1,24 @@
+/**
+ * Synthesis Cache Routes
+ * Mounted at /projects/:projectId/cache
+ */
+
+import { Router, Request, Response } from 'express';
+import SynthesisCache from '../services/SynthesisCache';
+import { asyncHandler, sendData } from './responses';
+
+export function createCacheRoutes(cache: SynthesisCache): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    sendData(res, await cache.getStats(req.params.projectId));
+  }));
+
+  router.delete('/', asyncHandler(async (req: Request, res: Response) => {
+    sendData(res, await cache.purgeProject(req.params.projectId));
+  }));
+
+  return router;
+}
+
+export default createCacheRoutes;
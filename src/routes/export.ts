@@ -0,0 +1,51 @@
+/**
+ * Export Routes
+ * Mounted at /projects/:projectId/export
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import EpubExporter from '../services/EpubExporter';
+import { asyncHandler, sendError } from './responses';
+
+export const epubOptionsSchema = z.object({
+  title: z.string().min(1).optional(),
+  author: z.string().min(1).optional(),
+  narrator: z.string().min(1).optional(),
+  publisher: z.string().min(1).optional(),
+  language: z.string().regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/, 'Expected a BCP 47 language tag').optional(),
+  identifier: z.string().min(1).optional(),
+  granularity: z.enum(['sentence', 'paragraph']).optional(),
+  chapter_titles: z.record(z.string()).optional()
+});
+
+export function createExportRoutes(exporter: EpubExporter): Router {
+  const router = Router({ mergeParams: true });
+
+  router.post('/epub', asyncHandler(async (req: Request, res: Response) => {
+    const options = epubOptionsSchema.parse(req.body ?? {});
+    const projectId = req.params.projectId;
+
+    const { chapter_count, unassembled } = await exporter.readiness(projectId);
+    if (chapter_count === 0) {
+      sendError(res, 404, 'PROJECT_NOT_FOUND', 'No chapters stored for project');
+      return;
+    }
+    if (unassembled.length > 0) {
+      sendError(res, 409, 'CHAPTERS_NOT_ASSEMBLED', 'Every chapter must be rendered and assembled before export', {
+        chapter_ids: unassembled
+      });
+      return;
+    }
+
+    const epub = await exporter.build(projectId, options);
+    res.status(200)
+      .type('application/epub+zip')
+      .attachment(`${projectId}.epub`)
+      .send(epub);
+  }));
+
+  return router;
+}
+
+export default createExportRoutes;
@@ -0,0 +1,149 @@
+/**
+ * Generation Routes
+ * Mounted at /projects/:projectId
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import JobQueue from '../services/JobQueue';
+import TTSOrchestrator from '../services/TTSOrchestrator';
+import { asyncHandler, sendData } from './responses';
+import { epubOptionsSchema } from './export';
+import { isRegisteredProvider } from '../providers/ProviderRegistry';
+import { EstimateParams, GenerateAudiobookResponse, GenerationParams } from '../types';
+
+const EMOTIONS = ['joy', 'fear', 'anger', 'sadness', 'neutral', 'surprise', 'disgust'] as const;
+
+const QUALITIES = ['standard', 'high', 'premium'] as const;
+const ROUTING_POLICIES = ['assigned', 'cheapest', 'fastest', 'fallback_chain'] as const;
+
+// Checked when a request arrives, so providers registered at startup are accepted
+const providerSchema = z.string().refine(isRegisteredProvider, name => ({ message: `Unknown TTS provider: ${name}` }));
+
+const voiceSettingsSchema = z.object({
+  stability: z.number().min(0).max(1),
+  similarity_boost: z.number().min(0).max(1),
+  style: z.number().min(0).max(1).optional(),
+  use_speaker_boost: z.boolean().optional(),
+  speed: z.number().min(0.5).max(2).optional()
+});
+
+const voiceAssignmentSchema = z.object({
+  character_name: z.string().min(1),
+  voice_id: z.string().min(1),
+  voice_name: z.string(),
+  provider: providerSchema,
+  match_score: z.number(),
+  voice_settings: voiceSettingsSchema,
+  fallback_voices: z.array(z.object({
+    provider: providerSchema,
+    voice_id: z.string().min(1),
+    voice_name: z.string(),
+    match_score: z.number(),
+    voice_settings: voiceSettingsSchema.optional()
+  })).optional()
+});
+
+// Tags written into M4B and MP3 output
+const metadataSchema = z.object({
+  title: z.string().min(1).optional(),
+  author: z.string().min(1).optional(),
+  narrator: z.string().min(1).optional(),
+  series: z.string().min(1).optional(),
+  publication_date: z.string().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, 'Expected an ISO 8601 date').optional()
+});
+
+// Chapter ids name the chapter's and its segments' audio files
+const chapterIdSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, 'Chapter ids may only use letters, digits, _ and -');
+
+const generateSchema = z.object({
+  chapters: z.array(z.object({
+    id: chapterIdSchema,
+    chapter_number: z.number().int().nonnegative(),
+    title: z.string(),
+    content: z.string(),
+    word_count: z.number().int().nonnegative()
+  })).min(1),
+  voice_assignments: z.array(voiceAssignmentSchema).min(1),
+  characters: z.array(z.object({ character_name: z.string() }).passthrough()).optional(),
+  emotion_overrides: z.array(z.object({
+    segment_id: z.string(),
+    emotion: z.enum(EMOTIONS),
+    intensity: z.number().min(0).max(1).optional(),
+    locked: z.boolean().optional()
+  })).optional(),
+  normalization: z.object({
+    enabled: z.boolean().optional(),
+    locale: z.enum(['en-US', 'en-GB']).optional(),
+    rules: z.record(z.boolean()).optional()
+  }).optional(),
+  narrator_voice_id: z.string().optional(),
+  audio_quality: z.enum(QUALITIES).optional(),
+  routing: z.object({
+    policy: z.enum(ROUTING_POLICIES).optional(),
+    quality_policies: z.object({
+      standard: z.enum(ROUTING_POLICIES).optional(),
+      high: z.enum(ROUTING_POLICIES).optional(),
+      premium: z.enum(ROUTING_POLICIES).optional()
+    }).optional(),
+    fallback_chain: z.array(providerSchema).min(1).optional()
+  }).optional(),
+  budget: z.object({
+    max_cost_dollars: z.number().nonnegative().optional(),
+    warn_thresholds: z.array(z.number().gt(0).max(1)).optional(),
+    on_exceeded: z.enum(['stop', 'downgrade']).optional()
+  }).optional(),
+  scope: z.object({
+    chapters: z.array(z.number().int().nonnegative()).min(1).optional(),
+    segments: z.object({
+      chapter: z.number().int().nonnegative(),
+      from: z.number().int().positive(),
+      to: z.number().int().positive()
+    }).refine(range => range.from <= range.to, { message: 'from must not be after to' }).optional()
+  }).refine(scope => scope.chapters || scope.segments, { message: 'Select chapters or a segment range' }).optional(),
+  format: z.enum(['m4b', 'mp3', 'epub']).optional(),
+  metadata: metadataSchema.optional(),
+  epub: epubOptionsSchema.optional()
+});
+
+// Without voice assignments, characters are matched to voices as part of the estimate
+const estimateSchema = generateSchema.omit({ budget: true, scope: true }).extend({
+  voice_assignments: z.array(voiceAssignmentSchema).optional()
+});
+
+export function createGenerationRoutes(queue: JobQueue, orchestrator: TTSOrchestrator): Router {
+  const router = Router({ mergeParams: true });
+
+  router.post('/generate', asyncHandler(async (req: Request, res: Response) => {
+    const body = generateSchema.parse(req.body);
+    const params = { ...body, project_id: req.params.projectId } as GenerationParams;
+
+    // Only the gateway names the tenant, so a request cannot charge another tenant's month
+    const tenantId = req.header('x-company-id');
+    if (tenantId) {
+      params.budget = { ...params.budget, tenant_id: tenantId };
+    }
+
+    const job = await queue.enqueue(params);
+    const response: GenerateAudiobookResponse = {
+      taskId: job.id,
+      pollUrl: `/audiobook/api/jobs/${job.id}`
+    };
+
+    sendData(res, { ...response, status: job.state, position_in_queue: await queue.position(job.id) }, 202);
+  }));
+
+  router.post('/estimate', asyncHandler(async (req: Request, res: Response) => {
+    const body = estimateSchema.parse(req.body);
+    const estimate = await orchestrator.estimateAudiobook({
+      ...body,
+      project_id: req.params.projectId
+    } as EstimateParams);
+
+    sendData(res, estimate);
+  }));
+
+  return router;
+}
+
+export default createGenerationRoutes;
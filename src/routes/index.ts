@@ -0,0 +1,39 @@
+/**
+ * API Routes
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import PronunciationLexicon from '../services/PronunciationLexicon';
+import JobQueue from '../services/JobQueue';
+import SynthesisCache from '../services/SynthesisCache';
+import BudgetService from '../services/BudgetService';
+import SegmentStore from '../services/SegmentStore';
+import TTSOrchestrator from '../services/TTSOrchestrator';
+import EpubExporter from '../services/EpubExporter';
+import { createPronunciationRoutes } from './pronunciations';
+import { createGenerationRoutes } from './generation';
+import { createJobRoutes } from './jobs';
+import { createCacheRoutes } from './cache';
+import { createBudgetRoutes } from './budgets';
+import { createAlignmentRoutes } from './alignment';
+import { createExportRoutes } from './export';
+import { requireUuidParams } from '../middleware/validate-params';
+
+export function createApiRoutes(db: Pool, jobQueue: JobQueue, orchestrator: TTSOrchestrator): Router {
+  const router = Router();
+
+  // Every project route stores or reads by the project's UUID
+  router.use('/projects/:projectId', requireUuidParams('projectId'));
+  router.use('/projects/:projectId/pronunciations', createPronunciationRoutes(new PronunciationLexicon(db)));
+  router.use('/projects/:projectId/cache', createCacheRoutes(new SynthesisCache(db)));
+  router.use('/projects/:projectId/alignment', createAlignmentRoutes(new SegmentStore(db)));
+  router.use('/projects/:projectId/export', createExportRoutes(new EpubExporter(db)));
+  router.use('/projects/:projectId', createGenerationRoutes(jobQueue, orchestrator));
+  router.use('/jobs', createJobRoutes(jobQueue));
+  router.use('/tenants/:tenantId/budget', createBudgetRoutes(new BudgetService(db)));
+
+  return router;
+}
+
+export default createApiRoutes;
@@ -0,0 +1,71 @@
+/**
+ * Job Routes
+ * Mounted at /jobs
+ */
+
+import { Router, Request, Response } from 'express';
+import JobQueue from '../services/JobQueue';
+import { asyncHandler, sendData, sendError } from './responses';
+import { GenerationJob } from '../types';
+
+export function createJobRoutes(queue: JobQueue): Router {
+  const router = Router();
+
+  router.get('/:jobId', asyncHandler(async (req: Request, res: Response) => {
+    const job = await queue.get(req.params.jobId);
+    if (!job) {
+      sendError(res, 404, 'JOB_NOT_FOUND', 'Job does not exist');
+      return;
+    }
+
+    sendData(res, {
+      ...summarize(job),
+      position_in_queue: job.state === 'queued' ? await queue.position(job.id) : null
+    });
+  }));
+
+  router.post('/:jobId/pause', asyncHandler(async (req: Request, res: Response) => {
+    await transition(res, queue, req.params.jobId, 'pause');
+  }));
+
+  router.post('/:jobId/resume', asyncHandler(async (req: Request, res: Response) => {
+    await transition(res, queue, req.params.jobId, 'resume');
+  }));
+
+  router.post('/:jobId/cancel', asyncHandler(async (req: Request, res: Response) => {
+    await transition(res, queue, req.params.jobId, 'cancel');
+  }));
+
+  return router;
+}
+
+async function transition(
+  res: Response,
+  queue: JobQueue,
+  jobId: string,
+  action: 'pause' | 'resume' | 'cancel'
+): Promise<void> {
+  const job = await queue.get(jobId);
+  if (!job) {
+    sendError(res, 404, 'JOB_NOT_FOUND', 'Job does not exist');
+    return;
+  }
+
+  const changed = await queue[action](jobId);
+  if (!changed) {
+    sendError(res, 409, 'INVALID_JOB_STATE', `Cannot ${action} a job that is ${job.state}`);
+    return;
+  }
+
+  sendData(res, summarize((await queue.get(jobId))!));
+}
+
+/**
+ * Job status without the (large) generation parameters
+ */
+function summarize(job: GenerationJob): Omit<GenerationJob, 'params'> {
+  const { params: _params, ...summary } = job;
+  return summary;
+}
+
+export default createJobRoutes;
@@ -0,0 +1,126 @@
+/**
+ * Pronunciation Lexicon Routes
+ * Mounted at /projects/:projectId/pronunciations
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import PronunciationLexicon, { LEXICON_FORMAT, LEXICON_VERSION } from '../services/PronunciationLexicon';
+import { asyncHandler, sendData, sendError } from './responses';
+import { requireUuidParams } from '../middleware/validate-params';
+
+const UNIQUE_VIOLATION = '23505';
+
+const entryFields = {
+  word: z.string().trim().min(1).max(200),
+  respelling: z.string().trim().min(1).max(500).nullable().optional(),
+  ipa: z.string().trim().min(1).max(500).nullable().optional(),
+  case_sensitive: z.boolean().optional(),
+  whole_word: z.boolean().optional()
+};
+
+const hasPronunciation = (entry: { respelling?: string | null; ipa?: string | null }) =>
+  Boolean(entry.respelling || entry.ipa);
+
+const entrySchema = z.object(entryFields)
+  .refine(hasPronunciation, { message: 'respelling or ipa is required' })
+  .transform(entry => ({ ...entry, respelling: entry.respelling ?? null, ipa: entry.ipa ?? null }));
+
+const updateSchema = z.object(entryFields).partial();
+
+const importSchema = z.object({
+  format: z.literal(LEXICON_FORMAT),
+  version: z.literal(LEXICON_VERSION),
+  entries: z.array(entrySchema).max(5000)
+});
+
+const importQuerySchema = z.object({
+  mode: z.enum(['merge', 'replace']).default('merge')
+});
+
+export function createPronunciationRoutes(lexicon: PronunciationLexicon): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    sendData(res, await lexicon.list(req.params.projectId));
+  }));
+
+  router.post('/', asyncHandler(async (req: Request, res: Response) => {
+    const input = entrySchema.parse(req.body);
+
+    try {
+      sendData(res, await lexicon.create(req.params.projectId, input), 201);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        sendError(res, 409, 'ENTRY_EXISTS', `Pronunciation for "${input.word}" already exists`);
+        return;
+      }
+      throw error;
+    }
+  }));
+
+  // Registered before /:entryId so "export" is not taken as an id
+  router.get('/export', asyncHandler(async (req: Request, res: Response) => {
+    const document = await lexicon.exportEntries(req.params.projectId);
+    res.setHeader('Content-Disposition', `attachment; filename="lexicon-${req.params.projectId}.json"`);
+    res.status(200).json(document);
+  }));
+
+  router.post('/import', asyncHandler(async (req: Request, res: Response) => {
+    const { mode } = importQuerySchema.parse(req.query);
+    const document = importSchema.parse(req.body);
+
+    const imported = await lexicon.importEntries(req.params.projectId, document, mode === 'replace');
+    sendData(res, { imported, mode });
+  }));
+
+  router.get('/:entryId', requireUuidParams('entryId'), asyncHandler(async (req: Request, res: Response) => {
+    const entry = await lexicon.get(req.params.projectId, req.params.entryId);
+    if (!entry) {
+      sendError(res, 404, 'ENTRY_NOT_FOUND', 'Pronunciation entry does not exist');
+      return;
+    }
+    sendData(res, entry);
+  }));
+
+  router.patch('/:entryId', requireUuidParams('entryId'), asyncHandler(async (req: Request, res: Response) => {
+    const changes = updateSchema.parse(req.body);
+    const existing = await lexicon.get(req.params.projectId, req.params.entryId);
+    if (!existing) {
+      sendError(res, 404, 'ENTRY_NOT_FOUND', 'Pronunciation entry does not exist');
+      return;
+    }
+
+    if (!hasPronunciation({ ...existing, ...changes })) {
+      sendError(res, 400, 'INVALID_REQUEST', 'respelling or ipa is required');
+      return;
+    }
+
+    try {
+      sendData(res, await lexicon.update(req.params.projectId, req.params.entryId, changes));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        sendError(res, 409, 'ENTRY_EXISTS', `Pronunciation for "${changes.word}" already exists`);
+        return;
+      }
+      throw error;
+    }
+  }));
+
+  router.delete('/:entryId', requireUuidParams('entryId'), asyncHandler(async (req: Request, res: Response) => {
+    const removed = await lexicon.remove(req.params.projectId, req.params.entryId);
+    if (!removed) {
+      sendError(res, 404, 'ENTRY_NOT_FOUND', 'Pronunciation entry does not exist');
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  return router;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === UNIQUE_VIOLATION;
+}
+
+export default createPronunciationRoutes;
@@ -0,0 +1,42 @@
+/**
+ * Shared API response helpers
+ * Responses follow the envelope documented in TECHNICAL.md
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ZodError } from 'zod';
+
+export function sendData(res: Response, data: unknown, status: number = 200): void {
+  res.status(status).json({ success: true, data });
+}
+
+export function sendError(
+  res: Response,
+  status: number,
+  code: string,
+  message: string,
+  details?: unknown
+): void {
+  res.status(status).json({
+    success: false,
+    error: { code, message, details: details ?? {} }
+  });
+}
+
+/**
+ * Forward async handler failures to the error middleware,
+ * answering validation failures with INVALID_REQUEST
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response) => Promise<void>
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch((error: unknown) => {
+      if (error instanceof ZodError) {
+        sendError(res, 400, 'INVALID_REQUEST', 'Request validation failed', error.flatten());
+        return;
+      }
+      next(error);
+    });
+  };
+}
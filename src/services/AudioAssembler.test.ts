@@ -0,0 +1,59 @@
+import { spawnSync } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import AudioAssembler from './AudioAssembler';
+import { encodeWav } from '../utils/wav';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { GeneratedAudio } from '../types';
+
+const hasFfmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+
+function segment(seconds: number, silenceBefore = 0): GeneratedAudio {
+  const samples = new Int16Array(Math.round(seconds * 22050));
+  samples.forEach((_, index) => { samples[index] = Math.round(Math.sin(index / 10) * 8000); });
+
+  return {
+    audio_data: encodeWav(samples, 22050),
+    format: 'wav',
+    duration: seconds,
+    provider: 'local',
+    cost: 0,
+    silence_before_seconds: silenceBefore
+  };
+}
+
+describe('AudioAssembler', () => {
+  (hasFfmpeg ? it : it.skip)('joins a chapter without gaps and places each segment\'s speech exactly', async () => {
+    await fs.mkdir(config.audio.tempDir, { recursive: true });
+
+    const chapter = await new AudioAssembler().assembleChapter([segment(1), segment(0.5, 0.25), segment(0.75, 0.5)]);
+
+    expect(chapter.speech_offsets[0]).toBe(0);
+    expect(chapter.speech_offsets[1]).toBeCloseTo(1.25, 2);
+    expect(chapter.speech_offsets[2]).toBeCloseTo(2.25, 2);
+    // One MP3 encode adds at most a frame of padding, not one per segment
+    expect(chapter.duration).toBeGreaterThanOrEqual(2.99);
+    expect(chapter.duration).toBeLessThan(3.05);
+  });
+
+  (hasFfmpeg ? it : it.skip)('creates its temp directory and removes its files when ffmpeg fails', async () => {
+    const tempDir = config.audio.tempDir;
+    config.audio.tempDir = path.join(os.tmpdir(), `audiobook-test-${randomUUID()}`);
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+
+    try {
+      const assembler = new AudioAssembler();
+      const corrupt = { ...segment(1), audio_data: Buffer.from('not audio') };
+
+      await expect(assembler.assembleChapter([corrupt])).rejects.toThrow();
+      expect(await fs.readdir(config.audio.tempDir)).toEqual([]);
+    } finally {
+      await fs.rm(config.audio.tempDir, { recursive: true, force: true });
+      config.audio.tempDir = tempDir;
+      jest.restoreAllMocks();
+    }
+  });
+});
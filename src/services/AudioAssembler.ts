@@ -1,21 +1,32 @@
 /**
  * Audio Assembler
- * Assembles final audiobook from generated segments
+ * Assembles chapters from generated segments, and the final audiobook from its chapters
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import ffmpeg from 'fluent-ffmpeg';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { probeAudio } from '../utils/audioProbe';
 import {
   GeneratedAudio,
   NormalizedAudio,
   AssembledAudiobook,
+  AssemblyChapter,
   AudioAssemblyParams,
+  AudiobookMetadata,
   ChapterMarker
 } from '../types';
 
+/**
+ * Escape the characters ffmetadata files treat as syntax
+ */
+function escapeMetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, char => `\\${char}`);
+}
+
 export class AudioAssembler {
   private tempDir: string;
   private normalizationLUFS: number;
@@ -28,43 +39,35 @@ export class AudioAssembler {
   }
 
   /**
-   * Assemble complete audiobook from segments
+   * Assemble the book from its assembled chapters: one file in the requested
+   * format, with a chapter marker per chapter and the book's tags
    */
   async assembleAudiobook(params: AudioAssemblyParams): Promise<AssembledAudiobook> {
-    const { project_id, audio_segments, metadata } = params;
+    const { project_id, chapters, metadata, format } = params;
 
     logger.info('Assembling audiobook', {
       project_id,
-      segment_count: audio_segments.length
+      chapter_count: chapters.length,
+      format
     });
 
     try {
-      // Step 1: Normalize audio levels
-      const normalized = await this.normalizeAudio(audio_segments);
-
-      // Step 2: Add chapter markers
-      const withMarkers = await this.addChapterMarkers(normalized, metadata);
-
-      // Step 3: Generate MP3 and M4B formats
-      const mp3 = await this.generateMP3(withMarkers, metadata);
-      const m4b = await this.generateM4B(withMarkers, metadata);
-
-      // Step 4: Calculate metrics
-      const duration = this.calculateTotalDuration(normalized);
-      const cost = this.calculateCost(audio_segments);
+      const markers = this.chapterMarkers(chapters);
+      const joined = await this.concatenate(chapters.map(chapter => ({ audio_data: chapter.audio, format: 'mp3' })));
+      const audio = await this.writeBook(joined, markers, metadata, format);
+      const duration = chapters.reduce((sum, chapter) => sum + chapter.duration, 0);
 
       logger.info('Audiobook assembled successfully', {
         project_id,
         duration_seconds: duration,
-        total_cost: cost
+        bytes: audio.length
       });
 
       return {
-        mp3_file: mp3,
-        m4b_file: m4b,
+        mp3_file: format === 'mp3' ? audio : null,
+        m4b_file: format === 'm4b' ? audio : null,
         total_duration: duration,
-        total_cost: cost,
-        chapters: withMarkers.chapters,
+        chapters: markers,
         metadata
       };
 
@@ -75,33 +78,65 @@ export class AudioAssembler {
   }
 
   /**
-   * Normalize audio levels to target LUFS
+   * Assemble one chapter from its segments, so edits only rebuild the chapters they touch.
+   * The duration is measured from the assembled chapter. `speech_offsets` gives,
+   * for each segment, where its speech starts in the chapter after its leading silence;
+   * segments are joined as PCM, so these are exact to the sample.
+   */
+  async assembleChapter(
+    segments: GeneratedAudio[]
+  ): Promise<{ audio: Buffer; duration: number; speech_offsets: number[] }> {
+    const normalized = await this.normalizeAudio(segments);
+    const audio = await this.concatenate(normalized);
+
+    let elapsed = 0;
+    const speechOffsets = normalized.map((segment, index) => {
+      const offset = elapsed + (segments[index].silence_before_seconds || 0);
+      elapsed += segment.duration;
+      return offset;
+    });
+
+    return {
+      audio,
+      duration: (await probeAudio(audio, 'mp3')).duration,
+      speech_offsets: speechOffsets
+    };
+  }
+
+  /**
+   * Normalize audio levels to target LUFS, with each segment's silence padded
+   * in, and measure the result. Segments stay PCM WAV at one sample rate and
+   * the widest channel layout among them, so they join without gaps.
    */
   private async normalizeAudio(segments: GeneratedAudio[]): Promise<NormalizedAudio[]> {
+    const channels = Math.max(1, ...segments.map(segment => segment.channels ?? 1));
+
     logger.info('Normalizing audio levels', {
       target_lufs: this.normalizationLUFS,
-      segment_count: segments.length
+      segment_count: segments.length,
+      channels
     });
 
     const normalized: NormalizedAudio[] = [];
 
+    await fs.mkdir(this.tempDir, { recursive: true });
+
     for (const segment of segments) {
-      try {
-        const tempInput = path.join(this.tempDir, `input_${Date.now()}.${segment.format}`);
-        const tempOutput = path.join(this.tempDir, `output_${Date.now()}.mp3`);
+      const id = randomUUID();
+      const tempInput = path.join(this.tempDir, `normalize_${id}.${segment.format}`);
+      const tempOutput = path.join(this.tempDir, `normalize_${id}_out.wav`);
 
+      try {
         // Write input file
         await fs.writeFile(tempInput, segment.audio_data);
 
         // Normalize with FFmpeg
         await new Promise<void>((resolve, reject) => {
           ffmpeg(tempInput)
-            .audioFilters([
-              `loudnorm=I=${this.normalizationLUFS}:TP=-1.5:LRA=11`
-            ])
-            .audioCodec('libmp3lame')
-            .audioBitrate(config.audio.bitrate)
+            .audioFilters(this.segmentFilters(segment))
+            .audioCodec('pcm_s16le')
             .audioFrequency(config.audio.sampleRate)
+            .audioChannels(channels)
             .output(tempOutput)
             .on('end', () => resolve())
             .on('error', (err: Error) => reject(err))
@@ -113,18 +148,16 @@ export class AudioAssembler {
 
         normalized.push({
           audio_data: normalizedData,
-          format: 'mp3',
-          duration: segment.duration,
+          format: 'wav',
+          duration: (await probeAudio(normalizedData, 'wav')).duration,
           normalized_lufs: this.normalizationLUFS
         });
-
-        // Clean up temp files
-        await fs.unlink(tempInput);
-        await fs.unlink(tempOutput);
-
       } catch (error) {
         logger.error('Audio normalization failed for segment', { error });
         throw error;
+      } finally {
+        // Clean up temp files
+        await Promise.all([tempInput, tempOutput].map(file => fs.unlink(file).catch(() => undefined)));
       }
     }
 
@@ -132,103 +165,177 @@ export class AudioAssembler {
   }
 
   /**
-   * Add chapter markers to audio
+   * Loudness normalization, then the silence to insert before and after the segment
+   */
+  private segmentFilters(segment: GeneratedAudio): string[] {
+    const filters = [`loudnorm=I=${this.normalizationLUFS}:TP=-1.5:LRA=11`];
+
+    if (segment.silence_before_seconds) {
+      filters.push(`adelay=${Math.round(segment.silence_before_seconds * 1000)}:all=1`);
+    }
+    if (segment.silence_after_seconds) {
+      filters.push(`apad=pad_dur=${segment.silence_after_seconds}`);
+    }
+    return filters;
+  }
+
+  /**
+   * One marker per chapter, placed by the chapters' measured durations
    */
-  private async addChapterMarkers(
-    normalized: NormalizedAudio[],
-    _metadata: any
-  ): Promise<{ audio: Buffer; chapters: ChapterMarker[] }> {
-    // For simplification, concatenate all segments
-    const chapters: ChapterMarker[] = [];
-    let currentTime = 0;
-
-    // Combine all audio data
-    const combinedAudio = Buffer.concat(normalized.map(n => n.audio_data));
-
-    // Generate chapter markers (simplified - one marker per segment)
-    normalized.forEach((segment, index) => {
-      chapters.push({
+  private chapterMarkers(chapters: AssemblyChapter[]): ChapterMarker[] {
+    let startTime = 0;
+
+    return chapters.map((chapter, index) => {
+      const marker = {
         chapter_number: index + 1,
-        title: `Chapter ${index + 1}`,
-        start_time: currentTime,
-        duration: segment.duration
-      });
-      currentTime += segment.duration;
+        title: chapter.title,
+        start_time: startTime,
+        duration: chapter.duration
+      };
+      startTime += chapter.duration;
+      return marker;
     });
+  }
+
+  /**
+   * Join the pieces of one segment that a provider had to render in several
+   * requests, keeping the provider's format, and measure the result
+   */
+  async joinPieces(
+    pieces: GeneratedAudio[]
+  ): Promise<Pick<GeneratedAudio, 'audio_data' | 'format' | 'duration' | 'sample_rate' | 'channels' | 'channel_layout'>> {
+    const format = pieces[0].format === 'wav' ? 'wav' : 'mp3';
+    const audio = await this.concatenate(pieces, format);
 
-    return { audio: combinedAudio, chapters };
+    return { audio_data: audio, format, ...(await probeAudio(audio, format)) };
   }
 
   /**
-   * Generate MP3 file
+   * Join audio, which already carries its silence, with ffmpeg's concat
+   * demuxer and encode the result once. Joining MP3 files byte by byte would
+   * leave each input's encoder padding in the stream.
    */
-  private async generateMP3(
-    data: { audio: Buffer; chapters: ChapterMarker[] },
-    _metadata: any
+  private async concatenate(
+    inputs: Array<Pick<GeneratedAudio, 'audio_data' | 'format'>>,
+    format: 'mp3' | 'wav' = 'mp3'
   ): Promise<Buffer> {
-    logger.info('Generating MP3 file');
+    const id = randomUUID();
+    const files = inputs.map((input, index) => path.join(this.tempDir, `concat_${id}_${index}.${input.format}`));
+    const list = path.join(this.tempDir, `concat_${id}.txt`);
+    const output = path.join(this.tempDir, `concat_${id}.${format}`);
+
+    try {
+      await fs.mkdir(this.tempDir, { recursive: true });
+      await Promise.all(inputs.map((input, index) => fs.writeFile(files[index], input.audio_data)));
+      await fs.writeFile(list, files.map(file => `file '${file.replace(/'/g, "'\\''")}'`).join('\n'));
+
+      await new Promise<void>((resolve, reject) => {
+        const command = ffmpeg(list).inputOptions(['-f concat', '-safe 0']);
+        if (format === 'wav') {
+          command.audioCodec('pcm_s16le');
+        } else {
+          command.audioCodec('libmp3lame').audioBitrate(config.audio.bitrate);
+        }
+        command
+          .output(output)
+          .on('end', () => resolve())
+          .on('error', (err: Error) => reject(err))
+          .run();
+      });
 
-    // For simplification, return the concatenated audio
-    // In production, would add ID3 tags with metadata
-    return data.audio;
+      return await fs.readFile(output);
+    } catch (error) {
+      logger.error('Audio concatenation failed', { error, segment_count: inputs.length });
+      throw error;
+    } finally {
+      await Promise.all([...files, list, output].map(file => fs.unlink(file).catch(() => undefined)));
+    }
   }
 
   /**
-   * Generate M4B audiobook file
+   * Write the joined book as M4B (AAC) or MP3 (copied as encoded), with the
+   * chapters and tags from an ffmetadata file: MP4 chapters in the M4B, ID3
+   * CHAP frames in the MP3
    */
-  private async generateM4B(
-    data: { audio: Buffer; chapters: ChapterMarker[] },
-    _metadata: any
+  private async writeBook(
+    audio: Buffer,
+    chapters: ChapterMarker[],
+    metadata: AudiobookMetadata,
+    format: 'm4b' | 'mp3'
   ): Promise<Buffer> {
-    logger.info('Generating M4B file');
+    logger.info('Generating audiobook file', { format, chapter_count: chapters.length });
 
-    const tempInput = path.join(this.tempDir, `input_${Date.now()}.mp3`);
-    const tempOutput = path.join(this.tempDir, `output_${Date.now()}.m4b`);
+    const id = randomUUID();
+    const tempInput = path.join(this.tempDir, `book_${id}.mp3`);
+    const tempMetadata = path.join(this.tempDir, `book_${id}.ffmetadata`);
+    const tempOutput = path.join(this.tempDir, `book_${id}_out.${format}`);
 
     try {
-      // Write input file
-      await fs.writeFile(tempInput, data.audio);
+      await fs.mkdir(this.tempDir, { recursive: true });
+      await fs.writeFile(tempInput, audio);
+      await fs.writeFile(tempMetadata, this.ffmetadata(chapters, metadata));
 
-      // Convert to M4B with chapter markers
       await new Promise<void>((resolve, reject) => {
-        ffmpeg(tempInput)
-          .audioCodec('aac')
-          .audioBitrate(config.audio.bitrate)
-          .audioFrequency(config.audio.sampleRate)
-          .outputFormat('ipod')
+        const command = ffmpeg(tempInput)
+          .input(tempMetadata)
+          .outputOptions(['-map 0:a', '-map_metadata 1', '-map_chapters 1']);
+        if (format === 'm4b') {
+          command
+            .audioCodec('aac')
+            .audioBitrate(config.audio.bitrate)
+            .audioFrequency(config.audio.sampleRate)
+            .outputFormat('ipod');
+        } else {
+          command.audioCodec('copy').outputOptions('-id3v2_version 3').outputFormat('mp3');
+        }
+        command
           .output(tempOutput)
           .on('end', () => resolve())
           .on('error', (err: Error) => reject(err))
           .run();
       });
 
-      // Read output file
-      const m4bData = await fs.readFile(tempOutput);
-
-      // Clean up
-      await fs.unlink(tempInput);
-      await fs.unlink(tempOutput);
-
-      return m4bData;
+      return await fs.readFile(tempOutput);
 
     } catch (error) {
-      logger.error('M4B generation failed', { error });
+      logger.error('Audiobook file generation failed', { error, format });
       throw error;
+    } finally {
+      await Promise.all([tempInput, tempMetadata, tempOutput].map(file => fs.unlink(file).catch(() => undefined)));
     }
   }
 
   /**
-   * Calculate total duration
+   * The book's tags and chapters in ffmpeg's metadata file format, timed in milliseconds
    */
-  private calculateTotalDuration(normalized: NormalizedAudio[]): number {
-    return normalized.reduce((sum, audio) => sum + audio.duration, 0);
-  }
+  private ffmetadata(chapters: ChapterMarker[], metadata: AudiobookMetadata): string {
+    const tags: Array<[string, string | undefined]> = [
+      ['title', metadata.title],
+      ['album', metadata.series || metadata.title],
+      ['artist', metadata.author],
+      ['album_artist', metadata.author],
+      ['composer', metadata.narrator],
+      ['date', metadata.publication_date],
+      ['genre', 'Audiobook']
+    ];
+
+    const lines = [';FFMETADATA1'];
+    for (const [key, value] of tags) {
+      if (value) lines.push(`${key}=${escapeMetadata(value)}`);
+    }
 
-  /**
-   * Calculate total cost
-   */
-  private calculateCost(segments: GeneratedAudio[]): number {
-    return segments.reduce((sum, segment) => sum + segment.cost, 0);
+    for (const chapter of chapters) {
+      lines.push(
+        '',
+        '[CHAPTER]',
+        'TIMEBASE=1/1000',
+        `START=${Math.round(chapter.start_time * 1000)}`,
+        `END=${Math.round((chapter.start_time + chapter.duration) * 1000)}`,
+        `title=${escapeMetadata(chapter.title)}`
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
   }
 
   /**
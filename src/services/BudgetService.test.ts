@@ -0,0 +1,172 @@
+import { Pool } from 'pg';
+import BudgetService from './BudgetService';
+import { logger } from '../utils/logger';
+
+/**
+ * The spend ledger and tenant caps, with every statement recorded
+ */
+function fakeDb(tenantCaps: Record<string, number | null> = {}) {
+  const ledger: Array<{ run_id: string; tenant_id: string | null; cost_dollars: number }> = [];
+  const statements: string[] = [];
+
+  const query = jest.fn(async (sql: string, params: unknown[] = []) => {
+    statements.push(sql.trim().split(/\s+/).slice(0, 2).join(' '));
+
+    if (sql.includes('FROM prose.audiobook_tenant_budgets')) {
+      const tenantId = params[0] as string;
+      return { rows: tenantId in tenantCaps ? [{ monthly_cap_dollars: tenantCaps[tenantId]?.toString() ?? null }] : [] };
+    }
+    if (sql.includes('SUM(cost_dollars)')) {
+      const column = sql.includes('WHERE run_id') ? 'run_id' : 'tenant_id';
+      const spent = ledger.filter(entry => entry[column] === params[0]).reduce((sum, entry) => sum + entry.cost_dollars, 0);
+      return { rows: [{ spent: String(spent) }] };
+    }
+    if (sql.includes('INSERT INTO prose.audiobook_run_spend')) {
+      ledger.push({ run_id: params[0] as string, tenant_id: params[2] as string | null, cost_dollars: params[3] as number });
+    }
+    return { rows: [] };
+  });
+
+  const pool = { query, connect: async () => ({ query, release: jest.fn() }) } as unknown as Pool;
+  const spent = (column: 'run_id' | 'tenant_id', id: string) =>
+    ledger.filter(entry => entry[column] === id).reduce((sum, entry) => sum + entry.cost_dollars, 0);
+
+  return { pool, ledger, statements, spent };
+}
+
+describe('BudgetService', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('records an uncapped run\'s spend without limiting it', async () => {
+    const db = fakeDb({ acme: null });
+    const budget = await new BudgetService(db.pool).open('p1', 'job-1', { tenant_id: 'acme' });
+
+    expect(budget.cap).toBeNull();
+    expect(await budget.reserve(1000)).toBe(true);
+    await budget.settle(1000, 900);
+
+    expect(db.spent('tenant_id', 'acme')).toBe(900);
+    expect(budget.report()).toMatchObject({ cap_dollars: null, spent_dollars: 900 });
+  });
+
+  it('holds a tenant capped mid-month to what it spent uncapped', async () => {
+    const caps: Record<string, number | null> = { acme: null };
+    const db = fakeDb(caps);
+    const service = new BudgetService(db.pool);
+    await (await service.open('p1', 'job-1', { tenant_id: 'acme' })).settle(0, 8);
+
+    caps.acme = 10;
+    const budget = await service.open('p2', 'job-2', { tenant_id: 'acme' });
+
+    expect(budget.cap).toBe(2);
+    expect(await budget.reserve(3)).toBe(false);
+  });
+
+  it('holds a run to the tighter of its own cap and what is left of the tenant month', async () => {
+    const db = fakeDb({ acme: 10 });
+    db.ledger.push({ run_id: 'other', tenant_id: 'acme', cost_dollars: 7 });
+    db.ledger.push({ run_id: 'job-1', tenant_id: 'acme', cost_dollars: 1 });
+    const service = new BudgetService(db.pool);
+
+    const tenantBound = await service.open('p1', 'job-1', { tenant_id: 'acme', max_cost_dollars: 20 });
+    const runBound = await service.open('p1', 'job-1', { tenant_id: 'acme', max_cost_dollars: 2 });
+
+    // The run's own $1 from an earlier attempt counts towards both
+    expect(tenantBound.cap).toBe(3);
+    expect(tenantBound.remaining()).toBe(2);
+    expect(runBound.cap).toBe(2);
+  });
+
+  it('keeps parallel requests of a run within its cap', async () => {
+    const db = fakeDb();
+    const budget = (await new BudgetService(db.pool).open('p1', 'job-1', { max_cost_dollars: 1 }));
+
+    const reservations = await Promise.all([budget.reserve(0.6), budget.reserve(0.6)]);
+    expect(reservations).toEqual([true, false]);
+
+    await budget.settle(0.6, 0.5);
+    expect(db.spent('run_id', 'job-1')).toBe(0.5);
+    expect(await budget.reserve(0.5)).toBe(true);
+  });
+
+  describe('tenant caps', () => {
+    it('charges each reservation to the tenant month under an advisory lock, then corrects it', async () => {
+      const db = fakeDb({ acme: 1 });
+      const budget = (await new BudgetService(db.pool).open('p1', 'job-1', { tenant_id: 'acme' }));
+      db.statements.length = 0;
+
+      expect(await budget.reserve(0.4)).toBe(true);
+      expect(db.statements).toEqual([
+        'BEGIN',
+        'SELECT pg_advisory_xact_lock(hashtext($1))',
+        'SELECT monthly_cap_dollars',
+        'SELECT COALESCE(SUM(cost_dollars),',
+        'INSERT INTO',
+        'COMMIT'
+      ]);
+      expect(db.spent('tenant_id', 'acme')).toBe(0.4);
+
+      await budget.settle(0.4, 0.3);
+      expect(db.spent('tenant_id', 'acme')).toBeCloseTo(0.3);
+    });
+
+    it('refuses a reservation another run already took the room for', async () => {
+      const db = fakeDb({ acme: 1 });
+      const service = new BudgetService(db.pool);
+      const first = (await service.open('p1', 'job-1', { tenant_id: 'acme' }));
+      const second = (await service.open('p2', 'job-2', { tenant_id: 'acme' }));
+
+      // Each run alone still sees the whole month free
+      expect(await first.reserve(0.7)).toBe(true);
+      expect(await second.reserve(0.7)).toBe(false);
+      expect(second.remaining()).toBe(1);
+      expect(db.spent('tenant_id', 'acme')).toBe(0.7);
+    });
+
+    it('applies a cap raised mid-run to the next reservation', async () => {
+      const caps: Record<string, number | null> = { acme: 1 };
+      const db = fakeDb(caps);
+      const service = new BudgetService(db.pool);
+      const other = (await service.open('p2', 'job-2', { tenant_id: 'acme' }));
+      const budget = (await service.open('p1', 'job-1', { tenant_id: 'acme', max_cost_dollars: 5 }));
+      await other.reserve(0.8);
+
+      expect(await budget.reserve(0.5)).toBe(false);
+      caps.acme = 2;
+      expect(await budget.reserve(0.5)).toBe(true);
+    });
+
+    it('rolls back a reservation that fails', async () => {
+      jest.spyOn(logger, 'error').mockImplementation(() => logger);
+      const db = fakeDb({ acme: 1 });
+      const budget = (await new BudgetService(db.pool).open('p1', 'job-1', { tenant_id: 'acme' }));
+      db.pool.query = jest.fn();
+      const failing = jest.fn(async (sql: string) => {
+        if (sql.startsWith('SELECT pg_advisory')) throw new Error('lock timeout');
+        return { rows: [] };
+      });
+      db.pool.connect = jest.fn(async () => ({ query: failing, release: jest.fn() })) as never;
+
+      await expect(budget.reserve(0.5)).rejects.toThrow('lock timeout');
+      expect(failing).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(budget.remaining()).toBe(1);
+    });
+  });
+
+  it('warns once as spend passes each threshold', async () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    const budget = (await new BudgetService(fakeDb().pool).open('p1', 'job-1', {
+      max_cost_dollars: 10,
+      warn_thresholds: [0.5, 0.8]
+    }));
+
+    await budget.settle(0, 6);
+    await budget.settle(0, 1);
+    await budget.settle(0, 2);
+
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenNthCalledWith(1, 'Generation budget threshold reached', expect.objectContaining({ threshold: 0.5 }));
+    expect(warn).toHaveBeenNthCalledWith(2, 'Generation budget threshold reached', expect.objectContaining({ threshold: 0.8 }));
+    expect(budget.note()).toBe(' ($9.00 of $10.00 budget, 80% warning)');
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Budget Service
+ * Caps what a generation run may spend, per run and per tenant month
+ */
+
+import { randomUUID } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { BudgetAction, BudgetOptions, BudgetReport, TenantBudget } from '../types';
+
+const BUDGET_ACTIONS: BudgetAction[] = ['stop', 'downgrade'];
+
+// Rounding slack so a cap of $10.00 admits exactly $10.00 of spend
+const EPSILON = 1e-9;
+
+/**
+ * Thrown when a run would spend past its cap; the run is not retried
+ */
+export class BudgetExceededError extends Error {}
+
+interface RunIdentity {
+  runId: string;
+  projectId: string;
+  tenantId: string | null;
+}
+
+/**
+ * One run's spend against its cap, or just its spend when it has none.
+ * Segments reserve their estimated cost
+ * before the provider call, so parallel requests cannot overshoot together.
+ * Runs of a capped tenant also reserve against the tenant's month in Postgres,
+ * so runs on other instances cannot overshoot it together either.
+ */
+export class RunBudget {
+  readonly action: BudgetAction;
+  readonly cap: number | null;
+  readonly tenantCapped: boolean;
+  projected = 0;
+  downgraded = 0;
+  exhausted = false;
+  private service: BudgetService;
+  private identity: RunIdentity;
+  private spent: number;
+  private reserved = 0;
+  private thresholds: number[];
+  private warned: Set<number> = new Set();
+
+  constructor(
+    service: BudgetService,
+    identity: RunIdentity,
+    cap: number | null,
+    spentBefore: number,
+    action: BudgetAction,
+    thresholds: number[],
+    tenantCapped: boolean = false
+  ) {
+    this.service = service;
+    this.identity = identity;
+    this.cap = cap;
+    this.tenantCapped = tenantCapped;
+    this.spent = spentBefore;
+    this.action = action;
+    this.thresholds = [...thresholds].sort((a, b) => a - b);
+
+    // Thresholds passed in earlier attempts are not warned about again
+    this.checkThresholds(false);
+  }
+
+  /**
+   * Whether spending this much more would pass the cap
+   */
+  wouldExceed(dollars: number): boolean {
+    return this.cap !== null && this.spent + this.reserved + dollars > this.cap + EPSILON;
+  }
+
+  /**
+   * Hold an estimated cost for an in-flight request; false if it does not fit
+   * the run's cap or, for a capped tenant, what is left of the tenant's month
+   */
+  async reserve(dollars: number): Promise<boolean> {
+    if (this.wouldExceed(dollars)) {
+      return false;
+    }
+    // Held before the tenant check, so the run's parallel requests see each other
+    this.reserved += dollars;
+    if (!this.tenantCapped) {
+      return true;
+    }
+
+    let fits = false;
+    try {
+      fits = await this.service.reserveTenantSpend(this.identity, dollars);
+    } finally {
+      if (!fits) {
+        this.reserved -= dollars;
+      }
+    }
+    return fits;
+  }
+
+  /**
+   * Replace a reservation with what the request actually cost
+   */
+  async settle(reserved: number, actual: number): Promise<void> {
+    this.reserved -= reserved;
+    this.spent += actual;
+
+    // A capped tenant's month was charged the estimate when it was reserved
+    const charge = this.tenantCapped ? actual - reserved : actual;
+    if (charge !== 0) {
+      await this.service.recordSpend(this.identity, charge);
+    }
+    this.checkThresholds(true);
+  }
+
+  remaining(): number | null {
+    return this.cap === null ? null : Math.max(0, this.cap - this.spent - this.reserved);
+  }
+
+  exceededMessage(): string {
+    return `Budget cap of $${this.cap?.toFixed(2)} reached after spending $${this.spent.toFixed(2)}`;
+  }
+
+  /**
+   * Progress message suffix with spend so far and the last threshold passed
+   */
+  note(): string {
+    if (this.cap === null) {
+      return '';
+    }
+
+    const passed = [...this.warned].pop();
+    const warning = passed === undefined ? '' : `, ${Math.round(passed * 100)}% warning`;
+    return ` ($${this.spent.toFixed(2)} of $${this.cap.toFixed(2)} budget${warning})`;
+  }
+
+  report(): BudgetReport {
+    return {
+      cap_dollars: this.cap,
+      projected_dollars: this.projected,
+      spent_dollars: this.spent,
+      downgraded_segments: this.downgraded
+    };
+  }
+
+  private checkThresholds(log: boolean): void {
+    if (this.cap === null || this.cap <= 0) return;
+
+    for (const threshold of this.thresholds) {
+      if (this.warned.has(threshold) || this.spent < threshold * this.cap) continue;
+
+      this.warned.add(threshold);
+      if (log) {
+        logger.warn('Generation budget threshold reached', {
+          project_id: this.identity.projectId,
+          run_id: this.identity.runId,
+          threshold,
+          spent_dollars: this.spent,
+          cap_dollars: this.cap
+        });
+      }
+    }
+  }
+}
+
+export class BudgetService {
+  private db: Pool;
+
+  constructor(db: Pool) {
+    this.db = db;
+  }
+
+  /**
+   * The budget for a run: the tighter of its own cap and what is left of the
+   * tenant's month. A run with neither has no cap, but its spend is still
+   * recorded, so a tenant capped later in the month is held to what it spent.
+   */
+  async open(projectId: string, runId: string | undefined, options: BudgetOptions = {}): Promise<RunBudget> {
+    const tenantId = options.tenant_id ?? null;
+    const tenant = tenantId ? await this.getTenantBudget(tenantId) : null;
+    const tenantCap = tenant?.monthly_cap_dollars ?? null;
+    const runCap = options.max_cost_dollars ?? null;
+
+    const action = options.on_exceeded ?? config.budget.onExceeded;
+    if (!BUDGET_ACTIONS.includes(action as BudgetAction)) {
+      throw new Error(`Unknown budget action: ${action}`);
+    }
+
+    const identity: RunIdentity = { runId: runId ?? randomUUID(), projectId, tenantId };
+    const spentBefore = runId ? await this.runSpend(runId) : 0;
+
+    const caps: number[] = [];
+    if (runCap !== null) {
+      caps.push(runCap);
+    }
+    if (tenant && tenantCap !== null) {
+      // The tenant's month already includes what this run spent in earlier attempts
+      caps.push(spentBefore + Math.max(0, tenantCap - tenant.month_spent_dollars));
+    }
+
+    const budget = new RunBudget(
+      this,
+      identity,
+      caps.length > 0 ? Math.min(...caps) : null,
+      spentBefore,
+      action as BudgetAction,
+      options.warn_thresholds ?? this.defaultThresholds(),
+      tenantCap !== null
+    );
+
+    logger.info('Generation budget opened', {
+      project_id: projectId,
+      run_id: identity.runId,
+      tenant_id: tenantId,
+      cap_dollars: budget.cap,
+      spent_dollars: spentBefore,
+      on_exceeded: budget.action
+    });
+    return budget;
+  }
+
+  /**
+   * Add spend to the run's ledger for the current month; negative amounts
+   * return what a reservation held beyond the actual cost
+   */
+  async recordSpend(identity: RunIdentity, dollars: number, client: Pool | PoolClient = this.db): Promise<void> {
+    await client.query(
+      `INSERT INTO prose.audiobook_run_spend (run_id, month, project_id, tenant_id, cost_dollars)
+       VALUES ($1, date_trunc('month', NOW())::date, $2, $3, $4)
+       ON CONFLICT (run_id, month) DO UPDATE
+         SET cost_dollars = prose.audiobook_run_spend.cost_dollars + EXCLUDED.cost_dollars,
+             updated_at = NOW()`,
+      [identity.runId, identity.projectId, identity.tenantId, dollars]
+    );
+  }
+
+  /**
+   * Charge an estimated cost to the tenant's month if it fits the tenant's cap.
+   * Reservations for a tenant are serialized with an advisory lock, so runs on
+   * any instance see each other's spend. A run that dies mid-request keeps its
+   * estimate charged.
+   */
+  async reserveTenantSpend(identity: RunIdentity, dollars: number): Promise<boolean> {
+    const tenantId = identity.tenantId!;
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`audiobook_tenant_budget:${tenantId}`]);
+
+      // Read under the lock, so a cap changed mid-run applies to the next request
+      const cap = await this.tenantCap(tenantId, client);
+      const spent = await this.monthSpend(tenantId, client);
+      const fits = cap === null || spent + dollars <= cap + EPSILON;
+      if (fits) {
+        await this.recordSpend(identity, dollars, client);
+      }
+
+      await client.query('COMMIT');
+      return fits;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to reserve tenant budget', { error, tenant_id: tenantId, run_id: identity.runId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * The tenant's cap for this month and what it has spent so far
+   */
+  async getTenantBudget(tenantId: string): Promise<TenantBudget> {
+    const [cap, spent] = await Promise.all([this.tenantCap(tenantId), this.monthSpend(tenantId)]);
+
+    return {
+      tenant_id: tenantId,
+      monthly_cap_dollars: cap,
+      month_spent_dollars: spent
+    };
+  }
+
+  /**
+   * Set a tenant's monthly cap; null removes the cap for the tenant
+   */
+  async setTenantCap(tenantId: string, monthlyCapDollars: number | null): Promise<TenantBudget> {
+    await this.db.query(
+      `INSERT INTO prose.audiobook_tenant_budgets (tenant_id, monthly_cap_dollars)
+       VALUES ($1, $2)
+       ON CONFLICT (tenant_id) DO UPDATE
+         SET monthly_cap_dollars = EXCLUDED.monthly_cap_dollars, updated_at = NOW()`,
+      [tenantId, monthlyCapDollars]
+    );
+
+    logger.info('Tenant budget updated', { tenant_id: tenantId, monthly_cap_dollars: monthlyCapDollars });
+    return this.getTenantBudget(tenantId);
+  }
+
+  private async runSpend(runId: string): Promise<number> {
+    const result = await this.db.query(
+      'SELECT COALESCE(SUM(cost_dollars), 0) AS spent FROM prose.audiobook_run_spend WHERE run_id = $1',
+      [runId]
+    );
+    return parseFloat(result.rows[0].spent);
+  }
+
+  private async tenantCap(tenantId: string, client: Pool | PoolClient = this.db): Promise<number | null> {
+    const result = await client.query(
+      'SELECT monthly_cap_dollars FROM prose.audiobook_tenant_budgets WHERE tenant_id = $1',
+      [tenantId]
+    );
+
+    const configured = config.budget.tenantMonthlyCapDollars > 0 ? config.budget.tenantMonthlyCapDollars : null;
+    const row = result.rows[0];
+    // A row with a NULL cap exempts the tenant from the configured default
+    return row ? (row.monthly_cap_dollars === null ? null : parseFloat(row.monthly_cap_dollars)) : configured;
+  }
+
+  private async monthSpend(tenantId: string, client: Pool | PoolClient = this.db): Promise<number> {
+    const result = await client.query(
+      `SELECT COALESCE(SUM(cost_dollars), 0) AS spent FROM prose.audiobook_run_spend
+       WHERE tenant_id = $1 AND month = date_trunc('month', NOW())::date`,
+      [tenantId]
+    );
+    return parseFloat(result.rows[0].spent);
+  }
+
+  private defaultThresholds(): number[] {
+    return config.budget.warnThresholds
+      .split(',')
+      .map(value => parseFloat(value))
+      .filter(value => !isNaN(value) && value > 0 && value <= 1);
+  }
+}
+
+export default BudgetService;
@@ -0,0 +1,73 @@
+import CircuitBreaker from './CircuitBreaker';
+import { config } from '../config';
+
+describe('CircuitBreaker', () => {
+  const { failureThreshold, openMs } = config.circuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function tripped(probe: () => Promise<boolean>): CircuitBreaker {
+    const breaker = new CircuitBreaker('elevenlabs', probe);
+    for (let i = 0; i < failureThreshold; i++) {
+      breaker.recordFailure();
+    }
+    return breaker;
+  }
+
+  it('opens after consecutive failures and turns requests away', async () => {
+    const breaker = tripped(async () => true);
+
+    expect(breaker.getState()).toBe('open');
+    expect(await breaker.allowRequest()).toBe(false);
+  });
+
+  it('stays closed while successes break up the failures', async () => {
+    const breaker = new CircuitBreaker('elevenlabs', async () => true);
+    for (let i = 0; i < failureThreshold * 2; i++) {
+      breaker.recordFailure();
+      breaker.recordSuccess();
+    }
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('opens on the error rate once enough requests were seen', () => {
+    const breaker = new CircuitBreaker('elevenlabs', async () => true);
+    const { minRequests } = config.circuitBreaker;
+    for (let i = 0; i < minRequests; i++) {
+      if (i % 3 === 2) {
+        breaker.recordSuccess();
+      } else {
+        breaker.recordFailure();
+      }
+    }
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('closes when the half-open probe passes, sharing one probe between callers', async () => {
+    const probe = jest.fn(async () => true);
+    const breaker = tripped(probe);
+    jest.advanceTimersByTime(openMs);
+
+    const results = await Promise.all([breaker.allowRequest(), breaker.allowRequest()]);
+
+    expect(results).toEqual([true, true]);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('opens again when the half-open probe fails', async () => {
+    const breaker = tripped(async () => false);
+    jest.advanceTimersByTime(openMs);
+
+    expect(await breaker.allowRequest()).toBe(false);
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', retry_at: expect.any(String) });
+  });
+});
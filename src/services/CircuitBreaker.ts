@@ -0,0 +1,150 @@
+/**
+ * Circuit Breaker
+ * Stops sending requests to a failing provider so segments fall through to the
+ * next one immediately instead of waiting out retries
+ */
+
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { CircuitState, CircuitStatus, TTSProvider } from '../types';
+
+export class CircuitBreaker {
+  private provider: TTSProvider;
+  private probe: () => Promise<boolean>;
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = [];
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probing: Promise<boolean> | null = null;
+
+  /**
+   * @param probe Decides whether an open circuit may close; the provider's healthCheck()
+   */
+  constructor(provider: TTSProvider, probe: () => Promise<boolean>) {
+    this.provider = provider;
+    this.probe = probe;
+  }
+
+  /**
+   * Whether a request may go to the provider. Once the open period has passed,
+   * one half-open probe runs and every caller waiting on it shares its result.
+   */
+  async allowRequest(): Promise<boolean> {
+    if (!config.circuitBreaker.enabled || this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && Date.now() < this.retryAt()) {
+      return false;
+    }
+
+    if (!this.probing) {
+      this.state = 'half_open';
+      this.probing = this.runProbe().finally(() => {
+        this.probing = null;
+      });
+    }
+    return this.probing;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.push(true);
+
+    if (this.state !== 'closed') {
+      this.close('request succeeded');
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.push(false);
+
+    if (this.state === 'half_open') {
+      this.open('request failed while half-open');
+      return;
+    }
+
+    if (this.state !== 'closed') {
+      return;
+    }
+
+    const { failureThreshold, errorRate, minRequests } = config.circuitBreaker;
+    if (this.consecutiveFailures >= failureThreshold) {
+      this.open(`${this.consecutiveFailures} consecutive failures`);
+    } else if (this.outcomes.length >= minRequests && this.errorRate() >= errorRate) {
+      this.open(`error rate ${this.errorRate().toFixed(2)}`);
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      error_rate: this.errorRate(),
+      opened_at: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+      retry_at: this.state === 'open' ? new Date(this.retryAt()).toISOString() : null
+    };
+  }
+
+  private async runProbe(): Promise<boolean> {
+    let healthy = false;
+    try {
+      healthy = await this.probe();
+    } catch (error) {
+      logger.warn('Circuit breaker probe failed', { provider: this.provider, error });
+    }
+
+    if (healthy) {
+      this.close('health check passed');
+    } else {
+      this.open('health check failed');
+    }
+    return healthy;
+  }
+
+  private open(reason: string): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+
+    logger.warn('Circuit opened', {
+      provider: this.provider,
+      reason,
+      retry_at: new Date(this.retryAt()).toISOString()
+    });
+  }
+
+  private close(reason: string): void {
+    this.state = 'closed';
+    this.openedAt = null;
+    this.consecutiveFailures = 0;
+    // Failures from before the outage must not re-open the circuit straight away
+    this.outcomes = [];
+
+    logger.info('Circuit closed', { provider: this.provider, reason });
+  }
+
+  private push(success: boolean): void {
+    this.outcomes.push(success);
+    if (this.outcomes.length > config.circuitBreaker.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private errorRate(): number {
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    return this.outcomes.filter(success => !success).length / this.outcomes.length;
+  }
+
+  private retryAt(): number {
+    return (this.openedAt ?? 0) + config.circuitBreaker.openMs;
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,40 @@
+import DialogueSplitter from './DialogueSplitter';
+
+describe('DialogueSplitter', () => {
+  const splitter = new DialogueSplitter();
+  const spans = (paragraph: string) =>
+    splitter.splitParagraph(paragraph).spans.map(span => [span.type, span.text]);
+
+  it('separates quoted speech from narration', () => {
+    expect(spans('“Run,” she said. “Now.”')).toEqual([
+      ['dialogue', '“Run,”'],
+      ['narrative', 'she said.'],
+      ['dialogue', '“Now.”']
+    ]);
+  });
+
+  it('handles straight quotes and guillemets', () => {
+    expect(spans('"Hello," he said.')).toEqual([['dialogue', '"Hello,"'], ['narrative', 'he said.']]);
+    expect(spans('«Bonjour», dit-il.')).toEqual([['dialogue', '«Bonjour»'], ['narrative', ', dit-il.']]);
+  });
+
+  it('keeps quotes nested in speech inside the speech', () => {
+    expect(spans('“He told me ‘never’ twice,” she said.')).toEqual([
+      ['dialogue', '“He told me ‘never’ twice,”'],
+      ['narrative', 'she said.']
+    ]);
+  });
+
+  it('does not mistake apostrophes for quotes', () => {
+    expect(spans('It wasn’t the dogs’ fault.')).toEqual([['narrative', 'It wasn’t the dogs’ fault.']]);
+  });
+
+  it('carries speech left open into the next paragraph', () => {
+    const first = splitter.splitParagraph('“I went on and on.');
+    const second = splitter.splitParagraph('“And then I stopped.”', first);
+
+    expect(first.ends_open).toBe(true);
+    expect(second.continues_dialogue).toBe(true);
+    expect(second.ends_open).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Dialogue Splitter
+ * Splits paragraphs into alternating quoted-speech and narration spans
+ */
+
+export interface TextSpan {
+  type: 'dialogue' | 'narrative';
+  text: string;
+  start: number; // offset into the paragraph
+  end: number; // exclusive
+}
+
+export interface DialogueSplitResult {
+  spans: TextSpan[];
+  continues_dialogue: boolean; // opens by continuing the previous paragraph's speech
+  ends_open: boolean; // last quotation was left open for the next paragraph
+}
+
+type QuoteKind = 'double' | 'single' | 'guillemet';
+
+export class DialogueSplitter {
+  /**
+   * Split a paragraph into dialogue and narrative spans.
+   * Handles curly, straight and guillemet quotes, quotes nested inside speech,
+   * and speech that carries on from a previous paragraph left open.
+   */
+  splitParagraph(paragraph: string, previous?: DialogueSplitResult): DialogueSplitResult {
+    const spans: TextSpan[] = [];
+    const stack: QuoteKind[] = [];
+    let spanStart = 0;
+
+    for (let i = 0; i < paragraph.length; i++) {
+      const wasQuoted = stack.length > 0;
+      this.applyQuoteChar(paragraph, i, stack);
+      const isQuoted = stack.length > 0;
+
+      if (!wasQuoted && isQuoted) {
+        // Opening quote mark belongs to the speech
+        this.pushSpan(spans, 'narrative', paragraph, spanStart, i);
+        spanStart = i;
+      } else if (wasQuoted && !isQuoted) {
+        // Closing quote mark belongs to the speech
+        this.pushSpan(spans, 'dialogue', paragraph, spanStart, i + 1);
+        spanStart = i + 1;
+      }
+    }
+
+    const endsOpen = stack.length > 0;
+    this.pushSpan(spans, endsOpen ? 'dialogue' : 'narrative', paragraph, spanStart, paragraph.length);
+
+    const continuesDialogue = Boolean(previous?.ends_open) &&
+      spans.length > 0 &&
+      spans[0].type === 'dialogue' &&
+      spans[0].start === 0;
+
+    return {
+      spans,
+      continues_dialogue: continuesDialogue,
+      ends_open: endsOpen
+    };
+  }
+
+  /**
+   * Update the open-quote stack for the character at `index`
+   */
+  private applyQuoteChar(text: string, index: number, stack: QuoteKind[]): void {
+    const char = text.charAt(index);
+    const top = stack[stack.length - 1];
+
+    switch (char) {
+      case '“':
+        stack.push('double');
+        break;
+      case '”':
+        this.closeQuote(stack, 'double');
+        break;
+      case '"':
+        if (top === 'double') {
+          stack.pop();
+        } else {
+          stack.push('double');
+        }
+        break;
+      case '«':
+        stack.push('guillemet');
+        break;
+      case '»':
+        this.closeQuote(stack, 'guillemet');
+        break;
+      case '‘':
+        if (this.isOpeningContext(text, index)) {
+          stack.push('single');
+        }
+        break;
+      case '’':
+      case '\'':
+        // Single quotes double as apostrophes; only treat them as quotes at word edges
+        if (top === 'single' && this.isClosingContext(text, index)) {
+          stack.pop();
+        } else if (char === '\'' && this.isOpeningContext(text, index)) {
+          stack.push('single');
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Close the innermost quote of the given kind, discarding any unbalanced inner quotes
+   */
+  private closeQuote(stack: QuoteKind[], kind: QuoteKind): void {
+    const index = stack.lastIndexOf(kind);
+    if (index !== -1) {
+      stack.length = index;
+    }
+  }
+
+  /**
+   * A quote opens when preceded by nothing, whitespace, a dash or an opening bracket
+   * and followed by a visible character
+   */
+  private isOpeningContext(text: string, index: number): boolean {
+    const before = index === 0 ? '' : text.charAt(index - 1);
+    const after = text.charAt(index + 1);
+    return (before === '' || /[\s([—–“"]/.test(before)) && after !== '' && !/\s/.test(after);
+  }
+
+  /**
+   * A quote closes when preceded by a visible character and followed by the end,
+   * whitespace or punctuation
+   */
+  private isClosingContext(text: string, index: number): boolean {
+    const before = index === 0 ? '' : text.charAt(index - 1);
+    const after = text.charAt(index + 1);
+    return before !== '' && !/\s/.test(before) && (after === '' || /[\s.,;:!?)\]—–”"]/.test(after));
+  }
+
+  /**
+   * Record a span, trimming whitespace and skipping spans without any words
+   */
+  private pushSpan(
+    spans: TextSpan[],
+    type: TextSpan['type'],
+    paragraph: string,
+    start: number,
+    end: number
+  ): void {
+    const raw = paragraph.slice(start, end);
+    const text = raw.trim();
+
+    if (!/[\p{L}\p{N}]/u.test(text)) {
+      return;
+    }
+
+    const trimmedStart = start + (raw.length - raw.trimStart().length);
+    spans.push({
+      type,
+      text,
+      start: trimmedStart,
+      end: trimmedStart + text.length
+    });
+  }
+}
+
+export default DialogueSplitter;
@@ -0,0 +1,79 @@
+import EmotionDetector from './EmotionDetector';
+import { AudioSegment } from '../types';
+
+function segment(id: string, overrides: Partial<AudioSegment> = {}): AudioSegment {
+  return {
+    id,
+    chapter_id: 'ch1',
+    sequence_number: 1,
+    paragraph_number: 1,
+    segment_type: 'dialogue',
+    character_name: null,
+    attribution_confidence: null,
+    text_content: 'Hello.',
+    emotion_detected: 'neutral',
+    emotion_intensity: 0,
+    emotion_locked: false,
+    ...overrides
+  };
+}
+
+describe('EmotionDetector', () => {
+  const detector = new EmotionDetector();
+
+  describe('detect', () => {
+    it('reads the emotion from the dialogue tag and manner adverb', () => {
+      expect(detector.detect({
+        text: '“Get out.”',
+        context: 'Tom snarled angrily.',
+        segment_type: 'dialogue'
+      }).type).toBe('anger');
+    });
+
+    it('raises intensity for exclamations and shouted words', () => {
+      const calm = detector.detect({ text: 'I am so afraid.', segment_type: 'dialogue' });
+      const loud = detector.detect({ text: 'I am so AFRAID!!', segment_type: 'dialogue' });
+
+      expect(calm.type).toBe('fear');
+      expect(loud.type).toBe('fear');
+      expect(loud.intensity).toBeGreaterThan(calm.intensity);
+    });
+
+    it('damps the same cues in narration', () => {
+      const spoken = detector.detect({ text: 'She sobbed and sobbed.', segment_type: 'dialogue' });
+      const narrated = detector.detect({ text: 'She sobbed and sobbed.', segment_type: 'narrative' });
+
+      expect(narrated.type).toBe('sadness');
+      expect(narrated.intensity).toBeLessThan(spoken.intensity);
+    });
+
+    it('returns neutral when no cue is strong enough', () => {
+      expect(detector.detect({ text: 'The train left at noon.', segment_type: 'narrative' }))
+        .toEqual({ type: 'neutral', intensity: 0 });
+    });
+  });
+
+  describe('applyOverrides', () => {
+    it('applies overrides by segment id and reports the segments they changed', () => {
+      const segments = [segment('a'), segment('b'), segment('c', { emotion_detected: 'joy', emotion_intensity: 0.5 })];
+
+      const changed = detector.applyOverrides(segments, [
+        { segment_id: 'a', emotion: 'fear', intensity: 0.8, locked: true },
+        { segment_id: 'c', emotion: 'joy' },
+        { segment_id: 'missing', emotion: 'anger' }
+      ]);
+
+      expect(changed).toEqual(['a']);
+      expect(segments[0]).toMatchObject({ emotion_detected: 'fear', emotion_intensity: 0.8, emotion_locked: true });
+      expect(segments[1]).toMatchObject({ emotion_detected: 'neutral', emotion_locked: false });
+      expect(segments[2]).toMatchObject({ emotion_detected: 'joy', emotion_intensity: 0.5, emotion_locked: false });
+    });
+
+    it('counts releasing a lock as a change', () => {
+      const segments = [segment('a', { emotion_detected: 'fear', emotion_intensity: 0.8, emotion_locked: true })];
+
+      expect(detector.applyOverrides(segments, [{ segment_id: 'a', emotion: 'fear' }])).toEqual(['a']);
+      expect(segments[0].emotion_locked).toBe(false);
+    });
+  });
+});
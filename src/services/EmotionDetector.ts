@@ -0,0 +1,191 @@
+/**
+ * Emotion Detector
+ * Offline lexicon and rule based emotion classification for audio segments
+ */
+
+import { logger } from '../utils/logger';
+import {
+  AudioSegment,
+  EmotionContext,
+  EmotionOverride,
+  EmotionType
+} from '../types';
+
+type EmotionWeights = Partial<Record<EmotionType, number>>;
+
+/**
+ * Dialogue tag verbs and the emotions they signal
+ */
+const VERB_LEXICON: Record<string, EmotionWeights> = {
+  screamed: { fear: 0.8 }, shrieked: { fear: 0.8 }, whimpered: { fear: 0.7 },
+  stammered: { fear: 0.5 }, stuttered: { fear: 0.5 }, pleaded: { fear: 0.6 },
+  begged: { fear: 0.6 }, whispered: { fear: 0.3 }, trembled: { fear: 0.6 },
+  shouted: { anger: 0.6 }, yelled: { anger: 0.7 }, roared: { anger: 0.8 },
+  bellowed: { anger: 0.7 }, snapped: { anger: 0.7 }, hissed: { anger: 0.6 },
+  growled: { anger: 0.7 }, snarled: { anger: 0.8 }, barked: { anger: 0.5 },
+  thundered: { anger: 0.8 }, spat: { anger: 0.5, disgust: 0.4 },
+  sobbed: { sadness: 0.9 }, wept: { sadness: 0.9 }, wailed: { sadness: 0.8 },
+  sighed: { sadness: 0.4 }, murmured: { sadness: 0.2 }, groaned: { sadness: 0.3, disgust: 0.2 },
+  moaned: { sadness: 0.4 }, laughed: { joy: 0.8 }, giggled: { joy: 0.7 },
+  chuckled: { joy: 0.5 }, beamed: { joy: 0.7 }, teased: { joy: 0.5 },
+  joked: { joy: 0.5 }, quipped: { joy: 0.4 }, purred: { joy: 0.4 },
+  gasped: { surprise: 0.7 }, exclaimed: { surprise: 0.5 }, blurted: { surprise: 0.4 },
+  sneered: { disgust: 0.7 }, scoffed: { disgust: 0.6 }
+};
+
+/**
+ * Manner adverbs and the emotions they signal
+ */
+const ADVERB_LEXICON: Record<string, EmotionWeights> = {
+  angrily: { anger: 0.8 }, furiously: { anger: 0.9 }, bitterly: { anger: 0.5, sadness: 0.4 },
+  coldly: { anger: 0.4 }, fiercely: { anger: 0.6 }, harshly: { anger: 0.5 },
+  happily: { joy: 0.8 }, cheerfully: { joy: 0.7 }, brightly: { joy: 0.6 },
+  gleefully: { joy: 0.8 }, warmly: { joy: 0.5 }, playfully: { joy: 0.5 },
+  sadly: { sadness: 0.8 }, miserably: { sadness: 0.8 }, sorrowfully: { sadness: 0.8 },
+  tearfully: { sadness: 0.8 }, quietly: { sadness: 0.2 }, wearily: { sadness: 0.4 },
+  fearfully: { fear: 0.8 }, nervously: { fear: 0.6 }, anxiously: { fear: 0.6 },
+  shakily: { fear: 0.6 }, desperately: { fear: 0.6 }, urgently: { fear: 0.4 },
+  incredulously: { surprise: 0.7 }, disbelievingly: { surprise: 0.7 },
+  disgustedly: { disgust: 0.8 }, contemptuously: { disgust: 0.7 }, scornfully: { disgust: 0.6 }
+};
+
+/**
+ * Content words, phrases and body language
+ */
+const KEYWORD_LEXICON: Array<{ pattern: RegExp; weights: EmotionWeights }> = [
+  { pattern: /\b(love|wonderful|happy|glad|delighted|beautiful|amazing|smiled|grinned|laughter)\b/i, weights: { joy: 0.4 } },
+  { pattern: /\b(afraid|scared|terrified|frightened|help me|danger|trembl\w*|shiver\w*|panic\w*)\b/i, weights: { fear: 0.5 } },
+  { pattern: /\b(hate|damn|how dare|furious|idiot|enough|clenched|glared|rage)\b/i, weights: { anger: 0.5 } },
+  { pattern: /\b(sorry|miss (you|him|her)|gone|lost|dead|died|tears|crying|alone|grief)\b/i, weights: { sadness: 0.4 } },
+  { pattern: /\b(can't believe|no way|impossible|eyes widened|stunned|startled|really\?)/i, weights: { surprise: 0.5 } },
+  { pattern: /\b(disgusting|gross|revolting|filthy|vile|sickening|wrinkled (his|her|their) nose)\b/i, weights: { disgust: 0.6 } }
+];
+
+const DETECTION_THRESHOLD = 0.3;
+const NARRATIVE_DAMPING = 0.6;
+
+export interface EmotionDetectionInput {
+  text: string;
+  context?: string; // surrounding narration: dialogue tags and action beats
+  segment_type: AudioSegment['segment_type'];
+}
+
+export class EmotionDetector {
+  /**
+   * Classify the emotion of a segment.
+   * Every segment gets a result; weak or absent signals come back as neutral.
+   */
+  detect(input: EmotionDetectionInput): EmotionContext {
+    const scores: Record<EmotionType, number> = {
+      joy: 0, fear: 0, anger: 0, sadness: 0, neutral: 0, surprise: 0, disgust: 0
+    };
+
+    const cues = `${input.text} ${input.context || ''}`;
+    this.scoreWords(cues, VERB_LEXICON, scores);
+    this.scoreWords(cues, ADVERB_LEXICON, scores);
+
+    for (const { pattern, weights } of KEYWORD_LEXICON) {
+      if (pattern.test(cues)) {
+        this.addWeights(scores, weights);
+      }
+    }
+
+    // Interrobangs read as surprise
+    if (/[?!]{2,}/.test(input.text) && /\?/.test(input.text) && /!/.test(input.text)) {
+      scores.surprise += 0.5;
+    }
+
+    // Trailing off reads as hesitation or sadness
+    if (/(\.\.\.|…)\s*["”’']?\s*$/.test(input.text)) {
+      scores.sadness += 0.2;
+    }
+
+    const [type, score] = (Object.entries(scores) as Array<[EmotionType, number]>)
+      .sort((a, b) => b[1] - a[1])[0];
+
+    if (score < DETECTION_THRESHOLD) {
+      return { type: 'neutral', intensity: 0 };
+    }
+
+    let intensity = Math.min(1, score) + this.punctuationBoost(input.text);
+    if (input.segment_type === 'narrative') {
+      intensity *= NARRATIVE_DAMPING;
+    }
+
+    return {
+      type,
+      intensity: Math.round(Math.max(0.2, Math.min(1, intensity)) * 100) / 100
+    };
+  }
+
+  /**
+   * Apply project overrides by segment id.
+   * Locked overrides are marked so later automatic passes leave them alone.
+   * Returns the ids of segments whose emotion or lock the overrides changed.
+   */
+  applyOverrides(segments: AudioSegment[], overrides: EmotionOverride[] = []): string[] {
+    if (overrides.length === 0) return [];
+
+    const byId = new Map(overrides.map(o => [o.segment_id, o]));
+    const changed: string[] = [];
+    let applied = 0;
+
+    for (const segment of segments) {
+      const override = byId.get(segment.id);
+      if (!override) continue;
+
+      const intensity = override.intensity ?? segment.emotion_intensity ?? 0.5;
+      const locked = override.locked ?? false;
+      if (segment.emotion_detected !== override.emotion || segment.emotion_intensity !== intensity ||
+        segment.emotion_locked !== locked) {
+        changed.push(segment.id);
+      }
+
+      segment.emotion_detected = override.emotion;
+      segment.emotion_intensity = intensity;
+      segment.emotion_locked = locked;
+      applied++;
+    }
+
+    logger.info('Applied emotion overrides', {
+      requested: overrides.length,
+      applied,
+      changed: changed.length
+    });
+    return changed;
+  }
+
+  /**
+   * Add lexicon weights for every word present in the text
+   */
+  private scoreWords(
+    text: string,
+    lexicon: Record<string, EmotionWeights>,
+    scores: Record<EmotionType, number>
+  ): void {
+    for (const word of text.toLowerCase().match(/[a-z]+/g) || []) {
+      const weights = lexicon[word];
+      if (weights) {
+        this.addWeights(scores, weights);
+      }
+    }
+  }
+
+  private addWeights(scores: Record<EmotionType, number>, weights: EmotionWeights): void {
+    for (const [emotion, weight] of Object.entries(weights) as Array<[EmotionType, number]>) {
+      scores[emotion] += weight;
+    }
+  }
+
+  /**
+   * Exclamation marks and shouted (all-caps) words raise intensity
+   */
+  private punctuationBoost(text: string): number {
+    const exclamations = (text.match(/!/g) || []).length;
+    const capsWords = (text.match(/\b[A-Z]{2,}\b/g) || []).length;
+
+    return Math.min(0.3, exclamations * 0.1) + (capsWords > 0 ? 0.2 : 0);
+  }
+}
+
+export default EmotionDetector;
@@ -0,0 +1,158 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { inflateRawSync } from 'zlib';
+import { Pool } from 'pg';
+import EpubExporter from './EpubExporter';
+import { ChapterAudioRecord, NormalizationChange, PersistedSegment } from '../types';
+
+/**
+ * Entries of an archive by name, read back from their local headers
+ */
+function unzip(archive: Buffer): Map<string, { method: number; data: Buffer }> {
+  const entries = new Map<string, { method: number; data: Buffer }>();
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const body = archive.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+
+    entries.set(name, { method, data: method === 8 ? inflateRawSync(body) : Buffer.from(body) });
+    offset += 30 + nameLength + size;
+  }
+  return entries;
+}
+
+/**
+ * A rendered segment whose words are each spoken for half a second
+ */
+function segment(
+  id: string,
+  paragraph: number,
+  text: string,
+  offset: number,
+  changes: NormalizationChange[] = []
+): PersistedSegment {
+  const words = [...text.matchAll(/\S+/g)].map((match, index) => ({
+    word: match[0],
+    char_start: match.index!,
+    char_end: match.index! + match[0].length,
+    start: index * 0.5,
+    end: index * 0.5 + 0.5
+  }));
+
+  return {
+    id,
+    chapter_id: 'ch1',
+    sequence_number: paragraph,
+    paragraph_number: paragraph,
+    segment_type: 'narrative',
+    character_name: null,
+    attribution_confidence: null,
+    text_content: text,
+    emotion_detected: 'neutral',
+    emotion_intensity: 0,
+    emotion_locked: false,
+    normalization_changes: changes,
+    status: 'complete',
+    audio_url: `${id}.wav`,
+    duration_seconds: words.length * 0.5,
+    error_message: null,
+    alignment: { source: 'provider', words },
+    speech_offset_seconds: offset
+  };
+}
+
+describe('EpubExporter', () => {
+  let audioDir: string;
+  let chapters: ChapterAudioRecord[];
+  let segments: PersistedSegment[];
+  let exporter: EpubExporter;
+
+  beforeEach(async () => {
+    audioDir = await fs.mkdtemp(path.join(os.tmpdir(), 'epub-'));
+    await fs.writeFile(path.join(audioDir, 'ch1.mp3'), 'chapter one audio');
+
+    chapters = [{ chapter_id: 'ch1', title: 'One', audio_url: path.join(audioDir, 'ch1.mp3'), duration_seconds: 10, stale: false }];
+    segments = [
+      segment('ch1_seg_1', 1, 'It cost five dollars. Then it rained.', 0.25, [
+        { rule: 'currency', original: '$5', replacement: 'five dollars' }
+      ]),
+      segment('ch1_seg_2', 2, '“Stop!” she said. He stopped & waited.', 4.25)
+    ];
+
+    exporter = new EpubExporter({} as Pool);
+    Object.assign(exporter, {
+      segmentStore: {
+        loadChapterAudio: async () => chapters,
+        loadSegments: async () => segments
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(audioDir, { recursive: true, force: true });
+  });
+
+  it('packages the text, audio and overlays with the mimetype stored first', async () => {
+    const epub = await exporter.build('p1', { title: 'Rain', chapter_titles: { ch1: 'The Flood' } });
+    const entries = unzip(epub);
+
+    expect([...entries.keys()]).toEqual([
+      'mimetype',
+      'META-INF/container.xml',
+      'OEBPS/content.opf',
+      'OEBPS/nav.xhtml',
+      'OEBPS/styles.css',
+      'OEBPS/text/chapter_001.xhtml',
+      'OEBPS/smil/chapter_001.smil',
+      'OEBPS/audio/chapter_001.mp3'
+    ]);
+    expect(entries.get('mimetype')).toEqual({ method: 0, data: Buffer.from('application/epub+zip') });
+    expect(entries.get('OEBPS/audio/chapter_001.mp3')!.data.toString()).toBe('chapter one audio');
+
+    const opf = entries.get('OEBPS/content.opf')!.data.toString();
+    expect(opf).toContain('<dc:title>Rain</dc:title>');
+    expect(opf).toContain('<meta property="media:duration">0:00:10.000</meta>');
+    expect(opf).toContain('media-overlay="overlay_chapter_001"');
+    expect(entries.get('OEBPS/nav.xhtml')!.data.toString()).toContain('>The Flood</a>');
+  });
+
+  it('highlights each sentence as written, timed on the chapter audio', async () => {
+    const entries = unzip(await exporter.build('p1', { granularity: 'sentence' }));
+    const text = entries.get('OEBPS/text/chapter_001.xhtml')!.data.toString();
+    const smil = entries.get('OEBPS/smil/chapter_001.smil')!.data.toString();
+
+    // The reader sees "$5", not the spoken "five dollars"; a dialogue tag stays with its quotation
+    expect(text).toContain('<p><span id="s1">It cost $5.</span> <span id="s2">Then it rained.</span></p>');
+    expect(text).toContain('<p><span id="s3">“Stop!” she said.</span> <span id="s4">He stopped &amp; waited.</span></p>');
+    expect([...smil.matchAll(/#(s\d+)".*?clipBegin="([^"]+)" clipEnd="([^"]+)"/gs)].map(match => match.slice(1))).toEqual([
+      ['s1', '0:00:00.250', '0:00:02.250'],
+      ['s2', '0:00:02.250', '0:00:03.750'],
+      ['s3', '0:00:04.250', '0:00:05.750'],
+      ['s4', '0:00:05.750', '0:00:07.750']
+    ]);
+  });
+
+  it('highlights whole paragraphs when asked to', async () => {
+    const entries = unzip(await exporter.build('p1', { granularity: 'paragraph' }));
+    const text = entries.get('OEBPS/text/chapter_001.xhtml')!.data.toString();
+    const smil = entries.get('OEBPS/smil/chapter_001.smil')!.data.toString();
+
+    expect(text).toContain('<p id="p1">It cost $5. Then it rained.</p>');
+    expect(smil).toContain('#p1"/>\n        <audio src="../audio/chapter_001.mp3" clipBegin="0:00:00.250" clipEnd="0:00:03.750"/>');
+    expect(smil).toContain('#p2"/>\n        <audio src="../audio/chapter_001.mp3" clipBegin="0:00:04.250" clipEnd="0:00:07.750"/>');
+  });
+
+  it('refuses to build until every chapter is assembled with speech offsets', async () => {
+    chapters.push({ chapter_id: 'ch2', title: null, audio_url: null, duration_seconds: null, stale: true });
+    segments.push({ ...segment('ch2_seg_1', 1, 'Later.', 0), chapter_id: 'ch2' });
+    segments[0].speech_offset_seconds = null;
+
+    expect(await exporter.readiness('p1')).toEqual({ chapter_count: 2, unassembled: ['ch1', 'ch2'] });
+    await expect(exporter.build('p1')).rejects.toThrow('Chapters not assembled: ch1, ch2');
+  });
+});
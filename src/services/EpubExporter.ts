@@ -0,0 +1,395 @@
+/**
+ * EPUB Exporter
+ * Packages the book's text and assembled chapter audio as an EPUB 3 whose
+ * media overlays highlight each sentence or paragraph as it is narrated
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { createZip, ZipEntry } from '../utils/zip';
+import SegmentStore from './SegmentStore';
+import TextNormalizer from './TextNormalizer';
+import {
+  ChapterAudioRecord,
+  EpubOptions,
+  OverlayGranularity,
+  PersistedSegment,
+  TextRange
+} from '../types';
+
+const ACTIVE_CLASS = '-epub-media-overlay-active';
+const SENTENCE_END = /[.!?…]["'”’)]*$/;
+
+/**
+ * A stretch of text and the part of its chapter's audio that narrates it
+ */
+interface OverlayUnit {
+  id: string; // element id in the chapter's XHTML
+  paragraph: number;
+  text: string;
+  begin: number; // seconds into the chapter audio
+  end: number;
+}
+
+interface ExportChapter {
+  name: string; // file name stem shared by the chapter's text, overlay and audio
+  title: string;
+  audio: Buffer;
+  duration: number;
+  units: OverlayUnit[];
+}
+
+interface TimedSpan {
+  range: TextRange; // in the segment's spoken text
+  start: number; // seconds from the start of the segment's speech
+  end: number;
+}
+
+export class EpubExporter {
+  private segmentStore: SegmentStore;
+  private normalizer: TextNormalizer;
+  private outputDir: string;
+
+  constructor(db: Pool) {
+    this.segmentStore = new SegmentStore(db);
+    this.normalizer = new TextNormalizer();
+    this.outputDir = config.audio.outputDir;
+  }
+
+  /**
+   * The project's chapters and those that keep it from being exported: not
+   * assembled yet, changed since, or assembled before speech offsets were recorded
+   */
+  async readiness(projectId: string): Promise<{ chapter_count: number; unassembled: string[] }> {
+    const { chapters, segments } = await this.load(projectId);
+    return {
+      chapter_count: chapters.length,
+      unassembled: chapters
+        .filter(chapter => !this.isReady(chapter, segments.get(chapter.chapter_id) || []))
+        .map(chapter => chapter.chapter_id)
+    };
+  }
+
+  /**
+   * Build the EPUB from the stored segments and assembled chapter audio.
+   * Text is shown as written: normalization rewrites made for speech are undone.
+   */
+  async build(projectId: string, options: EpubOptions = {}): Promise<Buffer> {
+    const { chapters, segments } = await this.load(projectId);
+    if (chapters.length === 0) {
+      throw new Error(`No chapters stored for project: ${projectId}`);
+    }
+
+    const unready = chapters.filter(chapter => !this.isReady(chapter, segments.get(chapter.chapter_id) || []));
+    if (unready.length > 0) {
+      throw new Error(`Chapters not assembled: ${unready.map(chapter => chapter.chapter_id).join(', ')}`);
+    }
+
+    const granularity = options.granularity ?? config.epub.overlayGranularity as OverlayGranularity;
+    const exported: ExportChapter[] = [];
+
+    for (const [index, chapter] of chapters.entries()) {
+      exported.push({
+        name: `chapter_${String(index + 1).padStart(3, '0')}`,
+        title: options.chapter_titles?.[chapter.chapter_id] ?? `Chapter ${index + 1}`,
+        audio: await fs.readFile(chapter.audio_url!),
+        duration: chapter.duration_seconds!,
+        units: this.overlayUnits(segments.get(chapter.chapter_id)!, granularity)
+      });
+    }
+
+    const modified = new Date();
+    const language = options.language || 'en';
+    const entries: ZipEntry[] = [
+      // OCF requires the uncompressed mimetype first
+      { name: 'mimetype', data: Buffer.from('application/epub+zip'), store: true },
+      { name: 'META-INF/container.xml', data: Buffer.from(this.containerXml()) },
+      { name: 'OEBPS/content.opf', data: Buffer.from(this.packageDocument(projectId, options, exported, modified)) },
+      { name: 'OEBPS/nav.xhtml', data: Buffer.from(this.navDocument(exported, language)) },
+      { name: 'OEBPS/styles.css', data: Buffer.from(`.${ACTIVE_CLASS} { background-color: #fff2a8; }\n`) }
+    ];
+
+    for (const chapter of exported) {
+      entries.push(
+        { name: `OEBPS/text/${chapter.name}.xhtml`, data: Buffer.from(this.chapterDocument(chapter, language, granularity)) },
+        { name: `OEBPS/smil/${chapter.name}.smil`, data: Buffer.from(this.overlayDocument(chapter)) },
+        { name: `OEBPS/audio/${chapter.name}.mp3`, data: chapter.audio, store: true }
+      );
+    }
+
+    logger.info('EPUB built', {
+      project_id: projectId,
+      chapter_count: exported.length,
+      overlay_entries: exported.reduce((sum, chapter) => sum + chapter.units.length, 0),
+      granularity
+    });
+
+    return createZip(entries, modified);
+  }
+
+  /**
+   * Build the EPUB and write it next to the project's audio
+   */
+  async save(projectId: string, options: EpubOptions = {}): Promise<string> {
+    const directory = path.join(this.outputDir, projectId);
+    const epubPath = path.join(directory, `${projectId}.epub`);
+
+    const epub = await this.build(projectId, options);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(epubPath, epub);
+
+    logger.info('EPUB saved', { project_id: projectId, path: epubPath, bytes: epub.length });
+    return epubPath;
+  }
+
+  private async load(
+    projectId: string
+  ): Promise<{ chapters: ChapterAudioRecord[]; segments: Map<string, PersistedSegment[]> }> {
+    const chapters = await this.segmentStore.loadChapterAudio(projectId);
+    const segments = new Map<string, PersistedSegment[]>();
+
+    for (const segment of await this.segmentStore.loadSegments(projectId)) {
+      const group = segments.get(segment.chapter_id) || [];
+      group.push(segment);
+      segments.set(segment.chapter_id, group);
+    }
+    return { chapters, segments };
+  }
+
+  private isReady(chapter: ChapterAudioRecord, segments: PersistedSegment[]): boolean {
+    return !chapter.stale && chapter.audio_url !== null && chapter.duration_seconds !== null &&
+      segments.length > 0 &&
+      segments.every(segment => segment.status === 'complete' && segment.speech_offset_seconds !== null);
+  }
+
+  /**
+   * A chapter's text cut into overlay entries, each placed on the chapter's timeline
+   */
+  private overlayUnits(segments: PersistedSegment[], granularity: OverlayGranularity): OverlayUnit[] {
+    const units: OverlayUnit[] = [];
+
+    for (const segment of segments) {
+      const offset = segment.speech_offset_seconds!;
+      const spans = this.sentenceSpans(segment);
+      const written = this.normalizer.restore(
+        segment.text_content,
+        segment.normalization_changes || [],
+        spans.map(span => span.range)
+      );
+
+      spans.forEach((span, index) => {
+        const range = written.ranges[index];
+        const text = written.text.slice(range.start, range.end).trim();
+        if (!text) return;
+
+        const previous = units[units.length - 1];
+        if (granularity === 'paragraph' && previous?.paragraph === segment.paragraph_number) {
+          previous.text += ` ${text}`;
+          previous.end = offset + span.end;
+          return;
+        }
+
+        units.push({
+          id: `${granularity === 'paragraph' ? 'p' : 's'}${units.length + 1}`,
+          paragraph: segment.paragraph_number,
+          text,
+          begin: offset + span.start,
+          end: offset + span.end
+        });
+      });
+    }
+
+    return units;
+  }
+
+  /**
+   * Sentences of a segment, timed by its word alignment.
+   * Segments rendered before alignment was recorded form a single span.
+   */
+  private sentenceSpans(segment: PersistedSegment): TimedSpan[] {
+    const words = segment.alignment?.words ?? [];
+    if (words.length === 0) {
+      return [{
+        range: { start: 0, end: segment.text_content.length },
+        start: 0,
+        end: segment.duration_seconds ?? 0
+      }];
+    }
+
+    const spans: TimedSpan[] = [];
+    let first = 0;
+    words.forEach((word, index) => {
+      // A quotation ending in '?' or '!' runs on into a lower-case dialogue tag
+      const next = words[index + 1]?.word;
+      if (next && (!SENTENCE_END.test(word.word) || /^\p{Ll}/u.test(next))) return;
+
+      spans.push({
+        range: { start: words[first].char_start, end: word.char_end },
+        start: words[first].start,
+        end: word.end
+      });
+      first = index + 1;
+    });
+    return spans;
+  }
+
+  private containerXml(): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+  }
+
+  private packageDocument(
+    projectId: string,
+    options: EpubOptions,
+    chapters: ExportChapter[],
+    modified: Date
+  ): string {
+    const total = chapters.reduce((sum, chapter) => sum + chapter.duration, 0);
+    const metadata = [
+      `<dc:identifier id="book-id">${escapeXml(options.identifier || `urn:audiobook:${projectId}`)}</dc:identifier>`,
+      `<dc:title>${escapeXml(options.title || projectId)}</dc:title>`,
+      `<dc:language>${escapeXml(options.language || 'en')}</dc:language>`,
+      ...(options.author ? [`<dc:creator>${escapeXml(options.author)}</dc:creator>`] : []),
+      ...(options.publisher ? [`<dc:publisher>${escapeXml(options.publisher)}</dc:publisher>`] : []),
+      `<meta property="dcterms:modified">${modified.toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>`,
+      `<meta property="media:duration">${clock(total)}</meta>`,
+      ...chapters.map(chapter =>
+        `<meta property="media:duration" refines="#overlay_${chapter.name}">${clock(chapter.duration)}</meta>`),
+      ...(options.narrator ? [`<meta property="media:narrator">${escapeXml(options.narrator)}</meta>`] : []),
+      `<meta property="media:active-class">${ACTIVE_CLASS}</meta>`
+    ];
+
+    const manifest = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '<item id="css" href="styles.css" media-type="text/css"/>',
+      ...chapters.flatMap(chapter => [
+        `<item id="${chapter.name}" href="text/${chapter.name}.xhtml" media-type="application/xhtml+xml" media-overlay="overlay_${chapter.name}"/>`,
+        `<item id="overlay_${chapter.name}" href="smil/${chapter.name}.smil" media-type="application/smil+xml"/>`,
+        `<item id="audio_${chapter.name}" href="audio/${chapter.name}.mp3" media-type="audio/mpeg"/>`
+      ])
+    ];
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadata.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${chapters.map(chapter => `<itemref idref="${chapter.name}"/>`).join('\n    ')}
+  </spine>
+</package>
+`;
+  }
+
+  private navDocument(chapters: ExportChapter[], language: string): string {
+    const items = chapters.map(chapter =>
+      `<li><a href="text/${chapter.name}.xhtml">${escapeXml(chapter.title)}</a></li>`);
+
+    return xhtml(language, 'Contents', '', `<nav epub:type="toc" id="toc">
+      <h1>Contents</h1>
+      <ol>
+        ${items.join('\n        ')}
+      </ol>
+    </nav>`);
+  }
+
+  /**
+   * The chapter's text, one element per overlay entry: a span per sentence
+   * inside its paragraph, or the paragraph itself
+   */
+  private chapterDocument(chapter: ExportChapter, language: string, granularity: OverlayGranularity): string {
+    const paragraphs: OverlayUnit[][] = [];
+    for (const unit of chapter.units) {
+      const last = paragraphs[paragraphs.length - 1];
+      if (last && last[0].paragraph === unit.paragraph) {
+        last.push(unit);
+      } else {
+        paragraphs.push([unit]);
+      }
+    }
+
+    const body = paragraphs.map(units => granularity === 'paragraph'
+      ? `<p id="${units[0].id}">${escapeXml(units[0].text)}</p>`
+      : `<p>${units.map(unit => `<span id="${unit.id}">${escapeXml(unit.text)}</span>`).join(' ')}</p>`);
+
+    return xhtml(
+      language,
+      chapter.title,
+      '<link rel="stylesheet" type="text/css" href="../styles.css"/>',
+      `<section epub:type="chapter">
+      <h1>${escapeXml(chapter.title)}</h1>
+      ${body.join('\n      ')}
+    </section>`
+    );
+  }
+
+  private overlayDocument(chapter: ExportChapter): string {
+    const pars = chapter.units.map((unit, index) => {
+      const begin = Math.min(unit.begin, chapter.duration);
+      const end = Math.min(Math.max(unit.end, begin), chapter.duration);
+      return `<par id="par${index + 1}">
+        <text src="../text/${chapter.name}.xhtml#${unit.id}"/>
+        <audio src="../audio/${chapter.name}.mp3" clipBegin="${clock(begin)}" clipEnd="${clock(end)}"/>
+      </par>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>
+    <seq id="seq1" epub:textref="../text/${chapter.name}.xhtml" epub:type="chapter">
+      ${pars.join('\n      ')}
+    </seq>
+  </body>
+</smil>
+`;
+  }
+}
+
+function xhtml(language: string, title: string, head: string, body: string): string {
+  const lang = escapeXml(language);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(title)}</title>${head ? `\n    ${head}` : ''}
+  </head>
+  <body>
+    ${body}
+  </body>
+</html>
+`;
+}
+
+/**
+ * SMIL full clock value, e.g. 0:01:23.456
+ */
+function clock(seconds: number): string {
+  const millis = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(millis / 3600000);
+  const minutes = Math.floor(millis / 60000) % 60;
+  const secs = (millis % 60000) / 1000;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${secs.toFixed(3).padStart(6, '0')}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export default EpubExporter;
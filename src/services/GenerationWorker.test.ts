@@ -0,0 +1,140 @@
+import GenerationWorker from './GenerationWorker';
+import JobQueue from './JobQueue';
+import TTSOrchestrator from './TTSOrchestrator';
+import { BudgetExceededError } from './BudgetService';
+import { GenerationJob, ProgressUpdate, RenderReport } from '../types';
+
+type Run = (params: unknown, onProgress: (progress: ProgressUpdate) => void, signal: AbortSignal) => Promise<{ report: RenderReport }>;
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+function job(fields: Partial<GenerationJob> = {}): GenerationJob {
+  return {
+    id: 'job-1',
+    project_id: 'p1',
+    state: 'running',
+    params: { project_id: 'p1' } as GenerationJob['params'],
+    attempts: 0,
+    max_attempts: 3,
+    progress: null,
+    error: null,
+    lease_owner: 'w1',
+    lease_expires_at: null,
+    run_after: '',
+    created_at: '',
+    updated_at: '',
+    completed_at: null,
+    report: null,
+    control: null,
+    segments_stored: false,
+    ...fields
+  };
+}
+
+/**
+ * A run that waits to be aborted, rejecting like the orchestrator does
+ */
+const untilAborted: Run = (_params, _onProgress, signal) => new Promise((_resolve, reject) => {
+  signal.addEventListener('abort', () => reject(new Error('Generation stopped')));
+});
+
+describe('GenerationWorker', () => {
+  let queue: Record<string, jest.Mock>;
+  let orchestrator: { generateAudiobook: jest.Mock<ReturnType<Run>, Parameters<Run>>; resumeAudiobook: jest.Mock<ReturnType<Run>, Parameters<Run>> };
+  let worker: GenerationWorker;
+
+  function startWith(claimed: GenerationJob, run: Run): void {
+    queue.claim.mockResolvedValueOnce(claimed).mockResolvedValue(null);
+    orchestrator.generateAudiobook.mockImplementation(run);
+    orchestrator.resumeAudiobook.mockImplementation(run);
+    worker.start();
+  }
+
+  beforeEach(() => {
+    queue = {
+      claim: jest.fn().mockResolvedValue(null),
+      reclaimExpired: jest.fn().mockResolvedValue([]),
+      control: jest.fn().mockResolvedValue(null),
+      heartbeat: jest.fn().mockResolvedValue(true),
+      updateProgress: jest.fn().mockResolvedValue(undefined),
+      markSegmentsStored: jest.fn().mockResolvedValue(undefined),
+      complete: jest.fn().mockResolvedValue(true),
+      fail: jest.fn().mockResolvedValue('failed'),
+      requeue: jest.fn().mockResolvedValue(true),
+      stopped: jest.fn().mockResolvedValue(true)
+    };
+    orchestrator = { generateAudiobook: jest.fn(), resumeAudiobook: jest.fn() };
+    worker = new GenerationWorker(queue as unknown as JobQueue, orchestrator as unknown as TTSOrchestrator, 1);
+  });
+
+  afterEach(() => worker.stop());
+
+  it('runs a claimed job and records its report, charging retries to the job', async () => {
+    const report = { cost_dollars: 1 } as RenderReport;
+    startWith(job(), async () => ({ report }));
+    await flush();
+
+    expect(orchestrator.generateAudiobook).toHaveBeenCalledWith(
+      expect.objectContaining({ project_id: 'p1', run_id: 'job-1' }), expect.any(Function), expect.any(AbortSignal));
+    expect(queue.complete).toHaveBeenCalledWith('job-1', expect.any(String), report);
+  });
+
+  it('records stored segments once, and resumes a job from them', async () => {
+    startWith(job(), async (_params, onProgress) => {
+      onProgress({ stage: 'generating_audio', percent_complete: 10, message: '' });
+      onProgress({ stage: 'generating_audio', percent_complete: 20, message: '' });
+      return { report: {} as RenderReport };
+    });
+    await flush();
+    expect(queue.markSegmentsStored).toHaveBeenCalledTimes(1);
+    expect(queue.updateProgress).toHaveBeenCalledTimes(2);
+
+    await worker.stop();
+    startWith(job({ segments_stored: true }), async () => ({ report: {} as RenderReport }));
+    await flush();
+    expect(orchestrator.resumeAudiobook).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries failures except budget stops', async () => {
+    startWith(job(), async () => { throw new Error('provider down'); });
+    await flush();
+    expect(queue.fail).toHaveBeenLastCalledWith('job-1', expect.any(String), expect.any(Error), true);
+
+    await worker.stop();
+    startWith(job(), async () => { throw new BudgetExceededError('over budget'); });
+    await flush();
+    expect(queue.fail).toHaveBeenLastCalledWith('job-1', expect.any(String), expect.any(BudgetExceededError), false);
+  });
+
+  it('stops a job asked to pause or cancel', async () => {
+    let signal: AbortSignal | undefined;
+    startWith(job(), (params, onProgress, runSignal) => {
+      signal = runSignal;
+      return untilAborted(params, onProgress, runSignal);
+    });
+    await flush();
+
+    queue.control.mockResolvedValue('cancel');
+    await worker['poll']();
+    await flush();
+
+    expect(signal!.reason).toBe('cancel');
+    expect(queue.stopped).toHaveBeenCalledWith('job-1', expect.any(String), 'cancel');
+    expect(queue.fail).not.toHaveBeenCalled();
+  });
+
+  it('hands running jobs back on shutdown without reporting the interrupted run', async () => {
+    startWith(job(), (params, onProgress, signal) => {
+      signal.addEventListener('abort', () =>
+        onProgress({ stage: 'interrupted', percent_complete: 50, message: 'Generation interrupted' }));
+      return untilAborted(params, onProgress, signal);
+    });
+    await flush();
+
+    await worker.stop();
+
+    expect(queue.requeue).toHaveBeenCalledWith('job-1', expect.any(String));
+    expect(queue.updateProgress).not.toHaveBeenCalled();
+    expect(queue.stopped).not.toHaveBeenCalled();
+  });
+});
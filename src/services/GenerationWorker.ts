@@ -0,0 +1,200 @@
+/**
+ * Generation Worker
+ * Claims generation jobs from the queue and runs them through the orchestrator
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import JobQueue from './JobQueue';
+import TTSOrchestrator from './TTSOrchestrator';
+import { BudgetExceededError } from './BudgetService';
+import { GenerationJob, JobControl, ProgressUpdate } from '../types';
+
+/**
+ * Why a running job was aborted: a requested pause or cancel, the worker shutting
+ * down, or its lease having passed to another worker
+ */
+type StopReason = JobControl | 'shutdown' | 'lease_lost';
+
+interface ActiveJob {
+  heartbeat: NodeJS.Timeout;
+  controller: AbortController; // aborted with a StopReason
+  settled: Promise<unknown>; // resolves once the run's outcome is recorded
+}
+
+export class GenerationWorker {
+  private queue: JobQueue;
+  private orchestrator: TTSOrchestrator;
+  private concurrency: number;
+  private workerId: string;
+  private active: Map<string, ActiveJob> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    queue: JobQueue,
+    orchestrator: TTSOrchestrator,
+    concurrency: number = config.concurrency.maxConcurrentGenerations
+  ) {
+    this.queue = queue;
+    this.orchestrator = orchestrator;
+    this.concurrency = concurrency;
+    this.workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  start(): void {
+    if (this.pollTimer) return;
+
+    logger.info('Generation worker started', {
+      worker_id: this.workerId,
+      concurrency: this.concurrency
+    });
+
+    this.pollTimer = setInterval(() => void this.poll(), config.jobs.pollIntervalMs);
+    void this.poll();
+  }
+
+  /**
+   * Stop claiming jobs, abort running ones and, once they have stopped, hand them
+   * back to the queue so another instance can pick them up without waiting for
+   * the lease to expire
+   */
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    const running = [...this.active.values()];
+    for (const { controller } of running) {
+      if (!controller.signal.aborted) controller.abort('shutdown' satisfies StopReason);
+    }
+    await Promise.all(running.map(job => job.settled));
+
+    logger.info('Generation worker stopped', { worker_id: this.workerId });
+  }
+
+  /**
+   * Act on pause/cancel requests, reclaim abandoned jobs, then fill free slots
+   * up to the concurrency limit
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      await this.checkControls();
+      await this.queue.reclaimExpired();
+
+      while (this.pollTimer && this.active.size < this.concurrency) {
+        const job = await this.queue.claim(this.workerId);
+        if (!job) break;
+        this.run(job);
+      }
+    } catch (error) {
+      logger.error('Generation worker poll failed', { error, worker_id: this.workerId });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Abort running jobs that were asked to pause or cancel
+   */
+  private async checkControls(): Promise<void> {
+    for (const [jobId, { controller }] of this.active) {
+      if (controller.signal.aborted) continue;
+
+      const control = await this.queue.control(jobId);
+      if (control) {
+        logger.info('Stopping generation job', { job_id: jobId, control, worker_id: this.workerId });
+        controller.abort(control);
+      }
+    }
+  }
+
+  /**
+   * Run a claimed job while keeping its lease alive.
+   * Pause and cancel abort it; the job then keeps the segments rendered so far.
+   * Losing the lease aborts it too, leaving the job to the worker that now holds it.
+   * Completed segments are persisted, so once a run has stored its segments,
+   * retried and resumed jobs continue from them where the last run stopped.
+   */
+  private run(job: GenerationJob): void {
+    const controller = new AbortController();
+    const heartbeat = setInterval(() => {
+      this.queue.heartbeat(job.id, this.workerId)
+        .then(renewed => {
+          if (!renewed && !controller.signal.aborted) {
+            // Another worker may already be running the job; stop before rendering it twice
+            logger.warn('Lost lease on running generation job, aborting', { job_id: job.id, worker_id: this.workerId });
+            controller.abort('lease_lost' satisfies StopReason);
+          }
+        })
+        .catch(error => logger.error('Job heartbeat failed', { error, job_id: job.id }));
+    }, config.jobs.heartbeatMs);
+
+    logger.info('Running generation job', {
+      job_id: job.id,
+      project_id: job.project_id,
+      attempt: job.attempts + 1,
+      resuming: job.segments_stored,
+      worker_id: this.workerId
+    });
+
+    // Retries share the job's budget, so its spend is tracked under the job id
+    const params = { ...job.params, run_id: job.id };
+    let segmentsStored = job.segments_stored;
+    const onProgress = (progress: ProgressUpdate) => {
+      // A job handed back to the queue no longer reports this run's progress
+      if (this.handedBack(controller.signal)) return;
+
+      // Rendering starts once the run's segments are stored
+      if (progress.stage === 'generating_audio' && !segmentsStored) {
+        segmentsStored = true;
+        this.queue.markSegmentsStored(job.id)
+          .catch(error => logger.warn('Failed to record stored segments', { error, job_id: job.id }));
+      }
+
+      this.queue.updateProgress(job.id, progress)
+        .catch(error => logger.warn('Failed to record job progress', { error, job_id: job.id }));
+    };
+
+    const settled = (job.segments_stored
+      ? this.orchestrator.resumeAudiobook(params, onProgress, controller.signal)
+      : this.orchestrator.generateAudiobook(params, onProgress, controller.signal))
+      .then(result => this.queue.complete(job.id, this.workerId, result.report))
+      .catch(async error => {
+        const reason = controller.signal.aborted ? controller.signal.reason as StopReason : null;
+
+        if (reason === 'shutdown') {
+          await this.queue.requeue(job.id, this.workerId);
+        } else if (reason === 'lease_lost') {
+          logger.info('Abandoned generation job after losing its lease', { job_id: job.id, worker_id: this.workerId });
+        } else if (reason) {
+          await this.queue.stopped(job.id, this.workerId, reason);
+        } else {
+          // Retrying would only hit the same cap
+          await this.queue.fail(job.id, this.workerId, error, !(error instanceof BudgetExceededError));
+        }
+      })
+      .catch(error => logger.error('Failed to record job outcome', { error, job_id: job.id }))
+      .finally(() => {
+        clearInterval(heartbeat);
+        this.active.delete(job.id);
+      });
+
+    this.active.set(job.id, { heartbeat, controller, settled });
+  }
+
+  private handedBack(signal: AbortSignal): boolean {
+    return signal.aborted && (signal.reason === 'shutdown' || signal.reason === 'lease_lost');
+  }
+}
+
+export default GenerationWorker;
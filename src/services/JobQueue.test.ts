@@ -0,0 +1,282 @@
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import JobQueue from './JobQueue';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { GenerationParams } from '../types';
+
+const params = { project_id: 'p1', chapters: [], voice_assignments: [] } as unknown as GenerationParams;
+
+describe('JobQueue', () => {
+  let redis: Redis;
+  let queue: JobQueue;
+
+  beforeEach(async () => {
+    redis = new RedisMock() as unknown as Redis;
+    await redis.flushall();
+    queue = new JobQueue(redis);
+    // Failed jobs are logged as errors; the assertions cover them
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    redis.disconnect();
+  });
+
+  describe('claim', () => {
+    it('leases the earliest due job to one worker only', async () => {
+      const first = await queue.enqueue(params);
+      // Jobs queued in the same millisecond are taken in id order
+      await new Promise(resolve => setTimeout(resolve, 2));
+      const second = await queue.enqueue({ ...params, project_id: 'p2' });
+
+      const claimed = await queue.claim('w1');
+
+      expect(claimed).toMatchObject({ id: first.id, state: 'running', lease_owner: 'w1' });
+      expect((await queue.claim('w2'))?.id).toBe(second.id);
+      expect(await queue.claim('w3')).toBeNull();
+    });
+
+    it('runs one job per project at a time, skipping to other projects meanwhile', async () => {
+      const first = await queue.enqueue(params);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      const second = await queue.enqueue(params);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      const other = await queue.enqueue({ ...params, project_id: 'p2' });
+
+      expect((await queue.claim('w1'))?.id).toBe(first.id);
+      expect((await queue.claim('w2'))?.id).toBe(other.id);
+      expect(await queue.claim('w3')).toBeNull();
+      expect((await queue.get(second.id))!.state).toBe('queued');
+
+      await queue.complete(first.id, 'w1', {} as never);
+
+      expect((await queue.claim('w3'))?.id).toBe(second.id);
+    });
+
+    it('frees the project when a job is reclaimed', async () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      const first = await queue.enqueue(params);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      const second = await queue.enqueue(params);
+      await queue.claim('w1');
+      await redis.zadd(`${config.jobs.keyPrefix}:leases`, 0, first.id);
+
+      await queue.reclaimExpired();
+
+      expect((await queue.claim('w2'))?.id).toBe(second.id);
+      expect(await queue.claim('w3')).toBeNull();
+    });
+
+    it('lets only the lease owner renew or release it', async () => {
+      const { id } = await queue.enqueue(params);
+      await queue.claim('w1');
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+
+      expect(await queue.heartbeat(id, 'w2')).toBe(false);
+      expect(await queue.complete(id, 'w2', {} as never)).toBe(false);
+      expect(await queue.heartbeat(id, 'w1')).toBe(true);
+      expect(await queue.complete(id, 'w1', {} as never)).toBe(true);
+      expect((await queue.get(id))!.state).toBe('succeeded');
+    });
+  });
+
+  describe('fail', () => {
+    it('requeues a retryable failure with backoff until attempts run out', async () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      const { id } = await queue.enqueue(params);
+
+      for (let attempt = 1; attempt < config.jobs.maxAttempts; attempt++) {
+        await queue.claim('w1');
+        expect(await queue.fail(id, 'w1', new Error('timeout'))).toBe('queued');
+        // Backed off, so not claimable yet
+        expect(await queue.claim('w1')).toBeNull();
+        await redis.zadd(`${config.jobs.keyPrefix}:queue`, 0, id);
+      }
+
+      await queue.claim('w1');
+      expect(await queue.fail(id, 'w1', new Error('timeout'))).toBe('failed');
+      expect(await queue.get(id)).toMatchObject({ state: 'failed', attempts: config.jobs.maxAttempts, error: 'timeout' });
+    });
+  });
+
+  describe('reclaimExpired', () => {
+    beforeEach(() => jest.spyOn(logger, 'warn').mockImplementation(() => logger));
+
+    it('requeues a job whose lease expired', async () => {
+      const { id } = await queue.enqueue(params);
+      await queue.claim('w1');
+      await redis.zadd(`${config.jobs.keyPrefix}:leases`, 0, id);
+
+      expect(await queue.reclaimExpired()).toEqual([id]);
+
+      expect(await queue.get(id)).toMatchObject({
+        state: 'queued',
+        attempts: 1,
+        lease_owner: null,
+        error: 'Worker lease expired'
+      });
+      expect((await queue.claim('w2'))?.id).toBe(id);
+    });
+
+    it('pauses a job whose worker died before acting on a pause', async () => {
+      const { id } = await queue.enqueue(params);
+      await queue.claim('w1');
+      await queue.pause(id);
+      await redis.zadd(`${config.jobs.keyPrefix}:leases`, 0, id);
+
+      expect(await queue.reclaimExpired()).toEqual([id]);
+
+      expect(await queue.get(id)).toMatchObject({ state: 'paused', attempts: 0, lease_owner: null, control: null });
+      expect(await queue.claim('w2')).toBeNull();
+      expect(await queue.resume(id)).toBe(true);
+      expect((await queue.claim('w2'))?.id).toBe(id);
+    });
+
+    it('cancels a job whose worker died before acting on a cancel', async () => {
+      const { id } = await queue.enqueue(params);
+      await queue.claim('w1');
+      await queue.cancel(id);
+      await redis.zadd(`${config.jobs.keyPrefix}:leases`, 0, id);
+
+      expect(await queue.reclaimExpired()).toEqual([id]);
+
+      expect(await queue.get(id)).toMatchObject({ state: 'cancelled', attempts: 0, lease_owner: null, control: null });
+      expect(await queue.claim('w2')).toBeNull();
+      expect(await redis.ttl(`${config.jobs.keyPrefix}:job:${id}`)).toBe(config.jobs.retentionSeconds);
+    });
+
+    it('fails a job whose lease expired on its last attempt', async () => {
+      const { id } = await queue.enqueue(params);
+      await queue.claim('w1');
+      await redis.hset(`${config.jobs.keyPrefix}:job:${id}`, 'attempts', String(config.jobs.maxAttempts - 1));
+      await redis.zadd(`${config.jobs.keyPrefix}:leases`, 0, id);
+
+      await queue.reclaimExpired();
+
+      expect(await queue.get(id)).toMatchObject({ state: 'failed', error: 'Worker lease expired on final attempt' });
+      expect(await redis.ttl(`${config.jobs.keyPrefix}:job:${id}`)).toBe(config.jobs.retentionSeconds);
+    });
+
+    it('leaves live leases alone', async () => {
+      await queue.enqueue(params);
+      await queue.claim('w1');
+
+      expect(await queue.reclaimExpired()).toEqual([]);
+    });
+  });
+
+  describe('pause and cancel', () => {
+    it('stops queued jobs at once and asks the worker to stop running ones', async () => {
+      const queued = await queue.enqueue(params);
+      const running = await queue.enqueue(params);
+      await queue.pause(queued.id);
+      await queue.claim('w1');
+
+      expect(await queue.cancel(running.id)).toBe(true);
+
+      expect((await queue.get(queued.id))!.state).toBe('paused');
+      expect(await queue.claim('w2')).toBeNull();
+      expect(await queue.control(running.id)).toBe('cancel');
+
+      expect(await queue.stopped(running.id, 'w1', 'cancel')).toBe(true);
+      expect(await queue.get(running.id)).toMatchObject({ state: 'cancelled', control: null });
+    });
+
+    it('refuses to stop finished jobs', async () => {
+      const { id } = await queue.enqueue(params);
+      await queue.claim('w1');
+      await queue.complete(id, 'w1', {} as never);
+
+      expect(await queue.pause(id)).toBe(false);
+      expect(await queue.cancel(id)).toBe(false);
+    });
+
+    it('queues a paused job again on resume', async () => {
+      const { id } = await queue.enqueue(params);
+      await queue.pause(id);
+
+      expect(await queue.resume(id)).toBe(true);
+      expect((await queue.claim('w1'))?.id).toBe(id);
+    });
+  });
+
+  describe('retention', () => {
+    const ttl = (id: string) => redis.ttl(`${config.jobs.keyPrefix}:job:${id}`);
+
+    it('expires jobs once they succeed, fail or are cancelled', async () => {
+      const succeeded = await queue.enqueue(params);
+      await queue.claim('w1');
+      await queue.complete(succeeded.id, 'w1', {} as never);
+
+      const failed = await queue.enqueue(params);
+      await queue.claim('w1');
+      await queue.fail(failed.id, 'w1', new Error('bad input'), false);
+
+      const cancelled = await queue.enqueue(params);
+      await queue.cancel(cancelled.id);
+
+      expect(await ttl(succeeded.id)).toBe(config.jobs.retentionSeconds);
+      expect(await ttl(failed.id)).toBe(config.jobs.retentionSeconds);
+      expect(await ttl(cancelled.id)).toBe(config.jobs.retentionSeconds);
+    });
+
+    it('keeps queued, running and paused jobs, and resumed ones again', async () => {
+      const { id } = await queue.enqueue(params);
+      expect(await ttl(id)).toBe(-1);
+
+      await queue.claim('w1');
+      await queue.fail(id, 'w1', new Error('bad input'), false);
+      await queue.resume(id);
+      expect(await ttl(id)).toBe(-1);
+
+      await queue.pause(id);
+      expect(await ttl(id)).toBe(-1);
+    });
+  });
+
+  describe('resume', () => {
+    it('queues a failed job again with fresh attempts, keeping its stored segments', async () => {
+      const { id } = await queue.enqueue(params);
+      await queue.claim('w1');
+      await queue.markSegmentsStored(id);
+      await queue.fail(id, 'w1', new Error('provider down'), false);
+
+      expect(await queue.resume(id)).toBe(true);
+
+      expect(await queue.get(id)).toMatchObject({
+        state: 'queued',
+        attempts: 0,
+        error: null,
+        completed_at: null,
+        segments_stored: true
+      });
+      expect((await queue.claim('w2'))?.id).toBe(id);
+    });
+
+    it('queues a cancelled or paused job again', async () => {
+      const cancelled = await queue.enqueue(params);
+      const paused = await queue.enqueue(params);
+      await queue.cancel(cancelled.id);
+      await queue.pause(paused.id);
+
+      expect(await queue.resume(cancelled.id)).toBe(true);
+      expect(await queue.resume(paused.id)).toBe(true);
+      expect((await queue.get(cancelled.id))!.state).toBe('queued');
+      expect((await queue.get(paused.id))!.state).toBe('queued');
+    });
+
+    it('leaves queued, running and succeeded jobs alone', async () => {
+      const { id } = await queue.enqueue(params);
+      expect(await queue.resume(id)).toBe(false);
+
+      await queue.claim('w1');
+      expect(await queue.resume(id)).toBe(false);
+
+      await queue.complete(id, 'w1', {} as never);
+      expect(await queue.resume(id)).toBe(false);
+      expect((await queue.get(id))!.state).toBe('succeeded');
+    });
+  });
+});
@@ -0,0 +1,550 @@
+/**
+ * Job Queue
+ * Durable Redis-backed queue for audiobook generation jobs.
+ *
+ * Layout (under config.jobs.keyPrefix):
+ *   job:<id>   hash holding the job record
+ *   queue      sorted set of claimable job ids, scored by run_after (ms)
+ *   leases     sorted set of running job ids, scored by lease expiry (ms)
+ *   projects   hash of project id -> id of the job running on it
+ *
+ * Job hashes expire config.jobs.retentionSeconds after the job succeeds,
+ * fails or is cancelled; resuming a job keeps it again.
+ *
+ * State changes that touch more than one key run as Lua scripts so two
+ * workers can never claim the same job, nor two jobs for the same project:
+ * runs replace a project's stored segments, so a second one would delete or
+ * re-render the first one's work. A job whose project is busy stays queued.
+ */
+
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import {
+  GenerationJob,
+  GenerationParams,
+  JobControl,
+  JobState,
+  ProgressUpdate,
+  RenderReport
+} from '../types';
+
+/**
+ * Move the earliest due job whose project has no running job from the queue to the leases set
+ * KEYS: queue, leases, projects  ARGV: now, lease expiry, owner, job key prefix, now (ISO), expiry (ISO)
+ */
+const CLAIM_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, id in ipairs(ids) do
+  local key = ARGV[4] .. id
+  local project = redis.call('HGET', key, 'project_id')
+  if project and not redis.call('HGET', KEYS[3], project) then
+    redis.call('ZREM', KEYS[1], id)
+    redis.call('ZADD', KEYS[2], ARGV[2], id)
+    redis.call('HSET', KEYS[3], project, id)
+    redis.call('HSET', key, 'state', 'running', 'lease_owner', ARGV[3], 'lease_expires_at', ARGV[6], 'updated_at', ARGV[5])
+    return id
+  end
+end
+return false
+`;
+
+/**
+ * Extend a lease held by the caller
+ * KEYS: leases, job  ARGV: owner, id, expiry, expiry (ISO)
+ */
+const HEARTBEAT_SCRIPT = `
+if redis.call('HGET', KEYS[2], 'lease_owner') ~= ARGV[1] or redis.call('HGET', KEYS[2], 'state') ~= 'running' then
+  return 0
+end
+redis.call('ZADD', KEYS[1], ARGV[3], ARGV[2])
+redis.call('HSET', KEYS[2], 'lease_expires_at', ARGV[4])
+return 1
+`;
+
+/**
+ * Give up a lease held by the caller and its project, optionally requeueing the job
+ * KEYS: leases, queue, job, projects
+ * ARGV: owner, id, next state, requeue score or '', expiry (s) or '', field/value pairs...
+ */
+const RELEASE_SCRIPT = `
+if redis.call('HGET', KEYS[3], 'lease_owner') ~= ARGV[1] then return 0 end
+redis.call('ZREM', KEYS[1], ARGV[2])
+local project = redis.call('HGET', KEYS[3], 'project_id')
+if project and redis.call('HGET', KEYS[4], project) == ARGV[2] then redis.call('HDEL', KEYS[4], project) end
+if ARGV[4] ~= '' then redis.call('ZADD', KEYS[2], ARGV[4], ARGV[2]) end
+redis.call('HSET', KEYS[3], 'state', ARGV[3], 'lease_owner', '', 'lease_expires_at', '', unpack(ARGV, 6))
+if ARGV[5] ~= '' then redis.call('EXPIRE', KEYS[3], ARGV[5]) end
+return 1
+`;
+
+/**
+ * Requeue jobs whose worker stopped renewing its lease, or fail them when out of attempts.
+ * An expired lease counts as a failed attempt. A pause or cancel the dead worker
+ * never acted on still applies: those jobs are paused or cancelled instead.
+ * KEYS: leases, queue, projects  ARGV: now, job key prefix, now (ISO), expiry (s)
+ */
+const RECLAIM_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, id in ipairs(ids) do
+  local key = ARGV[2] .. id
+  redis.call('ZREM', KEYS[1], id)
+  local project = redis.call('HGET', key, 'project_id')
+  if project and redis.call('HGET', KEYS[3], project) == id then redis.call('HDEL', KEYS[3], project) end
+  local control = redis.call('HGET', key, 'control')
+  if control == 'cancel' then
+    redis.call('HSET', key, 'state', 'cancelled', 'lease_owner', '', 'lease_expires_at', '', 'control', '',
+      'updated_at', ARGV[3], 'completed_at', ARGV[3])
+    redis.call('EXPIRE', key, ARGV[4])
+  elseif control == 'pause' then
+    redis.call('HSET', key, 'state', 'paused', 'lease_owner', '', 'lease_expires_at', '', 'control', '',
+      'updated_at', ARGV[3])
+  else
+    local attempts = redis.call('HINCRBY', key, 'attempts', 1)
+    local maxAttempts = tonumber(redis.call('HGET', key, 'max_attempts') or '1')
+    if attempts >= maxAttempts then
+      redis.call('HSET', key, 'state', 'failed', 'lease_owner', '', 'lease_expires_at', '',
+        'error', 'Worker lease expired on final attempt', 'updated_at', ARGV[3], 'completed_at', ARGV[3])
+      redis.call('EXPIRE', key, ARGV[4])
+    else
+      redis.call('ZADD', KEYS[2], ARGV[1], id)
+      redis.call('HSET', key, 'state', 'queued', 'lease_owner', '', 'lease_expires_at', '',
+        'error', 'Worker lease expired', 'updated_at', ARGV[3], 'run_after', ARGV[3])
+    end
+  end
+end
+return ids
+`;
+
+/**
+ * Put a stopped job back on the queue: a paused one as it was, a failed or
+ * cancelled one with its attempts and outcome cleared
+ * KEYS: queue, job  ARGV: id, now (ms), now (ISO)
+ */
+const RESUME_SCRIPT = `
+local state = redis.call('HGET', KEYS[2], 'state')
+if state == 'failed' or state == 'cancelled' then
+  redis.call('HSET', KEYS[2], 'attempts', '0', 'error', '', 'completed_at', '', 'control', '')
+elseif state ~= 'paused' then
+  return 0
+end
+redis.call('PERSIST', KEYS[2])
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+redis.call('HSET', KEYS[2], 'state', 'queued', 'run_after', ARGV[3], 'updated_at', ARGV[3])
+return 1
+`;
+
+/**
+ * Stop a job: a queued or paused one directly, a running one by asking its worker
+ * KEYS: queue, job  ARGV: id, control, now (ISO), expiry (s)
+ */
+const STOP_SCRIPT = `
+local state = redis.call('HGET', KEYS[2], 'state')
+if state == 'running' then
+  redis.call('HSET', KEYS[2], 'control', ARGV[2], 'updated_at', ARGV[3])
+  return 1
+end
+if ARGV[2] == 'pause' and state == 'queued' then
+  redis.call('ZREM', KEYS[1], ARGV[1])
+  redis.call('HSET', KEYS[2], 'state', 'paused', 'updated_at', ARGV[3])
+  return 1
+end
+if ARGV[2] == 'cancel' and (state == 'queued' or state == 'paused') then
+  redis.call('ZREM', KEYS[1], ARGV[1])
+  redis.call('HSET', KEYS[2], 'state', 'cancelled', 'updated_at', ARGV[3], 'completed_at', ARGV[3])
+  redis.call('EXPIRE', KEYS[2], ARGV[4])
+  return 1
+end
+return 0
+`;
+
+/** States a job only leaves when resumed; their hashes expire */
+const TERMINAL_STATES: JobState[] = ['succeeded', 'failed', 'cancelled'];
+
+export class JobQueue {
+  private redis: Redis;
+  private prefix: string;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+    this.prefix = config.jobs.keyPrefix;
+  }
+
+  /**
+   * Queue a generation job
+   */
+  async enqueue(params: GenerationParams): Promise<GenerationJob> {
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      id: randomUUID(),
+      project_id: params.project_id,
+      state: 'queued',
+      params,
+      attempts: 0,
+      max_attempts: config.jobs.maxAttempts,
+      progress: null,
+      error: null,
+      lease_owner: null,
+      lease_expires_at: null,
+      run_after: now,
+      created_at: now,
+      updated_at: now,
+      completed_at: null,
+      report: null,
+      control: null,
+      segments_stored: false
+    };
+
+    await this.redis
+      .multi()
+      .hset(this.jobKey(job.id), this.serialize(job))
+      .zadd(this.queueKey(), Date.now(), job.id)
+      .exec();
+
+    logger.info('Generation job queued', { job_id: job.id, project_id: job.project_id });
+    return job;
+  }
+
+  async get(jobId: string): Promise<GenerationJob | null> {
+    const fields = await this.redis.hgetall(this.jobKey(jobId));
+    return Object.keys(fields).length > 0 ? this.deserialize(fields) : null;
+  }
+
+  /**
+   * Number of jobs ahead of this one in the queue, or null if it is not queued
+   */
+  async position(jobId: string): Promise<number | null> {
+    return this.redis.zrank(this.queueKey(), jobId);
+  }
+
+  /**
+   * Claim the next due job whose project is not already being generated and
+   * take a lease on it
+   */
+  async claim(owner: string): Promise<GenerationJob | null> {
+    const now = Date.now();
+    const expiry = now + config.jobs.leaseMs;
+
+    const id = await this.redis.eval(
+      CLAIM_SCRIPT,
+      3,
+      this.queueKey(),
+      this.leasesKey(),
+      this.projectsKey(),
+      now,
+      expiry,
+      owner,
+      this.jobKey(''),
+      new Date(now).toISOString(),
+      new Date(expiry).toISOString()
+    ) as string | null;
+
+    return id ? this.get(id) : null;
+  }
+
+  /**
+   * Renew a lease. Returns false when the lease was lost to another worker.
+   */
+  async heartbeat(jobId: string, owner: string): Promise<boolean> {
+    const expiry = Date.now() + config.jobs.leaseMs;
+    const renewed = await this.redis.eval(
+      HEARTBEAT_SCRIPT,
+      2,
+      this.leasesKey(),
+      this.jobKey(jobId),
+      owner,
+      jobId,
+      expiry,
+      new Date(expiry).toISOString()
+    );
+
+    return renewed === 1;
+  }
+
+  async updateProgress(jobId: string, progress: ProgressUpdate): Promise<void> {
+    await this.redis.hset(this.jobKey(jobId), {
+      progress: JSON.stringify(progress),
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  async complete(jobId: string, owner: string, report: RenderReport): Promise<boolean> {
+    const now = new Date().toISOString();
+    return this.release(jobId, owner, 'succeeded', null, {
+      report: JSON.stringify(report),
+      control: '',
+      error: '',
+      updated_at: now,
+      completed_at: now
+    });
+  }
+
+  /**
+   * Record a failed attempt. Retryable failures with attempts left are requeued
+   * with exponential backoff; the rest are marked failed. Only failures use up
+   * attempts: pausing, resuming and handing a job back do not.
+   */
+  async fail(jobId: string, owner: string, error: unknown, retryable: boolean = true): Promise<JobState | null> {
+    const job = await this.get(jobId);
+    if (!job) return null;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const now = new Date().toISOString();
+    const attempts = job.attempts + 1;
+
+    if (retryable && attempts < job.max_attempts) {
+      const runAfter = Date.now() + this.backoffMs(attempts);
+      const released = await this.release(jobId, owner, 'queued', runAfter, {
+        attempts: String(attempts),
+        error: message,
+        updated_at: now,
+        run_after: new Date(runAfter).toISOString()
+      });
+
+      if (released) {
+        logger.warn('Generation job attempt failed, retrying', {
+          job_id: jobId,
+          attempt: attempts,
+          max_attempts: job.max_attempts,
+          retry_at: new Date(runAfter).toISOString(),
+          error: message
+        });
+      }
+      return released ? 'queued' : null;
+    }
+
+    const released = await this.release(jobId, owner, 'failed', null, {
+      attempts: String(attempts),
+      error: message,
+      updated_at: now,
+      completed_at: now
+    });
+
+    if (released) {
+      logger.error('Generation job failed', { job_id: jobId, attempts, error: message });
+    }
+    return released ? 'failed' : null;
+  }
+
+  /**
+   * Hand a running job straight back to the queue, e.g. on shutdown
+   */
+  async requeue(jobId: string, owner: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    return this.release(jobId, owner, 'queued', Date.now(), { updated_at: now, run_after: now });
+  }
+
+  /**
+   * Hold a queued job so workers skip it, or ask the worker running it to pause
+   */
+  async pause(jobId: string): Promise<boolean> {
+    return this.stop(jobId, 'pause');
+  }
+
+  /**
+   * Cancel a queued or paused job, or ask the worker running it to stop
+   */
+  async cancel(jobId: string): Promise<boolean> {
+    return this.stop(jobId, 'cancel');
+  }
+
+  /**
+   * Stop requested of a running job, checked by its worker
+   */
+  async control(jobId: string): Promise<JobControl | null> {
+    const control = await this.redis.hget(this.jobKey(jobId), 'control');
+    return (control || null) as JobControl | null;
+  }
+
+  /**
+   * Record that the worker stopped a running job as requested: paused jobs
+   * wait for resume, cancelled ones are finished
+   */
+  async stopped(jobId: string, owner: string, control: JobControl): Promise<boolean> {
+    const now = new Date().toISOString();
+    const released = await this.release(
+      jobId,
+      owner,
+      control === 'pause' ? 'paused' : 'cancelled',
+      null,
+      {
+        control: '',
+        updated_at: now,
+        ...(control === 'cancel' ? { completed_at: now } : {})
+      }
+    );
+
+    if (released) {
+      logger.info('Generation job stopped', { job_id: jobId, control });
+    }
+    return released;
+  }
+
+  /**
+   * Return a paused, failed or cancelled job to the queue. A job whose run
+   * stored its segments continues from them, keeping the audio already rendered.
+   */
+  async resume(jobId: string): Promise<boolean> {
+    const now = Date.now();
+    const resumed = await this.redis.eval(
+      RESUME_SCRIPT,
+      2,
+      this.queueKey(),
+      this.jobKey(jobId),
+      jobId,
+      now,
+      new Date(now).toISOString()
+    );
+
+    if (resumed === 1) {
+      logger.info('Generation job resumed', { job_id: jobId });
+    }
+    return resumed === 1;
+  }
+
+  /**
+   * Record that the job's run has stored its segments, so later runs resume from them
+   */
+  async markSegmentsStored(jobId: string): Promise<void> {
+    await this.redis.hset(this.jobKey(jobId), 'segments_stored', '1');
+  }
+
+  /**
+   * Requeue or fail jobs whose lease expired because their worker died, or pause
+   * or cancel them when that was asked of the worker before it died
+   */
+  async reclaimExpired(): Promise<string[]> {
+    const now = Date.now();
+    const ids = await this.redis.eval(
+      RECLAIM_SCRIPT,
+      3,
+      this.leasesKey(),
+      this.queueKey(),
+      this.projectsKey(),
+      now,
+      this.jobKey(''),
+      new Date(now).toISOString(),
+      config.jobs.retentionSeconds
+    ) as string[];
+
+    if (ids.length > 0) {
+      logger.warn('Reclaimed generation jobs with expired leases', { job_ids: ids });
+    }
+    return ids;
+  }
+
+  private async release(
+    jobId: string,
+    owner: string,
+    state: JobState,
+    requeueAt: number | null,
+    fields: Record<string, string>
+  ): Promise<boolean> {
+    const released = await this.redis.eval(
+      RELEASE_SCRIPT,
+      4,
+      this.leasesKey(),
+      this.queueKey(),
+      this.jobKey(jobId),
+      this.projectsKey(),
+      owner,
+      jobId,
+      state,
+      requeueAt === null ? '' : requeueAt,
+      TERMINAL_STATES.includes(state) ? config.jobs.retentionSeconds : '',
+      ...Object.entries(fields).flat()
+    );
+
+    if (released !== 1) {
+      logger.warn('Job lease no longer held, leaving job untouched', { job_id: jobId, owner, state });
+    }
+    return released === 1;
+  }
+
+  private async stop(jobId: string, control: JobControl): Promise<boolean> {
+    const stopped = await this.redis.eval(
+      STOP_SCRIPT,
+      2,
+      this.queueKey(),
+      this.jobKey(jobId),
+      jobId,
+      control,
+      new Date().toISOString(),
+      config.jobs.retentionSeconds
+    );
+
+    return stopped === 1;
+  }
+
+  /**
+   * Exponential backoff with jitter: base * 2^(attempt - 1), capped
+   */
+  private backoffMs(attempt: number): number {
+    const exponential = config.jobs.backoffBaseMs * Math.pow(2, Math.max(0, attempt - 1));
+    const jitter = Math.random() * config.jobs.backoffBaseMs * 0.2;
+    return Math.min(config.jobs.backoffMaxMs, exponential + jitter);
+  }
+
+  private serialize(job: GenerationJob): Record<string, string> {
+    return {
+      id: job.id,
+      project_id: job.project_id,
+      state: job.state,
+      params: JSON.stringify(job.params),
+      attempts: String(job.attempts),
+      max_attempts: String(job.max_attempts),
+      progress: job.progress ? JSON.stringify(job.progress) : '',
+      error: job.error ?? '',
+      lease_owner: job.lease_owner ?? '',
+      lease_expires_at: job.lease_expires_at ?? '',
+      run_after: job.run_after,
+      created_at: job.created_at,
+      updated_at: job.updated_at,
+      completed_at: job.completed_at ?? '',
+      report: job.report ? JSON.stringify(job.report) : '',
+      control: job.control ?? '',
+      segments_stored: job.segments_stored ? '1' : ''
+    };
+  }
+
+  private deserialize(fields: Record<string, string>): GenerationJob {
+    return {
+      id: fields.id,
+      project_id: fields.project_id,
+      state: fields.state as JobState,
+      params: JSON.parse(fields.params),
+      attempts: parseInt(fields.attempts || '0', 10),
+      max_attempts: parseInt(fields.max_attempts || '1', 10),
+      progress: fields.progress ? JSON.parse(fields.progress) : null,
+      error: fields.error || null,
+      lease_owner: fields.lease_owner || null,
+      lease_expires_at: fields.lease_expires_at || null,
+      run_after: fields.run_after,
+      created_at: fields.created_at,
+      updated_at: fields.updated_at,
+      completed_at: fields.completed_at || null,
+      report: fields.report ? JSON.parse(fields.report) : null,
+      control: (fields.control || null) as JobControl | null,
+      segments_stored: fields.segments_stored === '1'
+    };
+  }
+
+  private jobKey(jobId: string): string {
+    return `${this.prefix}:job:${jobId}`;
+  }
+
+  private queueKey(): string {
+    return `${this.prefix}:queue`;
+  }
+
+  private leasesKey(): string {
+    return `${this.prefix}:leases`;
+  }
+
+  private projectsKey(): string {
+    return `${this.prefix}:projects`;
+  }
+}
+
+export default JobQueue;
@@ -0,0 +1,58 @@
+import PerformanceMarkupParser from './PerformanceMarkupParser';
+
+describe('PerformanceMarkupParser', () => {
+  const parser = new PerformanceMarkupParser();
+
+  it('removes pauses and records where they fall in the clean text', () => {
+    const parsed = parser.parse('Wait. [pause 1.5s] Now. [pause 800ms] [pause] Go.');
+
+    expect(parsed.text).toBe('Wait. Now. Go.');
+    expect(parsed.pauses).toEqual([
+      { offset: 6, seconds: 1.5 },
+      { offset: 11, seconds: 0.8 },
+      { offset: 11, seconds: 1 }
+    ]);
+  });
+
+  it('caps long pauses', () => {
+    expect(parser.parse('[pause 60s] Later.').pauses).toEqual([{ offset: 0, seconds: 10 }]);
+  });
+
+  it('forces a speaker, or the narrator', () => {
+    expect(parser.parse('[voice: Mara] “Run.”')).toMatchObject({ text: '“Run.”', speaker_override: 'Mara' });
+    expect(parser.parse('[voice: narrator] “Run.”').speaker_override).toBeNull();
+    expect(parser.parse('“Run.”').speaker_override).toBeUndefined();
+  });
+
+  it('turns delivery, emotion and rate tags into ranges over the clean text', () => {
+    const parsed = parser.parse('{whisper}Quiet now.{/whisper} {emotion: fear 0.8}They are here.{/emotion} {rate: 5}Fast.{/rate}');
+
+    expect(parsed.text).toBe('Quiet now. They are here. Fast.');
+    expect(parsed.ranges).toEqual([
+      { start: 0, end: 10, directive: { kind: 'delivery', delivery: 'whisper' } },
+      { start: 11, end: 25, directive: { kind: 'emotion', emotion: 'fear', intensity: 0.8 } },
+      { start: 26, end: 31, directive: { kind: 'rate', rate: 2 } }
+    ]);
+  });
+
+  it('closes an unclosed range at the end of the paragraph and ignores unknown emotions', () => {
+    const parsed = parser.parse('{shout}Stop {emotion: smug}it{/emotion} now');
+
+    expect(parsed.text).toBe('Stop it now');
+    expect(parsed.ranges).toEqual([
+      { start: 0, end: 11, directive: { kind: 'delivery', delivery: 'shout' } }
+    ]);
+  });
+
+  it('marks emphasis and keeps escaped characters literal', () => {
+    const parsed = parser.parse('I said *now*, not 2 \\* 3 \\[pause].');
+
+    expect(parsed.text).toBe('I said now, not 2 * 3 [pause].');
+    expect(parsed.emphasis).toEqual([{ start: 7, end: 10 }]);
+    expect(parsed.pauses).toEqual([]);
+  });
+
+  it('leaves a lone asterisk as text', () => {
+    expect(parser.parse('Rated 5* by critics.')).toMatchObject({ text: 'Rated 5* by critics.', emphasis: [] });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Performance Markup Parser
+ * Extracts author performance directions from manuscript paragraphs
+ *
+ * Dialect (see docs/guides/performance-markup.md):
+ *   [pause 1.5s] [pause 800ms] [pause]     silence at this point (default 1s)
+ *   [voice: Mara] [voice: narrator]         force the speaker for the paragraph
+ *   {whisper}...{/whisper}                  whispered delivery
+ *   {shout}...{/shout}                      shouted delivery
+ *   {emotion: fear 0.8}...{/emotion}        emotion with optional intensity
+ *   {rate: 0.85}...{/rate}                  speaking rate multiplier
+ *   *word*                                  emphasis
+ *   \[ \{ \* \\                             literal characters
+ */
+
+import { logger } from '../utils/logger';
+import {
+  DeliveryStyle,
+  EmotionType,
+  TextRange
+} from '../types';
+
+const EMOTIONS: EmotionType[] = ['joy', 'fear', 'anger', 'sadness', 'neutral', 'surprise', 'disgust'];
+
+const DEFAULT_PAUSE_SECONDS = 1;
+const MAX_PAUSE_SECONDS = 10;
+const MIN_RATE = 0.5;
+const MAX_RATE = 2.0;
+
+const BRACKET_TAG = /^\[\s*(pause|voice)\b\s*:?\s*([^\]]*)\]/i;
+const BRACE_TAG = /^\{\s*(\/?)\s*(whisper|shout|emotion|rate)\s*(?::\s*([^}]*))?\}/i;
+
+export type RangeDirective =
+  | { kind: 'delivery'; delivery: DeliveryStyle }
+  | { kind: 'emotion'; emotion: EmotionType; intensity: number | null }
+  | { kind: 'rate'; rate: number };
+
+export interface DirectiveRange extends TextRange {
+  directive: RangeDirective;
+}
+
+export interface ParsedMarkup {
+  text: string; // markup removed, whitespace collapsed
+  pauses: Array<{ offset: number; seconds: number }>;
+  ranges: DirectiveRange[];
+  emphasis: TextRange[];
+  speaker_override?: string | null; // null forces the narrator
+}
+
+interface OpenRange {
+  tag: string;
+  start: number;
+  directive: RangeDirective;
+}
+
+export class PerformanceMarkupParser {
+  /**
+   * Parse a paragraph into clean text plus directives.
+   * Offsets in the result refer to the returned text.
+   */
+  parse(paragraph: string): ParsedMarkup {
+    const result: ParsedMarkup = { text: '', pauses: [], ranges: [], emphasis: [] };
+    const open: OpenRange[] = [];
+    let emphasisStart: number | null = null;
+    let out = '';
+    let i = 0;
+
+    while (i < paragraph.length) {
+      const char = paragraph.charAt(i);
+      const rest = paragraph.slice(i);
+
+      if (char === '\\' && /[[{*\\]/.test(paragraph.charAt(i + 1))) {
+        out += paragraph.charAt(i + 1);
+        i += 2;
+        continue;
+      }
+
+      if (char === '[') {
+        const tag = rest.match(BRACKET_TAG);
+        if (tag) {
+          this.applyBracketTag(tag[1].toLowerCase(), tag[2].trim(), out.length, result);
+          i += tag[0].length;
+          continue;
+        }
+      }
+
+      if (char === '{') {
+        const tag = rest.match(BRACE_TAG);
+        if (tag) {
+          this.applyBraceTag(tag[1] === '/', tag[2].toLowerCase(), (tag[3] || '').trim(), out, open, result);
+          i += tag[0].length;
+          continue;
+        }
+      }
+
+      if (char === '*') {
+        if (emphasisStart !== null) {
+          result.emphasis.push({ start: emphasisStart, end: out.trimEnd().length });
+          emphasisStart = null;
+          i++;
+          continue;
+        }
+        if (/\S/.test(paragraph.charAt(i + 1)) && rest.indexOf('*', 1) !== -1) {
+          emphasisStart = out.length;
+          i++;
+          continue;
+        }
+      }
+
+      if (/\s/.test(char)) {
+        if (out.length > 0 && !out.endsWith(' ')) {
+          out += ' ';
+        }
+      } else {
+        out += char;
+      }
+      i++;
+    }
+
+    result.text = out.trimEnd();
+    const length = result.text.length;
+
+    for (const range of open) {
+      logger.warn('Unclosed performance markup, closing at paragraph end', { tag: range.tag });
+      result.ranges.push({ start: range.start, end: length, directive: range.directive });
+    }
+
+    result.pauses = result.pauses.map(p => ({ ...p, offset: Math.min(p.offset, length) }));
+    result.ranges = result.ranges
+      .map(r => ({ ...r, end: Math.min(r.end, length) }))
+      .filter(r => r.end > r.start);
+    result.emphasis = result.emphasis.filter(e => e.end > e.start);
+
+    return result;
+  }
+
+  private applyBracketTag(tag: string, value: string, offset: number, result: ParsedMarkup): void {
+    if (tag === 'pause') {
+      result.pauses.push({ offset, seconds: this.parsePause(value) });
+      return;
+    }
+
+    // [voice: narrator] sends the paragraph back to the narrator
+    result.speaker_override = !value || value.toLowerCase() === 'narrator' ? null : value;
+  }
+
+  private applyBraceTag(
+    closing: boolean,
+    tag: string,
+    value: string,
+    out: string,
+    open: OpenRange[],
+    result: ParsedMarkup
+  ): void {
+    if (closing) {
+      const index = open.map(o => o.tag).lastIndexOf(tag);
+      if (index === -1) {
+        logger.warn('Closing performance markup without opening tag', { tag });
+        return;
+      }
+      const [range] = open.splice(index, 1);
+      result.ranges.push({ start: range.start, end: out.trimEnd().length, directive: range.directive });
+      return;
+    }
+
+    const directive = this.parseDirective(tag, value);
+    if (directive) {
+      open.push({ tag, start: out.length, directive });
+    }
+  }
+
+  private parseDirective(tag: string, value: string): RangeDirective | null {
+    switch (tag) {
+      case 'whisper':
+      case 'shout':
+        return { kind: 'delivery', delivery: tag };
+      case 'emotion': {
+        const [name, intensity] = value.toLowerCase().split(/\s+/);
+        if (!EMOTIONS.includes(name as EmotionType)) {
+          logger.warn('Unknown emotion in performance markup', { value });
+          return null;
+        }
+        const parsed = parseFloat(intensity);
+        return {
+          kind: 'emotion',
+          emotion: name as EmotionType,
+          intensity: Number.isFinite(parsed) ? Math.max(0, Math.min(1, parsed)) : null
+        };
+      }
+      case 'rate': {
+        const rate = parseFloat(value);
+        if (!Number.isFinite(rate)) {
+          logger.warn('Invalid rate in performance markup', { value });
+          return null;
+        }
+        return { kind: 'rate', rate: Math.max(MIN_RATE, Math.min(MAX_RATE, rate)) };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * "1.5s", "800ms", "2" (seconds) or empty for the default
+   */
+  private parsePause(value: string): number {
+    const match = value.match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+    if (!match) {
+      return DEFAULT_PAUSE_SECONDS;
+    }
+    const amount = parseFloat(match[1]);
+    const seconds = match[2]?.toLowerCase() === 'ms' ? amount / 1000 : amount;
+    return Math.min(MAX_PAUSE_SECONDS, seconds);
+  }
+}
+
+export default PerformanceMarkupParser;
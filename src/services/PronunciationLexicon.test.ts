@@ -0,0 +1,112 @@
+import { Pool } from 'pg';
+import PronunciationLexicon, { LEXICON_FORMAT, LEXICON_VERSION } from './PronunciationLexicon';
+import { spokenLength } from '../utils/textRewrite';
+import { logger } from '../utils/logger';
+import { AudiobookPronunciationRow, PronunciationEntry } from '../types';
+
+function entry(word: string, fields: Partial<PronunciationEntry> = {}): PronunciationEntry {
+  return {
+    id: word,
+    project_id: 'p1',
+    word,
+    respelling: null,
+    ipa: null,
+    case_sensitive: false,
+    whole_word: true,
+    created_at: new Date(0),
+    updated_at: new Date(0),
+    ...fields
+  };
+}
+
+describe('PronunciationLexicon', () => {
+  describe('apply', () => {
+    const lexicon = new PronunciationLexicon({} as Pool);
+    const entries = [
+      entry('Aeltraniel', { respelling: 'ale-THRAN-ee-el', ipa: 'eɪlˈθɹæniəl' }),
+      entry('Tir', { respelling: 'teer' }),
+      entry('Tir Na', { respelling: 'teer nah' }),
+      entry('SQL', { respelling: 'sequel', case_sensitive: true })
+    ];
+
+    it('wraps words with IPA in phoneme tags and respells the rest', () => {
+      expect(lexicon.apply('aeltraniel came from Tir.', entries, 'phoneme').text)
+        .toBe('<phoneme alphabet="ipa" ph="eɪlˈθɹæniəl">aeltraniel</phoneme> came from teer.');
+    });
+
+    it('only respells when the provider has no phoneme tags', () => {
+      expect(lexicon.apply('Aeltraniel.', entries, 'respelling').text).toBe('ale-THRAN-ee-el.');
+    });
+
+    it('prefers the longest word and respects whole-word and case rules', () => {
+      expect(lexicon.apply('Tir Na fell. Tirade. SQL, not sql.', entries, 'respelling').text)
+        .toBe('teer nah fell. Tirade. sequel, not sql.');
+    });
+
+    it('moves emphasis to follow the rewritten words', () => {
+      const result = lexicon.apply('Go to Tir now', entries, 'respelling', [{ start: 6, end: 13 }]);
+
+      expect(result.text).toBe('Go to teer now');
+      expect(result.text.slice(result.emphasis[0].start, result.emphasis[0].end)).toBe('teer now');
+    });
+
+    it('leaves phoneme markup out of the spoken length', () => {
+      const { text } = lexicon.apply('Aeltraniel waits.', entries, 'phoneme');
+
+      expect(spokenLength(text)).toBe('Aeltraniel waits.'.length);
+      expect(spokenLength('Wait. <break time="1s" /> Go.')).toBe('Wait.  Go.'.length);
+    });
+  });
+
+  describe('import and export', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('upserts every entry in one transaction, clearing the project first on replace', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+      const lexicon = new PronunciationLexicon({ connect: async () => client } as unknown as Pool);
+
+      const count = await lexicon.importEntries('p1', {
+        format: LEXICON_FORMAT,
+        version: LEXICON_VERSION,
+        entries: [{ word: 'Tir', respelling: 'teer', ipa: null }]
+      }, true);
+
+      expect(count).toBe(1);
+      expect(client.query.mock.calls.map(([sql]) => sql.trim().split(/\s+/)[0])).toEqual(['BEGIN', 'DELETE', 'INSERT', 'COMMIT']);
+      expect(client.query.mock.calls[2][1]).toEqual(['p1', 'Tir', 'teer', null, false, true]);
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('rolls back a failed import', async () => {
+      jest.spyOn(logger, 'error').mockImplementation(() => logger);
+      const client = {
+        query: jest.fn(async (sql: string) => {
+          if (sql.includes('INSERT')) throw new Error('bad row');
+          return { rows: [] };
+        }),
+        release: jest.fn()
+      };
+      const lexicon = new PronunciationLexicon({ connect: async () => client } as unknown as Pool);
+
+      await expect(lexicon.importEntries('p1', {
+        format: LEXICON_FORMAT,
+        version: LEXICON_VERSION,
+        entries: [{ word: 'Tir', respelling: 'teer', ipa: null }]
+      })).rejects.toThrow('bad row');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith('Pronunciation import failed', expect.anything());
+    });
+
+    it('exports entries in the import format', async () => {
+      const row = entry('Tir', { respelling: 'teer' }) as AudiobookPronunciationRow;
+      const lexicon = new PronunciationLexicon({ query: async () => ({ rows: [row] }) } as unknown as Pool);
+
+      expect(await lexicon.exportEntries('p1')).toEqual({
+        format: LEXICON_FORMAT,
+        version: LEXICON_VERSION,
+        entries: [{ word: 'Tir', respelling: 'teer', ipa: null, case_sensitive: false, whole_word: true }]
+      });
+    });
+  });
+});
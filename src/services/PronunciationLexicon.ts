@@ -0,0 +1,269 @@
+/**
+ * Pronunciation Lexicon
+ * Per-project pronunciation dictionary applied to segment text before synthesis
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { TextReplacement, applyReplacements, remapRange } from '../utils/textRewrite';
+import {
+  AudiobookPronunciationRow,
+  PronunciationEntry,
+  PronunciationInput,
+  PronunciationLexiconExport,
+  PronunciationStyle,
+  TextRange
+} from '../types';
+
+export const LEXICON_FORMAT = 'nexus-audiobook-lexicon';
+export const LEXICON_VERSION = 1;
+
+export class PronunciationLexicon {
+  private db: Pool;
+
+  constructor(db: Pool) {
+    this.db = db;
+  }
+
+  /**
+   * List all entries for a project
+   */
+  async list(projectId: string): Promise<PronunciationEntry[]> {
+    const result = await this.db.query(
+      'SELECT * FROM prose.audiobook_pronunciations WHERE project_id = $1 ORDER BY word',
+      [projectId]
+    );
+
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Get a single entry
+   */
+  async get(projectId: string, entryId: string): Promise<PronunciationEntry | null> {
+    const result = await this.db.query(
+      'SELECT * FROM prose.audiobook_pronunciations WHERE project_id = $1 AND id = $2',
+      [projectId, entryId]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Create an entry. Words are unique per project.
+   */
+  async create(projectId: string, input: PronunciationInput): Promise<PronunciationEntry> {
+    const result = await this.db.query(
+      `INSERT INTO prose.audiobook_pronunciations
+         (project_id, word, respelling, ipa, case_sensitive, whole_word)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        projectId,
+        input.word,
+        input.respelling,
+        input.ipa,
+        input.case_sensitive ?? false,
+        input.whole_word ?? true
+      ]
+    );
+
+    logger.info('Pronunciation entry created', { project_id: projectId, word: input.word });
+    return this.mapRow(result.rows[0]);
+  }
+
+  /**
+   * Update an entry, leaving omitted fields unchanged
+   */
+  async update(
+    projectId: string,
+    entryId: string,
+    changes: Partial<PronunciationInput>
+  ): Promise<PronunciationEntry | null> {
+    const existing = await this.get(projectId, entryId);
+    if (!existing) {
+      return null;
+    }
+
+    const merged = { ...existing, ...changes };
+    const result = await this.db.query(
+      `UPDATE prose.audiobook_pronunciations
+       SET word = $3, respelling = $4, ipa = $5, case_sensitive = $6, whole_word = $7, updated_at = NOW()
+       WHERE project_id = $1 AND id = $2
+       RETURNING *`,
+      [projectId, entryId, merged.word, merged.respelling, merged.ipa, merged.case_sensitive, merged.whole_word]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  /**
+   * Delete an entry
+   */
+  async remove(projectId: string, entryId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM prose.audiobook_pronunciations WHERE project_id = $1 AND id = $2',
+      [projectId, entryId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Import entries from an export document.
+   * Existing words are updated; with `replace` every other entry is removed.
+   */
+  async importEntries(
+    projectId: string,
+    document: PronunciationLexiconExport,
+    replace: boolean = false
+  ): Promise<number> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (replace) {
+        await client.query('DELETE FROM prose.audiobook_pronunciations WHERE project_id = $1', [projectId]);
+      }
+
+      for (const entry of document.entries) {
+        await client.query(
+          `INSERT INTO prose.audiobook_pronunciations
+             (project_id, word, respelling, ipa, case_sensitive, whole_word)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (project_id, word) DO UPDATE
+           SET respelling = EXCLUDED.respelling,
+               ipa = EXCLUDED.ipa,
+               case_sensitive = EXCLUDED.case_sensitive,
+               whole_word = EXCLUDED.whole_word,
+               updated_at = NOW()`,
+          [
+            projectId,
+            entry.word,
+            entry.respelling,
+            entry.ipa,
+            entry.case_sensitive ?? false,
+            entry.whole_word ?? true
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Pronunciation import failed', { error, project_id: projectId });
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Pronunciation lexicon imported', {
+      project_id: projectId,
+      entry_count: document.entries.length,
+      replace
+    });
+
+    return document.entries.length;
+  }
+
+  /**
+   * Export a project's lexicon in the import format
+   */
+  async exportEntries(projectId: string): Promise<PronunciationLexiconExport> {
+    const entries = await this.list(projectId);
+
+    return {
+      format: LEXICON_FORMAT,
+      version: LEXICON_VERSION,
+      entries: entries.map(entry => ({
+        word: entry.word,
+        respelling: entry.respelling,
+        ipa: entry.ipa,
+        case_sensitive: entry.case_sensitive,
+        whole_word: entry.whole_word
+      }))
+    };
+  }
+
+  /**
+   * Rewrite text with the lexicon.
+   * `phoneme` wraps words with IPA in phoneme tags and falls back to respellings;
+   * `respelling` only substitutes respellings. Longer words win over words they contain.
+   * Emphasis ranges are moved to follow the rewritten text.
+   */
+  apply(
+    text: string,
+    entries: PronunciationEntry[],
+    style: PronunciationStyle,
+    emphasis: TextRange[] = []
+  ): { text: string; emphasis: TextRange[] } {
+    const matches: TextReplacement[] = [];
+    const ordered = [...entries].sort((a, b) => b.word.length - a.word.length);
+
+    for (const entry of ordered) {
+      if (!entry.word || !this.canRender(entry, style)) continue;
+
+      for (const match of text.matchAll(this.patternFor(entry))) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (matches.some(m => start < m.end && end > m.start)) continue;
+        matches.push({ start, end, replacement: this.render(entry, match[0], style) });
+      }
+    }
+
+    if (matches.length === 0) {
+      return { text, emphasis };
+    }
+
+    matches.sort((a, b) => a.start - b.start);
+
+    return {
+      text: applyReplacements(text, matches),
+      emphasis: emphasis.map(range => remapRange(range, matches))
+    };
+  }
+
+  private canRender(entry: PronunciationEntry, style: PronunciationStyle): boolean {
+    return Boolean(entry.respelling) || (style === 'phoneme' && Boolean(entry.ipa));
+  }
+
+  private render(entry: PronunciationEntry, original: string, style: PronunciationStyle): string {
+    if (style === 'phoneme' && entry.ipa) {
+      return `<phoneme alphabet="ipa" ph="${this.escapeAttribute(entry.ipa)}">${original}</phoneme>`;
+    }
+    return entry.respelling!;
+  }
+
+  private patternFor(entry: PronunciationEntry): RegExp {
+    const escaped = entry.word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const source = entry.whole_word
+      ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`
+      : escaped;
+    return new RegExp(source, entry.case_sensitive ? 'gu' : 'giu');
+  }
+
+  private escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private mapRow(row: AudiobookPronunciationRow): PronunciationEntry {
+    return {
+      id: row.id,
+      project_id: row.project_id,
+      word: row.word,
+      respelling: row.respelling,
+      ipa: row.ipa,
+      case_sensitive: row.case_sensitive,
+      whole_word: row.whole_word,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+export default PronunciationLexicon;
@@ -0,0 +1,116 @@
+import ProviderRouter from './ProviderRouter';
+import ProviderRegistry from '../providers/ProviderRegistry';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AudioQuality, SpeechProvider, TTSProvider, VoiceAssignment } from '../types';
+
+interface FakeProvider {
+  name: TTSProvider;
+  per1K: number;
+  tier: AudioQuality;
+  enabled?: boolean;
+  healthy?: boolean;
+}
+
+function registryOf(providers: FakeProvider[]): ProviderRegistry {
+  const instances = providers.map(({ name, per1K, tier, enabled = true, healthy = true }) => ({
+    name,
+    isEnabled: () => enabled,
+    healthCheck: jest.fn(async () => healthy),
+    getCapabilities: () => ({ quality_tier: tier }),
+    getCostModel: () => ({ per_1k_characters: per1K })
+  }) as unknown as SpeechProvider);
+  const byName = new Map(instances.map(instance => [instance.name, instance]));
+
+  return {
+    get: (name: TTSProvider) => byName.get(name)!,
+    has: (name: TTSProvider) => byName.has(name),
+    all: () => instances,
+    enabled: () => instances.filter(instance => instance.isEnabled())
+  } as unknown as ProviderRegistry;
+}
+
+const assignment = (provider: TTSProvider): VoiceAssignment => ({
+  character_name: 'narrator',
+  voice_id: 'v1',
+  voice_name: 'Voice',
+  provider,
+  match_score: 1,
+  voice_settings: { stability: 0.5, similarity_boost: 0.5 }
+});
+
+describe('ProviderRouter', () => {
+  const router = new ProviderRouter(registryOf([
+    { name: 'elevenlabs', per1K: 0.3, tier: 'premium' },
+    { name: 'openai', per1K: 0.015, tier: 'high' },
+    { name: 'local', per1K: 0, tier: 'standard' },
+    { name: 'playht', per1K: 0.05, tier: 'premium', enabled: false }
+  ]));
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('resolvePolicy', () => {
+    it('prefers the project per-quality policy, then its default, then config', () => {
+      const routing = { policy: 'cheapest' as const, quality_policies: { premium: 'fastest' as const } };
+
+      expect(router.resolvePolicy(routing, 'premium')).toBe('fastest');
+      expect(router.resolvePolicy(routing, 'high')).toBe('cheapest');
+      expect(router.resolvePolicy(undefined, 'high')).toBe(config.routing.defaultPolicy);
+    });
+
+    it('rejects unknown policies', () => {
+      expect(() => router.resolvePolicy({ policy: 'random' as never })).toThrow('Unknown routing policy: random');
+    });
+  });
+
+  describe('route', () => {
+    it('assigned: only the voice\'s own provider, if enabled', async () => {
+      expect(await router.route('assigned', assignment('elevenlabs'), undefined)).toEqual(['elevenlabs']);
+      expect(await router.route('assigned', assignment('playht'), undefined)).toEqual([]);
+    });
+
+    it('cheapest: enabled providers meeting the quality tier, cheapest first', async () => {
+      expect(await router.route('cheapest', assignment('elevenlabs'), undefined, 'standard')).toEqual(['local', 'openai', 'elevenlabs']);
+      expect(await router.route('cheapest', assignment('elevenlabs'), undefined, 'premium')).toEqual(['elevenlabs']);
+    });
+
+    it('fallback_chain: the voice\'s provider first when the chain leaves it out', async () => {
+      const routing = { fallback_chain: ['openai', 'playht', 'local'] as TTSProvider[] };
+
+      expect(await router.route('fallback_chain', assignment('elevenlabs'), routing)).toEqual(['elevenlabs', 'openai', 'local']);
+      expect(await router.route('fallback_chain', assignment('local'), routing)).toEqual(['openai', 'local']);
+    });
+
+    it('fastest: healthy providers by measured latency, unmeasured ones first', async () => {
+      const fastest = new ProviderRouter(registryOf([
+        { name: 'elevenlabs', per1K: 0.3, tier: 'premium' },
+        { name: 'openai', per1K: 0.015, tier: 'high' },
+        { name: 'xtts', per1K: 0, tier: 'high', healthy: false },
+        { name: 'local', per1K: 0, tier: 'standard' }
+      ]));
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      fastest.recordSuccess('elevenlabs', 2000, 1000);
+      fastest.recordSuccess('openai', 500, 1000);
+
+      expect(await fastest.route('fastest', assignment('elevenlabs'), undefined)).toEqual(['local', 'openai', 'elevenlabs']);
+    });
+  });
+
+  describe('candidates', () => {
+    it('covers every provider the policy could pick for the run', () => {
+      const assignments = [assignment('elevenlabs'), assignment('playht')];
+
+      expect(router.candidates('assigned', assignments, undefined)).toEqual(['elevenlabs']);
+      expect(router.candidates('fallback_chain', assignments, { fallback_chain: ['local'] })).toEqual(['elevenlabs', 'local']);
+      expect(router.candidates('fastest', assignments, undefined)).toEqual(['elevenlabs', 'openai', 'local']);
+    });
+  });
+
+  describe('costs', () => {
+    it('estimates cost per character and finds cheaper providers', () => {
+      expect(router.estimateCost('elevenlabs', 2000)).toBeCloseTo(0.6);
+      expect(router.recommend('high')).toBe('openai');
+      expect(router.cheaperThan('elevenlabs')).toEqual(['local', 'openai']);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Provider Router
+ * Decides which TTS providers to try for a segment, and in what order
+ */
+
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import ProviderRegistry from '../providers/ProviderRegistry';
+import CircuitBreaker from './CircuitBreaker';
+import {
+  AudioQuality,
+  CircuitStatus,
+  RoutingOptions,
+  RoutingPolicy,
+  SpeechProvider,
+  TTSProvider,
+  VoiceAssignment
+} from '../types';
+
+export const ROUTING_POLICIES: RoutingPolicy[] = ['assigned', 'cheapest', 'fastest', 'fallback_chain'];
+
+const QUALITY_TIERS: AudioQuality[] = ['standard', 'high', 'premium'];
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.2;
+
+export class ProviderRouter {
+  private registry: ProviderRegistry;
+  private latencyMsPer1K: Map<TTSProvider, number> = new Map();
+  private health: Map<TTSProvider, { healthy: boolean; checkedAt: number }> = new Map();
+  private breakers: Map<TTSProvider, CircuitBreaker> = new Map();
+
+  constructor(registry: ProviderRegistry) {
+    this.registry = registry;
+  }
+
+  getProvider(name: TTSProvider): SpeechProvider {
+    return this.registry.get(name);
+  }
+
+  /**
+   * Policy for a run: the project's per-quality choice, then its default,
+   * then the configured per-quality choice, then the configured default
+   */
+  resolvePolicy(routing: RoutingOptions | undefined, quality: AudioQuality = 'high'): RoutingPolicy {
+    const configured = config.routing.qualityPolicies[quality] || config.routing.defaultPolicy;
+    const policy = routing?.quality_policies?.[quality] ?? routing?.policy ?? configured;
+
+    if (!ROUTING_POLICIES.includes(policy as RoutingPolicy)) {
+      throw new Error(`Unknown routing policy: ${policy}`);
+    }
+    return policy as RoutingPolicy;
+  }
+
+  /**
+   * Every provider a policy could pick for these assignments.
+   * Providers that are not loaded or not enabled are left out.
+   */
+  candidates(
+    policy: RoutingPolicy,
+    assignments: VoiceAssignment[],
+    routing: RoutingOptions | undefined,
+    quality: AudioQuality = 'high'
+  ): TTSProvider[] {
+    const assigned = assignments.map(assignment => assignment.provider);
+    switch (policy) {
+      case 'assigned':
+        return this.usable(assigned);
+      case 'cheapest':
+        return this.meetingQuality(quality);
+      case 'fastest':
+        return this.enabledProviders();
+      case 'fallback_chain':
+        return this.usable([...assigned, ...this.fallbackChain(routing)]);
+    }
+  }
+
+  /**
+   * Providers to try for one segment, in order.
+   * Providers that are not loaded or not enabled are left out.
+   */
+  async route(
+    policy: RoutingPolicy,
+    assignment: VoiceAssignment,
+    routing: RoutingOptions | undefined,
+    quality: AudioQuality = 'high'
+  ): Promise<TTSProvider[]> {
+    switch (policy) {
+      case 'assigned':
+        return this.usable([assignment.provider]);
+      case 'cheapest':
+        return this.meetingQuality(quality).sort((a, b) => this.costPer1K(a) - this.costPer1K(b));
+      case 'fastest':
+        return this.fastestHealthy();
+      case 'fallback_chain':
+        return this.usable(this.chainFor(assignment, routing));
+    }
+  }
+
+  /**
+   * What a provider charges for this many characters
+   */
+  estimateCost(provider: TTSProvider, characters: number): number {
+    return (characters / 1000) * this.costPer1K(provider);
+  }
+
+  /**
+   * The cheapest enabled provider that meets the quality tier
+   */
+  recommend(quality: AudioQuality = 'high'): TTSProvider {
+    const [cheapest] = this.meetingQuality(quality).sort((a, b) => this.costPer1K(a) - this.costPer1K(b));
+    if (!cheapest) {
+      throw new Error(`No enabled provider meets audio quality: ${quality}`);
+    }
+    return cheapest;
+  }
+
+  /**
+   * Enabled providers charging less per character than this one, cheapest first
+   */
+  cheaperThan(provider: TTSProvider): TTSProvider[] {
+    return this.enabledProviders()
+      .filter(candidate => this.costPer1K(candidate) < this.costPer1K(provider))
+      .sort((a, b) => this.costPer1K(a) - this.costPer1K(b));
+  }
+
+  /**
+   * Whether the provider's circuit lets a request through; an open circuit
+   * sends the segment straight to the next provider
+   */
+  async allowRequest(provider: TTSProvider): Promise<boolean> {
+    return this.breaker(provider).allowRequest();
+  }
+
+  recordSuccess(provider: TTSProvider, elapsedMs: number, characters: number): void {
+    this.breaker(provider).recordSuccess();
+    this.recordLatency(provider, elapsedMs, characters);
+  }
+
+  recordFailure(provider: TTSProvider): void {
+    this.breaker(provider).recordFailure();
+  }
+
+  /**
+   * Circuit state of every loaded provider
+   */
+  getCircuitStatus(): Partial<Record<TTSProvider, CircuitStatus>> {
+    const status: Partial<Record<TTSProvider, CircuitStatus>> = {};
+    for (const provider of this.registry.all()) {
+      status[provider.name] = this.breaker(provider.name).getStatus();
+    }
+    return status;
+  }
+
+  /**
+   * Providers currently skipped because their circuit is not closed
+   */
+  openCircuits(): TTSProvider[] {
+    return [...this.breakers.entries()]
+      .filter(([, breaker]) => breaker.getState() !== 'closed')
+      .map(([provider]) => provider);
+  }
+
+  /**
+   * Fold a successful request into the provider's latency average
+   */
+  private recordLatency(provider: TTSProvider, elapsedMs: number, characters: number): void {
+    const sample = (elapsedMs / Math.max(characters, 1)) * 1000;
+    const previous = this.latencyMsPer1K.get(provider);
+
+    this.latencyMsPer1K.set(
+      provider,
+      previous === undefined ? sample : previous + LATENCY_SMOOTHING * (sample - previous)
+    );
+  }
+
+  /**
+   * Healthy providers, fastest first. Providers not measured yet go first so
+   * they get a latency sample. With nothing healthy, every provider is tried.
+   */
+  private async fastestHealthy(): Promise<TTSProvider[]> {
+    const enabled = this.enabledProviders();
+    const healthy: TTSProvider[] = [];
+
+    for (const provider of enabled) {
+      if (await this.isHealthy(provider)) {
+        healthy.push(provider);
+      }
+    }
+
+    const latency = (provider: TTSProvider) => this.latencyMsPer1K.get(provider) ?? 0;
+    return (healthy.length > 0 ? healthy : enabled).sort((a, b) => latency(a) - latency(b));
+  }
+
+  /**
+   * Health check results are reused for ROUTING_HEALTH_TTL_MS
+   */
+  private async isHealthy(provider: TTSProvider): Promise<boolean> {
+    const cached = this.health.get(provider);
+    if (cached && Date.now() - cached.checkedAt < config.routing.healthTtlMs) {
+      return cached.healthy;
+    }
+
+    const healthy = await this.registry.get(provider).healthCheck();
+    this.health.set(provider, { healthy, checkedAt: Date.now() });
+
+    if (!healthy) {
+      logger.warn('Provider unhealthy, skipping for fastest routing', { provider });
+    }
+    return healthy;
+  }
+
+  private breaker(provider: TTSProvider): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      // Half-open probes reuse the provider's own health check
+      const instance = this.registry.get(provider);
+      breaker = new CircuitBreaker(provider, () => instance.healthCheck());
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  private meetingQuality(quality: AudioQuality): TTSProvider[] {
+    const required = QUALITY_TIERS.indexOf(quality);
+    return this.enabledProviders().filter(provider =>
+      QUALITY_TIERS.indexOf(this.registry.get(provider).getCapabilities().quality_tier) >= required
+    );
+  }
+
+  private costPer1K(provider: TTSProvider): number {
+    return this.registry.get(provider).getCostModel().per_1k_characters;
+  }
+
+  private fallbackChain(routing: RoutingOptions | undefined): TTSProvider[] {
+    if (routing?.fallback_chain?.length) {
+      return routing.fallback_chain;
+    }
+
+    return config.routing.fallbackChain
+      .split(',')
+      .map(name => name.trim())
+      .filter((name): name is TTSProvider => this.registry.has(name as TTSProvider));
+  }
+
+  /**
+   * The fallback chain for a segment. A voice whose provider the chain leaves
+   * out is tried on its own provider first, so it never has to fall back.
+   */
+  private chainFor(assignment: VoiceAssignment, routing: RoutingOptions | undefined): TTSProvider[] {
+    const chain = this.fallbackChain(routing);
+    return chain.includes(assignment.provider) ? chain : [assignment.provider, ...chain];
+  }
+
+  /**
+   * Loaded, enabled providers among these, in the given order without repeats
+   */
+  private usable(providers: TTSProvider[]): TTSProvider[] {
+    const enabled = this.enabledProviders();
+    return [...new Set(providers)].filter(provider => enabled.includes(provider));
+  }
+
+  private enabledProviders(): TTSProvider[] {
+    return this.registry.enabled().map(provider => provider.name);
+  }
+}
+
+export default ProviderRouter;
@@ -0,0 +1,177 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Pool } from 'pg';
+import SegmentStore from './SegmentStore';
+import { logger } from '../utils/logger';
+import { AudioSegment, GeneratedAudio } from '../types';
+
+const segment = (id: string, chapterId: string): AudioSegment => ({
+  id,
+  chapter_id: chapterId,
+  sequence_number: 1,
+  paragraph_number: 1,
+  segment_type: 'narrative',
+  character_name: null,
+  attribution_confidence: null,
+  text_content: 'The door opened.',
+  emotion_detected: 'neutral',
+  emotion_intensity: 0,
+  emotion_locked: false
+});
+
+describe('SegmentStore', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('saveSegments', () => {
+    it('upserts segments, drops removed ones and marks their chapters stale in one transaction', async () => {
+      const client = {
+        query: jest.fn(async (sql: string, _values?: unknown[]) => ({ rows: sql.includes('RETURNING chapter_id') ? [{ chapter_id: 'ch2' }] : [] })),
+        release: jest.fn()
+      };
+      const store = new SegmentStore({ connect: async () => client } as unknown as Pool);
+
+      await store.saveSegments('p1', [segment('ch1_seg_1', 'ch1'), segment('ch1_seg_2', 'ch1')], ['ch1_seg_2']);
+
+      const statements = client.query.mock.calls.map(([sql]) => sql.trim().split(/\s+/).slice(0, 2).join(' '));
+      expect(statements).toEqual([
+        'BEGIN',
+        'INSERT INTO',
+        'INSERT INTO',
+        'DELETE FROM',
+        'INSERT INTO',
+        'DELETE FROM',
+        'COMMIT'
+      ]);
+      // The second segment's locked emotion gives way to its override
+      expect(client.query.mock.calls[1][1]!.slice(-1)).toEqual([false]);
+      expect(client.query.mock.calls[2][1]!.slice(-1)).toEqual([true]);
+      expect(client.query.mock.calls[4][1]).toEqual(['p1', ['ch2']]);
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('rolls back when a segment cannot be saved', async () => {
+      jest.spyOn(logger, 'error').mockImplementation(() => logger);
+      const client = {
+        query: jest.fn(async (sql: string) => {
+          if (sql.includes('audiobook_segments') && sql.includes('INSERT')) throw new Error('constraint');
+          return { rows: [] };
+        }),
+        release: jest.fn()
+      };
+      const store = new SegmentStore({ connect: async () => client } as unknown as Pool);
+
+      await expect(store.saveSegments('p1', [segment('ch1_seg_1', 'ch1')])).rejects.toThrow('constraint');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('saveAudio', () => {
+    const audio: GeneratedAudio = { audio_data: Buffer.from('audio'), format: 'wav', duration: 1, provider: 'local', cost: 0 };
+    let outputDir: string;
+    let db: { query: jest.Mock };
+    let store: SegmentStore;
+
+    beforeEach(async () => {
+      outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'segment-store-'));
+      db = { query: jest.fn(async () => ({ rows: [] })) };
+      store = new SegmentStore(db as unknown as Pool);
+      Object.assign(store, { outputDir });
+    });
+
+    afterEach(() => fs.rm(outputDir, { recursive: true, force: true }));
+
+    it('writes the audio into the project\'s segment directory', async () => {
+      const audioPath = await store.saveAudio('p1', 'ch1_seg_1', audio);
+
+      expect(audioPath).toBe(path.join(outputDir, 'p1', 'segments', 'ch1_seg_1.wav'));
+      expect(await fs.readFile(audioPath)).toEqual(audio.audio_data);
+      expect(db.query).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      ['p1', '../../escaped_seg_1'],
+      ['p1', 'ch1/../../escaped_seg_1'],
+      ['..', 'ch1_seg_1'],
+      ['p1/../p2', 'ch1_seg_1']
+    ])('refuses project %s segment %s, which would write outside the project', async (projectId, segmentId) => {
+      await expect(store.saveAudio(projectId, segmentId, audio)).rejects.toThrow('Invalid audio file name');
+      expect(db.query).not.toHaveBeenCalled();
+      expect(await fs.readdir(outputDir)).toEqual([]);
+    });
+  });
+
+  describe('saveChapterAudio', () => {
+    it('refuses a chapter id that would write outside the project', async () => {
+      const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'segment-store-'));
+      const db = { query: jest.fn(async () => ({ rows: [] })) };
+      const store = new SegmentStore(db as unknown as Pool);
+      Object.assign(store, { outputDir });
+
+      try {
+        await expect(store.saveChapterAudio('p1', '../../escaped', Buffer.from('audio'), 1, new Map()))
+          .rejects.toThrow('Invalid audio file name');
+        expect(db.query).not.toHaveBeenCalled();
+        expect(await fs.readdir(outputDir)).toEqual([]);
+      } finally {
+        await fs.rm(outputDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('speakingRates', () => {
+    it('prefers the project\'s own rate, falling back to all projects for voices it has not used', async () => {
+      const db = {
+        query: jest.fn(async () => ({
+          rows: [
+            { voice_id: 'v1', own: false, words: '9000', seconds: '3600' },
+            { voice_id: 'v1', own: true, words: '600', seconds: '180' },
+            { voice_id: 'v2', own: false, words: '1200', seconds: '600' }
+          ]
+        }))
+      };
+      const store = new SegmentStore(db as unknown as Pool);
+
+      const rates = await store.speakingRates('p1', ['v1', 'v2', 'v3']);
+
+      expect(db.query.mock.calls[0]).toEqual([expect.stringContaining('project_id = $1 AS own'), ['p1', ['v1', 'v2', 'v3']]]);
+      expect(rates).toEqual(new Map([
+        ['v1', { words: 600, words_per_minute: 200 }],
+        ['v2', { words: 1200, words_per_minute: 120 }]
+      ]));
+    });
+  });
+
+  describe('loadAlignment', () => {
+    it('places word timings on the chapter and book timelines, skipping stale chapters', async () => {
+      const track = { source: 'provider', words: [{ word: 'Go', char_start: 0, char_end: 2, start: 0.5, end: 0.75 }] };
+      const query = jest.fn(async (sql: string) => {
+        if (sql.includes('audiobook_chapter_audio')) {
+          return {
+            rows: [
+              { chapter_id: 'ch1', audio_url: 'ch1.mp3', duration_seconds: '10', stale: false },
+              { chapter_id: 'ch2', audio_url: 'ch2.mp3', duration_seconds: '5', stale: true },
+              { chapter_id: 'ch3', audio_url: 'ch3.mp3', duration_seconds: '8', stale: false }
+            ]
+          };
+        }
+        return {
+          rows: [
+            { id: 'ch1_seg_1', chapter_id: 'ch1', alignment: track, speech_offset_seconds: '2' },
+            { id: 'ch2_seg_1', chapter_id: 'ch2', alignment: track, speech_offset_seconds: '0' },
+            { id: 'ch3_seg_1', chapter_id: 'ch3', alignment: track, speech_offset_seconds: '1' }
+          ]
+        };
+      });
+      const store = new SegmentStore({ query } as unknown as Pool);
+
+      const [first, second, third] = await store.loadAlignment('p1');
+
+      expect(first.words[0]).toMatchObject({ chapter_start: 2.5, chapter_end: 2.75, book_start: 2.5 });
+      expect(second).toMatchObject({ start_seconds: 10, stale: true, words: [] });
+      expect(third).toMatchObject({ start_seconds: 15 });
+      expect(third.words[0]).toMatchObject({ segment_id: 'ch3_seg_1', chapter_start: 1.5, book_start: 16.5, book_end: 16.75 });
+    });
+  });
+});
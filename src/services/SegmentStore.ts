@@ -0,0 +1,540 @@
+/**
+ * Segment Store
+ * Persists segments and their synthesized audio so generation can resume after a crash
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { probeAudio } from '../utils/audioProbe';
+import {
+  AudioSegment,
+  AudiobookSegmentRow,
+  Chapter,
+  ChapterAlignment,
+  ChapterAudioRecord,
+  EmotionType,
+  GeneratedAudio,
+  PersistedSegment,
+  SegmentStatus,
+  TTSProvider
+} from '../types';
+
+export class SegmentStore {
+  private db: Pool;
+  private outputDir: string;
+
+  constructor(db: Pool) {
+    this.db = db;
+    this.outputDir = config.audio.outputDir;
+  }
+
+  /**
+   * Record the segments of a generation run.
+   * Segments that would render the same keep their audio and status; changed
+   * ones go back to pending, and segments no longer in the book are removed.
+   * Chapters with pending or removed segments are marked for re-assembly.
+   * A locked emotion is only replaced by an override, named in `overriddenIds`.
+   */
+  async saveSegments(projectId: string, segments: AudioSegment[], overriddenIds: string[] = []): Promise<void> {
+    const overridden = new Set(overriddenIds);
+    // A locked emotion stays with its segment while the text is unchanged
+    const keepsLock = `(prose.audiobook_segments.emotion_locked AND NOT $17::boolean
+      AND prose.audiobook_segments.text_content = EXCLUDED.text_content)`;
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const [position, segment] of segments.entries()) {
+        await client.query(
+          `INSERT INTO prose.audiobook_segments
+             (id, project_id, position, chapter_id, sequence_number, paragraph_number, segment_type,
+              character_name, attribution_confidence, text_content, emotion_detected, emotion_intensity,
+              emotion_locked, performance, normalization_changes, voice_fingerprint, status)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, 'pending')
+           ON CONFLICT (project_id, id) DO UPDATE
+           SET position = EXCLUDED.position,
+               sequence_number = EXCLUDED.sequence_number,
+               paragraph_number = EXCLUDED.paragraph_number,
+               segment_type = EXCLUDED.segment_type,
+               character_name = EXCLUDED.character_name,
+               attribution_confidence = EXCLUDED.attribution_confidence,
+               emotion_detected = CASE WHEN ${keepsLock}
+                 THEN prose.audiobook_segments.emotion_detected ELSE EXCLUDED.emotion_detected END,
+               emotion_intensity = CASE WHEN ${keepsLock}
+                 THEN prose.audiobook_segments.emotion_intensity ELSE EXCLUDED.emotion_intensity END,
+               emotion_locked = ${keepsLock} OR EXCLUDED.emotion_locked,
+               performance = EXCLUDED.performance,
+               normalization_changes = EXCLUDED.normalization_changes,
+               status = CASE
+                 WHEN prose.audiobook_segments.text_content = EXCLUDED.text_content
+                  AND prose.audiobook_segments.character_name IS NOT DISTINCT FROM EXCLUDED.character_name
+                  AND (${keepsLock} OR (
+                    prose.audiobook_segments.emotion_detected IS NOT DISTINCT FROM EXCLUDED.emotion_detected
+                    AND prose.audiobook_segments.emotion_intensity IS NOT DISTINCT FROM EXCLUDED.emotion_intensity))
+                  AND prose.audiobook_segments.performance IS NOT DISTINCT FROM EXCLUDED.performance
+                  -- Segments stored before fingerprints were recorded keep their audio
+                  AND (prose.audiobook_segments.voice_fingerprint IS NULL
+                       OR prose.audiobook_segments.voice_fingerprint IS NOT DISTINCT FROM EXCLUDED.voice_fingerprint)
+                 THEN prose.audiobook_segments.status
+                 ELSE 'pending'
+               END,
+               text_content = EXCLUDED.text_content,
+               voice_fingerprint = EXCLUDED.voice_fingerprint,
+               updated_at = NOW()`,
+          [
+            segment.id,
+            projectId,
+            position,
+            segment.chapter_id,
+            segment.sequence_number,
+            segment.paragraph_number,
+            segment.segment_type,
+            segment.character_name,
+            segment.attribution_confidence,
+            segment.text_content,
+            segment.emotion_detected,
+            segment.emotion_intensity,
+            segment.emotion_locked,
+            segment.performance ? JSON.stringify(segment.performance) : null,
+            segment.normalization_changes ? JSON.stringify(segment.normalization_changes) : null,
+            segment.voice_fingerprint ?? null,
+            overridden.has(segment.id)
+          ]
+        );
+      }
+
+      const removed = await client.query(
+        `DELETE FROM prose.audiobook_segments
+         WHERE project_id = $1 AND NOT (id = ANY($2))
+         RETURNING chapter_id`,
+        [projectId, segments.map(s => s.id)]
+      );
+
+      await client.query(
+        `INSERT INTO prose.audiobook_chapter_audio (project_id, chapter_id)
+         SELECT DISTINCT project_id, chapter_id FROM prose.audiobook_segments
+         WHERE project_id = $1 AND (status <> 'complete' OR chapter_id = ANY($2))
+         ON CONFLICT (project_id, chapter_id) DO UPDATE SET stale = TRUE`,
+        [projectId, removed.rows.map(row => row.chapter_id)]
+      );
+
+      await client.query(
+        `DELETE FROM prose.audiobook_chapter_audio
+         WHERE project_id = $1 AND NOT (chapter_id = ANY($2))`,
+        [projectId, [...new Set(segments.map(s => s.chapter_id))]]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to save segments', { error, project_id: projectId });
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Segments saved', { project_id: projectId, segment_count: segments.length });
+  }
+
+  /**
+   * Load a project's segments in book order
+   */
+  async loadSegments(projectId: string): Promise<PersistedSegment[]> {
+    const result = await this.db.query(
+      'SELECT * FROM prose.audiobook_segments WHERE project_id = $1 ORDER BY position',
+      [projectId]
+    );
+
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Mark a segment as in flight; a crash leaves it here and resume retries it
+   */
+  async markGenerating(projectId: string, segmentId: string): Promise<void> {
+    await this.setStatus(projectId, segmentId, 'generating', null);
+  }
+
+  /**
+   * Return an interrupted segment to the queue of work, e.g. when a run is paused
+   */
+  async markPending(projectId: string, segmentId: string): Promise<void> {
+    await this.setStatus(projectId, segmentId, 'pending', null);
+  }
+
+  async markFailed(projectId: string, segmentId: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await this.setStatus(projectId, segmentId, 'failed', message);
+  }
+
+  /**
+   * Write synthesized audio to disk and mark the segment complete
+   */
+  async saveAudio(projectId: string, segmentId: string, audio: GeneratedAudio): Promise<string> {
+    const audioPath = await this.projectFile(projectId, 'segments', `${segmentId}.${audio.format}`);
+    await fs.writeFile(audioPath, audio.audio_data);
+
+    await this.db.query(
+      `UPDATE prose.audiobook_segments
+       SET status = 'complete', audio_url = $2, audio_format = $3, duration_seconds = $4,
+           silence_before_seconds = $5, silence_after_seconds = $6, provider = $7,
+           cost_dollars = $8, voice_id = $9, sample_rate = $10, channels = $11, channel_layout = $12,
+           alignment = $13, speech_offset_seconds = NULL, error_message = NULL, updated_at = NOW()
+       WHERE id = $1 AND project_id = $14`,
+      [
+        segmentId,
+        audioPath,
+        audio.format,
+        audio.duration,
+        audio.silence_before_seconds ?? null,
+        audio.silence_after_seconds ?? null,
+        audio.provider,
+        audio.cost,
+        audio.voice_id ?? null,
+        audio.sample_rate ?? null,
+        audio.channels ?? null,
+        audio.channel_layout ?? null,
+        audio.alignment ? JSON.stringify(audio.alignment) : null,
+        projectId
+      ]
+    );
+
+    return audioPath;
+  }
+
+  /**
+   * Read back every completed segment's audio, in book order, for assembly.
+   * Pass a chapter id to load just that chapter.
+   */
+  async loadAudio(projectId: string, chapterId?: string): Promise<GeneratedAudio[]> {
+    const result = await this.db.query(
+      `SELECT * FROM prose.audiobook_segments
+       WHERE project_id = $1 AND status = 'complete' AND ($2::text IS NULL OR chapter_id = $2)
+       ORDER BY position`,
+      [projectId, chapterId ?? null]
+    );
+
+    const audio: GeneratedAudio[] = [];
+    for (const row of result.rows as AudiobookSegmentRow[]) {
+      const segment: GeneratedAudio = {
+        audio_data: await fs.readFile(row.audio_url!),
+        format: (row.audio_format || 'mp3') as GeneratedAudio['format'],
+        duration: this.toNumber(row.duration_seconds) ?? 0,
+        sample_rate: row.sample_rate ?? undefined,
+        channels: row.channels ?? undefined,
+        channel_layout: row.channel_layout ?? undefined,
+        provider: row.provider as TTSProvider,
+        cost: this.toNumber(row.cost_dollars) ?? 0,
+        silence_before_seconds: this.toNumber(row.silence_before_seconds) ?? undefined,
+        silence_after_seconds: this.toNumber(row.silence_after_seconds) ?? undefined,
+        voice_id: row.voice_id ?? undefined,
+        segment_id: row.id
+      };
+
+      if (row.sample_rate === null) {
+        await this.backfillProperties(projectId, row.id, segment);
+      }
+      audio.push(segment);
+    }
+
+    return audio;
+  }
+
+  /**
+   * Measured speaking rate of each voice across the project's rendered segments.
+   * Voices the project has not rendered yet fall back to their rate across all projects.
+   */
+  async speakingRates(
+    projectId: string,
+    voiceIds: string[]
+  ): Promise<Map<string, { words: number; words_per_minute: number }>> {
+    const rates = new Map<string, { words: number; words_per_minute: number }>();
+    if (voiceIds.length === 0) {
+      return rates;
+    }
+
+    const result = await this.db.query(
+      `SELECT voice_id,
+              project_id = $1 AS own,
+              SUM(array_length(regexp_split_to_array(btrim(text_content), '\\s+'), 1)) AS words,
+              SUM(duration_seconds) AS seconds
+       FROM prose.audiobook_segments
+       WHERE status = 'complete' AND voice_id = ANY($2) AND duration_seconds > 0
+       GROUP BY voice_id, own`,
+      [projectId, voiceIds]
+    );
+
+    const own = new Set<string>();
+    for (const row of result.rows) {
+      const words = parseInt(row.words, 10);
+      const seconds = parseFloat(row.seconds);
+      if (words > 0 && seconds > 0 && !own.has(row.voice_id)) {
+        rates.set(row.voice_id, { words, words_per_minute: words / (seconds / 60) });
+        if (row.own) own.add(row.voice_id);
+      }
+    }
+    return rates;
+  }
+
+  /**
+   * Chapters whose segments changed since they were last assembled.
+   * Chapters with segments still to render, e.g. outside a run's scope, wait.
+   */
+  async loadStaleChapters(projectId: string): Promise<string[]> {
+    const result = await this.db.query(
+      `SELECT c.chapter_id FROM prose.audiobook_chapter_audio c
+       WHERE c.project_id = $1 AND c.stale
+         AND NOT EXISTS (
+           SELECT 1 FROM prose.audiobook_segments s
+           WHERE s.project_id = c.project_id AND s.chapter_id = c.chapter_id AND s.status <> 'complete'
+         )
+       ORDER BY (
+         SELECT MIN(position) FROM prose.audiobook_segments s
+         WHERE s.project_id = c.project_id AND s.chapter_id = c.chapter_id
+       )`,
+      [projectId]
+    );
+
+    return result.rows.map(row => row.chapter_id);
+  }
+
+  /**
+   * Record the manuscript's chapter titles on the project's chapters
+   */
+  async saveChapterTitles(projectId: string, chapters: Chapter[]): Promise<void> {
+    await this.db.query(
+      `UPDATE prose.audiobook_chapter_audio c
+       SET title = t.title
+       FROM unnest($2::text[], $3::text[]) AS t(chapter_id, title)
+       WHERE c.project_id = $1 AND c.chapter_id = t.chapter_id`,
+      [projectId, chapters.map(chapter => chapter.id), chapters.map(chapter => chapter.title)]
+    );
+  }
+
+  /**
+   * Write an assembled chapter to disk and clear its stale flag.
+   * `speechOffsets` maps each segment id to where its speech starts in the chapter.
+   */
+  async saveChapterAudio(
+    projectId: string,
+    chapterId: string,
+    audio: Buffer,
+    durationSeconds: number,
+    speechOffsets: Map<string, number>
+  ): Promise<string> {
+    const audioPath = await this.projectFile(projectId, 'chapters', `${chapterId}.mp3`);
+    await fs.writeFile(audioPath, audio);
+
+    await this.db.query(
+      `INSERT INTO prose.audiobook_chapter_audio
+         (project_id, chapter_id, audio_url, duration_seconds, segment_count, stale, assembled_at)
+       VALUES ($1, $2, $3, $4, $5, FALSE, NOW())
+       ON CONFLICT (project_id, chapter_id) DO UPDATE
+       SET audio_url = EXCLUDED.audio_url,
+           duration_seconds = EXCLUDED.duration_seconds,
+           segment_count = EXCLUDED.segment_count,
+           stale = FALSE,
+           assembled_at = NOW()`,
+      [projectId, chapterId, audioPath, durationSeconds, speechOffsets.size]
+    );
+
+    await this.db.query(
+      `UPDATE prose.audiobook_segments s
+       SET speech_offset_seconds = o.seconds
+       FROM unnest($1::text[], $2::numeric[]) AS o(segment_id, seconds)
+       WHERE s.project_id = $3 AND s.id = o.segment_id`,
+      [[...speechOffsets.keys()], [...speechOffsets.values()], projectId]
+    );
+
+    return audioPath;
+  }
+
+  /**
+   * Write the assembled book next to its chapters' directory
+   */
+  async saveAudiobook(projectId: string, audio: Buffer, format: 'm4b' | 'mp3'): Promise<string> {
+    const audioPath = await this.projectFile(projectId, '', `${projectId}.${format}`);
+    await fs.writeFile(audioPath, audio);
+    return audioPath;
+  }
+
+  /**
+   * Every chapter's assembled audio, in book order
+   */
+  async loadChapterAudio(projectId: string): Promise<ChapterAudioRecord[]> {
+    const result = await this.db.query(
+      `SELECT c.chapter_id, c.title, c.audio_url, c.duration_seconds, c.stale FROM prose.audiobook_chapter_audio c
+       WHERE c.project_id = $1
+       ORDER BY (
+         SELECT MIN(position) FROM prose.audiobook_segments s
+         WHERE s.project_id = c.project_id AND s.chapter_id = c.chapter_id
+       )`,
+      [projectId]
+    );
+
+    return result.rows.map(row => ({
+      chapter_id: row.chapter_id,
+      title: row.title,
+      audio_url: row.audio_url,
+      duration_seconds: this.toNumber(row.duration_seconds),
+      stale: row.stale
+    }));
+  }
+
+  /**
+   * The audio of an assembled chapter
+   */
+  async readChapterAudio(chapter: ChapterAudioRecord): Promise<Buffer> {
+    if (!chapter.audio_url) {
+      throw new Error(`Chapter not assembled: ${chapter.chapter_id}`);
+    }
+    return fs.readFile(chapter.audio_url);
+  }
+
+  /**
+   * Word timings of every assembled chapter, placed on the chapter's timeline
+   * and, once every chapter before it is assembled, on the book's
+   */
+  async loadAlignment(projectId: string, chapterId?: string): Promise<ChapterAlignment[]> {
+    const chapters = await this.loadChapterAudio(projectId);
+
+    const segments = await this.db.query(
+      `SELECT id, chapter_id, alignment, speech_offset_seconds FROM prose.audiobook_segments
+       WHERE project_id = $1 AND status = 'complete' AND alignment IS NOT NULL
+         AND speech_offset_seconds IS NOT NULL AND ($2::text IS NULL OR chapter_id = $2)
+       ORDER BY position`,
+      [projectId, chapterId ?? null]
+    );
+
+    const byChapter = new Map<string, AudiobookSegmentRow[]>();
+    for (const row of segments.rows as AudiobookSegmentRow[]) {
+      const group = byChapter.get(row.chapter_id) || [];
+      group.push(row);
+      byChapter.set(row.chapter_id, group);
+    }
+
+    const alignments: ChapterAlignment[] = [];
+    let bookOffset: number | null = 0;
+
+    for (const chapter of chapters) {
+      const duration = chapter.duration_seconds;
+      const start = bookOffset;
+      bookOffset = bookOffset === null || duration === null ? null : bookOffset + duration;
+
+      if (chapterId && chapter.chapter_id !== chapterId) continue;
+
+      const alignment: ChapterAlignment = {
+        chapter_id: chapter.chapter_id,
+        start_seconds: start,
+        duration_seconds: duration,
+        stale: chapter.stale,
+        words: []
+      };
+
+      if (!chapter.stale) {
+        for (const row of byChapter.get(chapter.chapter_id) || []) {
+          const offset = parseFloat(row.speech_offset_seconds!);
+          const track = row.alignment!;
+
+          for (const word of track.words) {
+            alignment.words.push({
+              segment_id: row.id,
+              word: word.word,
+              char_start: word.char_start,
+              char_end: word.char_end,
+              chapter_start: offset + word.start,
+              chapter_end: offset + word.end,
+              book_start: start === null ? null : start + offset + word.start,
+              book_end: start === null ? null : start + offset + word.end,
+              source: track.source
+            });
+          }
+        }
+      }
+      alignments.push(alignment);
+    }
+
+    return alignments;
+  }
+
+  /**
+   * Replace the estimated duration of audio saved before probing with its measured one
+   */
+  private async backfillProperties(projectId: string, segmentId: string, audio: GeneratedAudio): Promise<void> {
+    const properties = await probeAudio(audio.audio_data, audio.format);
+    Object.assign(audio, properties);
+
+    await this.db.query(
+      `UPDATE prose.audiobook_segments
+       SET duration_seconds = $3, sample_rate = $4, channels = $5, channel_layout = $6
+       WHERE project_id = $1 AND id = $2`,
+      [projectId, segmentId, properties.duration, properties.sample_rate, properties.channels, properties.channel_layout]
+    );
+  }
+
+  /**
+   * Path of a file in one of the project's output directories, which is created
+   * if missing. Project, chapter and segment ids come from requests, so a name
+   * that is not a single path component is refused rather than written outside it.
+   */
+  private async projectFile(projectId: string, directoryName: string, fileName: string): Promise<string> {
+    for (const part of [projectId, fileName]) {
+      if (part !== path.basename(part) || part === '.' || part === '..') {
+        throw new Error(`Invalid audio file name: ${part}`);
+      }
+    }
+
+    const directory = path.join(this.outputDir, projectId, directoryName);
+    await fs.mkdir(directory, { recursive: true });
+    return path.join(directory, fileName);
+  }
+
+  private async setStatus(
+    projectId: string,
+    segmentId: string,
+    status: SegmentStatus,
+    errorMessage: string | null
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE prose.audiobook_segments
+       SET status = $3, error_message = $4, updated_at = NOW()
+       WHERE project_id = $1 AND id = $2`,
+      [projectId, segmentId, status, errorMessage]
+    );
+  }
+
+  private mapRow(row: AudiobookSegmentRow): PersistedSegment {
+    return {
+      id: row.id,
+      chapter_id: row.chapter_id,
+      sequence_number: row.sequence_number,
+      paragraph_number: row.paragraph_number,
+      segment_type: row.segment_type as AudioSegment['segment_type'],
+      character_name: row.character_name,
+      attribution_confidence: this.toNumber(row.attribution_confidence),
+      text_content: row.text_content,
+      emotion_detected: row.emotion_detected as EmotionType | null,
+      emotion_intensity: this.toNumber(row.emotion_intensity),
+      emotion_locked: row.emotion_locked,
+      performance: row.performance ?? undefined,
+      normalization_changes: row.normalization_changes ?? undefined,
+      voice_fingerprint: row.voice_fingerprint,
+      status: row.status as SegmentStatus,
+      audio_url: row.audio_url,
+      duration_seconds: this.toNumber(row.duration_seconds),
+      error_message: row.error_message,
+      alignment: row.alignment,
+      speech_offset_seconds: this.toNumber(row.speech_offset_seconds)
+    };
+  }
+
+  private toNumber(value: string | null): number | null {
+    return value === null ? null : parseFloat(value);
+  }
+}
+
+export default SegmentStore;
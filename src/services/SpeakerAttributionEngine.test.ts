@@ -0,0 +1,81 @@
+import SpeakerAttributionEngine from './SpeakerAttributionEngine';
+import DialogueSplitter from './DialogueSplitter';
+import { CharacterBible } from '../types';
+
+const characters = [
+  { character_name: 'Mara Quill', gender: 'female', aliases: ['the captain'] },
+  { character_name: 'Tom', gender: 'male' }
+] as CharacterBible[];
+
+describe('SpeakerAttributionEngine', () => {
+  const splitter = new DialogueSplitter();
+  let engine: SpeakerAttributionEngine;
+
+  beforeEach(() => {
+    engine = new SpeakerAttributionEngine(characters, 0.55);
+  });
+
+  /** Speaker of each dialogue span, paragraph by paragraph */
+  function speakersOf(paragraphs: string[]): (string | null)[][] {
+    const context = engine.createContext();
+
+    return paragraphs.map(paragraph => {
+      const split = splitter.splitParagraph(paragraph);
+      if (!split.spans.some(span => span.type === 'dialogue')) {
+        engine.observeNarration(paragraph, context);
+        return [];
+      }
+      return engine.attributeParagraph(split, context)
+        .filter((_, index) => split.spans[index].type === 'dialogue')
+        .map(attribution => attribution!.character_name);
+    });
+  }
+
+  it('resolves tags by full name, name part and alias', () => {
+    expect(speakersOf([
+      '“Go,” said Mara Quill.',
+      '“Now,” Quill said.',
+      '“Why?” the captain asked.'
+    ])).toEqual([['Mara Quill'], ['Mara Quill'], ['Mara Quill']]);
+  });
+
+  it('resolves a pronoun tag to the last character of that gender', () => {
+    expect(speakersOf([
+      'Tom and Mara Quill stood at the gate.',
+      '“Open it,” he said.'
+    ])).toEqual([[], ['Tom']]);
+  });
+
+  it('attributes each tagged quote in a paragraph separately', () => {
+    expect(speakersOf(['“Don’t,” Mara said. ‘Fine,’ Tom replied.']))
+      .toEqual([['Mara Quill', 'Tom']]);
+  });
+
+  it('keeps one speaker across a quote broken by a running tag or a beat', () => {
+    expect(speakersOf([
+      '“I’m going,” Tom said, “and you can’t stop me.”',
+      '“Wait.” Mara grabbed the door. “Please.”'
+    ])).toEqual([['Tom', 'Tom'], ['Mara Quill', 'Mara Quill']]);
+  });
+
+  it('alternates speakers in an untagged exchange', () => {
+    expect(speakersOf([
+      '“Ready?” Mara asked.',
+      '“Yes,” Tom said.',
+      '“Then go.”',
+      '“Going.”'
+    ])).toEqual([['Mara Quill'], ['Tom'], ['Mara Quill'], ['Tom']]);
+  });
+
+  it('falls back to the narrator when nothing identifies the speaker', () => {
+    expect(speakersOf(['“Who goes there?”'])).toEqual([[null]]);
+  });
+
+  it('lets a forced speaker win over the tag', () => {
+    const context = engine.createContext();
+    const split = splitter.splitParagraph('“Hush,” Tom said.');
+
+    expect(engine.attributeParagraph(split, context, 'the captain')[0])
+      .toEqual({ character_name: 'Mara Quill', confidence: 1, method: 'markup' });
+  });
+});
@@ -0,0 +1,510 @@
+/**
+ * Speaker Attribution Engine
+ * Resolves who is speaking each quote of dialogue using tags, aliases,
+ * pronouns, action beats and conversational turn-taking
+ */
+
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { DialogueSplitResult, TextSpan } from './DialogueSplitter';
+import {
+  CharacterBible,
+  SpeakerAttribution
+} from '../types';
+
+/**
+ * Speech verbs recognised in dialogue tags ("Mara said", "said Mara")
+ */
+const SPEECH_VERBS = new Set([
+  'said', 'says', 'asked', 'asks', 'replied', 'replies', 'answered', 'answers',
+  'whispered', 'whispers', 'shouted', 'shouts', 'yelled', 'yells', 'screamed', 'screams',
+  'cried', 'cries', 'called', 'calls', 'murmured', 'murmurs', 'muttered', 'mutters',
+  'mumbled', 'mumbles', 'snapped', 'snaps', 'hissed', 'hisses', 'growled', 'growls',
+  'barked', 'snarled', 'sighed', 'sighs', 'breathed', 'laughed', 'laughs', 'chuckled',
+  'giggled', 'sobbed', 'gasped', 'stammered', 'stuttered', 'exclaimed', 'declared',
+  'announced', 'explained', 'added', 'adds', 'continued', 'continues', 'insisted',
+  'demanded', 'protested', 'admitted', 'agreed', 'began', 'interrupted', 'repeated',
+  'offered', 'warned', 'pleaded', 'begged', 'retorted', 'responded', 'remarked',
+  'observed', 'suggested', 'told', 'ordered', 'commanded', 'urged', 'teased', 'joked',
+  'groaned', 'moaned', 'wondered', 'mused', 'whimpered', 'roared', 'bellowed', 'blurted',
+  'conceded', 'countered', 'corrected', 'confessed', 'promised', 'prompted', 'queried',
+  'quipped', 'reasoned', 'recalled', 'reminded', 'sneered', 'scoffed', 'spat', 'stated',
+  'noted', 'grunted', 'huffed', 'panted', 'purred', 'croaked', 'rasped', 'drawled',
+  'chimed', 'lied', 'finished', 'managed', 'persisted', 'shrieked', 'wailed', 'thundered'
+]);
+
+const PRONOUN_GENDER: Record<string, CharacterBible['gender']> = {
+  he: 'male',
+  she: 'female',
+  they: 'neutral'
+};
+
+/**
+ * Capitalised words that start sentences but are never speakers
+ */
+const NON_NAMES = new Set([
+  'the', 'then', 'but', 'and', 'so', 'now', 'still', 'finally', 'later', 'again', 'yet',
+  'or', 'when', 'while', 'after', 'before', 'suddenly', 'instead', 'someone', 'somebody',
+  'everyone', 'nobody', 'it', 'this', 'that', 'there', 'here', 'he', 'she', 'they', 'i',
+  'we', 'you', 'his', 'her', 'their', 'a', 'an'
+]);
+
+/**
+ * Narration that finishes a sentence, and the breaks between its sentences
+ */
+const SENTENCE_END = /[.!?…][”"’»)\]]*$/;
+const SENTENCE_BREAK = /(?<=[.!?…][”"’»)\]]*)\s+/;
+
+const CONFIDENCE = {
+  name: 0.95,
+  alias: 0.9,
+  continuation: 0.9,
+  unknownName: 0.8,
+  actionBeat: 0.75,
+  pronoun: 0.75,
+  pronounBeat: 0.6,
+  turnTaking: 0.7,
+  turnTakingDecay: 0.05,
+  turnTakingFloor: 0.5
+};
+
+/**
+ * Per-chapter state carried between paragraphs
+ */
+export interface AttributionContext {
+  recent_mentions: string[]; // canonical names, most recent first
+  last_speaker: string | null;
+  previous_speaker: string | null;
+  turns_since_tag: number;
+}
+
+/**
+ * Quotes spoken by one speaker, as span indexes, with the narration around them
+ */
+interface Utterance {
+  spans: number[];
+  narration: string;
+}
+
+interface ResolvedName {
+  character_name: string | null;
+  confidence: number;
+}
+
+export class SpeakerAttributionEngine {
+  private characters: Map<string, CharacterBible>;
+  private aliasIndex: Map<string, { name: string; exact: boolean }>;
+  private aliasPattern: RegExp | null;
+  private minConfidence: number;
+
+  constructor(characters: CharacterBible[] = [], minConfidence: number = config.attribution.minConfidence) {
+    this.characters = new Map(characters.map(c => [c.character_name, c]));
+    this.aliasIndex = this.buildAliasIndex(characters);
+    this.aliasPattern = this.buildAliasPattern();
+    this.minConfidence = minConfidence;
+  }
+
+  /**
+   * Create fresh state for a new chapter
+   */
+  createContext(): AttributionContext {
+    return {
+      recent_mentions: [],
+      last_speaker: null,
+      previous_speaker: null,
+      turns_since_tag: 0
+    };
+  }
+
+  /**
+   * Record character mentions in a narration-only paragraph.
+   * Narration breaks a back-and-forth exchange, so turn-taking state is reset.
+   */
+  observeNarration(text: string, context: AttributionContext): void {
+    this.recordMentions(text, context);
+    context.last_speaker = null;
+    context.previous_speaker = null;
+    context.turns_since_tag = 0;
+  }
+
+  /**
+   * Attribute each utterance in a split paragraph to a speaker and return one
+   * attribution per span, null for narration spans.
+   * Quotes joined by a tag that runs on ("she said, “…”") form one utterance;
+   * a tag or beat that ends its sentence closes it, so a paragraph can hold
+   * several speakers. An utterance without its own tag or beat keeps the
+   * speaker of the one before it in the paragraph.
+   * Guesses below the confidence threshold fall back to the narrator (null).
+   * A forced speaker from manuscript markup wins over any guess.
+   */
+  attributeParagraph(
+    split: DialogueSplitResult,
+    context: AttributionContext,
+    forcedSpeaker?: string | null
+  ): (SpeakerAttribution | null)[] {
+    const attributions: (SpeakerAttribution | null)[] = split.spans.map(() => null);
+
+    if (forcedSpeaker !== undefined) {
+      this.recordMentions(this.narrationOf(split.spans), context);
+
+      const forced: SpeakerAttribution = {
+        character_name: forcedSpeaker ? this.canonicalName(forcedSpeaker) : null,
+        confidence: 1,
+        method: 'markup'
+      };
+      this.advanceTurn(forced, split.continues_dialogue, context);
+      return split.spans.map(span => (span.type === 'dialogue' ? forced : null));
+    }
+
+    let previous: SpeakerAttribution | null = null;
+
+    this.groupUtterances(split.spans).forEach((utterance, index) => {
+      // Mentions in the utterance's narration are candidates for its pronouns
+      this.recordMentions(utterance.narration, context);
+
+      const continues = index === 0 ? split.continues_dialogue : true;
+      let attribution = this.fromDialogueTag(utterance.narration, context) ||
+        this.fromActionBeat(utterance.narration, context);
+
+      if (!attribution && previous) {
+        attribution = { ...previous, method: 'continuation' };
+      }
+
+      if (!attribution && continues && context.last_speaker) {
+        attribution = {
+          character_name: context.last_speaker,
+          confidence: CONFIDENCE.continuation,
+          method: 'continuation'
+        };
+      }
+
+      if (!attribution) {
+        attribution = this.fromTurnTaking(context);
+      }
+
+      if (!attribution) {
+        attribution = { character_name: null, confidence: 0, method: 'none' };
+      }
+
+      this.advanceTurn(attribution, continues, context);
+      previous = attribution;
+
+      const accepted = this.applyThreshold(attribution);
+      utterance.spans.forEach(span => {
+        attributions[span] = accepted;
+      });
+    });
+
+    return attributions;
+  }
+
+  /**
+   * Group dialogue spans into utterances with the narration that tags them.
+   * Narration between two quotes that ends a sentence closes the utterance
+   * before it: its first sentence is that utterance's tag and the rest leads
+   * into the next one.
+   */
+  private groupUtterances(spans: TextSpan[]): Utterance[] {
+    const utterances: Utterance[] = [];
+    let current: Utterance | null = null;
+    let leading: string[] = [];
+
+    spans.forEach((span, index) => {
+      if (span.type === 'dialogue') {
+        if (!current) {
+          current = { spans: [], narration: leading.join(' ') };
+          utterances.push(current);
+          leading = [];
+        }
+        current.spans.push(index);
+        return;
+      }
+
+      if (!current) {
+        leading.push(span.text);
+        return;
+      }
+
+      const moreSpeech = spans.slice(index + 1).some(next => next.type === 'dialogue');
+      if (moreSpeech && SENTENCE_END.test(span.text)) {
+        const [tag, ...rest] = span.text.split(SENTENCE_BREAK);
+        current.narration = [current.narration, tag].filter(Boolean).join(' ');
+        leading = rest;
+        current = null;
+      } else {
+        current.narration = [current.narration, span.text].filter(Boolean).join(' ');
+      }
+    });
+
+    return utterances;
+  }
+
+  private applyThreshold(attribution: SpeakerAttribution): SpeakerAttribution {
+    if (attribution.character_name && attribution.confidence < this.minConfidence) {
+      logger.debug('Low-confidence speaker attribution, using narrator', {
+        guess: attribution.character_name,
+        confidence: attribution.confidence,
+        method: attribution.method
+      });
+      return { ...attribution, character_name: null };
+    }
+
+    return attribution;
+  }
+
+  private narrationOf(spans: TextSpan[]): string {
+    return spans
+      .filter(span => span.type === 'narrative')
+      .map(span => span.text)
+      .join(' ');
+  }
+
+  /**
+   * "Mara said", "she whispered", "said Mara", "Mara said quietly"
+   */
+  private fromDialogueTag(narration: string, context: AttributionContext): SpeakerAttribution | null {
+    const verbPattern = /[\p{L}'’]+/gu;
+    let match: RegExpExecArray | null;
+
+    while ((match = verbPattern.exec(narration)) !== null) {
+      if (!SPEECH_VERBS.has(match[0].toLowerCase())) {
+        continue;
+      }
+
+      // Skip a lowercase adverb on either side ("Mara quietly said", "said quietly")
+      const before = narration.slice(0, match.index).replace(/\s+[a-z]+ly\s*$/, '').trimEnd();
+      const after = narration.slice(match.index + match[0].length).replace(/^\s*[a-z]+ly\b/, '').trimStart();
+
+      const resolved = this.resolveSubject(before, 'end', context) ||
+        this.resolveSubject(after, 'start', context);
+
+      if (resolved) {
+        return { ...resolved, method: 'explicit_tag' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * A narration sentence whose subject is a character: "Mara grabbed the door."
+   */
+  private fromActionBeat(narration: string, context: AttributionContext): SpeakerAttribution | null {
+    const sentences = narration.split(/(?<=[.!?])\s+/);
+
+    for (const sentence of sentences) {
+      const alias = this.matchAlias(sentence, 'start');
+      if (alias) {
+        return { character_name: alias.name, confidence: CONFIDENCE.actionBeat, method: 'action_beat' };
+      }
+
+      const pronoun = sentence.match(/^(he|she|they)\b/i);
+      if (pronoun) {
+        const name = this.resolvePronoun(pronoun[1], context);
+        if (name) {
+          return { character_name: name, confidence: CONFIDENCE.pronounBeat, method: 'pronoun' };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Untagged back-and-forth: the speaker before last talks again
+   */
+  private fromTurnTaking(context: AttributionContext): SpeakerAttribution | null {
+    const { last_speaker, previous_speaker, turns_since_tag } = context;
+
+    if (!last_speaker || !previous_speaker || last_speaker === previous_speaker) {
+      return null;
+    }
+
+    const confidence = Math.max(
+      CONFIDENCE.turnTakingFloor,
+      Math.round((CONFIDENCE.turnTaking - turns_since_tag * CONFIDENCE.turnTakingDecay) * 100) / 100
+    );
+
+    return { character_name: previous_speaker, confidence, method: 'turn_taking' };
+  }
+
+  /**
+   * Resolve the words next to a speech verb into a character
+   */
+  private resolveSubject(
+    text: string,
+    edge: 'start' | 'end',
+    context: AttributionContext
+  ): ResolvedName | null {
+    const alias = this.matchAlias(text, edge);
+    if (alias) {
+      return {
+        character_name: alias.name,
+        confidence: alias.exact ? CONFIDENCE.name : CONFIDENCE.alias
+      };
+    }
+
+    const pronounPattern = edge === 'end' ? /\b(he|she|they|I)$/i : /^(he|she|they|I)\b/i;
+    const pronoun = text.match(pronounPattern);
+    if (pronoun) {
+      // First-person tags belong to the narrator
+      if (pronoun[1].toLowerCase() === 'i') {
+        return { character_name: null, confidence: CONFIDENCE.name };
+      }
+      const name = this.resolvePronoun(pronoun[1], context);
+      return name ? { character_name: name, confidence: CONFIDENCE.pronoun } : null;
+    }
+
+    // Fall back to a capitalised name that is not in the character bible
+    const namePattern = edge === 'end'
+      ? /([A-Z][\p{L}'’-]+(?:\s+[A-Z][\p{L}'’-]+)*)$/u
+      : /^([A-Z][\p{L}'’-]+(?:\s+[A-Z][\p{L}'’-]+)*)/u;
+    const name = text.match(namePattern);
+    if (name) {
+      // Drop sentence openers captured with the name ("Then Mara")
+      const words = name[1].split(/\s+/);
+      while (words.length > 0 && NON_NAMES.has(words[0].toLowerCase())) {
+        words.shift();
+      }
+      if (words.length > 0) {
+        return { character_name: words.join(' '), confidence: CONFIDENCE.unknownName };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Most recently mentioned character whose gender matches the pronoun
+   */
+  private resolvePronoun(pronoun: string, context: AttributionContext): string | null {
+    const gender = PRONOUN_GENDER[pronoun.toLowerCase()];
+    if (!gender) return null;
+
+    return context.recent_mentions.find(name => this.characters.get(name)?.gender === gender) ?? null;
+  }
+
+  /**
+   * Find the longest alias at the start or end of the text
+   */
+  private matchAlias(text: string, edge: 'start' | 'end'): { name: string; exact: boolean } | null {
+    const normalized = text.toLowerCase();
+    let best: { alias: string; name: string; exact: boolean } | null = null;
+
+    for (const [alias, entry] of this.aliasIndex) {
+      const hit = edge === 'end'
+        ? normalized.endsWith(alias) && !/[\p{L}]/u.test(normalized.charAt(normalized.length - alias.length - 1))
+        : normalized.startsWith(alias) && !/[\p{L}]/u.test(normalized.charAt(alias.length));
+
+      if (hit && (!best || alias.length > best.alias.length)) {
+        best = { alias, ...entry };
+      }
+    }
+
+    return best ? { name: best.name, exact: best.exact } : null;
+  }
+
+  /**
+   * Move mentioned characters to the front of the recency list, in text order
+   */
+  private recordMentions(text: string, context: AttributionContext): void {
+    if (!this.aliasPattern || !text) return;
+
+    const pattern = new RegExp(this.aliasPattern.source, 'giu');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const entry = this.aliasIndex.get(match[0].toLowerCase());
+      if (entry) {
+        this.touch(entry.name, context);
+      }
+    }
+  }
+
+  /**
+   * Update turn-taking state after a dialogue paragraph
+   */
+  private advanceTurn(
+    attribution: SpeakerAttribution,
+    continuesDialogue: boolean,
+    context: AttributionContext
+  ): void {
+    const speaker = attribution.character_name;
+
+    if (attribution.method === 'turn_taking') {
+      context.turns_since_tag++;
+    } else if (attribution.method !== 'continuation') {
+      context.turns_since_tag = 0;
+    }
+
+    if (speaker && !(continuesDialogue && speaker === context.last_speaker)) {
+      context.previous_speaker = context.last_speaker;
+      context.last_speaker = speaker;
+    }
+
+    if (speaker) {
+      this.touch(speaker, context);
+    }
+  }
+
+  /**
+   * Map an alias to its canonical character name, leaving unknown names as written
+   */
+  private canonicalName(name: string): string {
+    return this.aliasIndex.get(name.trim().toLowerCase())?.name ?? name.trim();
+  }
+
+  private touch(name: string, context: AttributionContext): void {
+    context.recent_mentions = [name, ...context.recent_mentions.filter(n => n !== name)].slice(0, 10);
+  }
+
+  /**
+   * Map full names, name parts and bible aliases to canonical character names.
+   * Aliases shared by more than one character are ambiguous and dropped.
+   */
+  private buildAliasIndex(characters: CharacterBible[]): Map<string, { name: string; exact: boolean }> {
+    const index = new Map<string, { name: string; exact: boolean }>();
+    const ambiguous = new Set<string>();
+
+    const add = (alias: string, name: string, exact: boolean) => {
+      const key = alias.trim().toLowerCase();
+      if (key.length < 2 || NON_NAMES.has(key)) return;
+
+      const existing = index.get(key);
+      if (existing && existing.name !== name) {
+        ambiguous.add(key);
+        return;
+      }
+      if (!existing || exact) {
+        index.set(key, { name, exact });
+      }
+    };
+
+    for (const character of characters) {
+      const name = character.character_name;
+      add(name, name, true);
+
+      const parts = name.split(/\s+/);
+      if (parts.length > 1) {
+        parts.filter(p => p.length > 2).forEach(part => add(part, name, false));
+      }
+
+      (character.aliases || []).forEach(alias => add(alias, name, false));
+    }
+
+    ambiguous.forEach(alias => index.delete(alias));
+    return index;
+  }
+
+  private buildAliasPattern(): RegExp | null {
+    if (this.aliasIndex.size === 0) return null;
+
+    const escaped = [...this.aliasIndex.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(alias => alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+    return new RegExp(`(?<![\\p{L}])(?:${escaped.join('|')})(?![\\p{L}])`, 'giu');
+  }
+}
+
+export default SpeakerAttributionEngine;
@@ -0,0 +1,170 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Pool } from 'pg';
+import SynthesisCache from './SynthesisCache';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { GeneratedAudio } from '../types';
+
+/**
+ * Just enough of the cache tables to follow what the cache reads and writes
+ */
+function fakeDb() {
+  const entries = new Map<string, Record<string, unknown>>();
+  const stats = { hits: 0, misses: 0, dollars_saved: 0 };
+
+  const query = jest.fn(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('audiobook_synthesis_cache_stats')) {
+      if (sql.startsWith('INSERT')) {
+        stats.hits += params[1] as number;
+        stats.misses += params[2] as number;
+        stats.dollars_saved += params[3] as number;
+        return { rows: [] };
+      }
+      return { rows: [{ ...stats, dollars_saved: String(stats.dollars_saved) }] };
+    }
+    if (sql.includes('SUM(byte_size), 0) AS bytes')) {
+      return { rows: [{ bytes: '0' }] };
+    }
+    if (sql.includes('COUNT(*) AS entries')) {
+      return { rows: [{ entries: String(entries.size), bytes: '4' }] };
+    }
+    if (sql.includes('audiobook_synthesis_cache_projects')) {
+      return { rows: [] };
+    }
+    if (sql.startsWith('SELECT')) {
+      return { rows: entries.has(params[0] as string) ? [entries.get(params[0] as string)] : [] };
+    }
+    if (sql.startsWith('INSERT')) {
+      const [cache_key, provider, , file_path, audio_format, byte_size, duration_seconds, sample_rate, channels, channel_layout, cost_dollars] = params;
+      entries.set(cache_key as string, {
+        cache_key, provider, file_path, audio_format,
+        byte_size: String(byte_size),
+        duration_seconds: String(duration_seconds),
+        sample_rate, channels, channel_layout,
+        cost_dollars: String(cost_dollars),
+        pauses_rendered: false,
+        word_timings: null
+      });
+      return { rows: [] };
+    }
+    if (sql.startsWith('DELETE') && sql.includes('cache_key = $1')) {
+      entries.delete(params[0] as string);
+    }
+    return { rows: [] };
+  });
+
+  return { pool: { query } as unknown as Pool, query, entries, stats };
+}
+
+const audio: GeneratedAudio = {
+  audio_data: Buffer.from('RIFF'),
+  format: 'wav',
+  duration: 1.5,
+  sample_rate: 22050,
+  channels: 1,
+  channel_layout: 'mono',
+  provider: 'local',
+  cost: 0.25
+};
+
+describe('SynthesisCache', () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'synthesis-cache-'));
+    config.cache.enabled = true;
+    config.cache.dir = cacheDir;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('hashes descriptors the same whatever their property order', () => {
+    const cache = new SynthesisCache({} as Pool);
+
+    expect(cache.keyFor({ voice: 'a', text: 'Hi', settings: { speed: 1, pitch: 0 } }))
+      .toBe(cache.keyFor({ settings: { pitch: 0, speed: 1 }, text: 'Hi', voice: 'a' }));
+    expect(cache.keyFor({ voice: 'a', text: 'Hi' })).not.toBe(cache.keyFor({ voice: 'b', text: 'Hi' }));
+  });
+
+  it('serves stored audio for free and counts what the hit saved', async () => {
+    const db = fakeDb();
+    const cache = new SynthesisCache(db.pool);
+    const key = cache.keyFor({ text: 'Hello' });
+
+    await cache.put('p1', key, audio, 'en-us');
+    const hit = await cache.get('p2', key);
+
+    expect(hit).toMatchObject({ format: 'wav', duration: 1.5, provider: 'local', cost: 0, cache_hit: true });
+    expect(hit!.audio_data.equals(audio.audio_data)).toBe(true);
+    expect(db.stats).toEqual({ hits: 1, misses: 0, dollars_saved: 0.25 });
+    expect(await cache.getStats('p2')).toMatchObject({ hits: 1, misses: 0, hit_rate: 1, dollars_saved: 0.25 });
+  });
+
+  it('counts a re-split segment\'s pieces as one hit, saving what each piece cost', async () => {
+    const db = fakeDb();
+    const cache = new SynthesisCache(db.pool);
+    const first = cache.keyFor({ text: 'Hello' });
+    const second = cache.keyFor({ text: 'there' });
+    await cache.put('p1', first, audio, 'en-us');
+    await cache.put('p1', second, audio, 'en-us');
+
+    await cache.get('p1', first, false);
+    await cache.get('p1', second, false);
+    await cache.recordHit('p1');
+
+    expect(db.stats).toEqual({ hits: 1, misses: 0, dollars_saved: 0.5 });
+  });
+
+  it('drops an entry whose file has gone missing', async () => {
+    const db = fakeDb();
+    const cache = new SynthesisCache(db.pool);
+    const key = cache.keyFor({ text: 'Hello' });
+    await cache.put('p1', key, audio, 'en-us');
+
+    await fs.rm(db.entries.get(key)!.file_path as string);
+
+    expect(await cache.get('p1', key)).toBeNull();
+    expect(db.entries.has(key)).toBe(false);
+  });
+
+  it('treats database errors as a miss', async () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    const cache = new SynthesisCache({ query: async () => { throw new Error('connection refused'); } } as unknown as Pool);
+
+    expect(await cache.get('p1', 'key')).toBeNull();
+    await expect(cache.put('p1', 'key', audio, 'en-us')).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledWith('Synthesis cache lookup failed', expect.anything());
+  });
+
+  it('does nothing when disabled', async () => {
+    config.cache.enabled = false;
+    const db = fakeDb();
+    const cache = new SynthesisCache(db.pool);
+
+    await cache.put('p1', 'key', audio, 'en-us');
+    await cache.recordMiss('p1');
+
+    expect(await cache.get('p1', 'key')).toBeNull();
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it('deletes the files of evicted entries', async () => {
+    const stale = path.join(cacheDir, 'stale.wav');
+    await fs.writeFile(stale, 'RIFF');
+    const query = jest.fn(async (sql: string) => {
+      if (sql.includes('last_used_at <')) return { rows: [{ file_path: stale, byte_size: '4' }] };
+      return { rows: [{ bytes: '0' }] };
+    });
+    const cache = new SynthesisCache({ query } as unknown as Pool);
+
+    expect(await cache.evict()).toEqual({ entries_removed: 1, bytes_freed: 4 });
+    await expect(fs.access(stale)).rejects.toThrow();
+    // Within the size limit, so nothing more recently used is evicted
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+});
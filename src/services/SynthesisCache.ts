@@ -0,0 +1,371 @@
+/**
+ * Synthesis Cache
+ * Content-addressed store of synthesized audio so identical requests are never paid for twice
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { stableStringify } from '../utils/stableStringify';
+import { probeAudio } from '../utils/audioProbe';
+import { config } from '../config';
+import {
+  AudioProperties,
+  GeneratedAudio,
+  TimedWord,
+  SynthesisCacheEviction,
+  SynthesisCacheStats,
+  TTSProvider
+} from '../types';
+
+interface CacheEntryRow {
+  cache_key: string;
+  provider: string;
+  file_path: string;
+  audio_format: string;
+  byte_size: string;
+  duration_seconds: string;
+  sample_rate: number | null;
+  channels: number | null;
+  channel_layout: string | null;
+  cost_dollars: string;
+  pauses_rendered: boolean;
+  word_timings: TimedWord[] | null;
+}
+
+export class SynthesisCache {
+  private db: Pool;
+  private enabled: boolean;
+  private cacheDir: string;
+  private lastEvictionAt = 0;
+
+  constructor(db: Pool) {
+    this.db = db;
+    this.enabled = config.cache.enabled;
+    this.cacheDir = config.cache.dir;
+  }
+
+  /**
+   * Hash a provider's request description into a cache key.
+   * Keys are sorted first, so property order never changes the hash.
+   */
+  keyFor(descriptor: Record<string, unknown>): string {
+    return createHash('sha256').update(stableStringify(descriptor)).digest('hex');
+  }
+
+  /**
+   * Look up cached audio, recording a hit and the dollars saved against the
+   * project. Misses are recorded per segment with recordMiss, as a segment may
+   * be looked up on several providers. A segment re-split into pieces looks up
+   * each piece with countHit false and records its one hit with recordHit.
+   * Cache errors are logged and treated as a miss; they never fail generation.
+   */
+  async get(projectId: string, key: string, countHit: boolean = true): Promise<GeneratedAudio | null> {
+    if (!this.enabled) return null;
+
+    try {
+      const result = await this.db.query(
+        'SELECT * FROM prose.audiobook_synthesis_cache WHERE cache_key = $1',
+        [key]
+      );
+      const row = result.rows[0] as CacheEntryRow | undefined;
+
+      let audioData: Buffer | null = null;
+      if (row) {
+        audioData = await fs.readFile(row.file_path).catch(() => null);
+        if (!audioData) {
+          // File removed out from under us; drop the stale entry
+          await this.db.query('DELETE FROM prose.audiobook_synthesis_cache WHERE cache_key = $1', [key]);
+        }
+      }
+
+      if (!row || !audioData) {
+        return null;
+      }
+
+      const cost = parseFloat(row.cost_dollars);
+      const properties = row.sample_rate === null
+        ? await this.backfillProperties(key, audioData, row.audio_format)
+        : {
+          duration: parseFloat(row.duration_seconds),
+          sample_rate: row.sample_rate,
+          channels: row.channels!,
+          channel_layout: row.channel_layout!
+        };
+
+      await this.db.query(
+        `UPDATE prose.audiobook_synthesis_cache
+         SET hit_count = hit_count + 1, last_used_at = NOW()
+         WHERE cache_key = $1`,
+        [key]
+      );
+      await this.addProjectReference(projectId, key);
+      await this.recordStats(projectId, countHit ? 1 : 0, 0, cost);
+
+      logger.debug('Synthesis cache hit', { project_id: projectId, cache_key: key, dollars_saved: cost });
+
+      return {
+        audio_data: audioData,
+        format: row.audio_format as GeneratedAudio['format'],
+        ...properties,
+        provider: row.provider as TTSProvider,
+        cost: 0,
+        pauses_rendered: row.pauses_rendered,
+        word_timings: row.word_timings ?? undefined,
+        cache_hit: true
+      };
+    } catch (error) {
+      logger.warn('Synthesis cache lookup failed', { error, cache_key: key });
+      return null;
+    }
+  }
+
+  /**
+   * Record a re-split segment whose pieces all came from the cache
+   */
+  async recordHit(projectId: string): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      await this.recordStats(projectId, 1, 0, 0);
+    } catch (error) {
+      logger.warn('Failed to record synthesis cache hit', { error, project_id: projectId });
+    }
+  }
+
+  /**
+   * Record a segment rendered without a cache hit on any provider
+   */
+  async recordMiss(projectId: string): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      await this.recordStats(projectId, 0, 1, 0);
+    } catch (error) {
+      logger.warn('Failed to record synthesis cache miss', { error, project_id: projectId });
+    }
+  }
+
+  /**
+   * Measure an entry stored before probing, replacing its estimated duration
+   */
+  private async backfillProperties(key: string, audio: Buffer, format: string): Promise<AudioProperties> {
+    const properties = await probeAudio(audio, format);
+
+    await this.db.query(
+      `UPDATE prose.audiobook_synthesis_cache
+       SET duration_seconds = $2, sample_rate = $3, channels = $4, channel_layout = $5
+       WHERE cache_key = $1`,
+      [key, properties.duration, properties.sample_rate, properties.channels, properties.channel_layout]
+    );
+    return properties;
+  }
+
+  /**
+   * Store freshly synthesized audio under a key
+   */
+  async put(projectId: string, key: string, audio: GeneratedAudio, voiceId: string): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      const directory = path.join(this.cacheDir, key.slice(0, 2));
+      const filePath = path.join(directory, `${key}.${audio.format}`);
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+      // Write then rename, so a concurrent reader never sees a partial file
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(tempPath, audio.audio_data);
+      await fs.rename(tempPath, filePath);
+
+      await this.db.query(
+        `INSERT INTO prose.audiobook_synthesis_cache
+           (cache_key, provider, voice_id, file_path, audio_format, byte_size,
+            duration_seconds, sample_rate, channels, channel_layout, cost_dollars, pauses_rendered,
+            word_timings)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         ON CONFLICT (cache_key) DO UPDATE SET last_used_at = NOW()`,
+        [
+          key,
+          audio.provider,
+          voiceId,
+          filePath,
+          audio.format,
+          audio.audio_data.length,
+          audio.duration,
+          audio.sample_rate ?? null,
+          audio.channels ?? null,
+          audio.channel_layout ?? null,
+          audio.cost,
+          audio.pauses_rendered ?? false,
+          audio.word_timings ? JSON.stringify(audio.word_timings) : null
+        ]
+      );
+      await this.addProjectReference(projectId, key);
+    } catch (error) {
+      logger.warn('Failed to store synthesized audio in cache', { error, cache_key: key });
+      return;
+    }
+
+    if (Date.now() - this.lastEvictionAt >= config.cache.evictIntervalMs) {
+      this.lastEvictionAt = Date.now();
+      this.evict().catch(error => logger.warn('Synthesis cache eviction failed', { error }));
+    }
+  }
+
+  /**
+   * Remove entries unused for longer than the maximum age, then the least
+   * recently used entries until the cache fits its size limit
+   */
+  async evict(): Promise<SynthesisCacheEviction> {
+    const expired = await this.db.query(
+      `DELETE FROM prose.audiobook_synthesis_cache
+       WHERE last_used_at < NOW() - make_interval(days => $1)
+       RETURNING file_path, byte_size`,
+      [config.cache.maxAgeDays]
+    );
+
+    const totalResult = await this.db.query(
+      'SELECT COALESCE(SUM(byte_size), 0) AS bytes FROM prose.audiobook_synthesis_cache'
+    );
+    const excess = parseInt(totalResult.rows[0].bytes, 10) - config.cache.maxBytes;
+
+    let overflow: Array<{ file_path: string; byte_size: string }> = [];
+    if (excess > 0) {
+      const result = await this.db.query(
+        `DELETE FROM prose.audiobook_synthesis_cache
+         WHERE cache_key IN (
+           SELECT cache_key FROM (
+             SELECT cache_key,
+                    SUM(byte_size) OVER (ORDER BY last_used_at, cache_key) - byte_size AS freed_before
+             FROM prose.audiobook_synthesis_cache
+           ) ranked
+           WHERE freed_before < $1
+         )
+         RETURNING file_path, byte_size`,
+        [excess]
+      );
+      overflow = result.rows;
+    }
+
+    const eviction = await this.removeFiles([...expired.rows, ...overflow]);
+
+    if (eviction.entries_removed > 0) {
+      logger.info('Synthesis cache evicted', eviction);
+    }
+
+    return eviction;
+  }
+
+  /**
+   * Drop a project's cache entries. Entries other projects have also used are kept.
+   */
+  async purgeProject(projectId: string): Promise<SynthesisCacheEviction> {
+    const client = await this.db.connect();
+    let removed: Array<{ file_path: string; byte_size: string }>;
+
+    try {
+      await client.query('BEGIN');
+
+      const references = await client.query(
+        `DELETE FROM prose.audiobook_synthesis_cache_projects
+         WHERE project_id = $1
+         RETURNING cache_key`,
+        [projectId]
+      );
+
+      const result = await client.query(
+        `DELETE FROM prose.audiobook_synthesis_cache c
+         WHERE c.cache_key = ANY($1)
+           AND NOT EXISTS (
+             SELECT 1 FROM prose.audiobook_synthesis_cache_projects p
+             WHERE p.cache_key = c.cache_key
+           )
+         RETURNING file_path, byte_size`,
+        [references.rows.map(row => row.cache_key)]
+      );
+      removed = result.rows;
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to purge synthesis cache', { error, project_id: projectId });
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const eviction = await this.removeFiles(removed);
+    logger.info('Synthesis cache purged for project', { project_id: projectId, ...eviction });
+
+    return eviction;
+  }
+
+  /**
+   * Hit/miss counts and dollars saved for a project, plus the size of the entries it uses
+   */
+  async getStats(projectId: string): Promise<SynthesisCacheStats> {
+    const [stats, usage] = await Promise.all([
+      this.db.query(
+        'SELECT hits, misses, dollars_saved FROM prose.audiobook_synthesis_cache_stats WHERE project_id = $1',
+        [projectId]
+      ),
+      this.db.query(
+        `SELECT COUNT(*) AS entries, COALESCE(SUM(c.byte_size), 0) AS bytes
+         FROM prose.audiobook_synthesis_cache_projects p
+         JOIN prose.audiobook_synthesis_cache c ON c.cache_key = p.cache_key
+         WHERE p.project_id = $1`,
+        [projectId]
+      )
+    ]);
+
+    const hits = stats.rows[0]?.hits ?? 0;
+    const misses = stats.rows[0]?.misses ?? 0;
+
+    return {
+      project_id: projectId,
+      hits,
+      misses,
+      hit_rate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      dollars_saved: parseFloat(stats.rows[0]?.dollars_saved ?? '0'),
+      entries: parseInt(usage.rows[0].entries, 10),
+      bytes: parseInt(usage.rows[0].bytes, 10)
+    };
+  }
+
+  private async addProjectReference(projectId: string, key: string): Promise<void> {
+    await this.db.query(
+      `INSERT INTO prose.audiobook_synthesis_cache_projects (project_id, cache_key)
+       VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [projectId, key]
+    );
+  }
+
+  private async recordStats(projectId: string, hits: number, misses: number, dollarsSaved: number): Promise<void> {
+    await this.db.query(
+      `INSERT INTO prose.audiobook_synthesis_cache_stats (project_id, hits, misses, dollars_saved)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (project_id) DO UPDATE
+       SET hits = prose.audiobook_synthesis_cache_stats.hits + EXCLUDED.hits,
+           misses = prose.audiobook_synthesis_cache_stats.misses + EXCLUDED.misses,
+           dollars_saved = prose.audiobook_synthesis_cache_stats.dollars_saved + EXCLUDED.dollars_saved,
+           updated_at = NOW()`,
+      [projectId, hits, misses, dollarsSaved]
+    );
+  }
+
+  private async removeFiles(rows: Array<{ file_path: string; byte_size: string }>): Promise<SynthesisCacheEviction> {
+    let bytesFreed = 0;
+
+    for (const row of rows) {
+      await fs.rm(row.file_path, { force: true });
+      bytesFreed += parseInt(row.byte_size, 10);
+    }
+
+    return { entries_removed: rows.length, bytes_freed: bytesFreed };
+  }
+}
+
+export default SynthesisCache;
@@ -0,0 +1,636 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs/promises';
+import http from 'http';
+import https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import { Pool } from 'pg';
+import TTSOrchestrator from './TTSOrchestrator';
+import AudioAssembler from './AudioAssembler';
+import BudgetService, { RunBudget } from './BudgetService';
+import { config } from '../config';
+import { registerProvider } from '../providers/ProviderRegistry';
+import LocalTTSProvider from '../providers/LocalTTSProvider';
+import { logger } from '../utils/logger';
+import { wavInfo } from '../utils/wav';
+import {
+  AudioAssemblyParams,
+  AudioSegment,
+  Chapter,
+  ChapterAudioRecord,
+  GeneratedAudio,
+  GenerationParams,
+  PersistedSegment,
+  TTSProvider,
+  VoiceAssignment
+} from '../types';
+
+const hasFfmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+
+/**
+ * Segments and audio kept in memory, with the status rules of the Postgres store
+ */
+class MemorySegmentStore {
+  segments: PersistedSegment[] = [];
+  audio = new Map<string, GeneratedAudio>();
+  stale = new Set<string>();
+  assembled: string[] = [];
+  chapters = new Map<string, { audio: Buffer; duration: number }>();
+
+  async saveSegments(_projectId: string, segments: AudioSegment[]): Promise<void> {
+    const previous = new Map(this.segments.map(segment => [segment.id, segment]));
+
+    this.segments = segments.map(segment => {
+      const stored = previous.get(segment.id);
+      const unchanged = stored && stored.text_content === segment.text_content;
+      return unchanged ? { ...stored, ...segment, status: stored.status } : this.persisted(segment);
+    });
+
+    const kept = new Set(segments.map(segment => segment.id));
+    for (const stored of previous.values()) {
+      if (!kept.has(stored.id)) this.stale.add(stored.chapter_id);
+    }
+    this.segments.filter(segment => segment.status !== 'complete').forEach(segment => this.stale.add(segment.chapter_id));
+  }
+
+  async loadSegments(): Promise<PersistedSegment[]> {
+    return this.segments.map(segment => ({ ...segment }));
+  }
+
+  async markGenerating(_projectId: string, id: string): Promise<void> {
+    this.find(id).status = 'generating';
+  }
+
+  async markPending(_projectId: string, id: string): Promise<void> {
+    this.find(id).status = 'pending';
+  }
+
+  async markFailed(_projectId: string, id: string): Promise<void> {
+    this.find(id).status = 'failed';
+  }
+
+  async saveAudio(_projectId: string, id: string, audio: GeneratedAudio): Promise<string> {
+    this.find(id).status = 'complete';
+    this.audio.set(id, { ...audio, segment_id: id });
+    return `${id}.wav`;
+  }
+
+  async loadAudio(_projectId: string, chapterId?: string): Promise<GeneratedAudio[]> {
+    return this.segments
+      .filter(segment => segment.status === 'complete' && (!chapterId || segment.chapter_id === chapterId))
+      .map(segment => this.audio.get(segment.id)!);
+  }
+
+  async loadStaleChapters(): Promise<string[]> {
+    return [...this.stale].filter(chapterId =>
+      this.segments.every(segment => segment.chapter_id !== chapterId || segment.status === 'complete'));
+  }
+
+  async saveChapterAudio(_projectId: string, chapterId: string, audio: Buffer, duration: number): Promise<string> {
+    this.stale.delete(chapterId);
+    this.assembled.push(chapterId);
+    this.chapters.set(chapterId, { audio, duration });
+    return `${chapterId}.mp3`;
+  }
+
+  titles = new Map<string, string>();
+
+  async saveChapterTitles(_projectId: string, chapters: Chapter[]): Promise<void> {
+    chapters.forEach(chapter => this.titles.set(chapter.id, chapter.title));
+  }
+
+  async loadChapterAudio(): Promise<ChapterAudioRecord[]> {
+    return [...new Set(this.segments.map(segment => segment.chapter_id))].map(chapterId => ({
+      chapter_id: chapterId,
+      title: this.titles.get(chapterId) ?? null,
+      audio_url: this.chapters.has(chapterId) ? `${chapterId}.mp3` : null,
+      duration_seconds: this.chapters.get(chapterId)?.duration ?? null,
+      stale: this.stale.has(chapterId)
+    }));
+  }
+
+  async readChapterAudio(chapter: ChapterAudioRecord): Promise<Buffer> {
+    return this.chapters.get(chapter.chapter_id)!.audio;
+  }
+
+  books = new Map<string, Buffer>();
+
+  async saveAudiobook(projectId: string, audio: Buffer, format: string): Promise<string> {
+    this.books.set(`${projectId}.${format}`, audio);
+    return `${projectId}.${format}`;
+  }
+
+  rates = new Map<string, { words: number; words_per_minute: number }>();
+
+  async speakingRates(_projectId: string, voiceIds: string[]): Promise<Map<string, { words: number; words_per_minute: number }>> {
+    return new Map([...this.rates].filter(([voiceId]) => voiceIds.includes(voiceId)));
+  }
+
+  /** Store segments as a previous run left them */
+  seed(segments: Array<Partial<PersistedSegment> & Pick<PersistedSegment, 'id' | 'chapter_id' | 'status'>>): void {
+    this.segments = segments.map((segment, index) => ({
+      ...this.persisted({
+        sequence_number: index + 1,
+        paragraph_number: index + 1,
+        segment_type: 'narrative',
+        character_name: null,
+        attribution_confidence: null,
+        text_content: `Segment ${segment.id}.`,
+        emotion_detected: 'neutral',
+        emotion_intensity: 0,
+        emotion_locked: false,
+        ...segment
+      } as AudioSegment),
+      status: segment.status
+    }));
+    this.segments
+      .filter(segment => segment.status === 'complete')
+      .forEach(segment => this.audio.set(segment.id, { ...this.silence(), segment_id: segment.id }));
+  }
+
+  private persisted(segment: AudioSegment): PersistedSegment {
+    return {
+      ...segment,
+      status: 'pending',
+      audio_url: null,
+      duration_seconds: null,
+      error_message: null,
+      alignment: null,
+      speech_offset_seconds: null
+    };
+  }
+
+  private silence(): GeneratedAudio {
+    return { audio_data: Buffer.alloc(0), format: 'wav', duration: 1, provider: 'local', cost: 0 };
+  }
+
+  private find(id: string): PersistedSegment {
+    return this.segments.find(segment => segment.id === id)!;
+  }
+}
+
+const narrator: VoiceAssignment = {
+  character_name: 'narrator',
+  voice_id: 'en-us',
+  voice_name: 'US English',
+  provider: 'local',
+  match_score: 1,
+  voice_settings: { stability: 0.5, similarity_boost: 0.5 }
+};
+
+const chapter: Chapter = {
+  id: 'ch1',
+  chapter_number: 1,
+  title: 'One',
+  content: 'The rain fell on the quiet town all night.\n\nBy morning the river had risen over the road.',
+  word_count: 18
+};
+
+const chapterTwo: Chapter = {
+  id: 'ch2',
+  chapter_number: 2,
+  title: 'Two',
+  content: 'The ferry did not run that day.\n\nNobody left the town.\n\nNobody came.',
+  word_count: 13
+};
+
+describe('TTSOrchestrator', () => {
+  let orchestrator: TTSOrchestrator;
+  let store: MemorySegmentStore;
+
+  beforeAll(() => {
+    config.tts.providers = 'local';
+    config.routing.fallbackChain = 'local';
+    config.cache.enabled = false;
+  });
+
+  // Built for each test, from the providers configured at the time
+  function build(): void {
+    store = new MemorySegmentStore();
+    orchestrator = new TTSOrchestrator({ query: async () => ({ rows: [] }) } as unknown as Pool);
+
+    // Stand-ins for everything that would touch Postgres, the disk or ffmpeg
+    Object.assign(orchestrator, {
+      segmentStore: store,
+      pronunciations: { list: async () => [] },
+      budgets: {
+        open: async (projectId: string) => new RunBudget(
+          { recordSpend: async () => undefined } as unknown as BudgetService,
+          { runId: 'run-1', projectId, tenantId: null },
+          null,
+          0,
+          'stop',
+          []
+        )
+      },
+      assembler: {
+        assembleChapter: async (audio: GeneratedAudio[]) => ({
+          audio: Buffer.alloc(0),
+          duration: audio.reduce((sum, segment) => sum + segment.duration, 0),
+          speech_offsets: audio.map(() => 0)
+        }),
+        joinPieces: async (pieces: GeneratedAudio[]) => ({
+          audio_data: Buffer.concat(pieces.map(piece => piece.audio_data)),
+          format: pieces[0].format,
+          duration: pieces.reduce((sum, piece) => sum + piece.duration, 0)
+        })
+      }
+    });
+  }
+
+  beforeEach(build);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('resumeAudiobook', () => {
+    it('renders only the segments a failed run left unfinished and re-assembles their chapter', async () => {
+      store.seed([
+        { id: 'ch1_seg_1', chapter_id: 'ch1', status: 'complete' },
+        { id: 'ch1_seg_2', chapter_id: 'ch1', status: 'failed' },
+        { id: 'ch1_seg_3', chapter_id: 'ch1', status: 'generating' },
+        { id: 'ch2_seg_1', chapter_id: 'ch2', status: 'complete' }
+      ]);
+      store.stale.add('ch1');
+      const reused = store.audio.get('ch1_seg_1');
+
+      const { report } = await orchestrator.resumeAudiobook({ project_id: 'p1', voice_assignments: [narrator] });
+
+      expect(report.rendered.map(segment => [segment.segment_id, segment.change, segment.provider])).toEqual([
+        ['ch1_seg_2', 'retried', 'local'],
+        ['ch1_seg_3', 'retried', 'local']
+      ]);
+      expect(report.segments_reused).toBe(2);
+      expect(report.chapters_reassembled).toEqual(['ch1']);
+      expect(store.audio.get('ch1_seg_1')).toBe(reused);
+      expect(store.segments.every(segment => segment.status === 'complete')).toBe(true);
+    });
+
+    it.each([
+      ['pause', 'paused'],
+      ['cancel', 'cancelled'],
+      ['shutdown', 'interrupted'],
+      ['lease_lost', 'interrupted']
+    ])('reports a run aborted by %s as %s', async (reason, stage) => {
+      store.seed([{ id: 'ch1_seg_1', chapter_id: 'ch1', status: 'pending' }]);
+      const controller = new AbortController();
+      controller.abort(reason);
+      const progress = jest.fn();
+
+      await expect(orchestrator.resumeAudiobook({ project_id: 'p1', voice_assignments: [narrator] }, progress, controller.signal))
+        .rejects.toThrow(`Generation ${stage}`);
+      expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ stage, current_segment: 0, total_segments: 1 }));
+    });
+
+    it('fails when no run has stored segments for the project', async () => {
+      jest.spyOn(logger, 'error').mockImplementation(() => logger);
+      const progress = jest.fn();
+
+      await expect(orchestrator.resumeAudiobook({ project_id: 'p1', voice_assignments: [narrator] }, progress))
+        .rejects.toThrow('No segments stored for project: p1');
+      expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ stage: 'error' }));
+    });
+  });
+
+  describe('estimateAudiobook', () => {
+    it('prices and times the book without synthesizing or storing anything', async () => {
+      const synthesize = jest.spyOn(orchestrator['router'].getProvider('local'), 'generateSpeech');
+
+      const estimate = await orchestrator.estimateAudiobook({
+        project_id: 'p1',
+        chapters: [chapter],
+        voice_assignments: [narrator],
+        audio_quality: 'standard'
+      });
+
+      const characters = estimate.speakers.reduce((sum, speaker) => sum + speaker.characters, 0);
+      expect(estimate.segment_count).toBe(2);
+      expect(estimate.word_count).toBe(18);
+      expect(estimate.estimated_characters).toBe(characters);
+      expect(estimate.characters_by_provider).toEqual({ local: characters });
+      expect(estimate.speakers).toEqual([expect.objectContaining({
+        character_name: 'narrator',
+        voice_id: 'en-us',
+        provider: 'local',
+        words_per_minute: config.estimate.defaultWordsPerMinute,
+        words_per_minute_profiled: false
+      })]);
+      // 18 words at the default rate, and one pause between the paragraphs
+      expect(estimate.estimated_duration_hours * 3600)
+        .toBeCloseTo((18 / config.estimate.defaultWordsPerMinute) * 60 + config.audio.paragraphPauseSeconds);
+      expect(estimate.recommended_provider).toBe('local');
+      expect(estimate.total_cost).toBe(0);
+      expect(estimate.elevenlabs_cost).toBeCloseTo((characters / 1000) * config.tts.elevenlabs.costPer1K);
+      expect(estimate.playht_cost).toBeCloseTo((characters / 1000) * config.tts.playht.costPer1K);
+      expect(estimate.provider_costs).toEqual({ local: 0 });
+
+      expect(synthesize).not.toHaveBeenCalled();
+      expect(store.segments).toEqual([]);
+    });
+
+    it('times voices with enough rendered audio at their measured rate', async () => {
+      store.rates.set('en-us', { words: config.estimate.minProfileWords, words_per_minute: 190 });
+      store.rates.set('en-gb', { words: config.estimate.minProfileWords - 1, words_per_minute: 100 });
+      const reader: VoiceAssignment = { ...narrator, character_name: 'Reader', voice_id: 'en-gb' };
+
+      const params = { project_id: 'p1', chapters: [chapter], audio_quality: 'standard' as const };
+
+      const profiled = await orchestrator.estimateAudiobook({ ...params, voice_assignments: [narrator] });
+      const unprofiled = await orchestrator.estimateAudiobook({ ...params, voice_assignments: [reader] });
+
+      expect(profiled.speakers[0]).toEqual(expect.objectContaining({ words_per_minute: 190, words_per_minute_profiled: true }));
+      expect(profiled.speakers[0].duration_seconds).toBeCloseTo((18 / 190) * 60 + config.audio.paragraphPauseSeconds);
+      expect(unprofiled.speakers[0]).toEqual(expect.objectContaining({
+        words_per_minute: config.estimate.defaultWordsPerMinute,
+        words_per_minute_profiled: false
+      }));
+    });
+  });
+
+  describe('generateAudiobook with a scope', () => {
+    const book = { project_id: 'p1', voice_assignments: [narrator], audio_quality: 'standard' as const };
+    const edited = (source: Chapter): Chapter => ({ ...source, content: source.content.replace(/\.$/, ', again.') });
+
+    beforeEach(async () => {
+      await orchestrator.generateAudiobook({ ...book, chapters: [chapter, chapterTwo] });
+      store.assembled = [];
+    });
+
+    it('renders only the selected chapters and keeps the others as stored', async () => {
+      const kept = store.segments.filter(segment => segment.chapter_id === 'ch1');
+      const progress = jest.fn();
+
+      const { report } = await orchestrator.generateAudiobook(
+        { ...book, chapters: [edited(chapter), edited(chapterTwo)], scope: { chapters: [2] } },
+        progress
+      );
+
+      expect(report.rendered.map(segment => segment.segment_id)).toEqual(['ch2_seg_3']);
+      expect(report.chapters_reassembled).toEqual(['ch2']);
+      expect(store.segments.filter(segment => segment.chapter_id === 'ch1')).toEqual(kept);
+      expect(store.segments.map(segment => segment.chapter_id)).toEqual(['ch1', 'ch1', 'ch2', 'ch2', 'ch2']);
+      expect(progress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'generating_audio', total_segments: 3 }));
+    });
+
+    it('renders a segment range and leaves the rest of its chapter pending', async () => {
+      const progress = jest.fn();
+
+      const { report } = await orchestrator.generateAudiobook(
+        {
+          ...book,
+          chapters: [chapter, { ...chapterTwo, content: 'The ferry ran late.\n\nNobody left the town, again.\n\nNobody came, again.' }],
+          scope: { segments: { chapter: 2, from: 2, to: 2 } }
+        },
+        progress
+      );
+
+      expect(report.rendered.map(segment => segment.segment_id)).toEqual(['ch2_seg_2']);
+      expect(store.segments.filter(segment => segment.status !== 'complete').map(segment => segment.id))
+        .toEqual(['ch2_seg_1', 'ch2_seg_3']);
+      // The chapter waits to be assembled until all of it is rendered
+      expect(report.chapters_reassembled).toEqual([]);
+      expect(progress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'generating_audio', total_segments: 1 }));
+    });
+
+    it('refuses a chapter the manuscript does not have', async () => {
+      jest.spyOn(logger, 'error').mockImplementation(() => logger);
+
+      await expect(orchestrator.generateAudiobook({ ...book, chapters: [chapter], scope: { chapters: [9] } }))
+        .rejects.toThrow('Chapter not found: 9');
+    });
+  });
+
+  describe('segment sizing', () => {
+    // A provider taking far less per request than the local engine
+    const brief = 'brief' as TTSProvider;
+    const sentence = 'The rain fell on the quiet town all night long.';
+    const paragraph = `${sentence} ${sentence}`;
+
+    beforeAll(() => {
+      registerProvider(brief, () => Object.assign(new LocalTTSProvider(), { name: brief, getMaxCharsPerRequest: () => 60 }));
+      config.tts.providers = 'local,brief';
+    });
+
+    afterAll(() => {
+      config.tts.providers = 'local';
+    });
+
+    beforeEach(build);
+
+    it('sizes each speaker\'s segments for the provider their voice is routed to', async () => {
+      const mara: VoiceAssignment = { ...narrator, character_name: 'Mara', provider: brief };
+      const requests = jest.spyOn(orchestrator['router'].getProvider(brief), 'generateSpeech');
+
+      await orchestrator.generateAudiobook({
+        project_id: 'p1',
+        chapters: [{ ...chapter, content: `${paragraph}\n\n"${paragraph}" Mara said.` }],
+        voice_assignments: [narrator, mara],
+        routing: { policy: 'assigned' },
+        audio_quality: 'standard'
+      });
+
+      const narration = store.segments.filter(segment => segment.character_name === null && segment.paragraph_number === 1);
+      const dialogue = store.segments.filter(segment => segment.character_name === 'Mara');
+      expect(narration.map(segment => segment.text_content)).toEqual([paragraph]);
+      expect(dialogue.length).toBeGreaterThan(1);
+      expect(dialogue.every(segment => segment.text_content.length <= 60)).toBe(true);
+      expect(requests.mock.calls.map(([params]) => params.text)).toEqual(dialogue.map(segment => segment.text_content));
+    });
+
+    it('splits a segment again for a fallback provider that takes less per request', async () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      jest.spyOn(orchestrator['router'].getProvider('local'), 'generateSpeech').mockRejectedValue(new Error('engine down'));
+      const requests = jest.spyOn(orchestrator['router'].getProvider(brief), 'generateSpeech');
+      const reader: VoiceAssignment = {
+        ...narrator,
+        fallback_voices: [{ provider: brief, voice_id: 'en-us', voice_name: 'US English', match_score: 1 }]
+      };
+
+      await orchestrator.generateAudiobook({
+        project_id: 'p1',
+        chapters: [{ ...chapter, content: paragraph }],
+        voice_assignments: [reader],
+        routing: { policy: 'fallback_chain', fallback_chain: ['local', brief] },
+        audio_quality: 'standard'
+      });
+
+      expect(store.segments.map(segment => segment.text_content)).toEqual([paragraph]);
+      expect(requests.mock.calls.map(([params]) => params.text)).toEqual([sentence, sentence]);
+      expect(store.audio.get('ch1_seg_1')).toEqual(expect.objectContaining({ provider: brief, cache_hit: false }));
+    });
+
+    it('counts a re-split segment as one cache hit or miss', async () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      jest.spyOn(orchestrator['router'].getProvider('local'), 'generateSpeech').mockRejectedValue(new Error('engine down'));
+      const cache = orchestrator['synthesisCache'];
+      const lookups = jest.spyOn(cache, 'get');
+      const hits = jest.spyOn(cache, 'recordHit');
+      const misses = jest.spyOn(cache, 'recordMiss');
+      const params: GenerationParams = {
+        project_id: 'p1',
+        chapters: [{ ...chapter, content: paragraph }],
+        voice_assignments: [{
+          ...narrator,
+          fallback_voices: [{ provider: brief, voice_id: 'en-us', voice_name: 'US English', match_score: 1 }]
+        }],
+        routing: { policy: 'fallback_chain', fallback_chain: ['local', brief] },
+        audio_quality: 'standard'
+      };
+
+      await orchestrator.generateAudiobook(params);
+
+      const pieceLookups = lookups.mock.calls.filter(([, , countHit]) => countHit === false);
+      expect(pieceLookups).toHaveLength(2);
+      expect(misses).toHaveBeenCalledTimes(1);
+      expect(hits).not.toHaveBeenCalled();
+
+      // Rendered again, every piece now comes from the cache
+      const rendered = store.audio.get('ch1_seg_1')!;
+      lookups.mockImplementation(async (_projectId, _key, countHit) =>
+        countHit === false ? { ...rendered, duration: rendered.duration / 2, cache_hit: true } : null);
+      store.segments = [];
+
+      await orchestrator.generateAudiobook(params);
+
+      expect(hits).toHaveBeenCalledTimes(1);
+      expect(misses).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('audiobook output', () => {
+    const book = { project_id: 'p1', chapters: [chapter, chapterTwo], voice_assignments: [narrator] };
+    let assembleAudiobook: jest.Mock;
+
+    beforeEach(() => {
+      assembleAudiobook = jest.fn(async (params: AudioAssemblyParams) => ({
+        mp3_file: Buffer.from('book'),
+        m4b_file: null,
+        total_duration: 0,
+        chapters: [],
+        metadata: params.metadata
+      }));
+      const { assembler } = orchestrator as unknown as { assembler: object };
+      Object.assign(orchestrator, { assembler: { ...assembler, assembleAudiobook } });
+    });
+
+    it('joins the stored chapters, timed as measured, into the requested format', async () => {
+      const { report } = await orchestrator.generateAudiobook({ ...book, format: 'mp3', metadata: { author: 'A. Writer' } });
+
+      const [params]: [AudioAssemblyParams] = assembleAudiobook.mock.calls[0];
+      expect(params).toMatchObject({ project_id: 'p1', format: 'mp3', metadata: { title: 'p1', author: 'A. Writer' } });
+      expect(params.chapters.map(({ title, duration }) => [title, duration])).toEqual([
+        ['One', store.chapters.get('ch1')!.duration],
+        ['Two', store.chapters.get('ch2')!.duration]
+      ]);
+      expect(report.audiobook_path).toBe('p1.mp3');
+      expect(store.books.get('p1.mp3')).toEqual(Buffer.from('book'));
+    });
+
+    it('waits until every chapter is assembled', async () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      store.seed([
+        { id: 'ch1_seg_1', chapter_id: 'ch1', status: 'pending' },
+        { id: 'ch2_seg_1', chapter_id: 'ch2', status: 'pending' }
+      ]);
+      store.stale.add('ch1').add('ch2');
+
+      const { report } = await orchestrator.resumeAudiobook({ ...book, format: 'm4b', scope: { chapters: [1] } });
+
+      expect(report.chapters_reassembled).toEqual(['ch1']);
+      expect(report.audiobook_path).toBeNull();
+      expect(assembleAudiobook).not.toHaveBeenCalled();
+    });
+
+    it('leaves runs without an audio format to assemble chapters only', async () => {
+      const { report } = await orchestrator.generateAudiobook(book);
+
+      expect(report.audiobook_path).toBeUndefined();
+      expect(assembleAudiobook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offline generation with the local tone engine', () => {
+    const anna: VoiceAssignment = { ...narrator, character_name: 'Anna', voice_id: 'en-gb', voice_name: 'British English' };
+    const book: GenerationParams = {
+      project_id: 'offline',
+      chapters: [
+        { ...chapter, content: 'The train was late.\n\n“Where have you been?” asked Anna.' },
+        chapterTwo
+      ],
+      voice_assignments: [narrator, anna],
+      audio_quality: 'standard'
+    };
+
+    // Any request leaving the process fails the test
+    function forbidNetwork() {
+      const refuse = () => { throw new Error('network request during offline generation'); };
+      return [
+        jest.spyOn(http, 'request').mockImplementation(refuse),
+        jest.spyOn(https, 'request').mockImplementation(refuse),
+        jest.spyOn(globalThis, 'fetch').mockImplementation(refuse)
+      ];
+    }
+
+    it('renders every segment as WAV timed like speech without touching the network', async () => {
+      const network = forbidNetwork();
+      const wordSeconds = 60 / config.tts.local.wordsPerMinute;
+
+      const { report } = await orchestrator.generateAudiobook(book);
+
+      expect(report.chapters_reassembled).toEqual(['ch1', 'ch2']);
+      expect(report.cost_dollars).toBe(0);
+      expect(store.segments.find(segment => segment.character_name === 'Anna')).toBeDefined();
+      for (const segment of store.segments) {
+        const audio = store.audio.get(segment.id)!;
+        const words = audio.alignment!.words.length;
+        expect(segment.status).toBe('complete');
+        expect(wavInfo(audio.audio_data)).not.toBeNull();
+        expect(audio).toMatchObject({
+          format: 'wav',
+          provider: 'local',
+          cost: 0,
+          voice_id: segment.character_name === 'Anna' ? 'en-gb' : 'en-us'
+        });
+        expect(audio.duration).toBeCloseTo(words * wordSeconds, 2);
+      }
+      network.forEach(spy => expect(spy).not.toHaveBeenCalled());
+    });
+
+    (hasFfmpeg ? it : it.skip)('assembles the chapters and an M4B with a marker and title per chapter', async () => {
+      const assembler = new AudioAssembler();
+      Object.assign(orchestrator, { assembler });
+      const network = forbidNetwork();
+
+      const { report } = await orchestrator.generateAudiobook({
+        ...book,
+        format: 'm4b',
+        metadata: { title: 'Offline', author: 'Test', narrator: 'Tone' }
+      });
+
+      const assembled = ['ch1', 'ch2'].map(chapterId => store.chapters.get(chapterId)!);
+      for (const chapterId of ['ch1', 'ch2']) {
+        const speech = store.segments
+          .filter(segment => segment.chapter_id === chapterId)
+          .reduce((sum, segment) => sum + store.audio.get(segment.id)!.duration, 0);
+        expect(store.chapters.get(chapterId)!.duration).toBeGreaterThanOrEqual(speech - 0.1);
+      }
+
+      const m4b = store.books.get('offline.m4b')!;
+      expect(report.audiobook_path).toBe('offline.m4b');
+
+      const file = path.join(os.tmpdir(), `offline_${Date.now()}.m4b`);
+      await fs.writeFile(file, m4b);
+      try {
+        const probe = spawnSync('ffprobe', ['-v', 'error', '-show_chapters', '-show_format', '-of', 'json', file]);
+        const { chapters, format } = JSON.parse(probe.stdout.toString());
+
+        expect(chapters.map((marker: { tags: { title: string } }) => marker.tags.title)).toEqual(['One', 'Two']);
+        expect(parseFloat(chapters[1].start_time)).toBeCloseTo(assembled[0].duration, 1);
+        expect(parseFloat(chapters[1].end_time)).toBeCloseTo(assembled[0].duration + assembled[1].duration, 1);
+        expect(format.tags).toMatchObject({ title: 'Offline', artist: 'Test', composer: 'Tone' });
+      } finally {
+        await fs.rm(file, { force: true });
+      }
+      network.forEach(spy => expect(spy).not.toHaveBeenCalled());
+    }, 60000);
+  });
+});
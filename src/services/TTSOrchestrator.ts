@@ -3,49 +3,147 @@
  * Coordinates multiple TTS providers for audiobook generation
  */
 
+import { createHash } from 'crypto';
 import { Pool } from 'pg';
 import { logger } from '../utils/logger';
 import { config } from '../config';
-import ElevenLabsProvider from '../providers/ElevenLabsProvider';
-import XTTSProvider from '../providers/XTTSProvider';
-import PlayHTProvider from '../providers/PlayHTProvider';
+import ProviderRegistry from '../providers/ProviderRegistry';
+import TextSegmenter from './TextSegmenter';
+import EmotionDetector from './EmotionDetector';
+import PronunciationLexicon from './PronunciationLexicon';
+import TextNormalizer from './TextNormalizer';
+import SegmentStore from './SegmentStore';
+import SynthesisCache from './SynthesisCache';
+import AudioAssembler from './AudioAssembler';
+import ProviderRouter from './ProviderRouter';
+import BudgetService, { BudgetExceededError, RunBudget } from './BudgetService';
+import VoiceMatchingEngine from './VoiceMatchingEngine';
+import EpubExporter from './EpubExporter';
+import { diffSegments, mergeScopedSegments } from '../utils/segmentDiff';
+import { rateLimiterFor } from '../utils/rateLimiter';
+import { isRateLimited } from '../utils/providerError';
+import { alignWords } from '../utils/alignment';
+import { stableStringify } from '../utils/stableStringify';
+import { spokenLength } from '../utils/textRewrite';
 import {
   AudioSegment,
   GeneratedAudio,
   VoiceAssignment,
   Chapter,
+  CharacterBible,
   AudiobookProject,
   GenerationParams,
   TTSGenerationParams,
-  ProgressUpdate
+  PronunciationEntry,
+  PronunciationStyle,
+  ProgressUpdate,
+  ResumeParams,
+  GenerationResult,
+  RenderReport,
+  RenderScope,
+  RenderedSegment,
+  SegmentChange,
+  AudioQuality,
+  RoutingOptions,
+  RoutingPolicy,
+  TTSProvider,
+  SpeechProvider,
+  CircuitStatus,
+  CostEstimate,
+  EstimateParams,
+  EpubOptions,
+  AudiobookMetadata,
+  SpeakerEstimate,
+  TimedWord,
+  Voice
 } from '../types';
 
+/**
+ * Everything needed to render segments in one run
+ */
+interface RenderContext {
+  projectId: string;
+  assignments: VoiceAssignment[];
+  lexicon: PronunciationEntry[];
+  policy: RoutingPolicy;
+  routing?: RoutingOptions;
+  quality?: AudioQuality;
+  signal?: AbortSignal; // aborted with the JobControl that stopped the run
+  budget: RunBudget;
+}
+
+/**
+ * A provider request's audio, or why the provider was passed over
+ */
+type SynthesisOutcome = { audio: GeneratedAudio } | { skipped: 'circuit_open' | 'over_budget' };
+
+/**
+ * A RenderScope resolved to chapter ids
+ */
+interface ScopeFilter {
+  chapterIds: Set<string>; // every chapter re-segmented for the run
+  wholeChapterIds: Set<string>;
+  range?: { chapterId: string; from: number; to: number };
+}
+
+/**
+ * How a run routes its voices, for sizing each speaker's segments
+ */
+type SegmentRouting = Pick<RenderContext, 'assignments' | 'policy' | 'routing' | 'quality'>;
+
 export class TTSOrchestrator {
-  private elevenlabs: ElevenLabsProvider;
-  private xtts: XTTSProvider;
-  private playht: PlayHTProvider;
+  private providers: ProviderRegistry;
+  private segmenter: TextSegmenter;
+  private emotionDetector: EmotionDetector;
+  private pronunciations: PronunciationLexicon;
+  private normalizer: TextNormalizer;
+  private segmentStore: SegmentStore;
+  private synthesisCache: SynthesisCache;
+  private assembler: AudioAssembler;
+  private router: ProviderRouter;
+  private budgets: BudgetService;
+  private voiceMatcher: VoiceMatchingEngine;
+  private epubExporter: EpubExporter;
   private db: Pool;
 
   constructor(db: Pool) {
     this.db = db;
-    this.elevenlabs = new ElevenLabsProvider();
-    this.xtts = new XTTSProvider();
-    this.playht = new PlayHTProvider();
+    this.providers = new ProviderRegistry();
+    this.segmenter = new TextSegmenter();
+    this.emotionDetector = new EmotionDetector();
+    this.pronunciations = new PronunciationLexicon(db);
+    this.normalizer = new TextNormalizer();
+    this.segmentStore = new SegmentStore(db);
+    this.synthesisCache = new SynthesisCache(db);
+    this.assembler = new AudioAssembler();
+    this.router = new ProviderRouter(this.providers);
+    this.budgets = new BudgetService(db);
+    this.voiceMatcher = new VoiceMatchingEngine();
+    this.epubExporter = new EpubExporter(db);
   }
 
   /**
-   * Generate complete audiobook from chapters
+   * Generate complete audiobook from chapters.
+   * The new segments are diffed against those stored from the last run: unchanged
+   * segments keep their audio, only added and changed ones are synthesized, and
+   * only chapters that changed are re-assembled. Each segment is saved as soon as
+   * it is rendered, so a failed or interrupted run can be continued with resumeAudiobook.
+   * With a scope, only the chosen chapters are segmented and only segments in
+   * scope are rendered; the rest of the project is left as stored.
+   * Aborting the signal stops the run after in-flight requests are abandoned.
    */
   async generateAudiobook(
     params: GenerationParams,
-    progressCallback?: (update: ProgressUpdate) => void
-  ): Promise<AudiobookProject> {
+    progressCallback?: (update: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<GenerationResult> {
     const { project_id, chapters, voice_assignments } = params;
 
     logger.info('Starting audiobook generation', {
       project_id,
       chapter_count: chapters.length,
-      voice_count: voice_assignments.length
+      voice_count: voice_assignments.length,
+      scope: params.scope
     });
 
     try {
@@ -56,127 +154,806 @@ export class TTSOrchestrator {
         message: 'Analyzing chapters and splitting into segments'
       });
 
-      const segments = await this.segmentChapters(chapters);
+      const scope = params.scope ? this.resolveScope(chapters, params.scope) : null;
+      const policy = this.router.resolvePolicy(params.routing, params.audio_quality);
+      const providers = this.router.candidates(policy, voice_assignments, params.routing, params.audio_quality);
+      const segmented = await this.segmentChapters(
+        scope ? chapters.filter(chapter => scope.chapterIds.has(chapter.id)) : chapters,
+        providers,
+        { policy, assignments: voice_assignments, routing: params.routing, quality: params.audio_quality },
+        params.characters
+      );
+      this.normalizer.normalizeSegments(segmented, params.normalization);
+      this.fingerprintVoices(segmented, voice_assignments);
+
+      const stored = await this.segmentStore.loadSegments(project_id);
+      const diff = diffSegments(stored, scope ? mergeScopedSegments(
+        stored,
+        segmented,
+        chapters.map(chapter => chapter.id).filter(id => scope.chapterIds.has(id)),
+        chapters.map(chapter => chapter.id)
+      ) : segmented);
 
-      // Step 2: Generate audio for each segment
-      progressCallback?.({
-        stage: 'generating_audio',
-        percent_complete: 10,
-        total_segments: segments.length,
-        current_segment: 0,
-        message: 'Generating audio segments'
+      // Overrides name stored segment ids, which segments only carry once diffed
+      const overridden = this.emotionDetector.applyOverrides(diff.segments, params.emotion_overrides);
+      overridden.filter(id => !diff.changes.has(id)).forEach(id => diff.changes.set(id, 'changed'));
+      await this.segmentStore.saveSegments(
+        project_id,
+        diff.segments,
+        (params.emotion_overrides || []).map(override => override.segment_id)
+      );
+      await this.segmentStore.saveChapterTitles(project_id, chapters);
+
+      logger.info('Manuscript diffed against stored segments', {
+        project_id,
+        added: [...diff.changes.values()].filter(change => change === 'added').length,
+        changed: [...diff.changes.values()].filter(change => change === 'changed').length,
+        removed: diff.removed.length,
+        affected_chapters: diff.affectedChapters.size
       });
 
-      const audioSegments = await this.generateSegments(
-        segments,
-        voice_assignments,
-        (current, total) => {
-          const percent = 10 + ((current / total) * 80);
-          progressCallback?.({
-            stage: 'generating_audio',
-            percent_complete: Math.round(percent),
-            current_segment: current,
-            total_segments: total,
-            message: `Generating segment ${current}/${total}`
-          });
-        }
+      // Step 2: Generate audio for each new or changed segment
+      return await this.renderStoredSegments(
+        { ...params, epub: this.epubOptions(params) },
+        diff.changes,
+        diff.removed.map(segment => segment.id),
+        progressCallback,
+        signal,
+        scope
       );
 
-      // Step 3: Save results and return project status
-      progressCallback?.({
-        stage: 'finalizing',
-        percent_complete: 95,
-        message: 'Finalizing audiobook project'
+    } catch (error) {
+      await this.reportFailure(project_id, error, progressCallback, signal);
+      throw error;
+    }
+  }
+
+  /**
+   * Continue a failed or interrupted run.
+   * Uses the stored segments as they were and only renders those not yet
+   * complete, so finished audio is never paid for twice. A scope limits the
+   * run to the same part of the book as the run it continues.
+   */
+  async resumeAudiobook(
+    params: ResumeParams,
+    progressCallback?: (update: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<GenerationResult> {
+    const { project_id } = params;
+
+    logger.info('Resuming audiobook generation', { project_id, scope: params.scope });
+
+    try {
+      const scope = params.scope ? this.resolveScope(params.chapters ?? [], params.scope) : null;
+
+      return await this.renderStoredSegments(
+        { ...params, epub: this.epubOptions(params) },
+        new Map(),
+        [],
+        progressCallback,
+        signal,
+        scope
+      );
+    } catch (error) {
+      await this.reportFailure(project_id, error, progressCallback, signal);
+      throw error;
+    }
+  }
+
+  /**
+   * Price and time a book before generating it. Segments and normalizes the
+   * chapters and assigns voices exactly as a run would, but synthesizes nothing
+   * and stores nothing. Cache hits are not predicted, so costs are upper bounds.
+   */
+  async estimateAudiobook(params: EstimateParams): Promise<CostEstimate> {
+    const quality = params.audio_quality ?? 'high';
+    const policy = this.router.resolvePolicy(params.routing, quality);
+    const recommended = this.router.recommend(quality);
+
+    const assignments = params.voice_assignments?.length
+      ? params.voice_assignments
+      : await this.matchVoices(params.characters ?? []);
+
+    const candidates = this.router.candidates(policy, assignments, params.routing, quality);
+    const segments = await this.segmentChapters(
+      params.chapters,
+      candidates.length > 0 ? candidates : [recommended],
+      { policy, assignments, routing: params.routing, quality },
+      params.characters
+    );
+    this.normalizer.normalizeSegments(segments, params.normalization);
+
+    const rates = await this.speakingRates(params.project_id, assignments);
+    const routes = new Map<VoiceAssignment, { provider: TTSProvider; voice_id: string } | null>();
+    const speakers = new Map<string, SpeakerEstimate>();
+    const charactersByProvider: Partial<Record<TTSProvider, number>> = {};
+    let totalCost = 0;
+    let totalSeconds = 0;
+
+    for (const [index, segment] of segments.entries()) {
+      const assignment = this.findVoiceAssignment(segment.character_name, assignments)
+        ?? this.findVoiceAssignment(null, assignments);
+
+      if (assignment && !routes.has(assignment)) {
+        const providers = await this.router.route(policy, assignment, params.routing, quality);
+        const provider = providers.find(name => this.voiceOn(assignment, name));
+        routes.set(assignment, provider ? { provider, voice_id: this.voiceOn(assignment, provider)!.voice_id } : null);
+      }
+
+      // Speakers with no usable voice are priced as the recommended provider would read them
+      const route = assignment ? routes.get(assignment) ?? null : null;
+      const provider = route?.provider ?? recommended;
+      const characters = segment.text_content.length;
+      const words = this.countWords(segment.text_content);
+      const rate = route ? rates.get(route.voice_id) : undefined;
+      const speed = segment.performance?.rate ?? assignment?.voice_settings.speed ?? 1;
+
+      let seconds = (words / ((rate?.words_per_minute ?? config.estimate.defaultWordsPerMinute) * speed)) * 60;
+      seconds += (segment.performance?.pause_before_seconds ?? 0) + (segment.performance?.pause_after_seconds ?? 0);
+      const next = segments[index + 1];
+      if (next && next.chapter_id === segment.chapter_id && next.paragraph_number !== segment.paragraph_number) {
+        seconds += config.audio.paragraphPauseSeconds;
+      }
+
+      const name = segment.character_name ?? 'narrator';
+      const speaker = speakers.get(name.toLowerCase()) ?? {
+        character_name: name,
+        voice_id: route?.voice_id ?? null,
+        provider,
+        characters: 0,
+        words: 0,
+        words_per_minute: rate?.words_per_minute ?? config.estimate.defaultWordsPerMinute,
+        words_per_minute_profiled: rate !== undefined,
+        duration_seconds: 0
+      };
+      speaker.characters += characters;
+      speaker.words += words;
+      speaker.duration_seconds += seconds;
+      speakers.set(name.toLowerCase(), speaker);
+
+      charactersByProvider[provider] = (charactersByProvider[provider] ?? 0) + characters;
+      totalCost += this.router.estimateCost(provider, characters);
+      totalSeconds += seconds;
+    }
+
+    const totalCharacters = segments.reduce((sum, segment) => sum + segment.text_content.length, 0);
+    const providerCosts: Partial<Record<TTSProvider, number>> = {};
+    for (const provider of this.providers.all()) {
+      providerCosts[provider.name] = this.router.estimateCost(provider.name, totalCharacters);
+    }
+    // The three main providers are compared even when not loaded, at their configured rates
+    const configuredCost = (provider: 'elevenlabs' | 'playht' | 'xtts') =>
+      (totalCharacters / 1000) * config.tts[provider].costPer1K;
+
+    const estimate: CostEstimate = {
+      estimated_characters: totalCharacters,
+      estimated_duration_hours: totalSeconds / 3600,
+      elevenlabs_cost: configuredCost('elevenlabs'),
+      xtts_cost: configuredCost('xtts'),
+      playht_cost: configuredCost('playht'),
+      recommended_provider: recommended,
+      total_cost: totalCost,
+      audio_quality: quality,
+      routing_policy: policy,
+      segment_count: segments.length,
+      word_count: [...speakers.values()].reduce((sum, speaker) => sum + speaker.words, 0),
+      characters_by_provider: charactersByProvider,
+      speakers: [...speakers.values()],
+      provider_costs: providerCosts,
+      voice_assignments: assignments
+    };
+
+    logger.info('Audiobook estimated', {
+      project_id: params.project_id,
+      segments: estimate.segment_count,
+      characters: estimate.estimated_characters,
+      duration_hours: estimate.estimated_duration_hours,
+      total_cost: estimate.total_cost,
+      recommended_provider: recommended
+    });
+    return estimate;
+  }
+
+  /**
+   * Match each character to a voice from the enabled providers' libraries.
+   * Characters that cannot be matched are left unassigned.
+   */
+  private async matchVoices(characters: CharacterBible[]): Promise<VoiceAssignment[]> {
+    if (characters.length === 0) {
+      return [];
+    }
+
+    const voices: Voice[] = [];
+    for (const provider of this.providers.enabled()) {
+      try {
+        voices.push(...await provider.listVoices());
+      } catch (error) {
+        logger.warn('Voice library unavailable for matching', { provider: provider.name, error });
+      }
+    }
+
+    const assignments: VoiceAssignment[] = [];
+    for (const character of characters) {
+      try {
+        const match = await this.voiceMatcher.matchCharacterToVoice({
+          character_bible: character,
+          available_voices: voices
+        });
+        assignments.push({ character_name: character.character_name, ...match });
+      } catch (error) {
+        logger.warn('No voice matched for character', { character: character.character_name, error });
+      }
+    }
+    return assignments;
+  }
+
+  /**
+   * Measured speaking rates for the assigned voices that have rendered enough to trust
+   */
+  private async speakingRates(
+    projectId: string,
+    assignments: VoiceAssignment[]
+  ): Promise<Map<string, { words: number; words_per_minute: number }>> {
+    const voiceIds = new Set<string>();
+    for (const assignment of assignments) {
+      voiceIds.add(assignment.voice_id);
+      assignment.fallback_voices?.forEach(voice => voiceIds.add(voice.voice_id));
+    }
+
+    const rates = await this.segmentStore.speakingRates(projectId, [...voiceIds]);
+    for (const [voiceId, rate] of rates) {
+      if (rate.words < config.estimate.minProfileWords) {
+        rates.delete(voiceId);
+      }
+    }
+    return rates;
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  /**
+   * Render every stored segment in scope that is not complete yet, then
+   * re-assemble stale chapters. Progress counts only segments in scope.
+   */
+  private async renderStoredSegments(
+    params: ResumeParams,
+    changes: Map<string, SegmentChange>,
+    removedIds: string[],
+    progressCallback?: (update: ProgressUpdate) => void,
+    signal?: AbortSignal,
+    scope: ScopeFilter | null = null
+  ): Promise<GenerationResult> {
+    const projectId = params.project_id;
+    const segments = await this.segmentStore.loadSegments(projectId);
+    if (segments.length === 0) {
+      throw new Error(`No segments stored for project: ${projectId}`);
+    }
+
+    const scoped = scope ? segments.filter(segment => this.inScope(segment, scope)) : segments;
+    const pending = scoped.filter(segment => segment.status !== 'complete');
+    const alreadyComplete = scoped.length - pending.length;
+    const context: RenderContext = {
+      projectId,
+      assignments: params.voice_assignments,
+      lexicon: await this.pronunciations.list(projectId),
+      policy: this.router.resolvePolicy(params.routing, params.audio_quality),
+      routing: params.routing,
+      quality: params.audio_quality,
+      signal,
+      budget: await this.budgets.open(projectId, params.run_id, params.budget)
+    };
+
+    logger.info('Rendering segments', {
+      project_id: projectId,
+      routing_policy: context.policy,
+      total_segments: scoped.length,
+      already_complete: alreadyComplete,
+      pending: pending.length
+    });
+
+    if (context.budget.cap !== null) {
+      await this.checkProjectedCost(context, pending, progressCallback);
+    }
+
+    progressCallback?.({
+      stage: 'generating_audio',
+      percent_complete: 10,
+      total_segments: scoped.length,
+      current_segment: alreadyComplete,
+      message: 'Generating audio segments'
+    });
+
+    const rendered = await this.generateSegments(
+      context,
+      segments,
+      pending,
+      (count) => {
+        const current = alreadyComplete + count;
+        const percent = 10 + ((current / scoped.length) * 75);
+        progressCallback?.({
+          stage: 'generating_audio',
+          percent_complete: Math.round(percent),
+          current_segment: current,
+          total_segments: scoped.length,
+          message: `Generating segment ${current}/${scoped.length}${this.circuitNote()}${context.budget.note()}`
+        });
+      }
+    );
+
+    // Step 3: Re-assemble only the chapters whose segments changed
+    this.throwIfStopped(signal);
+    const chaptersReassembled = await this.assembleStaleChapters(projectId, progressCallback);
+
+    const report = this.buildReport(context, scoped, rendered, changes, removedIds, chaptersReassembled);
+
+    logger.info('Generation run complete', {
+      project_id: projectId,
+      segments_rendered: report.rendered.length,
+      segments_reused: report.segments_reused,
+      chapters_reassembled: report.chapters_reassembled.length,
+      cost_dollars: report.cost_dollars
+    });
+
+    // Step 4: Return project status
+    progressCallback?.({
+      stage: 'finalizing',
+      percent_complete: 95,
+      message: params.format === 'epub' ? 'Packaging EPUB'
+        : params.format ? `Assembling ${params.format.toUpperCase()}` : 'Finalizing audiobook project'
+    });
+
+    if (params.format === 'epub') {
+      report.epub_path = await this.exportEpub(projectId, params.epub);
+    } else if (params.format) {
+      report.audiobook_path = await this.exportAudiobook(projectId, params.format, params.metadata);
+    }
+
+    progressCallback?.({
+      stage: 'complete',
+      percent_complete: 100,
+      message: 'Audiobook generation complete'
+    });
+
+    // Fetch updated project
+    const project = await this.getAudiobookProject(projectId);
+    return { project, report };
+  }
+
+  /**
+   * EPUB options for a run; chapter titles default to the manuscript's
+   */
+  private epubOptions(params: ResumeParams): EpubOptions | undefined {
+    if (params.format !== 'epub' || !params.chapters) {
+      return params.epub;
+    }
+
+    return {
+      ...params.epub,
+      chapter_titles: {
+        ...Object.fromEntries(params.chapters.map(chapter => [chapter.id, chapter.title])),
+        ...params.epub?.chapter_titles
+      }
+    };
+  }
+
+  /**
+   * Package the book as an EPUB with media overlays, once every chapter is assembled
+   */
+  private async exportEpub(projectId: string, options?: EpubOptions): Promise<string | null> {
+    const { unassembled } = await this.epubExporter.readiness(projectId);
+    if (unassembled.length > 0) {
+      logger.warn('EPUB export waits until every chapter is assembled', {
+        project_id: projectId,
+        unassembled_chapters: unassembled
       });
+      return null;
+    }
 
-      await this.saveAudioSegments(project_id, audioSegments);
+    return this.epubExporter.save(projectId, options);
+  }
 
-      progressCallback?.({
-        stage: 'complete',
-        percent_complete: 100,
-        message: 'Audiobook generation complete'
+  /**
+   * Join the assembled chapters into one M4B or MP3 with a marker per chapter,
+   * titled as in the manuscript, once every chapter is assembled
+   */
+  private async exportAudiobook(
+    projectId: string,
+    format: 'm4b' | 'mp3',
+    metadata?: Partial<AudiobookMetadata>
+  ): Promise<string | null> {
+    const chapters = await this.segmentStore.loadChapterAudio(projectId);
+    const unassembled = chapters.filter(chapter => chapter.stale || !chapter.audio_url || chapter.duration_seconds === null);
+    if (unassembled.length > 0) {
+      logger.warn('Audiobook assembly waits until every chapter is assembled', {
+        project_id: projectId,
+        unassembled_chapters: unassembled.map(chapter => chapter.chapter_id)
       });
+      return null;
+    }
 
-      // Fetch updated project
-      const project = await this.getAudiobookProject(project_id);
-      return project!;
+    const audiobook = await this.assembler.assembleAudiobook({
+      project_id: projectId,
+      chapters: await Promise.all(chapters.map(async (chapter, index) => ({
+        title: chapter.title || `Chapter ${index + 1}`,
+        audio: await this.segmentStore.readChapterAudio(chapter),
+        duration: chapter.duration_seconds!
+      }))),
+      metadata: { ...metadata, title: metadata?.title || projectId },
+      format
+    });
 
-    } catch (error) {
-      logger.error('Audiobook generation failed', { error, project_id });
+    return this.segmentStore.saveAudiobook(projectId, (audiobook.m4b_file ?? audiobook.mp3_file)!, format);
+  }
+
+  /**
+   * Compare the run's projected cost with its budget before anything is spent.
+   * A run that stops at the cap is refused outright; one that downgrades goes ahead.
+   */
+  private async checkProjectedCost(
+    context: RenderContext,
+    pending: AudioSegment[],
+    progressCallback?: (update: ProgressUpdate) => void
+  ): Promise<void> {
+    const budget = context.budget;
+    budget.projected = await this.projectCost(context, pending);
+
+    logger.info('Projected generation cost', {
+      project_id: context.projectId,
+      projected_dollars: budget.projected,
+      remaining_dollars: budget.remaining()
+    });
+
+    if (!budget.wouldExceed(budget.projected)) {
+      return;
+    }
+
+    const message = `Projected cost $${budget.projected.toFixed(2)} exceeds the remaining budget of $${budget.remaining()?.toFixed(2)}`;
+    if (budget.action === 'stop') {
+      throw new BudgetExceededError(message);
+    }
+
+    logger.warn('Projected cost exceeds budget, downgrading providers as needed', {
+      project_id: context.projectId,
+      projected_dollars: budget.projected,
+      remaining_dollars: budget.remaining()
+    });
+    progressCallback?.({
+      stage: 'generating_audio',
+      percent_complete: 10,
+      message: `${message}; switching to cheaper providers as needed`
+    });
+  }
+
+  /**
+   * Cost of rendering segments with the first provider routing would pick.
+   * Cache hits are not predicted, so this is an upper bound.
+   */
+  private async projectCost(context: RenderContext, segments: AudioSegment[]): Promise<number> {
+    let total = 0;
+
+    for (const segment of segments) {
+      const assignment = this.findVoiceAssignment(segment.character_name, context.assignments)
+        ?? this.findVoiceAssignment(null, context.assignments);
+      if (!assignment) continue;
+
+      const providers = await this.router.route(context.policy, assignment, context.routing, context.quality);
+      const provider = providers.find(name => this.voiceOn(assignment, name));
+      if (provider) {
+        total += this.router.estimateCost(provider, segment.text_content.length);
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Assemble every chapter marked stale and store the result
+   */
+  private async assembleStaleChapters(
+    projectId: string,
+    progressCallback?: (update: ProgressUpdate) => void
+  ): Promise<string[]> {
+    const chapterIds = await this.segmentStore.loadStaleChapters(projectId);
+
+    for (const [index, chapterId] of chapterIds.entries()) {
       progressCallback?.({
-        stage: 'error',
-        percent_complete: 0,
-        message: `Generation failed: ${error instanceof Error ? error.message : String(error)}`
+        stage: 'assembling_audiobook',
+        percent_complete: Math.round(85 + ((index / chapterIds.length) * 10)),
+        current_chapter: index + 1,
+        total_chapters: chapterIds.length,
+        message: `Assembling chapter ${index + 1}/${chapterIds.length}`
       });
-      throw error;
+
+      const audio = await this.segmentStore.loadAudio(projectId, chapterId);
+      const chapter = await this.assembler.assembleChapter(audio);
+      const speechOffsets = new Map(
+        audio.map((segment, position) => [segment.segment_id!, chapter.speech_offsets[position]])
+      );
+      await this.segmentStore.saveChapterAudio(projectId, chapterId, chapter.audio, chapter.duration, speechOffsets);
+    }
+
+    return chapterIds;
+  }
+
+  private buildReport(
+    context: RenderContext,
+    segments: AudioSegment[],
+    rendered: Map<string, GeneratedAudio>,
+    changes: Map<string, SegmentChange>,
+    removedIds: string[],
+    chaptersReassembled: string[]
+  ): RenderReport {
+    const renderedSegments: RenderedSegment[] = segments
+      .filter(segment => rendered.has(segment.id))
+      .map(segment => {
+        const audio = rendered.get(segment.id)!;
+        return {
+          segment_id: segment.id,
+          chapter_id: segment.chapter_id,
+          change: changes.get(segment.id) ?? 'retried',
+          provider: audio.provider,
+          cost_dollars: audio.cost,
+          cache_hit: audio.cache_hit ?? false
+        };
+      });
+
+    return {
+      routing_policy: context.policy,
+      segments_total: segments.length,
+      segments_reused: segments.length - renderedSegments.length,
+      segments_removed: removedIds,
+      rendered: renderedSegments,
+      chapters_reassembled: chaptersReassembled,
+      cost_dollars: renderedSegments.reduce((sum, segment) => sum + segment.cost_dollars, 0),
+      budget: context.budget.report()
+    };
+  }
+
+  private async reportFailure(
+    projectId: string,
+    error: unknown,
+    progressCallback?: (update: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (signal?.aborted) {
+      await this.reportStopped(projectId, signal, progressCallback);
+      return;
     }
+
+    logger.error('Audiobook generation failed', { error, project_id: projectId });
+    progressCallback?.({
+      stage: 'error',
+      percent_complete: 0,
+      message: `Generation failed: ${error instanceof Error ? error.message : String(error)}`
+    });
   }
 
   /**
-   * Segment chapters into dialogue and narrative parts
+   * Report a paused, cancelled or interrupted run with the progress it had persisted
    */
-  private async segmentChapters(chapters: Chapter[]): Promise<AudioSegment[]> {
-    const segments: AudioSegment[] = [];
-
-    for (const chapter of chapters) {
-      // Simple segmentation: split by paragraphs
-      const paragraphs = chapter.content.split(/\n\n+/);
-
-      paragraphs.forEach((paragraph, index) => {
-        if (paragraph.trim()) {
-          const isDialogue = this.detectDialogue(paragraph);
-          const characterName = isDialogue ? this.extractCharacterName(paragraph) : null;
-
-          segments.push({
-            id: `${chapter.id}_seg_${index}`,
-            sequence_number: index + 1,
-            segment_type: isDialogue ? 'dialogue' : 'narrative',
-            character_name: characterName,
-            text_content: paragraph.trim(),
-            emotion_detected: null, // TODO: Implement emotion detection
-            emotion_intensity: null
-          });
-        }
-      });
+  private async reportStopped(
+    projectId: string,
+    signal: AbortSignal,
+    progressCallback?: (update: ProgressUpdate) => void
+  ): Promise<void> {
+    const stage = this.stoppedStage(signal);
+    const segments = await this.segmentStore.loadSegments(projectId).catch(() => []);
+    const complete = segments.filter(segment => segment.status === 'complete').length;
+
+    logger.info('Audiobook generation stopped', {
+      project_id: projectId,
+      stage,
+      segments_complete: complete,
+      total_segments: segments.length
+    });
+
+    progressCallback?.({
+      stage,
+      percent_complete: segments.length > 0 ? Math.round(10 + (complete / segments.length) * 75) : 0,
+      current_segment: complete,
+      total_segments: segments.length,
+      message: `Generation ${stage} with ${complete}/${segments.length} segments complete`
+    });
+  }
+
+  private throwIfStopped(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new Error(`Generation ${this.stoppedStage(signal)}`);
+    }
+  }
+
+  /**
+   * Stage of an aborted run: a requested pause or cancel, or an interruption
+   * such as the worker shutting down
+   */
+  private stoppedStage(signal: AbortSignal): 'paused' | 'cancelled' | 'interrupted' {
+    if (signal.reason === 'pause') return 'paused';
+    if (signal.reason === 'cancel') return 'cancelled';
+    return 'interrupted';
+  }
+
+  /**
+   * Resolve chapter numbers in a scope to the chapters given for the run
+   */
+  private resolveScope(chapters: Chapter[], scope: RenderScope): ScopeFilter {
+    const byNumber = new Map(chapters.map(chapter => [chapter.chapter_number, chapter.id]));
+    const chapterId = (chapterNumber: number): string => {
+      const id = byNumber.get(chapterNumber);
+      if (!id) {
+        throw new Error(`Chapter not found: ${chapterNumber}`);
+      }
+      return id;
+    };
+
+    const wholeChapterIds = new Set((scope.chapters ?? []).map(chapterId));
+    const range = scope.segments && {
+      chapterId: chapterId(scope.segments.chapter),
+      from: scope.segments.from,
+      to: scope.segments.to
+    };
+
+    if (range && range.from > range.to) {
+      throw new Error(`Invalid segment range: ${range.from}-${range.to}`);
+    }
+
+    const chapterIds = new Set(wholeChapterIds);
+    if (range) {
+      chapterIds.add(range.chapterId);
+    }
+    if (chapterIds.size === 0) {
+      throw new Error('Render scope selects no chapters');
+    }
+
+    return { chapterIds, wholeChapterIds, range };
+  }
+
+  private inScope(segment: AudioSegment, scope: ScopeFilter): boolean {
+    if (scope.wholeChapterIds.has(segment.chapter_id)) {
+      return true;
     }
 
-    logger.info(`Segmented ${chapters.length} chapters into ${segments.length} segments`);
-    return segments;
+    const range = scope.range;
+    return range !== undefined &&
+      segment.chapter_id === range.chapterId &&
+      segment.sequence_number >= range.from &&
+      segment.sequence_number <= range.to;
   }
 
   /**
-   * Generate audio for all segments
+   * Segment chapters into dialogue and narrative parts. Each speaker's chunks
+   * are sized for the first provider routing gives their voice; a fallback with
+   * a smaller limit splits them again if it has to take them. Speakers without
+   * a voice get the smallest limit among the providers routing may pick.
+   */
+  private async segmentChapters(
+    chapters: Chapter[],
+    providers: TTSProvider[],
+    route: SegmentRouting,
+    characters?: CharacterBible[]
+  ): Promise<AudioSegment[]> {
+    if (providers.length === 0) {
+      throw new Error('Routing policy leaves no provider to synthesize with');
+    }
+
+    const limitOf = (provider: TTSProvider) => this.router.getProvider(provider).getMaxCharsPerRequest();
+    const maxChunkChars = Math.min(...providers.map(limitOf));
+
+    const limits = new Map<VoiceAssignment, number>();
+    for (const assignment of route.assignments) {
+      const routed = await this.router.route(route.policy, assignment, route.routing, route.quality);
+      const first = routed.find(name => this.voiceOn(assignment, name));
+      limits.set(assignment, first ? limitOf(first) : maxChunkChars);
+    }
+
+    const maxChunkCharsFor = (characterName: string | null): number => {
+      const assignment = this.findVoiceAssignment(characterName, route.assignments)
+        ?? this.findVoiceAssignment(null, route.assignments);
+      return assignment ? limits.get(assignment)! : maxChunkChars;
+    };
+
+    return this.segmenter.segmentChapters(chapters, { maxChunkChars, maxChunkCharsFor, characters });
+  }
+
+  /**
+   * Generate audio for pending segments, persisting each one as it completes.
+   * `segments` is the whole book so paragraph pauses can see the next segment.
+   * Returns the audio rendered, by segment id.
    */
   private async generateSegments(
+    context: RenderContext,
     segments: AudioSegment[],
-    assignments: VoiceAssignment[],
-    progressCallback?: (current: number, total: number) => void
-  ): Promise<GeneratedAudio[]> {
-    const results: GeneratedAudio[] = [];
+    pending: AudioSegment[],
+    progressCallback?: (rendered: number) => void
+  ): Promise<Map<string, GeneratedAudio>> {
     const batchSize = config.concurrency.batchSize;
+    const positions = new Map(segments.map((segment, index) => [segment.id, index]));
+    const rendered = new Map<string, GeneratedAudio>();
 
-    for (let i = 0; i < segments.length; i += batchSize) {
-      const batch = segments.slice(i, i + batchSize);
+    for (let i = 0; i < pending.length; i += batchSize) {
+      this.throwIfStopped(context.signal);
+      if (context.budget.exhausted) {
+        throw new BudgetExceededError(context.budget.exceededMessage());
+      }
+      const batch = pending.slice(i, i + batchSize);
 
-      const batchResults = await Promise.all(
-        batch.map(segment => this.generateSingleSegment(segment, assignments))
+      // Let the whole batch settle so finished segments are saved before a failure stops the run
+      const results = await Promise.allSettled(
+        batch.map(segment => this.renderSegment(
+          context,
+          segment,
+          segments[positions.get(segment.id)! + 1]
+        ))
       );
 
-      results.push(...batchResults);
-      progressCallback?.(i + batch.length, segments.length);
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          rendered.set(batch[index].id, result.value);
+        }
+      });
+
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) {
+        throw failure.reason;
+      }
+
+      progressCallback?.(i + batch.length);
     }
 
-    return results;
+    return rendered;
   }
 
   /**
-   * Generate audio for a single segment
+   * Render one segment and save its audio
    */
-  private async generateSingleSegment(
+  private async renderSegment(
+    context: RenderContext,
     segment: AudioSegment,
-    assignments: VoiceAssignment[]
+    next: AudioSegment | undefined
   ): Promise<GeneratedAudio> {
-    const assignment = this.findVoiceAssignment(segment.character_name, assignments);
+    await this.segmentStore.markGenerating(context.projectId, segment.id);
+
+    try {
+      const audio = await this.generateSingleSegment(context, segment);
+      if (!audio.cache_hit) {
+        await this.synthesisCache.recordMiss(context.projectId);
+      }
+
+      // Leave a breath between paragraphs within a chapter
+      if (next && next.chapter_id === segment.chapter_id && next.paragraph_number !== segment.paragraph_number) {
+        audio.silence_after_seconds = (audio.silence_after_seconds || 0) + config.audio.paragraphPauseSeconds;
+      }
+
+      await this.segmentStore.saveAudio(context.projectId, segment.id, audio);
+      return audio;
+    } catch (error) {
+      if (context.signal?.aborted || error instanceof BudgetExceededError) {
+        // Not the segment's fault; the next run renders it again
+        await this.segmentStore.markPending(context.projectId, segment.id);
+      } else {
+        await this.segmentStore.markFailed(context.projectId, segment.id, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate audio for a single segment, trying providers in the order the routing policy gives
+   */
+  private async generateSingleSegment(
+    context: RenderContext,
+    segment: AudioSegment
+  ): Promise<GeneratedAudio> {
+    let assignment = this.findVoiceAssignment(segment.character_name, context.assignments);
+
+    if (!assignment && segment.character_name) {
+      // Unassigned speakers are read by the narrator rather than failing the job
+      logger.warn('No voice assigned to speaker, falling back to narrator', {
+        segment_id: segment.id,
+        character_name: segment.character_name
+      });
+      assignment = this.findVoiceAssignment(null, context.assignments);
+    }
 
     if (!assignment) {
       throw new Error(`No voice assignment found for segment: ${segment.id}`);
@@ -186,77 +963,356 @@ export class TTSOrchestrator {
       text: segment.text_content,
       voice_id: assignment.voice_id,
       settings: assignment.voice_settings,
-      emotion: segment.emotion_detected ? {
+      // Neutral segments keep the assignment's own voice settings
+      emotion: segment.emotion_detected && segment.emotion_detected !== 'neutral' ? {
         type: segment.emotion_detected,
         intensity: segment.emotion_intensity || 0.5
-      } : undefined
+      } : undefined,
+      performance: segment.performance
     };
 
-    try {
-      // Try primary provider (ElevenLabs)
-      return await this.elevenlabs.generateSpeech(params);
-    } catch (error) {
-      logger.warn('Primary provider failed, trying fallback', { error });
+    const routed = await this.router.route(context.policy, assignment, context.routing, context.quality);
+    const providers = [...routed];
+    let overBudget = false;
+
+    for (const name of providers) {
+      this.throwIfStopped(context.signal);
 
+      const voice = this.voiceOn(assignment, name);
+      if (!voice) {
+        // Another provider's voice id can never work here, and would change how the character sounds
+        logger.warn('No equivalent voice on provider, skipping', {
+          segment_id: segment.id,
+          character_name: assignment.character_name,
+          provider: name
+        });
+        continue;
+      }
+
+      const provider = this.router.getProvider(name);
+      const style: PronunciationStyle = provider.supportsPhonemeTags(params.model) ? 'phoneme' : 'respelling';
+
+      let outcome: SynthesisOutcome;
       try {
-        // Fallback to PlayHT
-        return await this.playht.generateSpeech(params);
-      } catch (fallbackError) {
-        logger.error('All providers failed for segment', {
+        outcome = await this.synthesizeSegment(context, provider, { ...params, ...voice }, style);
+      } catch (error) {
+        // A stopped run must not fall through to the next provider
+        this.throwIfStopped(context.signal);
+
+        logger.warn('Provider failed for segment', {
           segment_id: segment.id,
-          error: fallbackError
+          provider: name,
+          routing_policy: context.policy,
+          error
         });
-        throw new Error('Failed to generate audio for segment');
+        continue;
       }
+
+      if ('audio' in outcome) {
+        if (!routed.includes(name)) {
+          context.budget.downgraded++;
+        }
+        return this.withMarkupSilence({
+          ...outcome.audio,
+          voice_id: voice.voice_id,
+          alignment: alignWords(segment.text_content, outcome.audio.duration, outcome.audio.word_timings)
+        }, segment);
+      }
+
+      if (outcome.skipped === 'circuit_open') {
+        logger.debug('Circuit open, skipping provider', { segment_id: segment.id, provider: name });
+        continue;
+      }
+
+      overBudget = true;
+      if (context.budget.action === 'stop') {
+        break;
+      }
+
+      // Downgrade: cheaper providers join the end of the list
+      for (const cheaper of this.router.cheaperThan(name)) {
+        if (!providers.includes(cheaper)) {
+          providers.push(cheaper);
+        }
+      }
+      logger.info('Segment over budget on provider, trying cheaper providers', {
+        segment_id: segment.id,
+        provider: name,
+        remaining_dollars: context.budget.remaining()
+      });
+    }
+
+    if (overBudget) {
+      context.budget.exhausted = true;
+      throw new BudgetExceededError(context.budget.exceededMessage());
     }
+
+    logger.error('All providers failed for segment', {
+      segment_id: segment.id,
+      providers,
+      routing_policy: context.policy
+    });
+    throw new Error('Failed to generate audio for segment');
   }
 
   /**
-   * Find voice assignment for character
+   * The assignment's voice on a provider: its own voice, or its best-ranked fallback there
    */
-  private findVoiceAssignment(
-    characterName: string | null,
-    assignments: VoiceAssignment[]
-  ): VoiceAssignment | undefined {
-    if (!characterName) {
-      // Use narrator voice for non-dialogue
-      return assignments.find(a => a.character_name === 'narrator');
+  private voiceOn(
+    assignment: VoiceAssignment,
+    provider: TTSProvider
+  ): Pick<TTSGenerationParams, 'voice_id' | 'settings'> | null {
+    if (assignment.provider === provider) {
+      return { voice_id: assignment.voice_id, settings: assignment.voice_settings };
     }
 
-    return assignments.find(a =>
-      a.character_name.toLowerCase() === characterName.toLowerCase()
+    const fallback = assignment.fallback_voices?.find(voice => voice.provider === provider);
+    if (!fallback) {
+      return null;
+    }
+
+    return {
+      voice_id: fallback.voice_id,
+      settings: fallback.voice_settings ?? assignment.voice_settings
+    };
+  }
+
+  /**
+   * Synthesize a segment's text on a provider. A fallback provider that takes
+   * less per request than the segment was sized for gets the text in pieces,
+   * joined back into the segment's audio.
+   */
+  private async synthesizeSegment(
+    context: RenderContext,
+    provider: SpeechProvider,
+    params: TTSGenerationParams,
+    style: PronunciationStyle
+  ): Promise<SynthesisOutcome> {
+    const maxChars = provider.getMaxCharsPerRequest();
+    if (params.text.length <= maxChars) {
+      return this.synthesize(context, provider, this.withPronunciations(params, context.lexicon, style));
+    }
+
+    const pieces: GeneratedAudio[] = [];
+    for (const piece of this.splitRequest(params, maxChars)) {
+      // Pieces already rendered are cached, so the next provider or run reuses them.
+      // The segment counts as one cache hit or miss, not one per piece.
+      const outcome = await this.synthesize(context, provider, this.withPronunciations(piece, context.lexicon, style), false);
+      if (!('audio' in outcome)) {
+        return outcome;
+      }
+      pieces.push(outcome.audio);
+    }
+
+    const cacheHit = pieces.every(piece => piece.cache_hit);
+    if (cacheHit) {
+      await this.synthesisCache.recordHit(context.projectId);
+    }
+
+    logger.info('Segment re-split for provider request limit', {
+      provider: provider.name,
+      max_chars: maxChars,
+      piece_count: pieces.length
+    });
+
+    // Each piece's word timings start at zero; shift them to where the piece lands
+    let offset = 0;
+    const wordTimings: TimedWord[] = [];
+    for (const piece of pieces) {
+      for (const word of piece.word_timings ?? []) {
+        wordTimings.push({ ...word, start: word.start + offset, end: word.end + offset });
+      }
+      offset += piece.duration;
+    }
+
+    return {
+      audio: {
+        ...(await this.assembler.joinPieces(pieces)),
+        provider: provider.name,
+        cost: pieces.reduce((sum, piece) => sum + piece.cost, 0),
+        pauses_rendered: pieces.every(piece => piece.pauses_rendered),
+        cache_hit: cacheHit,
+        word_timings: pieces.every(piece => piece.word_timings) ? wordTimings : undefined
+      }
+    };
+  }
+
+  /**
+   * One request's text cut into pieces a provider accepts, each with the
+   * emphasis that falls in it; the pauses go on the first and last pieces
+   */
+  private splitRequest(params: TTSGenerationParams, maxChars: number): TTSGenerationParams[] {
+    const chunks = this.segmenter.chunkText(params.text, maxChars);
+    const performance = params.performance;
+    let cursor = 0;
+
+    return chunks.map((chunk, index) => {
+      const start = params.text.indexOf(chunk, cursor);
+      const range = start === -1 ? null : { start, end: start + chunk.length };
+      cursor = range ? range.end : cursor;
+
+      const emphasis = range && performance?.emphasis
+        ?.map(e => ({
+          start: Math.max(e.start, range.start) - range.start,
+          end: Math.min(e.end, range.end) - range.start
+        }))
+        .filter(e => e.end > e.start);
+
+      return {
+        ...params,
+        text: chunk,
+        performance: performance && {
+          ...performance,
+          pause_before_seconds: index === 0 ? performance.pause_before_seconds : undefined,
+          pause_after_seconds: index === chunks.length - 1 ? performance.pause_after_seconds : undefined,
+          emphasis: emphasis?.length ? emphasis : undefined
+        }
+      };
+    });
+  }
+
+  /**
+   * Serve a provider request from the synthesis cache, or synthesize and cache it.
+   * Cache hits are served whatever the provider's circuit or the budget allows.
+   * countHit is false for the pieces of a re-split segment, which count as one.
+   */
+  private async synthesize(
+    context: RenderContext,
+    provider: SpeechProvider,
+    params: TTSGenerationParams,
+    countHit: boolean = true
+  ): Promise<SynthesisOutcome> {
+    const key = this.synthesisCache.keyFor(provider.describeSynthesis(params));
+
+    const cached = await this.synthesisCache.get(context.projectId, key, countHit);
+    if (cached) {
+      return { audio: cached };
+    }
+
+    if (!(await this.router.allowRequest(provider.name))) {
+      return { skipped: 'circuit_open' };
+    }
+
+    const characters = spokenLength(params.text);
+    const estimate = this.router.estimateCost(provider.name, characters);
+    if (!(await context.budget.reserve(estimate))) {
+      return { skipped: 'over_budget' };
+    }
+
+    const limiter = rateLimiterFor(provider.name);
+    let audio: GeneratedAudio | null = null;
+    let started = 0;
+    try {
+      for (let rateLimited = 0; !audio; rateLimited++) {
+        // Waiting for a slot is not provider latency
+        const release = await limiter.acquire(characters, context.signal);
+        started = Date.now();
+        try {
+          this.throwIfStopped(context.signal);
+          audio = await provider.generateSpeech(params, context.signal);
+        } catch (error) {
+          // Still rate limited after the client's retries: the provider is busy,
+          // not broken. The limiter has paused it, so wait that out and ask again.
+          if (!isRateLimited(error) || rateLimited >= config.tts.rateLimitRetries) {
+            throw error;
+          }
+          logger.warn('Provider rate limited, waiting to retry', {
+            provider: provider.name,
+            attempt: rateLimited + 1
+          });
+        } finally {
+          release();
+        }
+      }
+    } catch (error) {
+      // Neither an abandoned request nor a rate limit says anything about the provider's health
+      if (!context.signal?.aborted && !isRateLimited(error)) {
+        this.router.recordFailure(provider.name);
+      }
+      await context.budget.settle(estimate, 0);
+      throw error;
+    }
+    this.router.recordSuccess(provider.name, Date.now() - started, characters);
+    await context.budget.settle(estimate, audio.cost);
+
+    await this.synthesisCache.put(context.projectId, key, audio, params.voice_id);
+
+    return { audio };
+  }
+
+  /**
+   * Apply the project lexicon in the form the provider understands
+   */
+  private withPronunciations(
+    params: TTSGenerationParams,
+    lexicon: PronunciationEntry[],
+    style: PronunciationStyle
+  ): TTSGenerationParams {
+    if (lexicon.length === 0) {
+      return params;
+    }
+
+    const { text, emphasis } = this.pronunciations.apply(
+      params.text,
+      lexicon,
+      style,
+      params.performance?.emphasis
     );
+
+    return {
+      ...params,
+      text,
+      performance: params.performance && { ...params.performance, emphasis }
+    };
   }
 
   /**
-   * Detect if text contains dialogue
+   * Queue markup pauses the provider could not speak as silence for assembly
    */
-  private detectDialogue(text: string): boolean {
-    // Simple heuristic: contains quotes and dialogue tags
-    return /[""].*[""]/.test(text) && /(said|asked|replied|whispered|shouted)/.test(text);
+  private withMarkupSilence(audio: GeneratedAudio, segment: AudioSegment): GeneratedAudio {
+    if (audio.pauses_rendered || !segment.performance) {
+      return audio;
+    }
+
+    return {
+      ...audio,
+      silence_before_seconds: segment.performance.pause_before_seconds,
+      silence_after_seconds: segment.performance.pause_after_seconds
+    };
   }
 
   /**
-   * Extract character name from dialogue
+   * Record on each segment the voice it will be rendered with, so a reassigned
+   * voice counts as a change and its segments are rendered again
    */
-  private extractCharacterName(text: string): string | null {
-    // Extract name before "said", "asked", etc.
-    const match = text.match(/(\w+)\s+(said|asked|replied|whispered|shouted)/i);
-    return match ? match[1] : null;
+  private fingerprintVoices(segments: AudioSegment[], assignments: VoiceAssignment[]): void {
+    for (const segment of segments) {
+      const assignment = this.findVoiceAssignment(segment.character_name, assignments)
+        ?? this.findVoiceAssignment(null, assignments);
+
+      segment.voice_fingerprint = assignment
+        ? createHash('sha256')
+          .update(stableStringify([assignment.provider, assignment.voice_id, assignment.voice_settings]))
+          .digest('hex')
+        : null;
+    }
   }
 
   /**
-   * Save audio segments to database
+   * Find voice assignment for character
    */
-  private async saveAudioSegments(
-    projectId: string,
-    audioSegments: GeneratedAudio[]
-  ): Promise<void> {
-    // TODO: Implement database save logic
-    logger.info('Saving audio segments', {
-      project_id: projectId,
-      segment_count: audioSegments.length
-    });
+  private findVoiceAssignment(
+    characterName: string | null,
+    assignments: VoiceAssignment[]
+  ): VoiceAssignment | undefined {
+    if (!characterName) {
+      // Use narrator voice for non-dialogue
+      return assignments.find(a => a.character_name === 'narrator');
+    }
+
+    return assignments.find(a =>
+      a.character_name.toLowerCase() === characterName.toLowerCase()
+    );
   }
 
   /**
@@ -290,18 +1346,29 @@ export class TTSOrchestrator {
   }
 
   /**
-   * Health check for all providers
+   * Circuit breaker state of all loaded providers
    */
-  async healthCheck(): Promise<{
-    elevenlabs: boolean;
-    xtts: boolean;
-    playht: boolean;
-  }> {
-    return {
-      elevenlabs: await this.elevenlabs.healthCheck(),
-      xtts: await this.xtts.healthCheck(),
-      playht: await this.playht.healthCheck()
-    };
+  getCircuitStatus(): Partial<Record<TTSProvider, CircuitStatus>> {
+    return this.router.getCircuitStatus();
+  }
+
+  /**
+   * Progress message suffix naming providers being skipped
+   */
+  private circuitNote(): string {
+    const open = this.router.openCircuits();
+    return open.length > 0 ? ` (circuit open: ${open.join(', ')})` : '';
+  }
+
+  /**
+   * Health check for all loaded providers
+   */
+  async healthCheck(): Promise<Partial<Record<TTSProvider, boolean>>> {
+    const health: Partial<Record<TTSProvider, boolean>> = {};
+    for (const provider of this.providers.all()) {
+      health[provider.name] = await provider.healthCheck();
+    }
+    return health;
   }
 }
 
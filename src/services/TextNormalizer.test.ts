@@ -0,0 +1,98 @@
+import TextNormalizer from './TextNormalizer';
+
+describe('TextNormalizer', () => {
+  const normalizer = new TextNormalizer();
+  const say = (text: string, locale: 'en-US' | 'en-GB' = 'en-US') =>
+    normalizer.normalize(text, { enabled: true, locale }).text;
+
+  it.each([
+    ['It cost $1,250.50.', 'It cost one thousand two hundred fifty dollars and fifty cents.'],
+    ['£5 million', 'five million pounds'],
+    ['Run 5 km at 45%.', 'Run five kilometers at forty-five percent.'],
+    ['Play it at 1.5x speed.', 'Play it at one point five times speed.'],
+    ['Meet at 3:45 pm.', 'Meet at three forty-five PM.'],
+    ['Dr. Smith lives on Baker St.', 'Doctor Smith lives on Baker Street.'],
+    ['Chapter XIV', 'Chapter fourteen'],
+    ['Henry VIII ruled.', 'Henry the Eighth ruled.'],
+    ['the 21st time', 'the twenty-first time'],
+    ['in the 1990s', 'in the nineteen nineties'],
+    ['Pages 10–20', 'Pages ten to twenty'],
+    ['pi is 3.14.', 'pi is three point one four.']
+  ])('reads %p', (text, spoken) => {
+    expect(say(text)).toBe(spoken);
+  });
+
+  it('reads dates in the locale\'s order', () => {
+    expect(say('On 4/7/2023 we left.')).toBe('On April seventh, twenty twenty-three we left.');
+    expect(say('On 4/7/2023 we left.', 'en-GB')).toBe('On the fourth of July twenty twenty-three we left.');
+  });
+
+  it('does not repeat the article of "the 3rd of May"', () => {
+    expect(say('on the 3rd of May, 2001')).toBe('on May third, two thousand one');
+    expect(say('on the 3rd of May, 2001', 'en-GB')).toBe('on the third of May two thousand and one');
+    expect(say('The 3rd of May was cold.')).toBe('May third was cold.');
+    expect(say('The 3rd of May was cold.', 'en-GB')).toBe('The third of May was cold.');
+  });
+
+  describe('years', () => {
+    it('reads a bare four-digit number as a year', () => {
+      expect(say('It was 1999.')).toBe('It was nineteen ninety-nine.');
+      expect(say('in 1066')).toBe('in ten sixty-six');
+    });
+
+    it('reads it as an amount when a currency or unit follows', () => {
+      expect(say('It cost 1999 dollars.')).toBe('It cost one thousand nine hundred ninety-nine dollars.');
+      expect(say('He ran 1500 metres.')).toBe('He ran one thousand five hundred metres.');
+    });
+  });
+
+  describe('fractions', () => {
+    it('reads common fractions', () => {
+      expect(say('Add 1/2 cup of sugar.')).toBe('Add one half cup of sugar.');
+      expect(say('3/4 of them')).toBe('three quarters of them');
+      expect(say('2/3 done')).toBe('two thirds done');
+    });
+
+    it('reads mixed numbers', () => {
+      expect(say('1 1/2 cups')).toBe('one and a half cups');
+      expect(say('2 3/4 miles')).toBe('two and three quarters miles');
+    });
+
+    it('leaves slashes that are not fractions', () => {
+      expect(say('Open 24/7.')).toBe('Open twenty-four/seven.');
+    });
+  });
+
+  describe('digit strings', () => {
+    it('reads phone numbers digit by digit', () => {
+      expect(say('Call 555-1234.')).toBe('Call five five five, one two three four.');
+      expect(say('Call +1 (555) 123-4567.')).toBe(
+        'Call plus one, five five five, one two three, four five six seven.'
+      );
+    });
+
+    it('reads codes with leading zeros digit by digit', () => {
+      expect(say('Code 007-12.')).toBe('Code zero zero seven, one two.');
+    });
+  });
+
+  it('records each rewrite and can undo them', () => {
+    const result = normalizer.normalize('Dr. Who paid $5 in 1999.', { enabled: true });
+
+    expect(result.text).toBe('Doctor Who paid five dollars in nineteen ninety-nine.');
+    expect(result.changes.map(change => change.rule)).toEqual(['currency', 'abbreviations', 'numbers']);
+    expect(normalizer.restore(result.text, result.changes).text).toBe('Dr. Who paid $5 in 1999.');
+  });
+
+  it('moves emphasis ranges with the rewritten text', () => {
+    const text = 'Pay $5 now';
+    const result = normalizer.normalize(text, { enabled: true }, [{ start: 7, end: 10 }]);
+
+    expect(result.text.slice(result.emphasis[0].start, result.emphasis[0].end)).toBe('now');
+  });
+
+  it('skips rules that are turned off', () => {
+    expect(normalizer.normalize('Dr. Smith', { enabled: true, rules: { abbreviations: false } }).text)
+      .toBe('Dr. Smith');
+  });
+});
@@ -0,0 +1,684 @@
+/**
+ * Text Normalizer
+ * Deterministic, locale-aware rewriting of numbers, dates, times, currency,
+ * units, Roman numerals and abbreviations into the words a narrator would say
+ */
+
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { TextReplacement, applyReplacements, remapRange } from '../utils/textRewrite';
+import {
+  pluralizeSpelled,
+  spellCardinal,
+  spellDigits,
+  spellFraction,
+  spellOrdinal,
+  spellYear,
+  SpellingOptions
+} from '../utils/numberWords';
+import {
+  AudioSegment,
+  NormalizationChange,
+  NormalizationLocale,
+  NormalizationOptions,
+  NormalizationRule,
+  TextRange
+} from '../types';
+
+/**
+ * Rules run in this order; earlier rules claim text before the generic number pass
+ */
+const RULE_ORDER: NormalizationRule[] = [
+  'currency',
+  'dates',
+  'times',
+  'units',
+  'ordinals',
+  'abbreviations',
+  'roman_numerals',
+  'numbers'
+];
+
+const NUMBER = '\\d{1,3}(?:,\\d{3})+|\\d+';
+
+const CURRENCIES: Record<string, { major: [string, string]; minor: [string, string] }> = {
+  '$': { major: ['dollar', 'dollars'], minor: ['cent', 'cents'] },
+  '£': { major: ['pound', 'pounds'], minor: ['penny', 'pence'] },
+  '€': { major: ['euro', 'euros'], minor: ['cent', 'cents'] },
+  '¥': { major: ['yen', 'yen'], minor: ['sen', 'sen'] }
+};
+
+const CURRENCY_PATTERN = new RegExp(
+  `([$£€¥])\\s?(${NUMBER})(?:\\.(\\d+))?(?:\\s(thousand|million|billion|trillion)\\b)?(?!\\d)`,
+  'g'
+);
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const MONTH_ABBREVIATIONS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12
+};
+
+const MONTH_NAME = `(?:${MONTHS.join('|')}|(?:Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)\\.)`;
+
+const NUMERIC_DATE = /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g;
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const MONTH_DAY_DATE = new RegExp(`\\b(${MONTH_NAME})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'g');
+// Takes a preceding "the" with it, so "the 3rd of May" is not given a second article
+const DAY_MONTH_DATE = new RegExp(`\\b(?:([Tt]he)\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAME})(?![A-Za-z])(?:,?\\s+(\\d{4})\\b)?`, 'g');
+
+const CLOCK_TIME = /\b(\d{1,2}):(\d{2})(?::\d{2})?(?:\s?([AaPp])\.?\s?[Mm]\b\.?)?/g;
+const HOUR_TIME = /\b(\d{1,2})\s?([AaPp])\.?[Mm]\b\.?/g;
+
+const UNITS: Record<string, [string, string]> = {
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  kph: ['kilometer per hour', 'kilometers per hour'],
+  mph: ['mile per hour', 'miles per hour'],
+  km: ['kilometer', 'kilometers'],
+  cm: ['centimeter', 'centimeters'],
+  mm: ['millimeter', 'millimeters'],
+  m: ['meter', 'meters'],
+  mi: ['mile', 'miles'],
+  ft: ['foot', 'feet'],
+  yd: ['yard', 'yards'],
+  kg: ['kilogram', 'kilograms'],
+  g: ['gram', 'grams'],
+  mg: ['milligram', 'milligrams'],
+  lb: ['pound', 'pounds'],
+  lbs: ['pound', 'pounds'],
+  oz: ['ounce', 'ounces'],
+  ml: ['milliliter', 'milliliters'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  '°': ['degree', 'degrees'],
+  '%': ['percent', 'percent']
+};
+
+const UNIT_PATTERN = new RegExp(
+  `(?<![\\p{L}\\d.,])(-?(?:${NUMBER})(?:\\.\\d+)?)\\s?(km\\/h|kph|mph|km|cm|mm|mi|ft|yd|kg|mg|lbs|lb|oz|ml|°C|°F|°|%|m|g)(?![\\p{L}\\d])`,
+  'gu'
+);
+
+// "1.5x", "2x faster"
+const MULTIPLIER_PATTERN = new RegExp(`(?<![\\p{L}\\d.,])(-?(?:${NUMBER})(?:\\.\\d+)?)x(?![\\p{L}\\d])`, 'gu');
+
+const ORDINAL_PATTERN = /\b(\d+)(st|nd|rd|th)\b/g;
+
+/**
+ * Abbreviations that come before a name
+ */
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  Mr: 'Mister', Mrs: 'Missus', Ms: 'Miz', Dr: 'Doctor', Prof: 'Professor',
+  Rev: 'Reverend', Capt: 'Captain', Col: 'Colonel', Gen: 'General',
+  Lt: 'Lieutenant', Sgt: 'Sergeant', Gov: 'Governor', Sen: 'Senator',
+  Fr: 'Father', St: 'Saint', Mt: 'Mount', Ft: 'Fort'
+};
+
+/**
+ * Abbreviations that come after a name
+ */
+const TRAILING_ABBREVIATIONS: Record<string, string> = {
+  St: 'Street', Dr: 'Drive', Ave: 'Avenue', Blvd: 'Boulevard', Rd: 'Road',
+  Ln: 'Lane', Jr: 'Junior', Sr: 'Senior'
+};
+
+const GENERAL_ABBREVIATIONS: Array<{ pattern: RegExp; replacement: string; endsSentence?: boolean }> = [
+  { pattern: /\betc\./g, replacement: 'et cetera', endsSentence: true },
+  { pattern: /\be\.g\./gi, replacement: 'for example' },
+  { pattern: /\bi\.e\./gi, replacement: 'that is' },
+  { pattern: /\bvs\./gi, replacement: 'versus' },
+  { pattern: /\bapprox\./gi, replacement: 'approximately' },
+  { pattern: /\bNos\.(?=\s?\d)/gi, replacement: 'numbers' },
+  { pattern: /\bNo\.(?=\s?\d)/gi, replacement: 'number' }
+];
+
+const TITLE_PATTERN = new RegExp(`\\b(${Object.keys(TITLE_ABBREVIATIONS).join('|')})\\.(?=\\s+[A-Z])`, 'g');
+const TRAILING_PATTERN = new RegExp(`(?<=[A-Z][\\p{L}']*,?\\s)(${Object.keys(TRAILING_ABBREVIATIONS).join('|')})\\.`, 'gu');
+
+/**
+ * Words after which a Roman numeral is read as a plain number ("Chapter fourteen")
+ */
+const NUMBERED_HEADINGS = [
+  'Chapter', 'Part', 'Book', 'Volume', 'Vol\\.', 'Act', 'Scene', 'Section', 'Canto',
+  'Appendix', 'Episode', 'Phase', 'Stage', 'Level', 'Round', 'Article', 'Class',
+  'Type', 'War', 'Bowl', 'Apollo'
+];
+
+const HEADING_NUMERAL = new RegExp(`\\b(?:${NUMBERED_HEADINGS.join('|')})\\s+([IVXLCDM]+)\\b`, 'g');
+const REGNAL_NUMERAL = /\b[A-Z][a-z]+\s+([IVX]{2,}|V|X)\b(?!\.)/g;
+const ROMAN = /^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/;
+const MAX_REGNAL = 39;
+
+const YEAR_CONTEXT_BEFORE = /\b(in|of|since|by|from|until|till|circa|year|summer|winter|spring|autumn|fall)\s+$/i;
+const YEAR_CONTEXT_AFTER = /^\s?(AD|BC|BCE|CE)\b/;
+// Bare four-digit numbers in this range are read as years unless an amount of something follows
+const BARE_YEARS = { min: 1100, max: 2099 };
+const MEASURE_WORDS = [...new Set([
+  ...Object.values(CURRENCIES).flatMap(({ major, minor }) => [...major, ...minor]),
+  ...Object.values(UNITS).flat().map(name => name.split(' ')[0]),
+  'metre', 'metres', 'kilometre', 'kilometres', 'centimetre', 'centimetres', 'millimetre', 'millimetres',
+  'millilitre', 'millilitres', 'thousand', 'million', 'billion', 'trillion'
+])];
+const MEASURE_AFTER = new RegExp(`^\\s+(?:${MEASURE_WORDS.join('|')})\\b`, 'i');
+const DECADE_PATTERN = /(?<![\d'])(1[1-9]|20)(\d)0s\b|'(\d)0s\b/g;
+// Only proper fractions over the usual denominators are read as fractions ("24/7" and "9/11" are not)
+const FRACTION_DENOMINATORS = new Set([2, 3, 4, 5, 6, 7, 8, 9, 10, 12, 16, 32, 64, 100]);
+const FRACTION_PATTERN = new RegExp(
+  `(?<![\\p{L}\\d.,/])(?:(${NUMBER})\\s)?(\\d+)\\/(\\d+)(?![\\p{L}\\d/]|[.,]\\d)`,
+  'gu'
+);
+// Phone numbers and codes: "555-1234", "+1 (555) 123-4567"
+const DIGIT_STRING_PATTERN = new RegExp(
+  `(?<![\\p{L}\\d.,/–-])(?:(\\+\\d{1,3})\\s)?(?:\\((\\d{2,4})\\)\\s?)?(\\d+(?:-\\d+)+)(?![\\p{L}\\d-]|[.,]\\d)`,
+  'gu'
+);
+// Digits glued to a decimal point or thousands comma belong to the same number
+const NUMBER_PATTERN = new RegExp(
+  `(?<![\\p{L}\\d.,])(-?)(${NUMBER})(\\.\\d+)?(?:\\s?–\\s?(${NUMBER})(\\.\\d+)?)?(?![\\p{L}\\d]|[.,]\\d)`,
+  'gu'
+);
+
+interface RuleContext {
+  locale: NormalizationLocale;
+  spelling: SpellingOptions;
+}
+
+export interface NormalizationResult {
+  text: string;
+  emphasis: TextRange[];
+  changes: NormalizationChange[];
+}
+
+export class TextNormalizer {
+  /**
+   * Normalize the text of every segment in place.
+   * Each segment records the rewrites made to it so editors can review them.
+   */
+  normalizeSegments(segments: AudioSegment[], options: NormalizationOptions = {}): void {
+    if (!(options.enabled ?? config.normalization.enabled)) {
+      return;
+    }
+
+    let changed = 0;
+
+    for (const segment of segments) {
+      const result = this.normalize(segment.text_content, options, segment.performance?.emphasis);
+      if (result.changes.length === 0) continue;
+
+      segment.text_content = result.text;
+      segment.normalization_changes = result.changes;
+      if (segment.performance?.emphasis) {
+        segment.performance.emphasis = result.emphasis;
+      }
+      changed++;
+
+      logger.info('Normalized segment text', {
+        segment_id: segment.id,
+        changes: result.changes
+      });
+    }
+
+    logger.info('Text normalization complete', {
+      segment_count: segments.length,
+      changed_segments: changed,
+      locale: this.localeFor(options)
+    });
+  }
+
+  /**
+   * Normalize a single piece of text, moving emphasis ranges with it
+   */
+  normalize(
+    text: string,
+    options: NormalizationOptions = {},
+    emphasis: TextRange[] = []
+  ): NormalizationResult {
+    const locale = this.localeFor(options);
+    const context: RuleContext = { locale, spelling: { british: locale === 'en-GB' } };
+    const changes: NormalizationChange[] = [];
+    let current = text;
+    let ranges = emphasis;
+
+    for (const rule of RULE_ORDER) {
+      if (options.rules?.[rule] === false) continue;
+
+      const replacements = this.withoutOverlaps(this.matchRule(rule, current, context));
+      if (replacements.length === 0) continue;
+
+      for (const replacement of replacements) {
+        changes.push({
+          rule,
+          original: current.slice(replacement.start, replacement.end),
+          replacement: replacement.replacement
+        });
+      }
+
+      ranges = ranges.map(range => remapRange(range, replacements));
+      current = applyReplacements(current, replacements);
+    }
+
+    return { text: current, emphasis: ranges, changes };
+  }
+
+  /**
+   * Undo recorded rewrites to get back the text as written, moving ranges with it.
+   * Rules are undone last to first; a replacement no longer found is left as spoken.
+   */
+  restore(
+    text: string,
+    changes: NormalizationChange[],
+    ranges: TextRange[] = []
+  ): { text: string; ranges: TextRange[] } {
+    let current = text;
+    let mapped = ranges;
+
+    for (const rule of [...RULE_ORDER].reverse()) {
+      const replacements: TextReplacement[] = [];
+      let cursor = 0;
+
+      for (const change of changes.filter(candidate => candidate.rule === rule)) {
+        const start = current.indexOf(change.replacement, cursor);
+        if (start === -1 || change.replacement.length === 0) continue;
+
+        cursor = start + change.replacement.length;
+        replacements.push({ start, end: cursor, replacement: change.original });
+      }
+      if (replacements.length === 0) continue;
+
+      mapped = mapped.map(range => remapRange(range, replacements));
+      current = applyReplacements(current, replacements);
+    }
+
+    return { text: current, ranges: mapped };
+  }
+
+  private localeFor(options: NormalizationOptions): NormalizationLocale {
+    const locale = options.locale ?? config.normalization.locale;
+    return locale === 'en-GB' ? 'en-GB' : 'en-US';
+  }
+
+  private matchRule(rule: NormalizationRule, text: string, context: RuleContext): TextReplacement[] {
+    switch (rule) {
+      case 'currency':
+        return this.matchCurrency(text, context);
+      case 'dates':
+        return this.matchDates(text, context);
+      case 'times':
+        return this.matchTimes(text, context);
+      case 'units':
+        return this.matchUnits(text, context);
+      case 'ordinals':
+        return this.collect(text, ORDINAL_PATTERN, match => spellOrdinal(Number(match[1]), context.spelling));
+      case 'abbreviations':
+        return this.matchAbbreviations(text);
+      case 'roman_numerals':
+        return this.matchRomanNumerals(text);
+      case 'numbers':
+        return this.matchNumbers(text, context);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * "$1,250.50" -> "one thousand two hundred fifty dollars and fifty cents"
+   */
+  private matchCurrency(text: string, context: RuleContext): TextReplacement[] {
+    return this.collect(text, CURRENCY_PATTERN, match => {
+      const [, symbol, whole, fraction, scale] = match;
+      const { major, minor } = CURRENCIES[symbol];
+
+      if (scale) {
+        return `${this.spellNumber(whole + (fraction ? `.${fraction}` : ''), context)} ${scale} ${major[1]}`;
+      }
+      if (fraction && fraction.length > 2) {
+        return `${this.spellNumber(`${whole}.${fraction}`, context)} ${major[1]}`;
+      }
+
+      const majorValue = Number(whole.replace(/,/g, ''));
+      const minorValue = fraction ? Number(fraction.padEnd(2, '0')) : 0;
+      const majorWords = `${spellCardinal(majorValue, context.spelling)} ${majorValue === 1 ? major[0] : major[1]}`;
+      const minorWords = `${spellCardinal(minorValue, context.spelling)} ${minorValue === 1 ? minor[0] : minor[1]}`;
+
+      if (minorValue === 0) return majorWords;
+      if (majorValue === 0) return minorWords;
+      return `${majorWords} and ${minorWords}`;
+    });
+  }
+
+  /**
+   * Numeric dates follow the locale's day/month order, falling back to the
+   * other order when the preferred reading is impossible
+   */
+  private matchDates(text: string, context: RuleContext): TextReplacement[] {
+    const dayFirst = context.locale === 'en-GB';
+
+    return [
+      ...this.collect(text, ISO_DATE, match =>
+        this.spellDate(Number(match[3]), Number(match[2]), match[1], context)),
+      ...this.collect(text, NUMERIC_DATE, match => {
+        const [first, second] = [Number(match[1]), Number(match[2])];
+        const [day, month] = dayFirst ? [first, second] : [second, first];
+        if (this.isValidDate(day, month)) {
+          return this.spellDate(day, month, match[3], context);
+        }
+        return this.isValidDate(month, day) ? this.spellDate(month, day, match[3], context) : null;
+      }),
+      ...this.collect(text, MONTH_DAY_DATE, match =>
+        this.spellDate(Number(match[2]), this.monthNumber(match[1]), match[3], context)),
+      ...this.collect(text, DAY_MONTH_DATE, match => {
+        const spelled = this.spellDate(Number(match[2]), this.monthNumber(match[3]), match[4], context);
+        // Keep a capitalized "The" starting a sentence
+        return spelled && match[1] === 'The' ? spelled.charAt(0).toUpperCase() + spelled.slice(1) : spelled;
+      })
+    ];
+  }
+
+  private spellDate(day: number, month: number, year: string | undefined, context: RuleContext): string | null {
+    if (!this.isValidDate(day, month)) {
+      return null;
+    }
+
+    const dayWords = spellOrdinal(day, context.spelling);
+    const monthName = MONTHS[month - 1];
+    const yearWords = year ? this.spellYearDigits(year, context) : null;
+
+    if (context.locale === 'en-GB') {
+      return `the ${dayWords} of ${monthName}${yearWords ? ` ${yearWords}` : ''}`;
+    }
+    return `${monthName} ${dayWords}${yearWords ? `, ${yearWords}` : ''}`;
+  }
+
+  private spellYearDigits(year: string, context: RuleContext): string {
+    if (year.length === 2) {
+      return year.startsWith('0') ? `oh ${spellDigits(year.charAt(1))}` : spellCardinal(Number(year));
+    }
+    return spellYear(Number(year), context.spelling);
+  }
+
+  private isValidDate(day: number, month: number): boolean {
+    return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+  }
+
+  private monthNumber(name: string): number {
+    const full = MONTHS.indexOf(name);
+    return full !== -1 ? full + 1 : MONTH_ABBREVIATIONS[name.replace('.', '').toLowerCase()];
+  }
+
+  /**
+   * "3:45 pm" -> "three forty-five PM", "10:00" -> "ten o'clock", "15:30" -> "fifteen thirty"
+   */
+  private matchTimes(text: string, context: RuleContext): TextReplacement[] {
+    const clock = this.collect(text, CLOCK_TIME, (match, end) => {
+      const hours = Number(match[1]);
+      const minutes = Number(match[2]);
+      if (hours > 23 || minutes > 59 || (match[3] && (hours === 0 || hours > 12))) {
+        return null;
+      }
+
+      const meridiem = match[3] ? ` ${match[3].toUpperCase()}M` : '';
+      const twentyFourHour = !match[3] && (hours > 12 || hours === 0 || match[1].startsWith('0'));
+      const hourWords = twentyFourHour && match[1].startsWith('0') && hours > 0
+        ? `oh ${spellCardinal(hours, context.spelling)}`
+        : spellCardinal(hours, context.spelling);
+
+      let minuteWords: string;
+      if (minutes === 0) {
+        minuteWords = meridiem ? '' : twentyFourHour ? ' hundred' : ' o\'clock';
+      } else if (minutes < 10) {
+        minuteWords = ` oh ${spellCardinal(minutes)}`;
+      } else {
+        minuteWords = ` ${spellCardinal(minutes)}`;
+      }
+
+      return hourWords + minuteWords + meridiem + this.sentencePeriod(text, match[0], end);
+    });
+
+    const hourOnly = this.collect(text, HOUR_TIME, (match, end) => {
+      const hours = Number(match[1]);
+      if (hours === 0 || hours > 12) return null;
+      return `${spellCardinal(hours, context.spelling)} ${match[2].toUpperCase()}M${this.sentencePeriod(text, match[0], end)}`;
+    });
+
+    return [...clock, ...hourOnly];
+  }
+
+  /**
+   * "5 km" -> "five kilometers", "1 lb" -> "one pound", "45%" -> "forty-five percent",
+   * "1.5x" -> "one point five times"
+   */
+  private matchUnits(text: string, context: RuleContext): TextReplacement[] {
+    const units = this.collect(text, UNIT_PATTERN, match => {
+      const [singular, plural] = UNITS[match[2]];
+      const value = Number(match[1].replace(/,/g, ''));
+      const unit = value === 1 ? singular : plural;
+      const spelledUnit = context.locale === 'en-GB'
+        ? unit.replace(/meter/g, 'metre').replace(/liter/g, 'litre')
+        : unit;
+
+      return `${this.spellNumber(match[1], context)} ${spelledUnit}`;
+    });
+
+    const multipliers = this.collect(text, MULTIPLIER_PATTERN, match =>
+      `${this.spellNumber(match[1], context)} times`);
+
+    return [...units, ...multipliers];
+  }
+
+  /**
+   * Titles before names ("Dr. St. James" -> "Doctor Saint James"), street and
+   * generational suffixes after names, and common Latin and list abbreviations
+   */
+  private matchAbbreviations(text: string): TextReplacement[] {
+    const titles = this.collect(text, TITLE_PATTERN, (match, end) => {
+      const abbreviation = match[1];
+      // "Baker St. Henry" reads as a street when the abbreviation follows a name mid-sentence
+      if (abbreviation in TRAILING_ABBREVIATIONS && this.followsNameMidSentence(text, end - match[0].length)) {
+        return null;
+      }
+      return TITLE_ABBREVIATIONS[abbreviation];
+    });
+
+    const trailing = this.collect(text, TRAILING_PATTERN, (match, end) =>
+      TRAILING_ABBREVIATIONS[match[1]] + this.sentencePeriod(text, match[0], end));
+
+    const general = GENERAL_ABBREVIATIONS.flatMap(({ pattern, replacement, endsSentence }) =>
+      this.collect(text, pattern, (match, end) =>
+        replacement + (endsSentence ? this.sentencePeriod(text, match[0], end) : '')));
+
+    return [...titles, ...trailing, ...general];
+  }
+
+  /**
+   * "Chapter XIV" -> "Chapter fourteen", "Henry VIII" -> "Henry the Eighth"
+   */
+  private matchRomanNumerals(text: string): TextReplacement[] {
+    const replacements: TextReplacement[] = [];
+
+    for (const match of text.matchAll(HEADING_NUMERAL)) {
+      const value = this.romanValue(match[1]);
+      if (value === null) continue;
+      const end = (match.index ?? 0) + match[0].length;
+      replacements.push({ start: end - match[1].length, end, replacement: spellCardinal(value) });
+    }
+
+    for (const match of text.matchAll(REGNAL_NUMERAL)) {
+      const value = this.romanValue(match[1]);
+      if (value === null || value > MAX_REGNAL) continue;
+      const end = (match.index ?? 0) + match[0].length;
+      const ordinal = spellOrdinal(value).replace(/(^|-)([a-z])/g, (_, sep: string, letter: string) => sep + letter.toUpperCase());
+      replacements.push({ start: end - match[1].length, end, replacement: `the ${ordinal}` });
+    }
+
+    return replacements;
+  }
+
+  private romanValue(numeral: string): number | null {
+    if (!numeral || !ROMAN.test(numeral)) {
+      return null;
+    }
+
+    const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+    let total = 0;
+    for (let i = 0; i < numeral.length; i++) {
+      const value = values[numeral.charAt(i)];
+      const next = values[numeral.charAt(i + 1)] ?? 0;
+      total += value < next ? -value : value;
+    }
+    return total;
+  }
+
+  /**
+   * Remaining digits: decades, fractions, phone numbers and codes, years,
+   * en-dash ranges, decimals and plain numbers
+   */
+  private matchNumbers(text: string, context: RuleContext): TextReplacement[] {
+    const decades = this.collect(text, DECADE_PATTERN, match => {
+      if (match[3] !== undefined) {
+        return pluralizeSpelled(spellCardinal(Number(match[3]) * 10));
+      }
+      return pluralizeSpelled(spellYear(Number(`${match[1]}${match[2]}0`), context.spelling));
+    });
+
+    // "1/2" -> "one half", "2 3/4" -> "two and three quarters", "1 1/2" -> "one and a half"
+    const fractions = this.collect(text, FRACTION_PATTERN, match => {
+      const [, whole, numeratorDigits, denominatorDigits] = match;
+      const numerator = Number(numeratorDigits);
+      const denominator = Number(denominatorDigits);
+      if (!FRACTION_DENOMINATORS.has(denominator) || numerator < 1 || numerator >= denominator) {
+        return null;
+      }
+
+      const fraction = spellFraction(numerator, denominator, context.spelling);
+      return whole
+        ? `${this.spellNumber(whole, context)} and ${fraction.replace(/^one /, 'a ')}`
+        : fraction;
+    });
+
+    // Read digit by digit, a short pause between groups
+    const digitStrings = this.collect(text, DIGIT_STRING_PATTERN, match => {
+      const [, countryCode, areaCode, digits] = match;
+      const groups = digits.split('-');
+      const digitCount = groups.join('').length;
+      const yearRange = groups.length === 2 && groups.every(group => group.length === 4);
+      const isDigitString = Boolean(countryCode || areaCode) ||
+        groups.length >= 3 ||
+        groups.some(group => group.length > 1 && group.startsWith('0')) ||
+        (digitCount >= 7 && !yearRange);
+      if (!isDigitString) {
+        return null;
+      }
+
+      const spoken = [areaCode, ...groups]
+        .filter((group): group is string => Boolean(group))
+        .map(group => spellDigits(group));
+      if (countryCode) {
+        spoken.unshift(`plus ${spellDigits(countryCode)}`);
+      }
+      return spoken.join(', ');
+    });
+
+    const numbers = this.collect(text, NUMBER_PATTERN, (match, end) => {
+      const [whole, sign, digits, fraction, rangeEnd, rangeFraction] = match;
+      const start = end - whole.length;
+
+      if (!fraction && !sign && !rangeEnd && this.isYear(digits, text, start, end)) {
+        return spellYear(Number(digits), context.spelling);
+      }
+
+      const first = this.spellNumber(`${sign}${digits}${fraction ?? ''}`, context);
+      return rangeEnd ? `${first} to ${this.spellNumber(rangeEnd + (rangeFraction ?? ''), context)}` : first;
+    });
+
+    return [...decades, ...fractions, ...digitStrings, ...numbers];
+  }
+
+  /**
+   * "in 1066" and "1000 AD" are years; so is a bare "1999", unless an amount
+   * of something follows ("1999 dollars", "1500 metres")
+   */
+  private isYear(digits: string, text: string, start: number, end: number): boolean {
+    if (!/^\d{4}$/.test(digits)) return false;
+    const value = Number(digits);
+    if (value < 1000 || value > 2099) return false;
+    if (YEAR_CONTEXT_BEFORE.test(text.slice(0, start)) || YEAR_CONTEXT_AFTER.test(text.slice(end))) {
+      return true;
+    }
+    return value >= BARE_YEARS.min && value <= BARE_YEARS.max && !MEASURE_AFTER.test(text.slice(end));
+  }
+
+  /**
+   * "1,250.50" -> "one thousand two hundred fifty point five zero"
+   */
+  private spellNumber(raw: string, context: RuleContext): string {
+    const negative = raw.startsWith('-');
+    const [whole, fraction] = raw.replace(/^-/, '').replace(/,/g, '').split('.');
+
+    let words = whole.length > 1 && whole.startsWith('0')
+      ? spellDigits(whole)
+      : spellCardinal(Number(whole), context.spelling);
+    if (fraction) {
+      words += ` point ${spellDigits(fraction)}`;
+    }
+
+    return negative ? `minus ${words}` : words;
+  }
+
+  /**
+   * Keep the full stop an abbreviation swallowed when it also ended the sentence
+   */
+  private sentencePeriod(text: string, matched: string, end: number): string {
+    if (!matched.endsWith('.')) return '';
+    const rest = text.slice(end);
+    return rest.trim() === '' || /^\s+["“‘(]?[A-Z]/.test(rest) ? '.' : '';
+  }
+
+  private followsNameMidSentence(text: string, start: number): boolean {
+    const before = text.slice(0, start);
+    const name = before.match(/([A-Z][\p{L}']*)\s+$/u);
+    if (!name) return false;
+    const preceding = before.slice(0, before.length - name[0].length).trimEnd();
+    return preceding !== '' && !/[.!?:;"“”]$/.test(preceding);
+  }
+
+  /**
+   * Run a global pattern, building a replacement per match.
+   * The builder gets the match and its end offset and may return null to skip.
+   */
+  private collect(
+    text: string,
+    pattern: RegExp,
+    build: (match: RegExpMatchArray, end: number) => string | null
+  ): TextReplacement[] {
+    const replacements: TextReplacement[] = [];
+
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const replacement = build(match, end);
+      if (replacement !== null && replacement !== match[0]) {
+        replacements.push({ start, end, replacement });
+      }
+    }
+
+    return replacements;
+  }
+
+  /**
+   * Keep the first claim on any stretch of text, in rule order, then sort by position
+   */
+  private withoutOverlaps(replacements: TextReplacement[]): TextReplacement[] {
+    const kept: TextReplacement[] = [];
+    for (const replacement of replacements) {
+      if (!kept.some(k => replacement.start < k.end && replacement.end > k.start)) {
+        kept.push(replacement);
+      }
+    }
+    return kept.sort((a, b) => a.start - b.start);
+  }
+}
+
+export default TextNormalizer;
@@ -0,0 +1,70 @@
+import TextSegmenter from './TextSegmenter';
+import { CharacterBible } from '../types';
+
+describe('TextSegmenter', () => {
+  const segmenter = new TextSegmenter();
+
+  describe('splitSentences', () => {
+    it('does not break at abbreviations, initials or decimals', () => {
+      expect(segmenter.splitSentences('Dr. Smith paid 3.5 dollars. J. R. R. Tolkien wrote it. Done!'))
+        .toEqual(['Dr. Smith paid 3.5 dollars.', 'J. R. R. Tolkien wrote it.', 'Done!']);
+    });
+
+    it('keeps closing quotes with their sentence', () => {
+      expect(segmenter.splitSentences('“Go.” He went.')).toEqual(['“Go.”', 'He went.']);
+    });
+  });
+
+  describe('chunkText', () => {
+    it('packs sentences up to the limit', () => {
+      expect(segmenter.chunkText('One two. Three four. Five six.', 20))
+        .toEqual(['One two. Three four.', 'Five six.']);
+    });
+
+    it('breaks an over-long sentence at clauses, then words', () => {
+      const chunks = segmenter.chunkText('First part, second part; and a third rather long part here.', 25);
+
+      expect(chunks.every(chunk => chunk.length <= 25)).toBe(true);
+      expect(chunks.join(' ')).toBe('First part, second part; and a third rather long part here.');
+    });
+  });
+
+  describe('segmentChapters', () => {
+    const chapter = {
+      id: 'ch1',
+      chapter_number: 1,
+      title: 'One',
+      content: 'The door opened.\n\n“Who is there?” asked Anna.\n\nNobody answered.',
+      word_count: 9
+    };
+
+    it('numbers segments per chapter and keeps their paragraph', () => {
+      const segments = segmenter.segmentChapters([chapter], { maxChunkChars: 250 });
+
+      expect(segments.map(s => [s.id, s.paragraph_number, s.segment_type])).toEqual([
+        ['ch1_seg_1', 1, 'narrative'],
+        ['ch1_seg_2', 2, 'dialogue'],
+        ['ch1_seg_3', 2, 'narrative'],
+        ['ch1_seg_4', 3, 'narrative']
+      ]);
+    });
+
+    it('attributes speech to the character named in the tag', () => {
+      const segments = segmenter.segmentChapters([chapter], {
+        maxChunkChars: 250,
+        characters: [{ character_name: 'Anna' } as CharacterBible]
+      });
+
+      expect(segments[1].character_name).toBe('Anna');
+      expect(segments[0].character_name).toBeNull();
+    });
+
+    it('keeps every chunk within the limit', () => {
+      const long = { ...chapter, content: 'A fairly short sentence goes here. '.repeat(20) };
+      const segments = segmenter.segmentChapters([long], { maxChunkChars: 100 });
+
+      expect(segments.length).toBeGreaterThan(1);
+      expect(segments.every(s => s.text_content.length <= 100)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * Text Segmenter
+ * Splits chapters into paragraph-grouped chunks that respect provider request limits
+ */
+
+import { logger } from '../utils/logger';
+import DialogueSplitter, { DialogueSplitResult, TextSpan } from './DialogueSplitter';
+import SpeakerAttributionEngine from './SpeakerAttributionEngine';
+import EmotionDetector from './EmotionDetector';
+import PerformanceMarkupParser, { DirectiveRange, ParsedMarkup } from './PerformanceMarkupParser';
+import {
+  AudioSegment,
+  Chapter,
+  CharacterBible,
+  EmotionContext,
+  PerformanceDirectives,
+  SpeakerAttribution,
+  TextRange
+} from '../types';
+
+/**
+ * Words that end with a period without ending the sentence.
+ * Stored lowercase and without the trailing period.
+ */
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'mx', 'dr', 'st', 'jr', 'sr', 'prof', 'rev', 'hon',
+  'capt', 'cpt', 'col', 'gen', 'lt', 'sgt', 'cmdr', 'adm', 'gov', 'sen', 'rep',
+  'fr', 'mt', 'ft', 'ave', 'blvd', 'rd',
+  'inc', 'ltd', 'co', 'corp', 'vs', 'etc', 'approx', 'dept', 'est', 'misc',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'e.g', 'i.e', 'a.m', 'p.m', 'u.s', 'u.k', 'ph.d'
+]);
+
+/**
+ * Abbreviations that only apply when a number follows ("No. 7", "Vol. 2")
+ */
+const NUMERIC_ABBREVIATIONS = new Set(['no', 'nos', 'vol', 'ch', 'pp', 'fig']);
+
+/**
+ * Sentence-final punctuation, optional closing quotes/brackets, then whitespace
+ */
+const SENTENCE_BOUNDARY = /(\.{3}|…|[.!?]+)(["'”’)\]]*)(\s+)/g;
+
+/**
+ * Clause-level break points used when a single sentence exceeds the limit
+ */
+const CLAUSE_PIECE = /[^,;:—–]+(?:[,;:—–]+|$)\s*/g;
+
+/**
+ * Intensity used when markup names an emotion without one
+ */
+const MARKUP_EMOTION_INTENSITY = 0.7;
+
+export interface SegmentationOptions {
+  maxChunkChars: number;
+  // Limit for one speaker's chunks, e.g. their voice's provider's; null is the narrator
+  maxChunkCharsFor?: (characterName: string | null) => number;
+  characters?: CharacterBible[];
+}
+
+/**
+ * A span cut at markup boundaries, with the pauses that surround it
+ */
+interface MarkupPiece extends TextSpan {
+  span: number; // index of the span it was cut from
+  pause_before: number;
+  pause_after: number;
+}
+
+export class TextSegmenter {
+  private dialogueSplitter: DialogueSplitter;
+  private emotionDetector: EmotionDetector;
+  private markupParser: PerformanceMarkupParser;
+
+  constructor() {
+    this.dialogueSplitter = new DialogueSplitter();
+    this.emotionDetector = new EmotionDetector();
+    this.markupParser = new PerformanceMarkupParser();
+  }
+
+  /**
+   * Segment chapters into dialogue and narrative chunks.
+   * Each paragraph has its performance markup extracted, is split into quoted
+   * speech and narration spans, cut at markup boundaries, and packed into one or
+   * more chunks; sequence numbers run per chapter and every chunk keeps the
+   * number of the paragraph it came from.
+   */
+  segmentChapters(chapters: Chapter[], options: SegmentationOptions): AudioSegment[] {
+    const segments: AudioSegment[] = [];
+    const attribution = new SpeakerAttributionEngine(options.characters);
+
+    for (const chapter of chapters) {
+      const paragraphs = this.splitParagraphs(chapter.content);
+      const context = attribution.createContext();
+      const chapterSegments: AudioSegment[] = [];
+      let previousSplit: DialogueSplitResult | undefined;
+      let pendingPause = 0;
+
+      paragraphs.forEach((paragraph, paragraphIndex) => {
+        const markup = this.markupParser.parse(paragraph);
+
+        // A paragraph holding only markup (e.g. a scene-break pause) adds silence
+        if (!markup.text) {
+          const seconds = markup.pauses.reduce((sum, p) => sum + p.seconds, 0);
+          const last = chapterSegments[chapterSegments.length - 1];
+          if (last) {
+            this.addPause(last, 'pause_after_seconds', seconds);
+          } else {
+            pendingPause += seconds;
+          }
+          return;
+        }
+
+        let split = this.dialogueSplitter.splitParagraph(markup.text, previousSplit);
+
+        // A forced speaker on a paragraph without quotes voices all of it
+        if (markup.speaker_override && !split.spans.some(span => span.type === 'dialogue')) {
+          split = {
+            ...split,
+            spans: split.spans.map(span => ({ ...span, type: 'dialogue' as const }))
+          };
+        }
+
+        const hasDialogue = split.spans.some(span => span.type === 'dialogue');
+
+        // Tags and action beats around the quotes colour how the speech is read
+        const narration = split.spans
+          .filter(span => span.type === 'narrative')
+          .map(span => span.text)
+          .join(' ');
+
+        let speakers: (SpeakerAttribution | null)[] = [];
+        if (hasDialogue) {
+          speakers = attribution.attributeParagraph(split, context, markup.speaker_override);
+        } else {
+          attribution.observeNarration(markup.text, context);
+        }
+
+        for (const piece of this.cutSpans(split.spans, markup)) {
+          const speaker = speakers[piece.span];
+          const characterName = piece.type === 'dialogue' ? speaker?.character_name ?? null : null;
+          const chunks = this.chunkText(piece.text, options.maxChunkCharsFor?.(characterName) ?? options.maxChunkChars);
+          let cursor = piece.start;
+
+          chunks.forEach((chunk, chunkIndex) => {
+            const chunkStart = markup.text.indexOf(chunk, cursor);
+            const chunkRange = chunkStart === -1 ? null : { start: chunkStart, end: chunkStart + chunk.length };
+            cursor = chunkRange ? chunkRange.end : cursor;
+
+            const performance = this.directivesFor(
+              piece,
+              chunkRange,
+              chunkIndex === 0,
+              chunkIndex === chunks.length - 1,
+              markup
+            );
+
+            const markedEmotion = this.markupEmotion(piece, markup);
+            const emotion = markedEmotion || this.emotionDetector.detect({
+              text: chunk,
+              context: piece.type === 'dialogue' ? narration : undefined,
+              segment_type: piece.type
+            });
+
+            const segment: AudioSegment = {
+              id: `${chapter.id}_seg_${chapterSegments.length + 1}`,
+              chapter_id: chapter.id,
+              sequence_number: chapterSegments.length + 1,
+              paragraph_number: paragraphIndex + 1,
+              segment_type: piece.type,
+              character_name: characterName,
+              attribution_confidence: piece.type === 'dialogue' ? speaker?.confidence ?? null : null,
+              text_content: chunk,
+              emotion_detected: emotion.type,
+              emotion_intensity: emotion.intensity,
+              emotion_locked: false,
+              performance
+            };
+
+            if (pendingPause > 0) {
+              this.addPause(segment, 'pause_before_seconds', pendingPause);
+              pendingPause = 0;
+            }
+
+            chapterSegments.push(segment);
+          });
+        }
+
+        previousSplit = split;
+      });
+
+      segments.push(...chapterSegments);
+    }
+
+    logger.info(`Segmented ${chapters.length} chapters into ${segments.length} segments`, {
+      max_chunk_chars: options.maxChunkChars
+    });
+    return segments;
+  }
+
+  /**
+   * Cut spans at pause positions and directive boundaries so every piece has
+   * uniform directives. Pauses attach to the piece before them where possible.
+   */
+  private cutSpans(spans: TextSpan[], markup: ParsedMarkup): MarkupPiece[] {
+    const cuts = [
+      ...markup.pauses.map(p => p.offset),
+      ...markup.ranges.flatMap(r => [r.start, r.end])
+    ];
+    const pieces: MarkupPiece[] = [];
+
+    spans.forEach((span, spanIndex) => {
+      const inner = [...new Set(cuts.filter(c => c > span.start && c < span.end))].sort((a, b) => a - b);
+      const bounds = [span.start, ...inner, span.end];
+
+      for (let i = 0; i < bounds.length - 1; i++) {
+        const raw = markup.text.slice(bounds[i], bounds[i + 1]);
+        const text = raw.trim();
+        if (!/[\p{L}\p{N}]/u.test(text)) continue;
+
+        const start = bounds[i] + (raw.length - raw.trimStart().length);
+        pieces.push({
+          type: span.type,
+          span: spanIndex,
+          text,
+          start,
+          end: start + text.length,
+          pause_before: 0,
+          pause_after: 0
+        });
+      }
+    });
+
+    for (const pause of markup.pauses) {
+      const before = [...pieces].reverse().find(piece => piece.end <= pause.offset);
+      if (before) {
+        before.pause_after += pause.seconds;
+      } else if (pieces.length > 0) {
+        pieces[0].pause_before += pause.seconds;
+      }
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Collect the directives that apply to one chunk of a piece
+   */
+  private directivesFor(
+    piece: MarkupPiece,
+    chunkRange: TextRange | null,
+    isFirst: boolean,
+    isLast: boolean,
+    markup: ParsedMarkup
+  ): PerformanceDirectives | undefined {
+    const performance: PerformanceDirectives = {};
+
+    if (isFirst && piece.pause_before > 0) performance.pause_before_seconds = piece.pause_before;
+    if (isLast && piece.pause_after > 0) performance.pause_after_seconds = piece.pause_after;
+
+    for (const range of this.rangesCovering(piece, markup)) {
+      if (range.directive.kind === 'delivery') performance.delivery = range.directive.delivery;
+      if (range.directive.kind === 'rate') performance.rate = range.directive.rate;
+    }
+
+    if (chunkRange) {
+      const emphasis = markup.emphasis
+        .map(e => ({
+          start: Math.max(e.start, chunkRange.start) - chunkRange.start,
+          end: Math.min(e.end, chunkRange.end) - chunkRange.start
+        }))
+        .filter(e => e.end > e.start);
+      if (emphasis.length > 0) performance.emphasis = emphasis;
+    }
+
+    return Object.keys(performance).length > 0 ? performance : undefined;
+  }
+
+  /**
+   * Emotion forced by an {emotion: ...} range, if any
+   */
+  private markupEmotion(piece: MarkupPiece, markup: ParsedMarkup): EmotionContext | null {
+    let emotion: EmotionContext | null = null;
+
+    for (const range of this.rangesCovering(piece, markup)) {
+      if (range.directive.kind === 'emotion') {
+        emotion = {
+          type: range.directive.emotion,
+          intensity: range.directive.intensity ?? MARKUP_EMOTION_INTENSITY
+        };
+      }
+    }
+
+    return emotion;
+  }
+
+  private rangesCovering(piece: MarkupPiece, markup: ParsedMarkup): DirectiveRange[] {
+    return markup.ranges.filter(r => r.start <= piece.start && r.end >= piece.end);
+  }
+
+  private addPause(
+    segment: AudioSegment,
+    field: 'pause_before_seconds' | 'pause_after_seconds',
+    seconds: number
+  ): void {
+    if (seconds <= 0) return;
+    segment.performance = {
+      ...segment.performance,
+      [field]: (segment.performance?.[field] || 0) + seconds
+    };
+  }
+
+  /**
+   * Split chapter content into non-empty paragraphs
+   */
+  splitParagraphs(content: string): string[] {
+    return content
+      .split(/\n\s*\n+/)
+      .map(p => p.trim())
+      .filter(p => p.length > 0);
+  }
+
+  /**
+   * Split text into sentences.
+   * Abbreviations, initials, decimals and mid-sentence ellipses do not end a sentence.
+   */
+  splitSentences(text: string): string[] {
+    const sentences: string[] = [];
+    const boundary = new RegExp(SENTENCE_BOUNDARY.source, 'g');
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(text)) !== null) {
+      const end = match.index + match[1].length + match[2].length;
+      const next = end + match[3].length;
+
+      if (this.isSentenceBoundary(text, start, match.index, match[1], next)) {
+        const sentence = text.slice(start, end).trim();
+        if (sentence) {
+          sentences.push(sentence);
+        }
+        start = next;
+      }
+    }
+
+    const tail = text.slice(start).trim();
+    if (tail) {
+      sentences.push(tail);
+    }
+
+    return sentences;
+  }
+
+  /**
+   * Pack sentences into chunks no longer than maxChars.
+   * Sentences longer than the limit are broken at clause boundaries, then at word boundaries.
+   */
+  chunkText(text: string, maxChars: number): string[] {
+    const pieces = this.splitSentences(text).flatMap(sentence =>
+      sentence.length > maxChars ? this.splitLongSentence(sentence, maxChars) : [sentence]
+    );
+
+    return this.packPieces(pieces, maxChars);
+  }
+
+  /**
+   * Break an over-long sentence at commas, semicolons, colons and dashes
+   */
+  private splitLongSentence(sentence: string, maxChars: number): string[] {
+    const clauses = (sentence.match(CLAUSE_PIECE) || [sentence])
+      .map(c => c.trim())
+      .filter(Boolean);
+
+    const pieces = clauses.flatMap(clause =>
+      clause.length > maxChars ? this.splitByWords(clause, maxChars) : [clause]
+    );
+
+    return this.packPieces(pieces, maxChars);
+  }
+
+  /**
+   * Last resort: break at whitespace, hard-splitting any single word over the limit
+   */
+  private splitByWords(text: string, maxChars: number): string[] {
+    const words = text.split(/\s+/).flatMap(word => {
+      const parts: string[] = [];
+      for (let i = 0; i < word.length; i += maxChars) {
+        parts.push(word.slice(i, i + maxChars));
+      }
+      return parts;
+    });
+
+    return this.packPieces(words, maxChars);
+  }
+
+  /**
+   * Greedily join pieces with single spaces while staying under maxChars
+   */
+  private packPieces(pieces: string[], maxChars: number): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const piece of pieces) {
+      if (!current) {
+        current = piece;
+      } else if (current.length + 1 + piece.length <= maxChars) {
+        current = `${current} ${piece}`;
+      } else {
+        chunks.push(current);
+        current = piece;
+      }
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Decide whether punctuation at `index` really ends a sentence
+   */
+  private isSentenceBoundary(
+    text: string,
+    sentenceStart: number,
+    index: number,
+    punctuation: string,
+    nextIndex: number
+  ): boolean {
+    const nextChar = text.charAt(nextIndex);
+
+    // A lowercase continuation means the sentence carries on ("Run!" she shouted)
+    if (/[a-z]/.test(nextChar)) {
+      return false;
+    }
+
+    // Ellipses only end a sentence when a new one clearly starts
+    if (punctuation === '...' || punctuation === '…') {
+      return /[A-Z"“‘']/.test(nextChar);
+    }
+
+    if (punctuation !== '.') {
+      return true;
+    }
+
+    const precedingWord = text
+      .slice(sentenceStart, index)
+      .split(/\s+/)
+      .pop()!
+      .replace(/^["'“‘([]+/, '');
+
+    // Initials such as "J. R. R. Tolkien"
+    if (/^[A-Z]$/.test(precedingWord)) {
+      return false;
+    }
+
+    const abbreviation = precedingWord.toLowerCase();
+    if (ABBREVIATIONS.has(abbreviation)) {
+      return false;
+    }
+
+    if (NUMERIC_ABBREVIATIONS.has(abbreviation) && /\d/.test(nextChar)) {
+      return false;
+    }
+
+    return true;
+  }
+}
+
+export default TextSegmenter;
@@ -0,0 +1,89 @@
+import VoiceMatchingEngine from './VoiceMatchingEngine';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { CharacterBible, TTSProvider, Voice } from '../types';
+
+const mara: CharacterBible = {
+  character_name: 'Mara',
+  age: 30,
+  gender: 'female',
+  personality: ['brave'],
+  background: '',
+  speaking_style: '',
+  voice_profile: { gender: 'female', age_range: '20-35', tone: ['warm', 'confident'], emotional_range: 'high' }
+};
+
+function voice(id: string, provider: TTSProvider, fields: Partial<Voice> = {}): Voice {
+  return {
+    id,
+    name: id,
+    provider,
+    gender: 'female',
+    age_range: '20-35',
+    accent: 'american',
+    descriptors: ['warm'],
+    ...fields
+  };
+}
+
+describe('VoiceMatchingEngine', () => {
+  const engine = new VoiceMatchingEngine();
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('picks the best scoring voice that fits the character', async () => {
+    const match = await engine.matchCharacterToVoice({
+      character_bible: mara,
+      available_voices: [
+        voice('male', 'elevenlabs', { gender: 'male', descriptors: ['warm', 'confident'] }),
+        voice('child', 'elevenlabs', { age_range: '0-12', descriptors: ['warm', 'confident'] }),
+        voice('warm', 'elevenlabs'),
+        voice('warm-confident', 'elevenlabs', { descriptors: ['warm', 'confident'] })
+      ]
+    });
+
+    expect(match).toMatchObject({ voice_id: 'warm-confident', provider: 'elevenlabs', match_score: 1 });
+    expect(match.voice_settings).toMatchObject({ stability: 0.5, style: 0.8 });
+  });
+
+  it('offers the best voices on every other provider as fallbacks, a few per provider', async () => {
+    config.voices.fallbacksPerProvider = 2;
+    const match = await engine.matchCharacterToVoice({
+      character_bible: mara,
+      available_voices: [
+        voice('primary', 'elevenlabs', { descriptors: ['warm', 'confident'] }),
+        voice('eleven-2', 'elevenlabs'),
+        voice('openai-1', 'openai', { descriptors: ['warm', 'confident'] }),
+        voice('openai-2', 'openai'),
+        voice('openai-3', 'openai', { descriptors: ['gruff'] }),
+        voice('local-1', 'local', { descriptors: ['confident'] })
+      ]
+    });
+
+    expect(match.fallback_voices.map(fallback => [fallback.provider, fallback.voice_id])).toEqual([
+      ['openai', 'openai-1'],
+      ['openai', 'openai-2'],
+      ['local', 'local-1']
+    ]);
+    expect(match.fallback_voices[0].voice_settings).toEqual(match.voice_settings);
+  });
+
+  it('has no fallbacks when only one provider has suitable voices', async () => {
+    const match = await engine.matchCharacterToVoice({
+      character_bible: mara,
+      available_voices: [voice('a', 'elevenlabs'), voice('b', 'elevenlabs'), voice('male', 'openai', { gender: 'male' })]
+    });
+
+    expect(match.fallback_voices).toEqual([]);
+  });
+
+  it('fails for a character no voice fits, and batch matching skips them', async () => {
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+    const voices = [voice('male', 'elevenlabs', { gender: 'male', age_range: '56+' })];
+    const elder = { ...mara, character_name: 'Elder', gender: 'male' as const, age: 70 };
+
+    await expect(engine.matchCharacterToVoice({ character_bible: mara, available_voices: voices }))
+      .rejects.toThrow('No suitable voice found for character: Mara');
+    expect((await engine.batchMatchCharactersToVoices([mara, elder], voices)).map(match => match.voice_id)).toEqual(['male']);
+  });
+});
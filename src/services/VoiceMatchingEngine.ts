@@ -4,8 +4,11 @@
  */
 
 import { logger } from '../utils/logger';
+import { config } from '../config';
 import {
   Voice,
+  FallbackVoice,
+  TTSProvider,
   VoiceMatch,
   VoiceMatchingParams,
   VoiceProfile,
@@ -16,7 +19,8 @@ import {
 
 export class VoiceMatchingEngine {
   /**
-   * Match a character to the best available voice
+   * Match a character to the best available voice, along with the closest
+   * voices on the other providers to fall back to
    */
   async matchCharacterToVoice(params: VoiceMatchingParams): Promise<VoiceMatch> {
     const { character_bible, available_voices } = params;
@@ -26,8 +30,39 @@ export class VoiceMatchingEngine {
       available_voices_count: available_voices.length
     });
 
+    const scored = this.rankVoices(character_bible, available_voices);
+
+    if (scored.length === 0) {
+      throw new Error(`No suitable voice found for character: ${character_bible.character_name}`);
+    }
+
+    const best = scored[0];
+    const fallbackVoices = this.selectFallbackVoices(scored, best.voice.provider, character_bible);
+
+    logger.info('Voice match found', {
+      character: character_bible.character_name,
+      voice: best.voice.name,
+      provider: best.voice.provider,
+      match_score: best.score,
+      fallback_voices: fallbackVoices.length
+    });
+
+    return {
+      voice_id: best.voice.id,
+      voice_name: best.voice.name,
+      provider: best.voice.provider,
+      match_score: best.score,
+      voice_settings: this.optimizeSettings(best.voice, character_bible.voice_profile),
+      fallback_voices: fallbackVoices
+    };
+  }
+
+  /**
+   * Filter voices by the character's attributes and score them, best first
+   */
+  private rankVoices(character_bible: CharacterBible, voices: Voice[]): Array<{ voice: Voice; score: number }> {
     // Step 1: Filter by gender
-    let candidates = this.filterByGender(available_voices, character_bible.gender);
+    let candidates = this.filterByGender(voices, character_bible.gender);
     logger.debug(`After gender filter: ${candidates.length} candidates`);
 
     // Step 2: Filter by age range
@@ -49,29 +84,38 @@ export class VoiceMatchingEngine {
       )
     }));
 
-    // Step 5: Sort by score and select best match
-    scored.sort((a, b) => b.score - a.score);
+    // Step 5: Sort by score
+    return scored.sort((a, b) => b.score - a.score);
+  }
 
-    if (scored.length === 0) {
-      throw new Error(`No suitable voice found for character: ${character_bible.character_name}`);
+  /**
+   * Top-ranked voices on each provider other than the primary one, best first overall
+   */
+  private selectFallbackVoices(
+    scored: Array<{ voice: Voice; score: number }>,
+    primaryProvider: TTSProvider,
+    character_bible: CharacterBible
+  ): FallbackVoice[] {
+    const perProvider = new Map<TTSProvider, number>();
+    const fallbacks: FallbackVoice[] = [];
+
+    for (const { voice, score } of scored) {
+      if (voice.provider === primaryProvider) continue;
+
+      const taken = perProvider.get(voice.provider) || 0;
+      if (taken >= config.voices.fallbacksPerProvider) continue;
+      perProvider.set(voice.provider, taken + 1);
+
+      fallbacks.push({
+        provider: voice.provider,
+        voice_id: voice.id,
+        voice_name: voice.name,
+        match_score: score,
+        voice_settings: this.optimizeSettings(voice, character_bible.voice_profile)
+      });
     }
 
-    const best = scored[0];
-
-    logger.info('Voice match found', {
-      character: character_bible.character_name,
-      voice: best.voice.name,
-      provider: best.voice.provider,
-      match_score: best.score
-    });
-
-    return {
-      voice_id: best.voice.id,
-      voice_name: best.voice.name,
-      provider: best.voice.provider,
-      match_score: best.score,
-      voice_settings: this.optimizeSettings(best.voice, character_bible.voice_profile)
-    };
+    return fallbacks;
   }
 
   /**
@@ -8,12 +8,99 @@
 
 export interface AudioSegment {
   id: string;
-  sequence_number: number;
+  chapter_id: string;
+  sequence_number: number; // 1-based, per chapter
+  paragraph_number: number; // 1-based source paragraph the chunk belongs to
   segment_type: 'narrative' | 'dialogue';
   character_name: string | null;
+  attribution_confidence: number | null; // 0.0 to 1.0, dialogue only
   text_content: string;
   emotion_detected: EmotionType | null;
   emotion_intensity: number | null; // 0.0 to 1.0
+  emotion_locked: boolean; // set by a locked override; automatic passes must not change it
+  performance?: PerformanceDirectives; // from inline manuscript markup
+  normalization_changes?: NormalizationChange[]; // rewrites made for speech, for editor review
+  voice_fingerprint?: string | null; // digest of the assigned provider, voice id and settings
+}
+
+export type SegmentStatus = 'pending' | 'generating' | 'complete' | 'failed';
+
+/**
+ * A segment as stored for a project, with its synthesis progress
+ */
+export interface PersistedSegment extends AudioSegment {
+  status: SegmentStatus;
+  audio_url: string | null;
+  duration_seconds: number | null;
+  error_message: string | null;
+  alignment: AlignmentTrack | null;
+  speech_offset_seconds: number | null; // where its speech starts in the assembled chapter
+}
+
+/**
+ * Why a segment was rendered in a run: new text, edited text, or left
+ * unfinished by an earlier run
+ */
+export type SegmentChange = 'added' | 'changed' | 'retried';
+
+export interface RenderedSegment {
+  segment_id: string;
+  chapter_id: string;
+  change: SegmentChange;
+  provider: TTSProvider;
+  cost_dollars: number;
+  cache_hit: boolean;
+}
+
+/**
+ * What a generation run re-rendered and re-assembled, and what it cost
+ */
+export interface RenderReport {
+  routing_policy: RoutingPolicy;
+  segments_total: number;
+  segments_reused: number;
+  segments_removed: string[];
+  rendered: RenderedSegment[];
+  chapters_reassembled: string[];
+  cost_dollars: number;
+  budget: BudgetReport;
+  audiobook_path?: string | null; // for M4B and MP3 runs; null while chapters are left unassembled
+  epub_path?: string | null; // for EPUB runs; null while chapters are left unassembled
+}
+
+export interface GenerationResult {
+  project: AudiobookProject | null;
+  report: RenderReport;
+}
+
+export interface TextRange {
+  start: number;
+  end: number; // exclusive
+}
+
+export type DeliveryStyle = 'whisper' | 'shout';
+
+export interface PerformanceDirectives {
+  pause_before_seconds?: number;
+  pause_after_seconds?: number;
+  delivery?: DeliveryStyle;
+  rate?: number; // speaking rate multiplier, 1.0 = normal
+  emphasis?: TextRange[]; // offsets into text_content
+}
+
+export type AttributionMethod =
+  | 'explicit_tag'
+  | 'action_beat'
+  | 'pronoun'
+  | 'continuation'
+  | 'turn_taking'
+  | 'markup'
+  | 'none';
+
+export interface SpeakerAttribution {
+  character_name: string | null; // null means the narrator reads it
+  confidence: number; // 0.0 to 1.0
+  method: AttributionMethod;
 }
 
 export type EmotionType = 'joy' | 'fear' | 'anger' | 'sadness' | 'neutral' | 'surprise' | 'disgust';
@@ -23,6 +110,37 @@ export interface EmotionContext {
   intensity: number; // 0.0 to 1.0
 }
 
+export interface EmotionOverride {
+  segment_id: string;
+  emotion: EmotionType;
+  intensity?: number; // 0.0 to 1.0
+  locked?: boolean;
+}
+
+export type NormalizationLocale = 'en-US' | 'en-GB';
+
+export type NormalizationRule =
+  | 'currency'
+  | 'dates'
+  | 'times'
+  | 'units'
+  | 'ordinals'
+  | 'abbreviations'
+  | 'roman_numerals'
+  | 'numbers';
+
+export interface NormalizationOptions {
+  enabled?: boolean;
+  locale?: NormalizationLocale;
+  rules?: Partial<Record<NormalizationRule, boolean>>; // all rules run unless disabled here
+}
+
+export interface NormalizationChange {
+  rule: NormalizationRule;
+  original: string;
+  replacement: string;
+}
+
 // ============================================================================
 // Voice Types
 // ============================================================================
@@ -38,7 +156,20 @@ export interface Voice {
   sample_url?: string;
 }
 
-export type TTSProvider = 'elevenlabs' | 'xtts' | 'playht';
+/**
+ * Names of the providers ProviderRegistry can build. A provider added outside
+ * this package declares its name by augmenting this interface, then registers
+ * its factory with registerProvider.
+ */
+export interface TTSProviderNames {
+  elevenlabs: true;
+  xtts: true;
+  playht: true;
+  local: true;
+  openai: true;
+}
+
+export type TTSProvider = keyof TTSProviderNames;
 export type AgeRange = '0-12' | '13-19' | '20-35' | '36-55' | '56+';
 
 export interface VoiceSettings {
@@ -46,6 +177,7 @@ export interface VoiceSettings {
   similarity_boost: number; // 0.0 to 1.0
   style?: number; // 0.0 to 1.0
   use_speaker_boost?: boolean;
+  speed?: number; // 0.7 to 1.2
 }
 
 export interface VoiceProfile {
@@ -63,6 +195,18 @@ export interface VoiceAssignment {
   provider: TTSProvider;
   match_score: number;
   voice_settings: VoiceSettings;
+  fallback_voices?: FallbackVoice[]; // best first
+}
+
+/**
+ * The closest voice to an assignment on another provider, used when routing falls back
+ */
+export interface FallbackVoice {
+  provider: TTSProvider;
+  voice_id: string;
+  voice_name: string;
+  match_score: number;
+  voice_settings?: VoiceSettings; // defaults to the assignment's settings
 }
 
 export interface VoiceMatch {
@@ -71,6 +215,7 @@ export interface VoiceMatch {
   provider: TTSProvider;
   match_score: number;
   voice_settings: VoiceSettings;
+  fallback_voices: FallbackVoice[];
 }
 
 export interface ClonedVoice {
@@ -80,6 +225,51 @@ export interface ClonedVoice {
   quality_score: number;
 }
 
+// ============================================================================
+// TTS Provider Contract
+// ============================================================================
+
+export interface ProviderCapabilities {
+  ssml: boolean; // accepts SSML / phoneme markup
+  timestamps: boolean; // returns word timings with the audio
+  emphasis: 'segment' | 'none'; // emphasis markup voiced across its whole segment, or ignored
+  voice_cloning: boolean;
+  max_chars_per_request: number;
+  languages: string[]; // ISO 639-1 codes
+  output_formats: Array<GeneratedAudio['format']>;
+  quality_tier: AudioQuality; // best quality the provider delivers
+}
+
+export interface ProviderCostModel {
+  per_1k_characters: number; // dollars
+}
+
+export interface CloneVoiceParams {
+  name: string;
+  samples: Buffer[];
+  description?: string;
+  language?: string;
+}
+
+/**
+ * What every TTS provider implements so the orchestrator can treat them alike
+ */
+export interface SpeechProvider {
+  readonly name: TTSProvider;
+  isEnabled(): boolean;
+  // Aborting the signal abandons the in-flight request
+  generateSpeech(params: TTSGenerationParams, signal?: AbortSignal): Promise<GeneratedAudio>;
+  // The exact request generateSpeech would send, used as synthesis cache key material
+  describeSynthesis(params: TTSGenerationParams): Record<string, unknown>;
+  listVoices(): Promise<Voice[]>;
+  cloneVoice(params: CloneVoiceParams): Promise<ClonedVoice>;
+  healthCheck(): Promise<boolean>;
+  getCapabilities(): ProviderCapabilities;
+  getCostModel(): ProviderCostModel;
+  supportsPhonemeTags(model?: string): boolean;
+  getMaxCharsPerRequest(): number;
+}
+
 // ============================================================================
 // Chapter & Content Types
 // ============================================================================
@@ -94,6 +284,7 @@ export interface Chapter {
 
 export interface CharacterBible {
   character_name: string;
+  aliases?: string[]; // nicknames, titles and alternate spellings
   age: number;
   gender: 'male' | 'female' | 'neutral';
   personality: string[];
@@ -102,22 +293,151 @@ export interface CharacterBible {
   voice_profile: VoiceProfile;
 }
 
+// ============================================================================
+// Pronunciation Types
+// ============================================================================
+
+export interface PronunciationEntry {
+  id: string;
+  project_id: string;
+  word: string;
+  respelling: string | null; // e.g. "ale-THRAN-ee-el"
+  ipa: string | null; // e.g. "eɪlˈθɹæniəl"
+  case_sensitive: boolean;
+  whole_word: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PronunciationInput = Pick<PronunciationEntry, 'word' | 'respelling' | 'ipa'> &
+  Partial<Pick<PronunciationEntry, 'case_sensitive' | 'whole_word'>>;
+
+export type PronunciationStyle = 'phoneme' | 'respelling';
+
+export interface PronunciationLexiconExport {
+  format: 'nexus-audiobook-lexicon';
+  version: 1;
+  entries: PronunciationInput[];
+}
+
 // ============================================================================
 // Generated Audio Types
 // ============================================================================
 
+/**
+ * Measured from the decoded audio
+ */
+export interface AudioProperties {
+  duration: number; // seconds
+  sample_rate: number; // Hz
+  channels: number;
+  channel_layout: string; // e.g. mono, stereo
+}
+
 export interface GeneratedAudio {
   audio_data: Buffer;
   format: 'mp3' | 'wav' | 'm4b';
-  duration: number; // seconds
+  duration: number; // seconds, probed from the decoded audio
+  sample_rate?: number; // probed; absent on audio stored before probing
+  channels?: number;
+  channel_layout?: string;
   provider: TTSProvider;
   cost: number; // dollars
+  pauses_rendered?: boolean; // provider already spoke the requested pauses
+  silence_before_seconds?: number; // inserted at assembly time
+  silence_after_seconds?: number; // inserted at assembly time
+  cache_hit?: boolean; // served from the synthesis cache, not billed
+  voice_id?: string; // the voice that spoke it, which may be a fallback voice
+  word_timings?: TimedWord[]; // from providers that return them, in the text they were sent
+  alignment?: AlignmentTrack; // the segment's own text aligned with the audio
+  segment_id?: string; // set when loaded from the segment store
+}
+
+// ============================================================================
+// Alignment Types
+// ============================================================================
+
+/**
+ * A word as a provider timed it, in seconds from the start of its audio
+ */
+export interface TimedWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export type AlignmentSource = 'provider' | 'estimated';
+
+/**
+ * When a word of a segment is spoken, in seconds from the start of the segment's speech
+ */
+export interface WordTiming {
+  word: string;
+  char_start: number; // offsets into text_content
+  char_end: number; // exclusive
+  start: number;
+  end: number;
+}
+
+export interface AlignmentTrack {
+  source: AlignmentSource; // 'provider' when any word took a provider's timing
+  words: WordTiming[];
+}
+
+/**
+ * A word placed on the assembled chapter's timeline and the book's
+ */
+export interface TimelineWord {
+  segment_id: string;
+  word: string;
+  char_start: number;
+  char_end: number;
+  chapter_start: number;
+  chapter_end: number;
+  book_start: number | null; // null until every earlier chapter is assembled
+  book_end: number | null;
+  source: AlignmentSource;
+}
+
+export interface ChapterAlignment {
+  chapter_id: string;
+  start_seconds: number | null; // where the chapter starts in the book
+  duration_seconds: number | null;
+  stale: boolean; // changed since assembly; words are left out until it is re-assembled
+  words: TimelineWord[];
+}
+
+/**
+ * An assembled chapter's audio, as stored
+ */
+export interface ChapterAudioRecord {
+  chapter_id: string;
+  title: string | null;
+  audio_url: string | null;
+  duration_seconds: number | null;
+  stale: boolean;
+}
+
+/**
+ * What each media overlay entry highlights while it is narrated
+ */
+export type OverlayGranularity = 'sentence' | 'paragraph';
+
+export interface EpubOptions {
+  title?: string; // defaults to the project id
+  author?: string;
+  narrator?: string;
+  publisher?: string;
+  language?: string; // BCP 47, defaults to 'en'
+  identifier?: string; // defaults to a URN of the project id
+  granularity?: OverlayGranularity;
+  chapter_titles?: Record<string, string>; // by chapter id; defaults to 'Chapter n'
 }
 
 export interface NormalizedAudio {
   audio_data: Buffer;
   format: 'mp3' | 'wav';
-  duration: number;
+  duration: number; // seconds, measured after normalization and including silence
   normalized_lufs: number;
 }
 
@@ -152,25 +472,21 @@ export interface AudiobookChapter {
   created_at: Date;
 }
 
+/**
+ * Tags written into the assembled M4B or MP3
+ */
 export interface AudiobookMetadata {
-  title: string;
-  subtitle?: string;
-  author: string;
-  narrator: string;
-  series?: string;
-  series_number?: number;
-  publication_date: Date;
-  publisher: string;
-  isbn?: string;
-  language: string;
-  duration_seconds: number;
+  title: string; // defaults to the project id
+  author?: string;
+  narrator?: string;
+  series?: string; // the album tag; defaults to the title
+  publication_date?: string; // ISO 8601
 }
 
 export interface AssembledAudiobook {
   mp3_file: Buffer | null;
   m4b_file: Buffer | null;
   total_duration: number;
-  total_cost: number;
   chapters: ChapterMarker[];
   metadata: AudiobookMetadata;
 }
@@ -186,21 +502,150 @@ export interface ChapterMarker {
 // Generation Parameters
 // ============================================================================
 
+export type AudioQuality = 'standard' | 'high' | 'premium';
+
+/**
+ * How the provider for each segment is chosen:
+ * - assigned: only the provider of the segment's voice assignment
+ * - cheapest: providers meeting the audio quality tier, cheapest first
+ * - fastest: healthy providers, lowest observed latency first
+ * - fallback_chain: providers in a fixed order
+ */
+export type RoutingPolicy = 'assigned' | 'cheapest' | 'fastest' | 'fallback_chain';
+
+export interface RoutingOptions {
+  policy?: RoutingPolicy;
+  quality_policies?: Partial<Record<AudioQuality, RoutingPolicy>>; // takes precedence over policy
+  fallback_chain?: TTSProvider[];
+}
+
+/**
+ * Per-provider request limits; 0 disables a limit
+ */
+export interface RateLimits {
+  requestsPerSecond: number;
+  concurrency: number;
+  charactersPerMinute: number;
+}
+
+/**
+ * Per-provider circuit breaker
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutive_failures: number;
+  error_rate: number; // over the rolling window
+  opened_at: string | null;
+  retry_at: string | null; // when the next half-open probe is allowed
+}
+
+/**
+ * Spending limits for a generation run
+ */
+export type BudgetAction = 'stop' | 'downgrade';
+
+export interface BudgetOptions {
+  max_cost_dollars?: number; // cap for the run, across retries
+  tenant_id?: string; // the gateway's X-Company-Id; also charged against the tenant's monthly cap
+  warn_thresholds?: number[]; // fractions of the cap, e.g. [0.5, 0.8]
+  on_exceeded?: BudgetAction; // stop the run, or switch to cheaper providers
+}
+
+export interface BudgetReport {
+  cap_dollars: number | null; // the binding cap: run cap or what is left of the tenant's month
+  projected_dollars: number;
+  spent_dollars: number; // by this run, across retries
+  downgraded_segments: number;
+}
+
+export interface TenantBudget {
+  tenant_id: string;
+  monthly_cap_dollars: number | null;
+  month_spent_dollars: number;
+}
+
 export interface GenerationParams {
   project_id: string;
+  run_id?: string; // identifies the run across retries; set by the worker to the job id
   chapters: Chapter[];
   voice_assignments: VoiceAssignment[];
+  characters?: CharacterBible[];
+  emotion_overrides?: EmotionOverride[];
+  normalization?: NormalizationOptions;
   narrator_voice_id?: string;
-  audio_quality?: 'standard' | 'high' | 'premium';
-  format?: 'm4b' | 'mp3';
+  audio_quality?: AudioQuality;
+  routing?: RoutingOptions;
+  budget?: BudgetOptions;
+  scope?: RenderScope;
+  format?: 'm4b' | 'mp3' | 'epub';
+  metadata?: Partial<AudiobookMetadata>; // tags for format 'm4b' or 'mp3'
+  epub?: EpubOptions; // with format 'epub'; chapter titles default to the chapters'
+}
+
+/**
+ * Part of the book to render, for review cycles and pickups. Other chapters
+ * keep their stored segments and audio. Both fields may be given.
+ */
+export interface RenderScope {
+  chapters?: number[]; // chapter_number of each whole chapter to render
+  segments?: SegmentRange;
+}
+
+export interface SegmentRange {
+  chapter: number; // chapter_number
+  from: number; // sequence_number, inclusive
+  to: number; // sequence_number, inclusive
 }
 
+/**
+ * What a resumed run needs: it renders the stored segments, so only a scope
+ * has to be resolved against the chapters (which also title EPUB chapters)
+ */
+export type ResumeParams = Pick<
+  GenerationParams,
+  'project_id' | 'run_id' | 'voice_assignments' | 'audio_quality' | 'routing' | 'budget' | 'scope' | 'format' | 'metadata' | 'epub'
+> & Partial<Pick<GenerationParams, 'chapters'>>;
+
 export interface TTSGenerationParams {
   text: string;
   voice_id: string;
   model?: string;
   settings?: VoiceSettings;
   emotion?: EmotionContext;
+  performance?: PerformanceDirectives;
+}
+
+// ============================================================================
+// Job Queue Types
+// ============================================================================
+
+export type JobState = 'queued' | 'running' | 'paused' | 'failed' | 'succeeded' | 'cancelled';
+
+/**
+ * Stop requested of the worker running a job
+ */
+export type JobControl = 'pause' | 'cancel';
+
+export interface GenerationJob {
+  id: string;
+  project_id: string;
+  state: JobState;
+  params: GenerationParams;
+  attempts: number; // failed attempts, including lost leases
+  max_attempts: number;
+  progress: ProgressUpdate | null;
+  error: string | null;
+  lease_owner: string | null;
+  lease_expires_at: string | null; // ISO timestamp
+  run_after: string; // ISO timestamp, when a queued job may next be claimed
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  report: RenderReport | null; // set when the job succeeds
+  control: JobControl | null; // set until the running worker acts on it
+  segments_stored: boolean; // a run stored its segments, so later runs resume from them
 }
 
 // ============================================================================
@@ -226,8 +671,18 @@ export interface VoiceSearchParams {
 
 export interface AudioAssemblyParams {
   project_id: string;
-  audio_segments: GeneratedAudio[];
+  chapters: AssemblyChapter[]; // in book order
   metadata: AudiobookMetadata;
+  format: 'm4b' | 'mp3';
+}
+
+/**
+ * An assembled chapter as stored, with the duration measured when it was assembled
+ */
+export interface AssemblyChapter {
+  title: string;
+  audio: Buffer; // MP3
+  duration: number; // seconds
 }
 
 // ============================================================================
@@ -247,8 +702,46 @@ export interface CostEstimate {
   elevenlabs_cost: number;
   xtts_cost: number;
   playht_cost: number;
-  recommended_provider: TTSProvider;
-  total_cost: number;
+  recommended_provider: TTSProvider; // cheapest enabled provider meeting audio_quality
+  total_cost: number; // with the run's routing policy and voice assignments
+  audio_quality: AudioQuality;
+  routing_policy: RoutingPolicy;
+  segment_count: number;
+  word_count: number;
+  characters_by_provider: Partial<Record<TTSProvider, number>>;
+  speakers: SpeakerEstimate[];
+  provider_costs: Partial<Record<TTSProvider, number>>; // the whole book on each loaded provider
+  voice_assignments: VoiceAssignment[]; // as given, or matched from the Character Bible
+}
+
+export interface SpeakerEstimate {
+  character_name: string; // 'narrator' for narration
+  voice_id: string | null; // null when no voice is assigned
+  provider: TTSProvider;
+  characters: number;
+  words: number;
+  words_per_minute: number;
+  words_per_minute_profiled: boolean; // measured from the voice's rendered segments
+  duration_seconds: number;
+}
+
+export type EstimateParams = Omit<GenerationParams, 'voice_assignments' | 'run_id' | 'budget' | 'scope'> & {
+  voice_assignments?: VoiceAssignment[];
+};
+
+export interface SynthesisCacheStats {
+  project_id: string;
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  dollars_saved: number;
+  entries: number;
+  bytes: number;
+}
+
+export interface SynthesisCacheEviction {
+  entries_removed: number;
+  bytes_freed: number;
 }
 
 // ============================================================================
@@ -272,6 +765,9 @@ export type ProgressStage =
   | 'assembling_audiobook'
   | 'finalizing'
   | 'complete'
+  | 'paused'
+  | 'cancelled'
+  | 'interrupted' // the worker shut down or lost its lease; the job runs again elsewhere
   | 'error';
 
 // ============================================================================
@@ -285,7 +781,7 @@ export interface CreateAudiobookRequest {
   audioQuality?: 'standard' | 'high' | 'premium';
   includeMusic?: boolean;
   includeSFX?: boolean;
-  outputFormat?: 'm4b' | 'mp3' | 'both';
+  outputFormat?: 'm4b' | 'mp3' | 'both' | 'epub';
 }
 
 export interface CreateAudiobookResponse {
@@ -310,7 +806,7 @@ export interface VoiceAssignmentResponse {
 }
 
 export interface GenerateAudiobookRequest {
-  chapters?: number[];
+  scope?: RenderScope; // the request's `chapters` carry the manuscript, so selection goes here
   streamProgress?: boolean;
 }
 
@@ -373,16 +869,36 @@ export interface AudiobookVoiceRow {
 
 export interface AudiobookSegmentRow {
   id: string;
+  project_id: string;
+  position: number; // order within the whole book
   chapter_id: string;
   sequence_number: number;
+  paragraph_number: number;
   segment_type: string;
   character_name: string | null;
+  attribution_confidence: string | null;
   text_content: string;
   emotion_detected: string | null;
   emotion_intensity: string | null;
+  emotion_locked: boolean;
+  performance: PerformanceDirectives | null;
+  normalization_changes: NormalizationChange[] | null;
   audio_url: string | null;
+  audio_format: string | null;
   duration_seconds: string | null;
+  silence_before_seconds: string | null;
+  silence_after_seconds: string | null;
+  provider: string | null;
+  cost_dollars: string | null;
+  voice_id: string | null;
+  sample_rate: number | null;
+  channels: number | null;
+  channel_layout: string | null;
+  alignment: AlignmentTrack | null;
+  speech_offset_seconds: string | null;
+  voice_fingerprint: string | null;
   status: string;
+  error_message: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -396,3 +912,15 @@ export interface AudiobookUsageRow {
   cost_dollars: string;
   created_at: Date;
 }
+
+export interface AudiobookPronunciationRow {
+  id: string;
+  project_id: string;
+  word: string;
+  respelling: string | null;
+  ipa: string | null;
+  case_sensitive: boolean;
+  whole_word: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
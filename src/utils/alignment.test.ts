@@ -0,0 +1,47 @@
+import { alignWords, timedWordsFromCharacters } from './alignment';
+
+describe('timedWordsFromCharacters', () => {
+  it('joins characters into words and skips markup tags', () => {
+    const characters = [...'Hi <break/> you'];
+    const starts = characters.map((_, index) => index * 0.1);
+    const ends = characters.map((_, index) => index * 0.1 + 0.1);
+
+    expect(timedWordsFromCharacters(characters, starts, ends)).toEqual([
+      { word: 'Hi', start: 0, end: expect.closeTo(0.2) },
+      { word: 'you', start: expect.closeTo(1.2), end: expect.closeTo(1.5) }
+    ]);
+  });
+});
+
+describe('alignWords', () => {
+  it('shares the duration out over the words when there are no timings', () => {
+    const track = alignWords('One two, three.', 3);
+
+    expect(track.source).toBe('estimated');
+    expect(track.words.map(word => [word.word, word.char_start, word.char_end])).toEqual([
+      ['One', 0, 3],
+      ['two,', 4, 8],
+      ['three.', 9, 15]
+    ]);
+    expect(track.words[0].start).toBe(0);
+    expect(track.words[2].end).toBeCloseTo(3);
+    track.words.slice(1).forEach((word, index) => {
+      expect(word.start).toBeGreaterThanOrEqual(track.words[index].end);
+    });
+  });
+
+  it('takes provider timings for matched words and fits the rest between them', () => {
+    const track = alignWords('Doctor Smith arrived.', 2, [
+      { word: 'Dahk-ter', start: 0, end: 0.5 },
+      { word: 'Smith', start: 0.6, end: 1 },
+      { word: 'arrived', start: 1.1, end: 1.8 }
+    ]);
+
+    expect(track.source).toBe('provider');
+    expect(track.words[1]).toMatchObject({ word: 'Smith', start: 0.6, end: 1 });
+    expect(track.words[2]).toMatchObject({ word: 'arrived.', start: 1.1, end: 1.8 });
+    // The respelled word is fitted before its timed neighbour
+    expect(track.words[0].start).toBe(0);
+    expect(track.words[0].end).toBeCloseTo(0.6);
+  });
+});
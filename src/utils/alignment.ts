@@ -0,0 +1,153 @@
+/**
+ * Text-audio alignment
+ * Works out when each word of a segment is spoken, from provider timings where
+ * there are any and from the audio's length where there are not
+ */
+
+import { AlignmentTrack, TimedWord, WordTiming } from '../types';
+
+// Extra time after a word, in characters' worth of speech, for the punctuation that ends it
+const SENTENCE_PAUSE_CHARS = 4;
+const CLAUSE_PAUSE_CHARS = 2;
+
+interface TextWord {
+  word: string;
+  char_start: number;
+  char_end: number;
+}
+
+/**
+ * Words of a provider's character-level timings, e.g. ElevenLabs' with-timestamps
+ * alignment. Markup tags in the request text are skipped.
+ */
+export function timedWordsFromCharacters(characters: string[], starts: number[], ends: number[]): TimedWord[] {
+  const words: TimedWord[] = [];
+  let current: TimedWord | null = null;
+  let inTag = false;
+
+  characters.forEach((character, index) => {
+    if (character === '<') inTag = true;
+    const skip = inTag || /\s/.test(character);
+    if (character === '>') inTag = false;
+
+    if (skip) {
+      if (current) words.push(current);
+      current = null;
+      return;
+    }
+
+    if (current) {
+      current.word += character;
+      current.end = ends[index];
+    } else {
+      current = { word: character, start: starts[index], end: ends[index] };
+    }
+  });
+
+  if (current) words.push(current);
+  return words;
+}
+
+/**
+ * Align a segment's text with its audio. Words matched to provider timings take
+ * those times; the rest share out the time around them by length, with pauses
+ * after punctuation. Without provider timings the whole duration is shared out.
+ */
+export function alignWords(text: string, duration: number, timed?: TimedWord[]): AlignmentTrack {
+  const words = textWords(text);
+  const anchors = timed?.length ? matchWords(words, timed) : new Map<number, TimedWord>();
+  const timings: WordTiming[] = new Array(words.length);
+
+  let index = 0;
+  while (index < words.length) {
+    const anchor = anchors.get(index);
+    if (anchor) {
+      timings[index] = { ...words[index], start: anchor.start, end: anchor.end };
+      index++;
+      continue;
+    }
+
+    // A run of unmatched words between the surrounding anchors
+    let runEnd = index;
+    while (runEnd < words.length && !anchors.has(runEnd)) runEnd++;
+
+    const from = index > 0 ? timings[index - 1].end : 0;
+    const to = anchors.get(runEnd)?.start ?? duration;
+    shareOut(words.slice(index, runEnd), from, Math.max(from, to)).forEach((timing, offset) => {
+      timings[index + offset] = timing;
+    });
+    index = runEnd;
+  }
+
+  return { source: anchors.size > 0 ? 'provider' : 'estimated', words: timings };
+}
+
+function textWords(text: string): TextWord[] {
+  return [...text.matchAll(/\S+/g)].map(match => ({
+    word: match[0],
+    char_start: match.index!,
+    char_end: match.index! + match[0].length
+  }));
+}
+
+/**
+ * Spread words over a stretch of time in proportion to their length
+ */
+function shareOut(words: TextWord[], from: number, to: number): WordTiming[] {
+  const spoken = words.map(word => word.word.replace(/[^\p{L}\p{N}]/gu, '').length || 1);
+  const pauses = words.map((word): number => /[.!?…]["'”’)]*$/.test(word.word)
+    ? SENTENCE_PAUSE_CHARS
+    : /[,;:—–-]["'”’)]*$/.test(word.word) ? CLAUSE_PAUSE_CHARS : 0);
+
+  // The run's last pause falls outside it
+  const units = spoken.reduce((sum, length) => sum + length, 0) +
+    pauses.slice(0, -1).reduce((sum, pause) => sum + pause, 0);
+  const perUnit = units > 0 ? (to - from) / units : 0;
+
+  let time = from;
+  return words.map((word, index) => {
+    const start = time;
+    const end = start + spoken[index] * perUnit;
+    time = end + (index < words.length - 1 ? pauses[index] * perUnit : 0);
+    return { ...word, start, end };
+  });
+}
+
+/**
+ * Pair text words with timed words by longest common subsequence, comparing
+ * letters and digits only. Words respelled for pronunciation stay unmatched.
+ */
+function matchWords(words: TextWord[], timed: TimedWord[]): Map<number, TimedWord> {
+  const a = words.map(word => comparable(word.word));
+  const b = timed.map(word => comparable(word.word));
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] && a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, TimedWord>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] && a[i] === b[j]) {
+      matches.set(i, timed[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+function comparable(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
@@ -0,0 +1,56 @@
+import { spawnSync } from 'child_process';
+import { probeAudio } from './audioProbe';
+import { encodeWav } from './wav';
+
+const hasFfmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+
+function tone(seconds: number, sampleRate = 22050): Buffer {
+  const samples = new Int16Array(Math.round(seconds * sampleRate));
+  samples.forEach((_, index) => { samples[index] = Math.round(Math.sin(index / 10) * 8000); });
+  return encodeWav(samples, sampleRate);
+}
+
+/**
+ * Re-encode a WAV with ffmpeg, e.g. to MP3 with a different layout
+ */
+function transcode(wav: Buffer, args: string[]): Buffer {
+  const result = spawnSync('ffmpeg', ['-v', 'error', '-f', 'wav', '-i', 'pipe:0', ...args, 'pipe:1'], { input: wav });
+  if (result.status !== 0) {
+    throw new Error(result.stderr.toString());
+  }
+  return result.stdout;
+}
+
+describe('probeAudio', () => {
+  it('reads a PCM WAV from its header', async () => {
+    expect(await probeAudio(tone(1.5), 'wav')).toEqual({
+      duration: 1.5,
+      sample_rate: 22050,
+      channels: 1,
+      channel_layout: 'mono'
+    });
+  });
+
+  it('counts every channel of a stereo WAV', async () => {
+    const wav = tone(1);
+    wav.writeUInt16LE(2, 22);
+    wav.writeUInt32LE(22050 * 4, 28);
+    wav.writeUInt16LE(4, 32);
+
+    // The same bytes hold half as many stereo frames
+    expect(await probeAudio(wav, 'wav')).toEqual({ duration: 0.5, sample_rate: 22050, channels: 2, channel_layout: 'stereo' });
+  });
+
+  (hasFfmpeg ? it : it.skip)('decodes an MP3 to measure it', async () => {
+    const mp3 = transcode(tone(2), ['-ac', '2', '-ar', '44100', '-f', 'mp3']);
+
+    const probed = await probeAudio(mp3, 'mp3');
+
+    expect(probed.duration).toBeCloseTo(2, 1);
+    expect(probed).toEqual(expect.objectContaining({ sample_rate: 44100, channels: 2, channel_layout: 'stereo' }));
+  });
+
+  (hasFfmpeg ? it : it.skip)('rejects a buffer with no audio in it', async () => {
+    await expect(probeAudio(Buffer.from('not audio'), 'mp3')).rejects.toThrow('Audio probe failed');
+  });
+});
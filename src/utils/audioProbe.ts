@@ -0,0 +1,87 @@
+/**
+ * Audio probing
+ * Measures synthesized audio as it decodes, rather than trusting a container's
+ * header or guessing from the word count
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Writable } from 'stream';
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from '../config';
+import { wavInfo } from './wav';
+import { AudioProperties } from '../types';
+
+// Decoded samples are counted as 16-bit PCM
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Decoded duration, sample rate and channel layout of an audio buffer.
+ * PCM WAV is read directly; anything else is decoded with ffmpeg, since MP3
+ * headers without a frame index only give a duration estimated from bitrate.
+ */
+export async function probeAudio(audio: Buffer, format: string): Promise<AudioProperties> {
+  const wav = wavInfo(audio);
+  if (wav && wav.sample_rate > 0 && wav.channels > 0) {
+    return { ...wav, channel_layout: defaultLayout(wav.channels) };
+  }
+
+  await fs.mkdir(config.audio.tempDir, { recursive: true });
+  const tempInput = path.join(config.audio.tempDir, `probe_${randomUUID()}.${format}`);
+  await fs.writeFile(tempInput, audio);
+
+  try {
+    const data = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+      ffmpeg.ffprobe(tempInput, (err, result) => err ? reject(err) : resolve(result));
+    });
+
+    const stream = data.streams.find(candidate => candidate.codec_type === 'audio');
+    if (!stream?.sample_rate || !stream.channels) {
+      throw new Error('No audio stream found');
+    }
+
+    const sampleRate = Number(stream.sample_rate);
+    const channels = stream.channels;
+    const bytes = await decodedBytes(tempInput);
+
+    return {
+      duration: bytes / (BYTES_PER_SAMPLE * channels * sampleRate),
+      sample_rate: sampleRate,
+      channels,
+      channel_layout: stream.channel_layout || defaultLayout(channels)
+    };
+  } catch (error) {
+    throw new Error(`Audio probe failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await fs.unlink(tempInput).catch(() => undefined);
+  }
+}
+
+/**
+ * Size of the file decoded to PCM at its own sample rate and channel count
+ */
+function decodedBytes(file: string): Promise<number> {
+  let bytes = 0;
+  const counter = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      callback();
+    }
+  });
+
+  return new Promise<number>((resolve, reject) => {
+    counter.on('finish', () => resolve(bytes));
+
+    ffmpeg(file)
+      .noVideo()
+      .audioCodec('pcm_s16le')
+      .format('s16le')
+      .on('error', (err: Error) => reject(err))
+      .pipe(counter, { end: true });
+  });
+}
+
+function defaultLayout(channels: number): string {
+  return channels === 1 ? 'mono' : channels === 2 ? 'stereo' : `${channels}c`;
+}
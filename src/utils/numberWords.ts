@@ -0,0 +1,156 @@
+/**
+ * Number spelling helpers
+ * Spell integers, ordinals, years and digit strings as English words
+ */
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen',
+  'seventeen', 'eighteen', 'nineteen'
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth'
+};
+
+export interface SpellingOptions {
+  british?: boolean; // "one hundred and five"
+}
+
+/**
+ * Spell a non-negative integer below one quadrillion
+ */
+export function spellCardinal(value: number, options: SpellingOptions = {}): string {
+  if (!Number.isSafeInteger(value) || value < 0 || value >= 1e15) {
+    return spellDigits(String(value));
+  }
+  if (value === 0) {
+    return ONES[0];
+  }
+
+  const groups: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 1000)) {
+    groups.push(rest % 1000);
+  }
+
+  const words: string[] = [];
+  for (let index = groups.length - 1; index >= 0; index--) {
+    const group = groups[index];
+    if (group === 0) continue;
+
+    // British usage joins a trailing group below one hundred with "and"
+    if (options.british && index === 0 && group < 100 && words.length > 0) {
+      words.push('and');
+    }
+    words.push(spellHundreds(group, options));
+    if (SCALES[index]) {
+      words.push(SCALES[index]);
+    }
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Spell an integer as an ordinal ("twenty-first")
+ */
+export function spellOrdinal(value: number, options: SpellingOptions = {}): string {
+  const cardinal = spellCardinal(value, options);
+  const match = cardinal.match(/([a-z]+)$/);
+  if (!match) {
+    return cardinal;
+  }
+
+  const last = match[1];
+  const ordinal = IRREGULAR_ORDINALS[last] ??
+    (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+
+  return cardinal.slice(0, cardinal.length - last.length) + ordinal;
+}
+
+/**
+ * Spell a year the way it is read aloud ("eighteen ninety-nine", "two thousand five")
+ */
+export function spellYear(value: number, options: SpellingOptions = {}): string {
+  if (value < 1000 || value > 9999 || (value >= 2000 && value < 2010)) {
+    return spellCardinal(value, options);
+  }
+
+  const century = Math.floor(value / 100);
+  const rest = value % 100;
+
+  if (rest === 0) {
+    return value % 1000 === 0
+      ? spellCardinal(value, options)
+      : `${spellCardinal(century)} hundred`;
+  }
+  if (rest < 10) {
+    return `${spellCardinal(century)} oh ${ONES[rest]}`;
+  }
+  return `${spellCardinal(century)} ${spellCardinal(rest)}`;
+}
+
+/**
+ * Spell each digit separately ("zero zero seven")
+ */
+export function spellDigits(digits: string): string {
+  return digits
+    .split('')
+    .filter(char => /\d/.test(char))
+    .map(char => ONES[Number(char)])
+    .join(' ');
+}
+
+/**
+ * Spell a fraction ("one half", "three quarters", "five eighths")
+ */
+export function spellFraction(numerator: number, denominator: number, options: SpellingOptions = {}): string {
+  const named: Record<number, [string, string]> = { 2: ['half', 'halves'], 4: ['quarter', 'quarters'] };
+  const ordinal = spellOrdinal(denominator, options);
+  const [singular, plural] = named[denominator] ?? [ordinal, pluralizeSpelled(ordinal)];
+
+  return `${spellCardinal(numerator, options)} ${numerator === 1 ? singular : plural}`;
+}
+
+/**
+ * Plural of a spelled number ("nineties", "hundreds")
+ */
+export function pluralizeSpelled(spelled: string): string {
+  return spelled.endsWith('y') ? `${spelled.slice(0, -1)}ies` : `${spelled}s`;
+}
+
+function spellHundreds(value: number, options: SpellingOptions): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const words: string[] = [];
+
+  if (hundreds > 0) {
+    words.push(`${ONES[hundreds]} hundred`);
+    if (rest > 0 && options.british) {
+      words.push('and');
+    }
+  }
+  if (rest > 0) {
+    words.push(spellTens(rest));
+  }
+
+  return words.join(' ');
+}
+
+function spellTens(value: number): string {
+  if (value < 20) {
+    return ONES[value];
+  }
+  const ones = value % 10;
+  return ones === 0 ? TENS[Math.floor(value / 10)] : `${TENS[Math.floor(value / 10)]}-${ONES[ones]}`;
+}
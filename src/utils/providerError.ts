@@ -0,0 +1,49 @@
+/**
+ * Provider request errors
+ * Providers wrap failures in their own message; the HTTP status of the
+ * response that failed the request is kept so callers can tell a rate limit
+ * from a broken provider
+ */
+
+import axios from 'axios';
+
+/**
+ * A failed provider request, with the HTTP status of its response if there was one
+ */
+export class ProviderError extends Error {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+/**
+ * Wrap an error from a provider request under a provider-specific message
+ */
+export function wrapProviderError(prefix: string, error: unknown): ProviderError {
+  const message = error instanceof Error ? error.message : String(error);
+  return new ProviderError(`${prefix}: ${message}`, statusOf(error));
+}
+
+/**
+ * HTTP status of a failed provider request, wrapped or not
+ */
+export function statusOf(error: unknown): number | null {
+  if (error instanceof ProviderError) {
+    return error.status;
+  }
+  if (axios.isAxiosError(error)) {
+    return error.response?.status ?? null;
+  }
+  return null;
+}
+
+/**
+ * Whether the provider turned the request away for its rate limit
+ */
+export function isRateLimited(error: unknown): boolean {
+  return statusOf(error) === 429;
+}
@@ -0,0 +1,130 @@
+import { RateLimiter, rateLimiterFor } from './rateLimiter';
+import { config } from '../config';
+import { TTSProvider } from '../types';
+
+const limits = { requestsPerSecond: 0, concurrency: 1, charactersPerMinute: 0 };
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds requests past the concurrency limit until a slot is released', async () => {
+    const limiter = new RateLimiter('elevenlabs', limits);
+    const release = await limiter.acquire(10);
+
+    let second = false;
+    const waiting = limiter.acquire(10).then(releaseSecond => {
+      second = true;
+      return releaseSecond;
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(second).toBe(false);
+
+    release();
+    (await waiting)();
+    expect(second).toBe(true);
+  });
+
+  it('rejects a queued request once its signal is aborted, and serves the next one', async () => {
+    const limiter = new RateLimiter('elevenlabs', limits);
+    const release = await limiter.acquire(10);
+    const controller = new AbortController();
+
+    const aborted = limiter.acquire(10, controller.signal);
+    const next = limiter.acquire(10);
+    controller.abort('cancel');
+
+    await expect(aborted).rejects.toThrow('Rate limit wait aborted');
+    release();
+    (await next)();
+  });
+
+  it('removes its abort listeners once a waiting request gets its slot', async () => {
+    const limiter = new RateLimiter('elevenlabs', limits);
+    const controller = new AbortController();
+    const added = jest.spyOn(controller.signal, 'addEventListener');
+    const removed = jest.spyOn(controller.signal, 'removeEventListener');
+
+    const release = await limiter.acquire(10);
+    const waiting = limiter.acquire(10, controller.signal);
+    await new Promise(resolve => setImmediate(resolve));
+    release();
+    (await waiting)();
+
+    expect(added.mock.calls.length).toBeGreaterThan(1);
+    expect(new Set(removed.mock.calls.map(([, listener]) => listener)))
+      .toEqual(new Set(added.mock.calls.map(([, listener]) => listener)));
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const limiter = new RateLimiter('elevenlabs', limits);
+    const controller = new AbortController();
+    controller.abort('pause');
+
+    await expect(limiter.acquire(10, controller.signal)).rejects.toThrow('Rate limit wait aborted');
+  });
+
+  it('waits out a 429 Retry-After before the next request', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter('elevenlabs', { ...limits, concurrency: 0 });
+    limiter.observe(429, { 'retry-after': '2' });
+
+    let acquired = false;
+    const pending = limiter.acquire(10).then(release => {
+      acquired = true;
+      release();
+    });
+
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(acquired).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(600);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+
+  it('spaces requests to the per-second limit', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter('elevenlabs', { ...limits, concurrency: 0, requestsPerSecond: 2 });
+
+    (await limiter.acquire(10))();
+    let acquired = false;
+    const pending = limiter.acquire(10).then(release => {
+      acquired = true;
+      release();
+    });
+
+    await jest.advanceTimersByTimeAsync(400);
+    expect(acquired).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(200);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+});
+
+describe('rateLimiterFor', () => {
+  it('shares one limiter per provider', () => {
+    expect(rateLimiterFor('elevenlabs')).toBe(rateLimiterFor('elevenlabs'));
+  });
+
+  it('applies the default limits to providers configured without any', async () => {
+    const limiter = rateLimiterFor('acme' as TTSProvider);
+    const slots = await Promise.all(
+      Array.from({ length: config.tts.defaultRateLimit.concurrency }, () => limiter.acquire(10))
+    );
+
+    let acquired = false;
+    const pending = limiter.acquire(10).then(release => {
+      acquired = true;
+      release();
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(acquired).toBe(false);
+
+    slots.forEach(release => release());
+    await pending;
+    expect(acquired).toBe(true);
+  });
+});
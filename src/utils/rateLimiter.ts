@@ -0,0 +1,326 @@
+/**
+ * Per-provider rate limiting
+ * Keeps requests within each provider's plan limits, and slows down when the
+ * provider answers 429 or reports its quota as spent
+ */
+
+import { AxiosError, AxiosInstance } from 'axios';
+import axiosRetry from 'axios-retry';
+import { config } from '../config';
+import { logger } from './logger';
+import { RateLimits, TTSProvider } from '../types';
+
+// Wait after a 429 that carries no Retry-After
+const DEFAULT_BACKOFF_MS = 1000;
+// Adaptive slowdown halves the rate on each 429 and recovers a little per success
+const MIN_RATE_FACTOR = 0.1;
+const RATE_RECOVERY_STEP = 0.05;
+const CHARACTER_WINDOW_MS = 60000;
+
+/**
+ * Sleep that ends early when the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Settle with the turn, or reject once the signal is aborted. A slot the
+ * turn gets after the abort is released straight away.
+ */
+function untilAborted(turn: Promise<() => void>, signal: AbortSignal): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      reject(new Error('Rate limit wait aborted'));
+      turn.then(release => release(), () => undefined);
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    turn.then(
+      release => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(release);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+export class RateLimiter {
+  private provider: TTSProvider;
+  private limits: RateLimits;
+  private active = 0;
+  private lastRequestAt = 0;
+  private characterLog: { at: number; characters: number }[] = [];
+  private pausedUntil = 0;
+  private rateFactor = 1;
+  // Concurrency limit the provider reports for the account, if any
+  private reportedConcurrency: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private releaseWaiters: (() => void)[] = [];
+
+  constructor(provider: TTSProvider, limits: RateLimits) {
+    this.provider = provider;
+    this.limits = limits;
+  }
+
+  /**
+   * Wait for a request slot, first come first served. The returned function
+   * must be called once the request finishes. Rejects as soon as the signal
+   * is aborted, and the abandoned turn gives up its place in the queue.
+   */
+  acquire(characters: number, signal?: AbortSignal): Promise<() => void> {
+    const turn = this.queue.then(() => this.waitForSlot(characters, signal));
+    this.queue = turn.catch(() => undefined);
+    return signal ? untilAborted(turn, signal) : turn;
+  }
+
+  /**
+   * Read Retry-After and quota headers from every response on the client.
+   * Attach before axios-retry so its delay sees the resulting pause.
+   */
+  attach(client: AxiosInstance): void {
+    client.interceptors.response.use(
+      response => {
+        this.observe(response.status, response.headers as Record<string, unknown>);
+        return response;
+      },
+      (error: AxiosError) => {
+        if (error.response) {
+          this.observe(error.response.status, error.response.headers as Record<string, unknown>);
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * axios-retry delay: at least until the provider's pause has passed
+   */
+  retryDelay(retryCount: number, error: AxiosError): number {
+    return Math.max(this.pausedUntil - Date.now(), axiosRetry.exponentialDelay(retryCount, error));
+  }
+
+  observe(status: number, headers: Record<string, unknown>): void {
+    const now = Date.now();
+    const retryAfterMs = parseRetryAfter(headers['retry-after'], now);
+
+    if (status === 429) {
+      this.rateFactor = Math.max(MIN_RATE_FACTOR, this.rateFactor / 2);
+      this.pauseUntil(now + (retryAfterMs ?? DEFAULT_BACKOFF_MS));
+
+      logger.warn('Provider rate limited, slowing down', {
+        provider: this.provider,
+        retry_after_ms: retryAfterMs,
+        rate_factor: this.rateFactor
+      });
+    } else if (status < 400) {
+      this.rateFactor = Math.min(1, this.rateFactor + RATE_RECOVERY_STEP);
+    }
+
+    if (retryAfterMs !== null && status !== 429) {
+      this.pauseUntil(now + retryAfterMs);
+    }
+
+    // Quota spent for the current window: hold requests until it resets
+    for (const [remainingHeader, resetHeader] of [
+      ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+      ['x-ratelimit-remaining', 'x-ratelimit-reset']
+    ]) {
+      const remaining = headers[remainingHeader];
+      if (remaining !== undefined && Number(remaining) === 0) {
+        const resetMs = parseReset(headers[resetHeader], now);
+        if (resetMs !== null) {
+          this.pauseUntil(now + resetMs);
+        }
+      }
+    }
+
+    const maximumConcurrent = Number(headers['maximum-concurrent-requests']);
+    if (maximumConcurrent > 0) {
+      this.reportedConcurrency = maximumConcurrent;
+    }
+  }
+
+  private async waitForSlot(characters: number, signal?: AbortSignal): Promise<() => void> {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new Error('Rate limit wait aborted');
+      }
+
+      const now = Date.now();
+
+      if (this.active >= this.maxConcurrent()) {
+        await this.slotReleased(signal);
+        continue;
+      }
+
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.requestWait(now),
+        this.characterWait(now, characters)
+      );
+      if (wait > 0) {
+        await sleep(wait, signal);
+        continue;
+      }
+
+      this.active++;
+      this.lastRequestAt = now;
+      if (this.limits.charactersPerMinute > 0) {
+        this.characterLog.push({ at: now, characters });
+      }
+
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.releaseWaiters.splice(0).forEach(resolve => resolve());
+      };
+    }
+  }
+
+  /**
+   * Wait until a request finishes or the signal is aborted
+   */
+  private slotReleased(signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      this.releaseWaiters.push(done);
+      signal?.addEventListener('abort', done, { once: true });
+
+      function done() {
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+    });
+  }
+
+  private maxConcurrent(): number {
+    const limits = [this.limits.concurrency, this.reportedConcurrency ?? 0].filter(limit => limit > 0);
+    if (limits.length === 0) {
+      return Infinity;
+    }
+    return Math.max(1, Math.floor(Math.min(...limits) * this.rateFactor));
+  }
+
+  private requestWait(now: number): number {
+    if (this.limits.requestsPerSecond <= 0) {
+      return 0;
+    }
+    const interval = 1000 / (this.limits.requestsPerSecond * this.rateFactor);
+    return this.lastRequestAt + interval - now;
+  }
+
+  /**
+   * Time until enough of the last minute's characters age out. A request
+   * larger than the whole budget goes through once the window is empty.
+   */
+  private characterWait(now: number, characters: number): number {
+    if (this.limits.charactersPerMinute <= 0) {
+      return 0;
+    }
+
+    this.characterLog = this.characterLog.filter(entry => now - entry.at < CHARACTER_WINDOW_MS);
+
+    const budget = this.limits.charactersPerMinute * this.rateFactor;
+    let used = this.characterLog.reduce((sum, entry) => sum + entry.characters, 0);
+    if (used + characters <= budget) {
+      return 0;
+    }
+
+    for (const entry of this.characterLog) {
+      used -= entry.characters;
+      if (used === 0 || used + characters <= budget) {
+        return entry.at + CHARACTER_WINDOW_MS - now;
+      }
+    }
+    return 0;
+  }
+
+  private pauseUntil(until: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+  }
+}
+
+/**
+ * Retry-After: delay in seconds, or an HTTP date
+ */
+function parseRetryAfter(value: unknown, now: number): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Quota reset: seconds, a Unix timestamp, or a duration like `1m30s` or `250ms`
+ */
+function parseReset(value: unknown, now: number): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const numeric = Number(value);
+  if (!isNaN(numeric)) {
+    // Values this large are timestamps rather than delays
+    return numeric > 1e9 ? Math.max(0, numeric * 1000 - now) : numeric * 1000;
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  const parts = [...String(value).matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0) {
+    return null;
+  }
+  return parts.reduce((total, [, amount, unit]) => total + parseFloat(amount) * units[unit], 0);
+}
+
+const limiters = new Map<TTSProvider, RateLimiter>();
+
+/**
+ * The process-wide limiter for a provider, shared by the orchestrator that
+ * takes slots and the provider client that reports the responses
+ */
+export function rateLimiterFor(provider: TTSProvider): RateLimiter {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new RateLimiter(provider, rateLimitsFor(provider));
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * The provider's configured limits, or the defaults for providers with none
+ */
+function rateLimitsFor(provider: TTSProvider): RateLimits {
+  const settings: unknown = config.tts[provider as keyof typeof config.tts];
+  if (settings && typeof settings === 'object' && 'rateLimit' in settings) {
+    return settings.rateLimit as RateLimits;
+  }
+  return config.tts.defaultRateLimit;
+}
@@ -0,0 +1,121 @@
+import { diffSegments, mergeScopedSegments } from './segmentDiff';
+import { AudioSegment, PersistedSegment } from '../types';
+
+function segment(id: string, text: string, overrides: Partial<AudioSegment> = {}): AudioSegment {
+  return {
+    id,
+    chapter_id: id.split('_seg_')[0],
+    sequence_number: Number(id.split('_seg_')[1]),
+    paragraph_number: 1,
+    segment_type: 'narrative',
+    character_name: null,
+    attribution_confidence: null,
+    text_content: text,
+    emotion_detected: 'neutral',
+    emotion_intensity: 0.5,
+    emotion_locked: false,
+    voice_fingerprint: 'narrator',
+    ...overrides
+  };
+}
+
+function stored(id: string, text: string, overrides: Partial<PersistedSegment> = {}): PersistedSegment {
+  return {
+    ...segment(id, text),
+    status: 'complete',
+    audio_url: `/audio/${id}.mp3`,
+    duration_seconds: 1,
+    error_message: null,
+    alignment: null,
+    speech_offset_seconds: null,
+    ...overrides
+  };
+}
+
+describe('diffSegments', () => {
+  it('keeps unchanged segments and marks edited ones', () => {
+    const diff = diffSegments(
+      [stored('ch1_seg_1', 'One.'), stored('ch1_seg_2', 'Two.')],
+      [segment('ch1_seg_1', 'One.'), segment('ch1_seg_2', 'Two, edited.')]
+    );
+
+    expect(diff.segments.map(s => s.id)).toEqual(['ch1_seg_1', 'ch1_seg_2']);
+    expect([...diff.changes]).toEqual([['ch1_seg_2', 'changed']]);
+    expect(diff.removed).toEqual([]);
+    expect([...diff.affectedChapters]).toEqual(['ch1']);
+  });
+
+  it('keeps the stored id of a segment moved by an insertion', () => {
+    const diff = diffSegments(
+      [stored('ch1_seg_1', 'One.'), stored('ch1_seg_2', 'Two.')],
+      [segment('ch1_seg_1', 'Inserted.'), segment('ch1_seg_2', 'One.'), segment('ch1_seg_3', 'Two.')]
+    );
+
+    expect(diff.segments.map(s => s.id)).toEqual([expect.stringMatching(/^ch1_seg_1_/), 'ch1_seg_1', 'ch1_seg_2']);
+    expect([...diff.changes.values()]).toEqual(['added']);
+  });
+
+  it('reports stored segments that are gone', () => {
+    const diff = diffSegments(
+      [stored('ch1_seg_1', 'One.'), stored('ch2_seg_1', 'Other chapter.')],
+      [segment('ch1_seg_1', 'One.')]
+    );
+
+    expect(diff.removed.map(s => s.id)).toEqual(['ch2_seg_1']);
+    expect([...diff.affectedChapters]).toEqual(['ch2']);
+  });
+
+  it('re-renders a segment whose voice changed', () => {
+    const diff = diffSegments(
+      [stored('ch1_seg_1', 'One.', { voice_fingerprint: 'old-voice' })],
+      [segment('ch1_seg_1', 'One.', { voice_fingerprint: 'new-voice' })]
+    );
+
+    expect(diff.changes.get('ch1_seg_1')).toBe('changed');
+  });
+
+  it('matches segments stored before voices were fingerprinted', () => {
+    const diff = diffSegments(
+      [stored('ch1_seg_1', 'One.', { voice_fingerprint: null })],
+      [segment('ch1_seg_1', 'One.')]
+    );
+
+    expect(diff.changes.size).toBe(0);
+  });
+
+  it('re-renders a segment whose detected emotion changed', () => {
+    const diff = diffSegments(
+      [stored('ch1_seg_1', 'One.')],
+      [segment('ch1_seg_1', 'One.', { emotion_detected: 'joy' })]
+    );
+
+    expect(diff.changes.get('ch1_seg_1')).toBe('changed');
+  });
+
+  it('keeps a locked emotion over the one detected again', () => {
+    const diff = diffSegments(
+      [stored('ch1_seg_1', 'One.', { emotion_detected: 'fear', emotion_intensity: 0.9, emotion_locked: true })],
+      [segment('ch1_seg_1', 'One.', { emotion_detected: 'joy' })]
+    );
+
+    expect(diff.changes.size).toBe(0);
+    expect(diff.segments[0]).toMatchObject({ emotion_detected: 'fear', emotion_intensity: 0.9, emotion_locked: true });
+  });
+});
+
+describe('mergeScopedSegments', () => {
+  it('replaces scoped chapters in place and places new ones after their predecessor', () => {
+    const merged = mergeScopedSegments(
+      [stored('ch1_seg_1', 'One.'), stored('ch3_seg_1', 'Three.')],
+      [segment('ch1_seg_1', 'One, edited.'), segment('ch2_seg_1', 'Two.')],
+      ['ch1', 'ch2'],
+      ['ch1', 'ch2', 'ch3']
+    );
+
+    expect(merged.map(s => [s.id, s.text_content])).toEqual([
+      ['ch1_seg_1', 'One, edited.'],
+      ['ch2_seg_1', 'Two.'],
+      ['ch3_seg_1', 'Three.']
+    ]);
+  });
+});
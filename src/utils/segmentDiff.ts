@@ -0,0 +1,185 @@
+/**
+ * Segment Diff
+ * Matches freshly segmented chapters against the segments stored from the last run,
+ * so edited manuscripts only re-render what actually changed
+ */
+
+import { randomUUID } from 'crypto';
+import { AudioSegment, PersistedSegment, SegmentChange } from '../types';
+import { stableStringify } from './stableStringify';
+
+export interface SegmentDiff {
+  segments: AudioSegment[]; // incoming segments, unchanged ones carrying their stored id
+  changes: Map<string, SegmentChange>; // segment id -> how it differs from the last run
+  removed: PersistedSegment[];
+  affectedChapters: Set<string>;
+}
+
+/**
+ * Diff incoming segments against stored ones chapter by chapter.
+ * Segments that would be rendered identically are matched by longest common
+ * subsequence and keep the stored id, and with it their audio. A matched segment
+ * whose emotion was locked keeps the stored emotion over the one detected. An unmatched
+ * segment that reuses the id of an unmatched stored one is "changed"; anything
+ * else is "added".
+ */
+export function diffSegments(stored: PersistedSegment[], incoming: AudioSegment[]): SegmentDiff {
+  const storedByChapter = groupByChapter(stored);
+  const incomingByChapter = groupByChapter(incoming);
+  const storedIds = new Set(stored.map(segment => segment.id));
+  const matchedIds = new Set<string>();
+  const renamed = new Map<AudioSegment, PersistedSegment>();
+
+  for (const [chapterId, chapterSegments] of incomingByChapter) {
+    const previous = storedByChapter.get(chapterId) || [];
+    for (const [next, prior] of matchSequences(previous, chapterSegments)) {
+      renamed.set(next, prior);
+      matchedIds.add(prior.id);
+    }
+  }
+
+  const changes = new Map<string, SegmentChange>();
+  const affectedChapters = new Set<string>();
+
+  const segments = incoming.map(segment => {
+    const prior = renamed.get(segment);
+    if (prior) {
+      return prior.emotion_locked ? {
+        ...segment,
+        id: prior.id,
+        emotion_detected: prior.emotion_detected,
+        emotion_intensity: prior.emotion_intensity,
+        emotion_locked: true
+      } : { ...segment, id: prior.id };
+    }
+
+    affectedChapters.add(segment.chapter_id);
+
+    if (storedIds.has(segment.id) && !matchedIds.has(segment.id)) {
+      changes.set(segment.id, 'changed');
+      return segment;
+    }
+
+    // The id belongs to a stored segment that moved; give this one a fresh id
+    const id = storedIds.has(segment.id) ? `${segment.id}_${randomUUID().slice(0, 8)}` : segment.id;
+    changes.set(id, 'added');
+    return { ...segment, id };
+  });
+
+  const keptIds = new Set(segments.map(segment => segment.id));
+  const removed = stored.filter(segment => !keptIds.has(segment.id));
+  removed.forEach(segment => affectedChapters.add(segment.chapter_id));
+
+  return { segments, changes, removed, affectedChapters };
+}
+
+/**
+ * The whole book for a run that re-segmented only some chapters. Stored segments
+ * of other chapters are kept as they are, and each re-segmented chapter replaces
+ * its stored segments in place. A chapter new to the project goes after the
+ * nearest chapter before it in `chapterOrder` that has segments.
+ */
+export function mergeScopedSegments(
+  stored: PersistedSegment[],
+  scoped: AudioSegment[],
+  scopedChapterIds: string[],
+  chapterOrder: string[]
+): AudioSegment[] {
+  const storedByChapter = groupByChapter(stored);
+  const scopedByChapter = groupByChapter(scoped);
+  const order = [...storedByChapter.keys()];
+
+  for (const chapterId of scopedChapterIds) {
+    if (order.includes(chapterId)) continue;
+
+    const earlier = chapterOrder.slice(0, chapterOrder.indexOf(chapterId)).reverse();
+    const previous = earlier.find(id => order.includes(id));
+    order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, chapterId);
+  }
+
+  return order.flatMap(chapterId => scopedChapterIds.includes(chapterId)
+    ? scopedByChapter.get(chapterId) || []
+    : storedByChapter.get(chapterId) || []);
+}
+
+/**
+ * Everything in a segment's content, besides emotion, that changes its synthesized audio
+ */
+function renderFingerprint(segment: AudioSegment): string {
+  return stableStringify([
+    segment.text_content,
+    segment.character_name,
+    segment.performance ?? null
+  ]);
+}
+
+function emotionFingerprint(segment: AudioSegment): string {
+  return stableStringify([
+    segment.emotion_detected,
+    // Stored with two decimals
+    segment.emotion_intensity === null ? null : Math.round(segment.emotion_intensity * 100) / 100
+  ]);
+}
+
+/**
+ * Whether a stored segment renders as the incoming one would: same content,
+ * emotion and voice. A locked emotion wins over the detected one, so it matches
+ * any; segments stored before voices were fingerprinted match any voice.
+ */
+function rendersAlike(
+  previous: PersistedSegment,
+  previousFingerprint: string,
+  next: AudioSegment,
+  nextFingerprint: string
+): boolean {
+  return previousFingerprint === nextFingerprint &&
+    (previous.emotion_locked || emotionFingerprint(previous) === emotionFingerprint(next)) &&
+    (!previous.voice_fingerprint || previous.voice_fingerprint === (next.voice_fingerprint ?? null));
+}
+
+/**
+ * Longest common subsequence of two segment lists by render fingerprint and voice
+ */
+function matchSequences(
+  previous: PersistedSegment[],
+  next: AudioSegment[]
+): Array<[AudioSegment, PersistedSegment]> {
+  const a = previous.map(renderFingerprint);
+  const b = next.map(renderFingerprint);
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = rendersAlike(previous[i], a[i], next[j], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[AudioSegment, PersistedSegment]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (rendersAlike(previous[i], a[i], next[j], b[j])) {
+      pairs.push([next[j], previous[i]]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+function groupByChapter<T extends AudioSegment>(segments: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const segment of segments) {
+    const group = groups.get(segment.chapter_id) || [];
+    group.push(segment);
+    groups.set(segment.chapter_id, group);
+  }
+  return groups;
+}
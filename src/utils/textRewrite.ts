@@ -0,0 +1,60 @@
+/**
+ * Text rewriting helpers
+ * Apply replacements to a string and keep ranges pointing at the same words
+ */
+
+import { TextRange } from '../types';
+
+export interface TextReplacement extends TextRange {
+  replacement: string;
+}
+
+/**
+ * Apply non-overlapping replacements sorted by start offset
+ */
+export function applyReplacements(text: string, replacements: TextReplacement[]): string {
+  let rewritten = '';
+  let cursor = 0;
+
+  for (const replacement of replacements) {
+    rewritten += text.slice(cursor, replacement.start) + replacement.replacement;
+    cursor = replacement.end;
+  }
+
+  return rewritten + text.slice(cursor);
+}
+
+/**
+ * Map a range in the original text onto the rewritten text.
+ * Edges inside a replaced span snap outwards to cover its replacement.
+ */
+export function remapRange(range: TextRange, replacements: TextReplacement[]): TextRange {
+  return {
+    start: mapOffset(range.start, replacements, 'start'),
+    end: mapOffset(range.end, replacements, 'end')
+  };
+}
+
+function mapOffset(offset: number, replacements: TextReplacement[], edge: 'start' | 'end'): number {
+  let delta = 0;
+
+  for (const replacement of replacements) {
+    if (offset <= replacement.start) break;
+
+    const replacementEnd = replacement.start + delta + replacement.replacement.length;
+    if (offset < replacement.end) {
+      return edge === 'start' ? replacement.start + delta : replacementEnd;
+    }
+    delta = replacementEnd - replacement.end;
+  }
+
+  return offset + delta;
+}
+
+/**
+ * Length of the words a provider speaks, leaving out the phoneme and break
+ * tags added for it. Providers bill on the spoken characters.
+ */
+export function spokenLength(text: string): number {
+  return text.replace(/<\/?(?:phoneme|break)\b[^>]*>/g, '').length;
+}
@@ -0,0 +1,69 @@
+/**
+ * Minimal PCM WAV helpers for audio produced in-process or by local engines
+ */
+
+const HEADER_BYTES = 44;
+
+/**
+ * Wrap 16-bit mono PCM samples in a WAV container
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const dataBytes = samples.length * 2;
+  const buffer = Buffer.alloc(HEADER_BYTES + dataBytes);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + dataBytes, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16); // fmt chunk size
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  buffer.writeUInt16LE(2, 32); // block align
+  buffer.writeUInt16LE(16, 34); // bits per sample
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(dataBytes, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], HEADER_BYTES + i * 2);
+  }
+
+  return buffer;
+}
+
+/**
+ * Duration, sample rate and channel count of a PCM WAV, read from its fmt and
+ * data chunks. Returns null when the buffer is not a WAV file.
+ */
+export function wavInfo(buffer: Buffer): { duration: number; sample_rate: number; channels: number } | null {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    let chunkSize = buffer.readUInt32LE(offset + 4);
+
+    if (chunkId === 'fmt ') {
+      channels = buffer.readUInt16LE(offset + 10);
+      sampleRate = buffer.readUInt32LE(offset + 12);
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (chunkId === 'data') {
+      // Engines streaming to stdout cannot seek back, and leave the size unset
+      if (chunkSize === 0 || chunkSize === 0xffffffff || offset + 8 + chunkSize > buffer.length) {
+        chunkSize = buffer.length - offset - 8;
+      }
+      return byteRate > 0 ? { duration: chunkSize / byteRate, sample_rate: sampleRate, channels } : null;
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
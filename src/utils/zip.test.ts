@@ -0,0 +1,57 @@
+import { inflateRawSync } from 'zlib';
+import { crc32, createZip } from './zip';
+
+/**
+ * Entries read back from the local headers of an archive
+ */
+function readEntries(archive: Buffer): Array<{ name: string; method: number; data: Buffer; crc: number }> {
+  const entries = [];
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const crc = archive.readUInt32LE(offset + 14);
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const body = archive.subarray(offset + 30 + nameLength, offset + 30 + nameLength + compressedSize);
+
+    entries.push({ name, method, crc, data: method === 8 ? inflateRawSync(body) : Buffer.from(body) });
+    offset += 30 + nameLength + compressedSize;
+  }
+
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  const entries = [
+    { name: 'mimetype', data: Buffer.from('application/epub+zip'), store: true },
+    { name: 'OEBPS/chapter.xhtml', data: Buffer.from('<p>Hello</p>'.repeat(50)) }
+  ];
+
+  it('writes entries in order, stored or deflated, with their checksums', () => {
+    const read = readEntries(createZip(entries));
+
+    expect(read.map(entry => [entry.name, entry.method])).toEqual([['mimetype', 0], ['OEBPS/chapter.xhtml', 8]]);
+    read.forEach((entry, index) => {
+      expect(entry.data.equals(entries[index].data)).toBe(true);
+      expect(entry.crc).toBe(crc32(entries[index].data));
+    });
+  });
+
+  it('ends with a central directory listing every entry', () => {
+    const archive = createZip(entries);
+    const end = archive.subarray(archive.length - 22);
+
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(entries.length);
+    expect(archive.readUInt32LE(end.readUInt32LE(16))).toBe(0x02014b50);
+  });
+});
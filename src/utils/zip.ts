@@ -0,0 +1,113 @@
+/**
+ * Minimal ZIP writer for packaging exports such as EPUB
+ */
+
+import { deflateRawSync } from 'zlib';
+
+const LOCAL_HEADER_BYTES = 30;
+const CENTRAL_HEADER_BYTES = 46;
+const END_RECORD_BYTES = 22;
+const VERSION = 20; // 2.0: deflate
+const STORED = 0;
+const DEFLATED = 8;
+
+// zlib.crc32 needs Node 20.15, so checksums use the standard reflected CRC-32 table
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let value = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+  store?: boolean; // keep uncompressed, e.g. an EPUB's mimetype or already-compressed audio
+}
+
+/**
+ * Build a ZIP archive with entries in the given order. Archives over 4 GB
+ * would need ZIP64 records and are refused.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(modified);
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const method = entry.store ? STORED : DEFLATED;
+    const body = entry.store ? entry.data : deflateRawSync(entry.data);
+    const checksum = crc32(entry.data);
+
+    const local = Buffer.alloc(LOCAL_HEADER_BYTES);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(0, 6); // flags
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // extra field length
+
+    const header = Buffer.alloc(CENTRAL_HEADER_BYTES);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(VERSION, 4); // made by
+    header.writeUInt16LE(VERSION, 6); // needed to extract
+    header.writeUInt16LE(0, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(checksum, 16);
+    header.writeUInt32LE(body.length, 20);
+    header.writeUInt32LE(entry.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    // extra, comment, disk number and attributes stay zero
+    header.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, body);
+    central.push(header, name);
+    offset += LOCAL_HEADER_BYTES + name.length + body.length;
+
+    if (offset > 0xffffffff) {
+      throw new Error('Archive too large for ZIP without ZIP64');
+    }
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(END_RECORD_BYTES);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, ...central, end]);
+}
+
+/**
+ * MS-DOS time and date fields, which count from 1980 in two-second steps
+ */
+function dosDateTime(moment: Date): { time: number; date: number } {
+  const year = Math.max(moment.getFullYear(), 1980);
+  return {
+    time: (moment.getHours() << 11) | (moment.getMinutes() << 5) | Math.floor(moment.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((moment.getMonth() + 1) << 5) | moment.getDate()
+  };
+}
+
+/**
+ * CRC-32 as ZIP stores it
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}